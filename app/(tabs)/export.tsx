@@ -7,13 +7,33 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
+import { PRODUCT_GROUPING_LABELS } from '@/constants/fragrances';
+import { VALUATION_METHOD_LABELS } from '@/constants/transactions';
 import { useThemeColor } from '@/hooks/use-theme-color';
-import { getInventoryLedger } from '@/lib/api/transactions';
-import { InventoryLedger } from '@/lib/types';
-import { exportInventoryLedgerToCSV, exportInventoryLedgerToExcel, exportInventoryLedgerToPDF } from '@/lib/utils/exportData';
+import { getProductCategories } from '@/lib/api/products';
+import { getSuppliers } from '@/lib/api/suppliers';
+import { getInventoryLedger, getTransactionsByDateRange, TransactionWithItems } from '@/lib/api/transactions';
+import { InventoryLedger, ProductGrouping, Supplier, ValuationMethod } from '@/lib/types';
+import { summarizeLedgerValuation } from '@/lib/utils/cost';
+import {
+  exportInventoryLedgerToCSV,
+  exportInventoryLedgerToExcel,
+  exportInventoryLedgerToPDF,
+  exportTransactionsToCSV,
+  exportTransactionsToExcel,
+  exportTransactionsToPDF,
+  formatCurrency,
+} from '@/lib/utils/exportData';
 
 type ExportFormat = 'excel' | 'csv' | 'pdf';
 type DateRangePreset = 'today' | 'week' | 'month' | 'year' | 'custom';
+type ReportType = 'ledger' | 'deliveries' | 'sales';
+
+const REPORT_LABELS: Record<ReportType, string> = {
+  ledger: 'Inventory ledger',
+  deliveries: 'Deliveries',
+  sales: 'Sales',
+};
 
 export default function ExportScreen() {
   const insets = useSafeAreaInsets();
@@ -24,7 +44,15 @@ export default function ExportScreen() {
   const [endDate, setEndDate] = useState(endOfMonth(new Date()));
   const [showStartPicker, setShowStartPicker] = useState(false);
   const [showEndPicker, setShowEndPicker] = useState(false);
+  const [reportType, setReportType] = useState<ReportType>('ledger');
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [supplierId, setSupplierId] = useState<number | null>(null);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [category, setCategory] = useState<string | null>(null);
+  const [valuationMethod, setValuationMethod] = useState<ValuationMethod>('fifo');
+  const [grouping, setGrouping] = useState<ProductGrouping>('none');
   const [ledgerData, setLedgerData] = useState<InventoryLedger[]>([]);
+  const [transactionData, setTransactionData] = useState<TransactionWithItems[]>([]);
   const [loading, setLoading] = useState(false);
   const [exporting, setExporting] = useState(false);
 
@@ -63,15 +91,48 @@ export default function ExportScreen() {
     },
   ];
 
+  useEffect(() => {
+    getSuppliers().then(({ data }) => setSuppliers(data || []));
+    getProductCategories().then(({ data }) => setCategories(data || []));
+  }, []);
+
   useEffect(() => {
     fetchLedgerData();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [startDate, endDate]);
+  }, [startDate, endDate, reportType, supplierId, valuationMethod, category]);
 
   const fetchLedgerData = async () => {
     try {
       setLoading(true);
-      const { data, error } = await getInventoryLedger(startDate, endDate);
+
+      if (reportType === 'deliveries') {
+        const { data, error } = await getTransactionsByDateRange(startDate, endDate, 'Delivery', supplierId ?? undefined);
+
+        if (error) {
+          console.error('Error fetching deliveries:', error);
+          Alert.alert('Error', 'Failed to load delivery data.');
+          return;
+        }
+
+        setTransactionData(data || []);
+        return;
+      }
+
+      // Returns are included so the VAT summary and revenue are net of refunds
+      if (reportType === 'sales') {
+        const { data, error } = await getTransactionsByDateRange(startDate, endDate);
+
+        if (error) {
+          console.error('Error fetching sales:', error);
+          Alert.alert('Error', 'Failed to load sales data.');
+          return;
+        }
+
+        setTransactionData((data || []).filter(t => t.transaction_type === 'Sale' || t.transaction_type === 'Return'));
+        return;
+      }
+
+      const { data, error } = await getInventoryLedger(startDate, endDate, supplierId ?? undefined, valuationMethod, category ?? undefined);
 
       if (error) {
         console.error('Error fetching ledger:', error);
@@ -117,8 +178,10 @@ export default function ExportScreen() {
     }
   };
 
+  const ledgerValuation = summarizeLedgerValuation(ledgerData);
+
   const handleExport = async (formatType: ExportFormat) => {
-    if (ledgerData.length === 0) {
+    if (reportType === 'ledger' ? ledgerData.length === 0 : transactionData.length === 0) {
       Alert.alert('No Data', 'There is no inventory data to export for the selected date range.');
       return;
     }
@@ -127,20 +190,34 @@ export default function ExportScreen() {
       setExporting(true);
       let result;
 
-      switch (formatType) {
-        case 'csv':
-          result = await exportInventoryLedgerToCSV(ledgerData, startDate, endDate);
-          break;
-        case 'excel':
-          result = await exportInventoryLedgerToExcel(ledgerData, startDate, endDate);
-          break;
-        case 'pdf':
-          result = await exportInventoryLedgerToPDF(ledgerData, startDate, endDate);
-          break;
+      if (reportType !== 'ledger') {
+        switch (formatType) {
+          case 'csv':
+            result = await exportTransactionsToCSV(transactionData);
+            break;
+          case 'excel':
+            result = await exportTransactionsToExcel(transactionData);
+            break;
+          case 'pdf':
+            result = await exportTransactionsToPDF(transactionData);
+            break;
+        }
+      } else {
+        switch (formatType) {
+          case 'csv':
+            result = await exportInventoryLedgerToCSV(ledgerData, startDate, endDate, valuationMethod, grouping, category);
+            break;
+          case 'excel':
+            result = await exportInventoryLedgerToExcel(ledgerData, startDate, endDate, valuationMethod, grouping, category);
+            break;
+          case 'pdf':
+            result = await exportInventoryLedgerToPDF(ledgerData, startDate, endDate, valuationMethod, grouping, category);
+            break;
+        }
       }
 
       if (result.success) {
-        Alert.alert('Success', `Inventory ledger exported to ${formatType.toUpperCase()} format successfully!`);
+        Alert.alert('Success', `${REPORT_LABELS[reportType]} exported to ${formatType.toUpperCase()} format successfully!`);
       } else {
         Alert.alert('Export Failed', result.error || 'Failed to export data.');
       }
@@ -174,7 +251,38 @@ export default function ExportScreen() {
         {/* Header */}
         <View style={styles.header}>
           <ThemedText type="title" style={styles.title}>Export Data</ThemedText>
-          <ThemedText style={styles.subtitle}>Inventory ledger export</ThemedText>
+          <ThemedText style={styles.subtitle}>Inventory ledger and delivery export</ThemedText>
+        </View>
+
+        {/* Report Type */}
+        <View style={styles.section}>
+          <ThemedText style={styles.sectionLabel}>Report</ThemedText>
+          <View style={styles.presetScroll}>
+            {([
+              { id: 'ledger' as ReportType, label: 'Inventory Ledger', icon: 'document-text-outline' },
+              { id: 'deliveries' as ReportType, label: 'Deliveries', icon: 'arrow-down-circle-outline' },
+              { id: 'sales' as ReportType, label: 'Sales', icon: 'arrow-up-circle-outline' },
+            ]).map((report) => (
+              <TouchableOpacity
+                key={report.id}
+                style={[
+                  styles.presetButton,
+                  reportType === report.id && { backgroundColor: tintColor, borderColor: tintColor }
+                ]}
+                onPress={() => setReportType(report.id)}
+                activeOpacity={0.7}
+              >
+                <Ionicons
+                  name={report.icon as any}
+                  size={18}
+                  color={reportType === report.id ? '#fff' : tintColor}
+                />
+                <ThemedText style={[styles.presetText, reportType === report.id && styles.presetTextActive]}>
+                  {report.label}
+                </ThemedText>
+              </TouchableOpacity>
+            ))}
+          </View>
         </View>
 
         {/* Date Range Presets */}
@@ -239,25 +347,154 @@ export default function ExportScreen() {
           </View>
         )}
 
+        {/* Supplier Filter */}
+        {suppliers.length > 0 && reportType !== 'sales' && (
+          <View style={styles.section}>
+            <ThemedText style={styles.sectionLabel}>Supplier</ThemedText>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.presetScroll}>
+              {[{ id: null, name: 'All Suppliers' }, ...suppliers].map((supplier) => (
+                <TouchableOpacity
+                  key={supplier.id ?? 'all'}
+                  style={[
+                    styles.presetButton,
+                    supplierId === supplier.id && { backgroundColor: tintColor, borderColor: tintColor }
+                  ]}
+                  onPress={() => setSupplierId(supplier.id)}
+                  activeOpacity={0.7}
+                >
+                  <ThemedText style={[styles.presetText, supplierId === supplier.id && styles.presetTextActive]}>
+                    {supplier.name}
+                  </ThemedText>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </View>
+        )}
+
+        {/* Category Filter */}
+        {categories.length > 0 && reportType === 'ledger' && (
+          <View style={styles.section}>
+            <ThemedText style={styles.sectionLabel}>Category</ThemedText>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.presetScroll}>
+              {[null, ...categories].map((option) => (
+                <TouchableOpacity
+                  key={option ?? 'all'}
+                  style={[
+                    styles.presetButton,
+                    category === option && { backgroundColor: tintColor, borderColor: tintColor }
+                  ]}
+                  onPress={() => setCategory(option)}
+                  activeOpacity={0.7}
+                >
+                  <ThemedText style={[styles.presetText, category === option && styles.presetTextActive]}>
+                    {option ?? 'All Categories'}
+                  </ThemedText>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </View>
+        )}
+
+        {/* Valuation Method */}
+        {reportType === 'ledger' && (
+          <View style={styles.section}>
+            <ThemedText style={styles.sectionLabel}>Valuation</ThemedText>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.presetScroll}>
+              {(Object.keys(VALUATION_METHOD_LABELS) as ValuationMethod[]).map((method) => (
+                <TouchableOpacity
+                  key={method}
+                  style={[
+                    styles.presetButton,
+                    valuationMethod === method && { backgroundColor: tintColor, borderColor: tintColor }
+                  ]}
+                  onPress={() => setValuationMethod(method)}
+                  activeOpacity={0.7}
+                >
+                  <ThemedText style={[styles.presetText, valuationMethod === method && styles.presetTextActive]}>
+                    {VALUATION_METHOD_LABELS[method]}
+                  </ThemedText>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </View>
+        )}
+
+        {/* Subtotal Grouping */}
+        {reportType === 'ledger' && (
+          <View style={styles.section}>
+            <ThemedText style={styles.sectionLabel}>Subtotal By</ThemedText>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.presetScroll}>
+              {(Object.keys(PRODUCT_GROUPING_LABELS) as ProductGrouping[]).map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[
+                    styles.presetButton,
+                    grouping === option && { backgroundColor: tintColor, borderColor: tintColor }
+                  ]}
+                  onPress={() => setGrouping(option)}
+                  activeOpacity={0.7}
+                >
+                  <ThemedText style={[styles.presetText, grouping === option && styles.presetTextActive]}>
+                    {PRODUCT_GROUPING_LABELS[option]}
+                  </ThemedText>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </View>
+        )}
+
         {/* Summary Card */}
         {loading ? (
           <View style={styles.loadingContainer}>
             <ActivityIndicator size="large" color={tintColor} />
-            <ThemedText style={{ marginTop: 16 }}>Loading ledger data...</ThemedText>
+            <ThemedText style={{ marginTop: 16 }}>
+              {reportType === 'ledger' ? 'Loading ledger data...' : `Loading ${REPORT_LABELS[reportType].toLowerCase()}...`}
+            </ThemedText>
           </View>
         ) : (
           <ThemedView style={styles.summaryCard}>
             <View style={styles.summaryHeader}>
               <Ionicons name="document-text-outline" size={24} color={tintColor} />
-              <ThemedText type="subtitle" style={styles.summaryTitle}>Ledger Summary</ThemedText>
+              <ThemedText type="subtitle" style={styles.summaryTitle}>
+                {reportType === 'deliveries' ? 'Delivery Summary' : reportType === 'sales' ? 'Sales Summary' : 'Ledger Summary'}
+              </ThemedText>
             </View>
             <View style={styles.summaryContent}>
-              <ThemedText style={styles.summaryValue}>{ledgerData.length}</ThemedText>
-              <ThemedText style={styles.summaryLabel}>Products in Ledger</ThemedText>
+              <ThemedText style={styles.summaryValue}>
+                {reportType === 'ledger' ? ledgerData.length : transactionData.length}
+              </ThemedText>
+              <ThemedText style={styles.summaryLabel}>
+                {reportType === 'deliveries' ? 'Deliveries' : reportType === 'sales' ? 'Sales & Returns' : 'Products in Ledger'}
+              </ThemedText>
             </View>
+            {reportType === 'ledger' && ledgerData.length > 0 && (
+              <View style={styles.valuationGrid}>
+                {[
+                  { label: 'Beginning Value', value: ledgerValuation.beginningValue },
+                  { label: 'Ending Value', value: ledgerValuation.endingValue },
+                  { label: 'COGS', value: ledgerValuation.costOfGoodsSold },
+                  { label: 'Gross Profit', value: ledgerValuation.grossProfit },
+                ].map((total) => (
+                  <View key={total.label} style={styles.valuationItem}>
+                    <ThemedText style={styles.valuationValue}>{formatCurrency(total.value)}</ThemedText>
+                    <ThemedText style={styles.summaryLabel}>{total.label}</ThemedText>
+                  </View>
+                ))}
+              </View>
+            )}
+            {reportType === 'ledger' && (ledgerValuation.unvalued > 0 || ledgerValuation.uncosted > 0) && (
+              <ThemedText style={styles.valuationNote}>
+                Left out: {[
+                  ledgerValuation.unvalued > 0 ? `${ledgerValuation.unvalued} product(s) with stock of unknown cost` : '',
+                  ledgerValuation.uncosted > 0 ? `${ledgerValuation.uncosted} product(s) with uncosted sales` : '',
+                ].filter(Boolean).join('; ')}
+              </ThemedText>
+            )}
             <View style={styles.dateRangeInfo}>
               <ThemedText style={styles.dateRangeText}>
                 {format(startDate, 'MMM dd, yyyy')} - {format(endDate, 'MMM dd, yyyy')}
+                {reportType === 'ledger' ? ` • ${VALUATION_METHOD_LABELS[valuationMethod]}` : ''}
+                {reportType === 'ledger' && category ? ` • ${category}` : ''}
               </ThemedText>
             </View>
           </ThemedView>
@@ -304,7 +541,11 @@ export default function ExportScreen() {
         <ThemedView style={styles.infoCard}>
           <Ionicons name="information-circle-outline" size={20} color={tintColor} />
           <ThemedText style={styles.infoText}>
-            Export includes inventory ledger with columns: Product | ML | Beg Inv | Deliveries | Sales | End Inv | Value
+            {reportType === 'deliveries'
+              ? 'Export includes every delivery line with its supplier, quantity, unit price and reference'
+              : reportType === 'sales'
+              ? 'Export includes every sale and return line with discounts, VAT, payments and gross profit, plus VAT, daily payment and gross profit summaries'
+              : 'Export includes inventory ledger with columns: Product | Brand | Category | ML | Supplier | Beg Inv | Deliveries | Sales | Returns | Adjustments | End Inv | Beg Value | End Value | Revenue | COGS | Gross Profit, valued at cost by the selected method and optionally subtotalled by fragrance or brand'}
           </ThemedText>
         </ThemedView>
       </ScrollView>
@@ -474,6 +715,26 @@ const styles = StyleSheet.create({
     fontSize: 14,
     opacity: 0.6,
   },
+  valuationGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 12,
+  },
+  valuationItem: {
+    width: '50%',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  valuationValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  valuationNote: {
+    fontSize: 12,
+    opacity: 0.6,
+    textAlign: 'center',
+    marginBottom: 12,
+  },
   dateRangeInfo: {
     alignItems: 'center',
     paddingTop: 12,
@@ -56,6 +56,13 @@ export default function HomeScreen() {
           fetchProducts(); // Refresh data when new transaction is created
         }
       )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'inventory_transaction' },
+        () => {
+          fetchProducts(); // Cancelling a transaction changes stock too
+        }
+      )
       .subscribe();
 
     return () => {
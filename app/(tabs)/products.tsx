@@ -1,25 +1,54 @@
 import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
 import { useCallback, useEffect, useState } from 'react';
-import { ActivityIndicator, Alert, FlatList, Modal, RefreshControl, ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+import { ActivityIndicator, Alert, Modal, RefreshControl, ScrollView, SectionList, StyleSheet, Switch, TextInput, TouchableOpacity, View } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 import { BarcodeGenerator } from '@/components/barcode-generator';
 import { BarcodeScanner } from '@/components/barcode-scanner';
+import { ProductPhotos } from '@/components/product-photos';
+import { ProductPriceHistory } from '@/components/product-price-history';
+import { ProductSuppliers } from '@/components/product-suppliers';
+import { ProductThumbnail } from '@/components/product-thumbnail';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
+import { CONCENTRATION_LABELS, GENDER_LABELS, PRODUCT_GROUPING_LABELS } from '@/constants/fragrances';
 import { useThemeColor } from '@/hooks/use-theme-color';
-import { createProduct, deleteProduct, getProducts, searchProducts, updateProduct } from '@/lib/api/products';
-import { CurrentStock, Product } from '@/lib/types';
+import { getFragrances } from '@/lib/api/fragrances';
+import {
+  archiveProduct,
+  createProduct,
+  deleteProduct,
+  getProducts,
+  getProductTransactionCount,
+  restoreProduct,
+  searchProducts,
+  updateProduct,
+} from '@/lib/api/products';
+import { getSuppliers } from '@/lib/api/suppliers';
+import { CurrentStock, Fragrance, Product, ProductGrouping, Supplier } from '@/lib/types';
+import { matchesSku, matchesUnitBarcode } from '@/lib/utils/barcode';
+import { calculateMargin } from '@/lib/utils/cost';
+import { getCategoryOptions, getTagOptions, parseTags } from '@/lib/utils/categories';
+import { formatFragranceName, groupProducts } from '@/lib/utils/fragrances';
 
 type ProductFormData = {
   sku: string;
   name: string;
   volume_ml: string;
   price: string;
+  cost: string;
   min_stock_threshold: string;
   description: string;
+  preferred_supplier_id: number | null;
+  vat_exempt: boolean;
+  fragrance_id: number | null;
+  category: string;
+  tags: string;  // Comma-separated while editing
 };
 
+const GROUPINGS = Object.keys(PRODUCT_GROUPING_LABELS) as ProductGrouping[];
+
 export default function ProductsScreen() {
   const insets = useSafeAreaInsets();
   const tintColor = useThemeColor({}, 'tint');
@@ -30,6 +59,10 @@ export default function ProductsScreen() {
   const [refreshing, setRefreshing] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [searchTimeout, setSearchTimeout] = useState<ReturnType<typeof setTimeout> | null>(null);
+  const [grouping, setGrouping] = useState<ProductGrouping>('none');
+  const [categoryFilter, setCategoryFilter] = useState<string | null>(null);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
 
   // Modal states
   const [showModal, setShowModal] = useState(false);
@@ -39,9 +72,17 @@ export default function ProductsScreen() {
     name: '',
     volume_ml: '',
     price: '',
+    cost: '',
     min_stock_threshold: '5',
     description: '',
+    preferred_supplier_id: null,
+    vat_exempt: false,
+    fragrance_id: null,
+    category: '',
+    tags: '',
   });
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [fragrances, setFragrances] = useState<Fragrance[]>([]);
   const [saving, setSaving] = useState(false);
   
   // Barcode states
@@ -76,7 +117,7 @@ export default function ProductsScreen() {
   const fetchProducts = async () => {
     try {
       setLoading(true);
-      const { data, error } = await getProducts();
+      const { data, error } = await getProducts(showArchived);
 
       if (error) {
         console.error('Error fetching products:', error);
@@ -106,7 +147,7 @@ export default function ProductsScreen() {
 
       try {
         setLoading(true);
-        const { data, error } = await searchProducts(query);
+        const { data, error } = await searchProducts(query, showArchived);
 
         if (error) {
           console.error('Error searching products:', error);
@@ -124,12 +165,24 @@ export default function ProductsScreen() {
     }, 500);
 
     setSearchTimeout(timeout);
-  }, [searchTimeout]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchTimeout, showArchived]);
 
   useEffect(() => {
-    fetchProducts();
+    getSuppliers().then(({ data }) => setSuppliers(data || []));
+    getFragrances().then(({ data }) => setFragrances(data || []));
   }, []);
 
+  // Also runs on mount, so this is the initial load
+  useEffect(() => {
+    if (searchQuery.trim()) {
+      handleSearch(searchQuery);
+    } else {
+      fetchProducts();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [showArchived]);
+
   useEffect(() => {
     return () => {
       if (searchTimeout) {
@@ -151,8 +204,14 @@ export default function ProductsScreen() {
       name: '',
       volume_ml: '',
       price: '',
+      cost: '',
       min_stock_threshold: '5',
       description: '',
+      preferred_supplier_id: null,
+      vat_exempt: false,
+      fragrance_id: null,
+      category: '',
+      tags: '',
     });
     setShowModal(true);
   };
@@ -164,12 +223,50 @@ export default function ProductsScreen() {
       name: product.name,
       volume_ml: String(product.volume_ml),
       price: String(product.price),
+      cost: product.cost !== null ? String(product.cost) : '',
       min_stock_threshold: String(product.min_stock_threshold),
       description: product.description || '',
+      preferred_supplier_id: product.preferred_supplier_id,
+      vat_exempt: product.vat_exempt,
+      fragrance_id: product.fragrance_id,
+      category: product.category || '',
+      tags: product.tags.join(', '),
     });
     setShowModal(true);
   };
 
+  // New bottle size of an existing product: everything but SKU, volume and price carries over
+  const openAddSizeModal = (product: CurrentStock) => {
+    setEditingProduct(null);
+    setFormData({
+      sku: '',
+      name: product.name,
+      volume_ml: '',
+      price: '',
+      cost: '',
+      min_stock_threshold: String(product.min_stock_threshold),
+      description: product.description || '',
+      preferred_supplier_id: product.preferred_supplier_id,
+      vat_exempt: product.vat_exempt,
+      fragrance_id: product.fragrance_id,
+      category: product.category || '',
+      tags: product.tags.join(', '),
+    });
+    setShowModal(true);
+  };
+
+  const handleSelectFragrance = (fragrance: Fragrance) => {
+    const selected = formData.fragrance_id === fragrance.id;
+    setFormData({
+      ...formData,
+      fragrance_id: selected ? null : fragrance.id,
+      // Name the product after the fragrance unless it already has a name
+      name: !selected && !formData.name.trim()
+        ? formatFragranceName({ name: fragrance.name, brand: fragrance.brand })
+        : formData.name,
+    });
+  };
+
   const closeModal = () => {
     setShowModal(false);
     setEditingProduct(null);
@@ -178,8 +275,14 @@ export default function ProductsScreen() {
       name: '',
       volume_ml: '',
       price: '',
+      cost: '',
       min_stock_threshold: '5',
       description: '',
+      preferred_supplier_id: null,
+      vat_exempt: false,
+      fragrance_id: null,
+      category: '',
+      tags: '',
     });
   };
 
@@ -198,6 +301,7 @@ export default function ProductsScreen() {
     const volumeNum = parseFloat(formData.volume_ml);
     const priceNum = parseFloat(formData.price);
     const thresholdNum = parseInt(formData.min_stock_threshold);
+    const costNum = formData.cost.trim() ? parseFloat(formData.cost) : null;
 
     if (isNaN(volumeNum) || volumeNum <= 0) {
       Alert.alert('Validation Error', 'Volume must be a positive number.');
@@ -209,6 +313,11 @@ export default function ProductsScreen() {
       return;
     }
 
+    if (costNum !== null && (isNaN(costNum) || costNum < 0)) {
+      Alert.alert('Validation Error', 'Cost must be a valid number.');
+      return;
+    }
+
     if (isNaN(thresholdNum) || thresholdNum < 0) {
       Alert.alert('Validation Error', 'Min Stock Threshold must be a valid number.');
       return;
@@ -223,8 +332,14 @@ export default function ProductsScreen() {
           name: formData.name.trim(),
           volume_ml: volumeNum,
           price: priceNum,
+          cost: costNum,
           min_stock_threshold: thresholdNum,
           description: formData.description.trim() || null,
+          preferred_supplier_id: formData.preferred_supplier_id,
+          vat_exempt: formData.vat_exempt,
+          fragrance_id: formData.fragrance_id,
+          category: formData.category,
+          tags: parseTags(formData.tags),
         };
 
         const { error } = await updateProduct(editingProduct.sku, updates);
@@ -237,13 +352,19 @@ export default function ProductsScreen() {
         Alert.alert('Success', 'Product updated successfully!');
       } else {
         // Create new product
-        const newProduct: Omit<Product, 'created_at' | 'updated_at' | 'created_by'> = {
+        const newProduct: Omit<Product, 'created_at' | 'updated_at' | 'created_by' | 'archived_at'> = {
           sku: formData.sku.trim().toUpperCase(),
           name: formData.name.trim(),
           volume_ml: volumeNum,
           price: priceNum,
+          cost: costNum,
           min_stock_threshold: thresholdNum,
           description: formData.description.trim() || null,
+          preferred_supplier_id: formData.preferred_supplier_id,
+          vat_exempt: formData.vat_exempt,
+          fragrance_id: formData.fragrance_id,
+          category: formData.category,
+          tags: parseTags(formData.tags),
         };
 
         const { error } = await createProduct(newProduct);
@@ -266,36 +387,81 @@ export default function ProductsScreen() {
     }
   };
 
-  const handleDelete = (product: CurrentStock) => {
+  const runProductAction = async (
+    action: () => Promise<{ error: any }>,
+    failureMessage: string,
+    successMessage: string
+  ) => {
+    try {
+      const { error } = await action();
+
+      if (error) {
+        Alert.alert('Error', error.message || failureMessage);
+        return;
+      }
+
+      Alert.alert('Success', successMessage);
+      await fetchProducts();
+    } catch (error: any) {
+      console.error('Error updating product:', error);
+      Alert.alert('Error', error?.message || 'An unexpected error occurred.');
+    }
+  };
+
+  // Products with transactions can only be archived so their history stays intact
+  const handleDelete = async (product: CurrentStock) => {
+    const { data: transactionCount, error } = await getProductTransactionCount(product.sku);
+
+    if (error) {
+      Alert.alert('Error', error.message || 'Failed to check product history.');
+      return;
+    }
+
+    const archiveButton = {
+      text: 'Archive',
+      onPress: () => runProductAction(
+        () => archiveProduct(product.sku),
+        'Failed to archive product.',
+        'Product archived. It is hidden from lists but its history is kept.'
+      ),
+    };
+
+    if (transactionCount) {
+      Alert.alert(
+        'Archive Product',
+        `"${product.name}" has ${transactionCount} transaction ${transactionCount === 1 ? 'line' : 'lines'} and cannot be deleted. Archive it instead? It can be restored later.`,
+        [{ text: 'Cancel', style: 'cancel' }, archiveButton]
+      );
+      return;
+    }
+
     Alert.alert(
       'Delete Product',
-      `Are you sure you want to delete "${product.name}"? This action cannot be undone.`,
+      `"${product.name}" has no transactions. Archive it, or delete it permanently? Deleting cannot be undone.`,
       [
         { text: 'Cancel', style: 'cancel' },
+        archiveButton,
         {
           text: 'Delete',
           style: 'destructive',
-          onPress: async () => {
-            try {
-              const { error } = await deleteProduct(product.sku);
-
-              if (error) {
-                Alert.alert('Error', error.message || 'Failed to delete product.');
-                return;
-              }
-
-              Alert.alert('Success', 'Product deleted successfully!');
-              await fetchProducts();
-            } catch (error: any) {
-              console.error('Error deleting product:', error);
-              Alert.alert('Error', error?.message || 'An unexpected error occurred.');
-            }
-          },
+          onPress: () => runProductAction(
+            () => deleteProduct(product.sku),
+            'Failed to delete product.',
+            'Product deleted successfully!'
+          ),
         },
       ]
     );
   };
 
+  const handleRestore = (product: CurrentStock) => {
+    runProductAction(
+      () => restoreProduct(product.sku),
+      'Failed to restore product.',
+      'Product restored successfully!'
+    );
+  };
+
   const handleShowBarcode = (product: CurrentStock) => {
     setBarcodeProduct(product);
     setShowBarcodeGenerator(true);
@@ -309,7 +475,7 @@ export default function ProductsScreen() {
     
     // Try to find product by base barcode match (SKU + volume)
     const productByBarcode = products.find(
-      p => `${p.sku}-${p.volume_ml}ml` === baseBarcode
+      p => matchesUnitBarcode(p, baseBarcode)
     );
     
     if (productByBarcode) {
@@ -328,7 +494,7 @@ export default function ProductsScreen() {
     const skuPart = volumeMatch ? baseBarcode.replace(/-(\d+)ml$/, '') : baseBarcode;
     
     // Try to find by SKU only
-    const productBySku = products.find(p => p.sku.toLowerCase() === skuPart.toLowerCase());
+    const productBySku = products.find(p => matchesSku(p, skuPart));
     
     if (productBySku) {
       setSearchQuery(productBySku.sku);
@@ -354,14 +520,27 @@ export default function ProductsScreen() {
 
   const renderProductCard = ({ item }: { item: CurrentStock }) => {
     const isLowStock = item.quantity_on_hand <= item.min_stock_threshold;
+    const margin = calculateMargin(item.price, item.cost);
+    const isArchived = item.archived_at !== null;
 
     return (
-      <TouchableOpacity activeOpacity={0.7} onLongPress={() => openEditModal(item)}>
-        <ThemedView style={[styles.productCard, styles.card]}>
+      <TouchableOpacity
+        activeOpacity={0.7}
+        onPress={() => router.push(`/product/${encodeURIComponent(item.sku)}` as any)}
+        onLongPress={() => openEditModal(item)}
+      >
+        <ThemedView style={[styles.productCard, styles.card, isArchived && styles.archivedCard]}>
           {/* Header with SKU and Volume */}
           <View style={styles.cardHeader}>
-            <View style={styles.skuBadge}>
-              <ThemedText style={styles.skuText}>{item.sku}</ThemedText>
+            <View style={styles.skuRow}>
+              <View style={styles.skuBadge}>
+                <ThemedText style={styles.skuText}>{item.sku}</ThemedText>
+              </View>
+              {isArchived && (
+                <View style={styles.archivedBadge}>
+                  <ThemedText style={styles.archivedText}>Archived</ThemedText>
+                </View>
+              )}
             </View>
             <View style={styles.cardHeaderRight}>
               <View style={[styles.volumeBadge, { backgroundColor: tintColor + '20' }]}>
@@ -373,17 +552,58 @@ export default function ProductsScreen() {
               <TouchableOpacity onPress={() => handleShowBarcode(item)} style={styles.iconButton}>
                 <Ionicons name="barcode-outline" size={20} color={tintColor} />
               </TouchableOpacity>
+              {!isArchived && (
+                <TouchableOpacity onPress={() => openAddSizeModal(item)} style={styles.iconButton}>
+                  <Ionicons name="add-circle-outline" size={20} color={tintColor} />
+                </TouchableOpacity>
+              )}
               <TouchableOpacity onPress={() => openEditModal(item)} style={styles.iconButton}>
                 <Ionicons name="create-outline" size={20} color={tintColor} />
               </TouchableOpacity>
-              <TouchableOpacity onPress={() => handleDelete(item)} style={styles.iconButton}>
-                <Ionicons name="trash-outline" size={20} color="#EF4444" />
-              </TouchableOpacity>
+              {isArchived ? (
+                <TouchableOpacity onPress={() => handleRestore(item)} style={styles.iconButton}>
+                  <Ionicons name="arrow-undo-outline" size={20} color={tintColor} />
+                </TouchableOpacity>
+              ) : (
+                <TouchableOpacity onPress={() => handleDelete(item)} style={styles.iconButton}>
+                  <Ionicons name="trash-outline" size={20} color="#EF4444" />
+                </TouchableOpacity>
+              )}
             </View>
           </View>
 
-          {/* Product Name */}
-          <ThemedText style={styles.productName}>{item.name}</ThemedText>
+          {/* Photo and Product Name */}
+          <View style={styles.nameRow}>
+            <ProductThumbnail path={item.image_path} size={56} />
+            <View style={styles.nameInfo}>
+              <ThemedText style={styles.productName}>{item.name}</ThemedText>
+              {(item.brand || item.concentration || item.gender) && (
+                <ThemedText style={styles.fragranceText}>
+                  {[
+                    item.brand,
+                    item.concentration && CONCENTRATION_LABELS[item.concentration],
+                    item.gender && GENDER_LABELS[item.gender],
+                  ].filter(Boolean).join(' • ')}
+                </ThemedText>
+              )}
+            </View>
+          </View>
+
+          {/* Category and Tags */}
+          {(item.category || item.tags.length > 0) && (
+            <View style={styles.tagRow}>
+              {item.category && (
+                <View style={[styles.tagBadge, { backgroundColor: tintColor + '20' }]}>
+                  <ThemedText style={[styles.tagText, { color: tintColor }]}>{item.category}</ThemedText>
+                </View>
+              )}
+              {item.tags.map(tag => (
+                <View key={tag} style={styles.tagBadge}>
+                  <ThemedText style={styles.tagText}>#{tag}</ThemedText>
+                </View>
+              ))}
+            </View>
+          )}
 
           {/* Stock and Price Info */}
           <View style={styles.cardFooter}>
@@ -400,6 +620,17 @@ export default function ProductsScreen() {
             <ThemedText style={styles.priceText}>₱{item.price.toFixed(2)}</ThemedText>
           </View>
 
+          {/* Cost and Margin */}
+          {margin && item.cost !== null && (
+            <View style={styles.marginRow}>
+              <ThemedText style={styles.marginText}>Cost ₱{item.cost.toFixed(2)}</ThemedText>
+              <ThemedText style={[styles.marginText, margin.profit < 0 && styles.lowStockText]}>
+                Margin {margin.margin.toFixed(1)}%
+                {margin.markup !== null ? ` • Markup ${margin.markup.toFixed(1)}%` : ''}
+              </ThemedText>
+            </View>
+          )}
+
           {/* Low Stock Warning */}
           {isLowStock && (
             <View style={styles.lowStockBanner}>
@@ -414,13 +645,39 @@ export default function ProductsScreen() {
     );
   };
 
+  const categoryOptions = getCategoryOptions(products);
+  const tagOptions = getTagOptions(products);
+  const filteredProducts = products.filter(product =>
+    (categoryFilter === null || product.category?.toLowerCase() === categoryFilter.toLowerCase()) &&
+    (tagFilter === null || product.tags.includes(tagFilter))
+  );
+  const sections = groupProducts(filteredProducts, grouping).map(group => ({ ...group, data: group.items }));
+
+  const renderSectionHeader = ({ section }: { section: typeof sections[number] }) => {
+    if (grouping === 'none') {
+      return null;
+    }
+
+    const units = section.data.reduce((sum, item) => sum + item.quantity_on_hand, 0);
+    const value = section.data.reduce((sum, item) => sum + item.total_value, 0);
+
+    return (
+      <ThemedView style={styles.sectionHeader}>
+        <ThemedText style={styles.sectionTitle}>{section.label}</ThemedText>
+        <ThemedText style={styles.sectionSubtotal}>
+          {section.data.length} {section.data.length === 1 ? 'size' : 'sizes'} • {units} units • ₱{value.toFixed(2)}
+        </ThemedText>
+      </ThemedView>
+    );
+  };
+
   return (
     <ThemedView style={[styles.container, { paddingTop: insets.top }]}>
       {/* Header */}
       <View style={styles.header}>
         <ThemedText type="title" style={styles.title}>Products</ThemedText>
         <ThemedText style={styles.subtitle}>
-          {products.length} {products.length === 1 ? 'product' : 'products'}
+          {filteredProducts.length} {filteredProducts.length === 1 ? 'product' : 'products'}
         </ThemedText>
       </View>
 
@@ -430,7 +687,7 @@ export default function ProductsScreen() {
           <Ionicons name="search-outline" size={20} color={tintColor} />
           <TextInput
             style={[styles.searchInput, { color: textColor }]}
-            placeholder="Search by name or SKU..."
+            placeholder="Search by name, SKU or brand..."
             placeholderTextColor="#9CA3AF"
             value={searchQuery}
             onChangeText={(text) => {
@@ -455,6 +712,83 @@ export default function ProductsScreen() {
         </TouchableOpacity>
       </View>
 
+      {/* Grouping */}
+      <View style={[styles.chipRow, styles.groupingRow]}>
+        {GROUPINGS.map(option => {
+          const selected = grouping === option;
+          return (
+            <TouchableOpacity
+              key={option}
+              style={[
+                styles.chip,
+                { borderColor: tintColor + '40' },
+                selected && { backgroundColor: tintColor, borderColor: tintColor },
+              ]}
+              onPress={() => setGrouping(option)}
+            >
+              <ThemedText style={[styles.chipText, selected && styles.chipTextActive]}>
+                {PRODUCT_GROUPING_LABELS[option]}
+              </ThemedText>
+            </TouchableOpacity>
+          );
+        })}
+        <TouchableOpacity
+          style={[
+            styles.chip,
+            styles.archivedChip,
+            { borderColor: tintColor + '40' },
+            showArchived && { backgroundColor: tintColor, borderColor: tintColor },
+          ]}
+          onPress={() => setShowArchived(!showArchived)}
+        >
+          <Ionicons name="archive-outline" size={14} color={showArchived ? '#fff' : tintColor} />
+          <ThemedText style={[styles.chipText, showArchived && styles.chipTextActive]}>Archived</ThemedText>
+        </TouchableOpacity>
+      </View>
+
+      {/* Category and Tag Filters */}
+      {(categoryOptions.length > 0 || tagOptions.length > 0) && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.filterScroll}
+          contentContainerStyle={styles.filterRow}
+        >
+          {categoryOptions.map(category => {
+            const selected = categoryFilter === category;
+            return (
+              <TouchableOpacity
+                key={`category:${category}`}
+                style={[
+                  styles.chip,
+                  { borderColor: tintColor + '40' },
+                  selected && { backgroundColor: tintColor, borderColor: tintColor },
+                ]}
+                onPress={() => setCategoryFilter(selected ? null : category)}
+              >
+                <ThemedText style={[styles.chipText, selected && styles.chipTextActive]}>{category}</ThemedText>
+              </TouchableOpacity>
+            );
+          })}
+          {tagOptions.map(tag => {
+            const selected = tagFilter === tag;
+            return (
+              <TouchableOpacity
+                key={`tag:${tag}`}
+                style={[
+                  styles.chip,
+                  { borderColor: tintColor + '40' },
+                  selected && { backgroundColor: tintColor, borderColor: tintColor },
+                ]}
+                onPress={() => setTagFilter(selected ? null : tag)}
+              >
+                <ThemedText style={[styles.chipText, selected && styles.chipTextActive]}>#{tag}</ThemedText>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      )}
+
       {/* Products List */}
       {loading && products.length === 0 ? (
         <View style={styles.loadingContainer}>
@@ -462,9 +796,11 @@ export default function ProductsScreen() {
           <ThemedText style={{ marginTop: 16 }}>Loading products...</ThemedText>
         </View>
       ) : (
-        <FlatList
-          data={products}
+        <SectionList
+          sections={sections}
           renderItem={renderProductCard}
+          renderSectionHeader={renderSectionHeader}
+          stickySectionHeadersEnabled={false}
           keyExtractor={item => item.sku}
           contentContainerStyle={styles.list}
           showsVerticalScrollIndicator={false}
@@ -476,7 +812,7 @@ export default function ProductsScreen() {
               <Ionicons name="cube-outline" size={64} color="#9CA3AF" />
               <ThemedText style={styles.emptyText}>No products found</ThemedText>
               <ThemedText style={styles.emptySubtext}>
-                Try adjusting your search
+                Try adjusting your search or filters
               </ThemedText>
             </ThemedView>
           }
@@ -552,6 +888,79 @@ export default function ProductsScreen() {
                 />
               </View>
 
+              {/* Fragrance */}
+              {fragrances.length > 0 && (
+                <View style={styles.formGroup}>
+                  <ThemedText style={styles.label}>Fragrance</ThemedText>
+                  <View style={styles.chipRow}>
+                    {fragrances.map(fragrance => {
+                      const selected = formData.fragrance_id === fragrance.id;
+                      return (
+                        <TouchableOpacity
+                          key={fragrance.id}
+                          style={[
+                            styles.chip,
+                            { borderColor: tintColor + '40' },
+                            selected && { backgroundColor: tintColor, borderColor: tintColor },
+                          ]}
+                          onPress={() => handleSelectFragrance(fragrance)}
+                        >
+                          <ThemedText style={[styles.chipText, selected && styles.chipTextActive]}>
+                            {formatFragranceName(fragrance)}
+                          </ThemedText>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </View>
+              )}
+
+              {/* Category */}
+              <View style={styles.formGroup}>
+                <ThemedText style={styles.label}>Category</ThemedText>
+                <View style={styles.chipRow}>
+                  {getCategoryOptions(products, true).map(category => {
+                    const selected = formData.category.trim().toLowerCase() === category.toLowerCase();
+                    return (
+                      <TouchableOpacity
+                        key={category}
+                        style={[
+                          styles.chip,
+                          { borderColor: tintColor + '40' },
+                          selected && { backgroundColor: tintColor, borderColor: tintColor },
+                        ]}
+                        onPress={() => setFormData({ ...formData, category: selected ? '' : category })}
+                      >
+                        <ThemedText style={[styles.chipText, selected && styles.chipTextActive]}>
+                          {category}
+                        </ThemedText>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+                <TextInput
+                  style={[styles.input, styles.categoryInput, { borderColor: tintColor + '40', color: textColor }]}
+                  value={formData.category}
+                  onChangeText={(text) => setFormData({ ...formData, category: text })}
+                  placeholder="Or type a new category"
+                  placeholderTextColor="#9CA3AF"
+                  maxLength={50}
+                />
+              </View>
+
+              {/* Tags */}
+              <View style={styles.formGroup}>
+                <ThemedText style={styles.label}>Tags</ThemedText>
+                <TextInput
+                  style={[styles.input, { borderColor: tintColor + '40', color: textColor }]}
+                  value={formData.tags}
+                  onChangeText={(text) => setFormData({ ...formData, tags: text })}
+                  placeholder="e.g., summer, tester, gift set"
+                  placeholderTextColor="#9CA3AF"
+                  autoCapitalize="none"
+                />
+              </View>
+
               {/* Volume */}
               <View style={styles.formGroup}>
                 <ThemedText style={styles.label}>Volume (ML) *</ThemedText>
@@ -588,6 +997,24 @@ export default function ProductsScreen() {
                 />
               </View>
 
+              {/* Cost */}
+              <View style={styles.formGroup}>
+                <ThemedText style={styles.label}>Cost (₱)</ThemedText>
+                <TextInput
+                  style={[styles.input, { borderColor: tintColor + '40', color: textColor }]}
+                  value={formData.cost}
+                  onChangeText={(text) => {
+                    if (!allowDecimalInput(text, 'Cost')) {
+                      return;
+                    }
+                    setFormData({ ...formData, cost: text });
+                  }}
+                  placeholder="Updated from each delivery"
+                  placeholderTextColor="#9CA3AF"
+                  keyboardType="decimal-pad"
+                />
+              </View>
+
               {/* Min Stock Threshold */}
               <View style={styles.formGroup}>
                 <ThemedText style={styles.label}>Min Stock Threshold *</ThemedText>
@@ -619,6 +1046,70 @@ export default function ProductsScreen() {
                   numberOfLines={4}
                 />
               </View>
+
+              {/* VAT Exempt */}
+              <View style={[styles.formGroup, styles.switchRow]}>
+                <View style={styles.switchInfo}>
+                  <ThemedText style={styles.label}>VAT Exempt</ThemedText>
+                  <ThemedText style={styles.switchHint}>Sold without VAT</ThemedText>
+                </View>
+                <Switch
+                  value={formData.vat_exempt}
+                  onValueChange={(value) => setFormData({ ...formData, vat_exempt: value })}
+                  trackColor={{ true: tintColor }}
+                />
+              </View>
+
+              {/* Preferred Supplier */}
+              {suppliers.length > 0 && (
+                <View style={styles.formGroup}>
+                  <ThemedText style={styles.label}>Preferred Supplier</ThemedText>
+                  <View style={styles.chipRow}>
+                    {suppliers.map(supplier => {
+                      const selected = formData.preferred_supplier_id === supplier.id;
+                      return (
+                        <TouchableOpacity
+                          key={supplier.id}
+                          style={[
+                            styles.chip,
+                            { borderColor: tintColor + '40' },
+                            selected && { backgroundColor: tintColor, borderColor: tintColor },
+                          ]}
+                          onPress={() => setFormData({ ...formData, preferred_supplier_id: selected ? null : supplier.id })}
+                        >
+                          <ThemedText style={[styles.chipText, selected && styles.chipTextActive]}>
+                            {supplier.name}
+                          </ThemedText>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </View>
+              )}
+
+              {/* Supplier SKUs and costs (saved immediately, so only for existing products) */}
+              {editingProduct && suppliers.length > 0 && (
+                <View style={styles.formGroup}>
+                  <ThemedText style={styles.label}>Supplier SKUs & Costs</ThemedText>
+                  <ProductSuppliers sku={editingProduct.sku} suppliers={suppliers} />
+                </View>
+              )}
+
+              {/* Photos (saved immediately, so only for existing products) */}
+              {editingProduct && (
+                <View style={styles.formGroup}>
+                  <ThemedText style={styles.label}>Photos</ThemedText>
+                  <ProductPhotos sku={editingProduct.sku} onChange={fetchProducts} />
+                </View>
+              )}
+
+              {/* Price history and scheduled prices (saved immediately, so only for existing products) */}
+              {editingProduct && (
+                <View style={styles.formGroup}>
+                  <ThemedText style={styles.label}>Price History & Scheduled Prices</ThemedText>
+                  <ProductPriceHistory sku={editingProduct.sku} onChange={fetchProducts} />
+                </View>
+              )}
             </ScrollView>
 
             {/* Modal Actions */}
@@ -676,6 +1167,104 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
   },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  switchInfo: {
+    flex: 1,
+  },
+  switchHint: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 2,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  groupingRow: {
+    paddingHorizontal: 16,
+    marginBottom: 12,
+  },
+  filterScroll: {
+    flexGrow: 0,
+    marginBottom: 12,
+  },
+  filterRow: {
+    paddingHorizontal: 16,
+    gap: 8,
+  },
+  categoryInput: {
+    marginTop: 8,
+  },
+  tagRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: -4,
+    marginBottom: 12,
+  },
+  skuRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  archivedCard: {
+    opacity: 0.6,
+  },
+  archivedBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+    backgroundColor: '#9CA3AF',
+  },
+  archivedText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  archivedChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  tagBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+    backgroundColor: 'rgba(0,0,0,0.05)',
+  },
+  tagText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  sectionHeader: {
+    paddingTop: 8,
+    paddingBottom: 10,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  sectionSubtotal: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
   header: {
     paddingHorizontal: 16,
     paddingTop: 16,
@@ -767,10 +1356,23 @@ const styles = StyleSheet.create({
   iconButton: {
     padding: 4,
   },
+  nameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 12,
+  },
+  nameInfo: {
+    flex: 1,
+  },
   productName: {
     fontSize: 18,
     fontWeight: 'bold',
-    marginBottom: 12,
+  },
+  fragranceText: {
+    fontSize: 13,
+    opacity: 0.7,
+    marginTop: 2,
   },
   cardFooter: {
     flexDirection: 'row',
@@ -795,6 +1397,15 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: 'bold',
   },
+  marginRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 6,
+  },
+  marginText: {
+    fontSize: 12,
+    opacity: 0.7,
+  },
   lowStockBanner: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -9,7 +9,7 @@ import { useAuth } from '@/context/AuthContext';
 import { useThemeColor } from '@/hooks/use-theme-color';
 
 export default function SettingsScreen() {
-  const { user, signOut } = useAuth();
+  const { user, isOwner, signOut } = useAuth();
   const insets = useSafeAreaInsets();
   const tintColor = useThemeColor({}, 'tint');
   const textColor = useThemeColor({}, 'text');
@@ -64,6 +64,60 @@ export default function SettingsScreen() {
           </View>
         </ThemedView>
 
+        {/* Shop Section */}
+        <ThemedView style={[styles.settingsSection, styles.card]}>
+          <View style={styles.sectionHeader}>
+            <Ionicons name="storefront-outline" size={24} color={tintColor} />
+            <ThemedText type="subtitle" style={styles.sectionTitle}>
+              Shop
+            </ThemedText>
+          </View>
+
+          <TouchableOpacity style={styles.navItem} onPress={() => router.push('/fragrances' as any)}>
+            <Ionicons name="flask-outline" size={22} color={tintColor} />
+            <ThemedText style={styles.navItemLabel}>Fragrances</ThemedText>
+            <Ionicons name="chevron-forward" size={20} color="#9CA3AF" />
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.navItem} onPress={() => router.push('/import-products' as any)}>
+            <Ionicons name="cloud-upload-outline" size={22} color={tintColor} />
+            <ThemedText style={styles.navItemLabel}>Import Products</ThemedText>
+            <Ionicons name="chevron-forward" size={20} color="#9CA3AF" />
+          </TouchableOpacity>
+
+          {isOwner && (
+            <TouchableOpacity style={styles.navItem} onPress={() => router.push('/import-ledger' as any)}>
+              <Ionicons name="book-outline" size={22} color={tintColor} />
+              <ThemedText style={styles.navItemLabel}>Import Ledger History</ThemedText>
+              <Ionicons name="chevron-forward" size={20} color="#9CA3AF" />
+            </TouchableOpacity>
+          )}
+
+          <TouchableOpacity style={styles.navItem} onPress={() => router.push('/purchase-orders' as any)}>
+            <Ionicons name="document-text-outline" size={22} color={tintColor} />
+            <ThemedText style={styles.navItemLabel}>Purchase Orders</ThemedText>
+            <Ionicons name="chevron-forward" size={20} color="#9CA3AF" />
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.navItem} onPress={() => router.push('/suppliers' as any)}>
+            <Ionicons name="business-outline" size={22} color={tintColor} />
+            <ThemedText style={styles.navItemLabel}>Suppliers</ThemedText>
+            <Ionicons name="chevron-forward" size={20} color="#9CA3AF" />
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.navItem} onPress={() => router.push('/customers' as any)}>
+            <Ionicons name="people-outline" size={22} color={tintColor} />
+            <ThemedText style={styles.navItemLabel}>Customers</ThemedText>
+            <Ionicons name="chevron-forward" size={20} color="#9CA3AF" />
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.navItem} onPress={() => router.push('/shop-settings' as any)}>
+            <Ionicons name="receipt-outline" size={22} color={tintColor} />
+            <ThemedText style={styles.navItemLabel}>Shop Settings</ThemedText>
+            <Ionicons name="chevron-forward" size={20} color="#9CA3AF" />
+          </TouchableOpacity>
+        </ThemedView>
+
         {/* Settings Section */}
         <ThemedView style={[styles.settingsSection, styles.card]}>
           <View style={styles.sectionHeader}>
@@ -184,6 +238,17 @@ const styles = StyleSheet.create({
   settingItem: {
     marginBottom: 20,
   },
+  navItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+  },
+  navItemLabel: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+  },
   settingLabel: {
     fontSize: 14,
     fontWeight: '600',
@@ -1,29 +1,61 @@
 import { Ionicons } from '@expo/vector-icons';
+import { subDays } from 'date-fns';
 import { useEffect, useState } from 'react';
 import { ActivityIndicator, Alert, FlatList, Modal, ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 import { BarcodeScanner } from '@/components/barcode-scanner';
+import { CancelTransactionModal } from '@/components/cancel-transaction-modal';
+import { CustomerPicker } from '@/components/customer-picker';
+import { DiscountModal } from '@/components/discount-modal';
+import { EMPTY_PAYMENT, PaymentDraft, PaymentEntry, resolvePayments } from '@/components/payment-entry';
+import { ProductThumbnail } from '@/components/product-thumbnail';
+import { ReturnModal } from '@/components/return-modal';
 import { Tabs } from '@/components/tabs';
+import { TransactionDateField } from '@/components/transaction-date-field';
+import { TransactionDetailModal } from '@/components/transaction-detail-modal';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { useAuth } from '@/context/AuthContext';
+import { ADJUSTMENT_REASON_LABELS } from '@/constants/transactions';
 import { useThemeColor } from '@/hooks/use-theme-color';
-import { getProducts } from '@/lib/api/products';
-import { createTransaction, getRecentTransactions, TransactionWithItems } from '@/lib/api/transactions';
-import { CreateTransactionInput, CurrentStock, TransactionType } from '@/lib/types';
+import { getPricesAt, getProducts } from '@/lib/api/products';
+import { getShopSettings } from '@/lib/api/settings';
+import { getSuppliers } from '@/lib/api/suppliers';
+import { createTransaction, getRecentTransactions, isInsufficientStockError, isPaymentMismatchError, TransactionWithItems } from '@/lib/api/transactions';
+import { AdjustmentReason, CreateTransactionInput, CurrentStock, Customer, Discount, LineDiscount, ShopSettings, Supplier, TransactionType } from '@/lib/types';
+import { matchesSku, matchesUnitBarcode } from '@/lib/utils/barcode';
+import { calculateLineDiscount, calculateTransactionDiscount, exceedsDiscountLimit, formatDiscount } from '@/lib/utils/discounts';
+import { matchesProductSearch } from '@/lib/utils/fragrances';
+import { printReceipt, sendReceiptToPrinter, shareReceipt } from '@/lib/utils/receipt';
+import { fromCents, toCents } from '@/lib/utils/money';
+import { calculateSaleVat } from '@/lib/utils/tax';
+
+type CartItem = {
+  sku: string;
+  quantity: number;
+  discount?: LineDiscount | null;
+  unitCost?: string;  // Deliveries: what was paid per unit, as typed
+};
+
+// Returns are started from an existing Sale, not entered from the form
+type EntryType = Exclude<TransactionType, 'Return'>;
 
 export default function TransactionsScreen() {
   const insets = useSafeAreaInsets();
   const tintColor = useThemeColor({}, 'tint');
   const textColor = useThemeColor({}, 'text');
-  const { user } = useAuth();
+  const { user, isOwner } = useAuth();
 
-  const [activeTab, setActiveTab] = useState<TransactionType>('Delivery');
-  const [selectedProduct, setSelectedProduct] = useState<string | null>(null);
-  const [quantity, setQuantity] = useState(1);
-  const [customerName, setCustomerName] = useState('');
+  const [activeTab, setActiveTab] = useState<EntryType>('Delivery');
+  const [cart, setCart] = useState<CartItem[]>([]);
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [supplierId, setSupplierId] = useState<number | null>(null);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [shopSettings, setShopSettings] = useState<ShopSettings | null>(null);
+  const [adjustmentReason, setAdjustmentReason] = useState<AdjustmentReason | null>(null);
   const [notes, setNotes] = useState('');
+  const [effectiveAt, setEffectiveAt] = useState<Date | null>(null);  // Null posts at the current time
   const [showProductModal, setShowProductModal] = useState(false);
   const [productSearchQuery, setProductSearchQuery] = useState('');
   const [transactions, setTransactions] = useState<TransactionWithItems[]>([]);
@@ -33,17 +65,52 @@ export default function TransactionsScreen() {
   const [loadingTransactions, setLoadingTransactions] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [showBarcodeScanner, setShowBarcodeScanner] = useState(false);
+  const [returnSaleId, setReturnSaleId] = useState<number | null>(null);
+  const [cancelTarget, setCancelTarget] = useState<TransactionWithItems | null>(null);
+  const [detailTarget, setDetailTarget] = useState<TransactionWithItems | null>(null);
+  const [stockShortage, setStockShortage] = useState<string | null>(null);
+  const [overrideNote, setOverrideNote] = useState('');
+  const [saleDiscount, setSaleDiscount] = useState<Discount | null>(null);
+  const [discountReason, setDiscountReason] = useState('');
+  // SKU of the cart line being discounted, or 'sale' for the whole-sale discount
+  const [discountTarget, setDiscountTarget] = useState<string | null>(null);
+  const [payments, setPayments] = useState<PaymentDraft[]>([EMPTY_PAYMENT]);
+  // List prices at effectiveAt by SKU; a backdated cart is priced as of its date, as the server prices it
+  const [backdatedPrices, setBackdatedPrices] = useState<Record<string, number>>({});
 
   useEffect(() => {
     fetchProducts();
     fetchTransactions();
+    getSuppliers().then(({ data }) => setSuppliers(data || []));
+    getShopSettings().then(({ data }) => setShopSettings(data));
   }, []);
 
+  // Reloaded products re-fetch these too, in case a price changed in between
+  const cartSkus = cart.map(item => item.sku).join(',');
+  useEffect(() => {
+    setBackdatedPrices({});
+    if (!effectiveAt || !cartSkus) {
+      return;
+    }
+
+    let cancelled = false;
+    getPricesAt(cartSkus.split(','), effectiveAt).then(({ data }) => {
+      if (!cancelled && data) {
+        setBackdatedPrices(data);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [effectiveAt, cartSkus, products]);
+
   const fetchProducts = async () => {
     try {
       setProductsLoading(true);
       setProductsError(null);
-      const { data, error } = await getProducts();
+      // Archived products are kept so past transactions and receipts still show their names
+      const { data, error } = await getProducts(true);
 
       if (error) {
         console.error('Error fetching products:', error);
@@ -82,18 +149,155 @@ export default function TransactionsScreen() {
     }
   };
 
-  const handleQuantityChange = (increment: boolean) => {
-    if (increment) {
-      setQuantity(prev => prev + 1);
+  // Adding a product that is already in the cart bumps its quantity instead of adding a second line.
+  // Adjustments default to removing one unit, since most corrections are shrinkage.
+  const addToCart = (sku: string) => {
+    if (getSaleLimit(sku) === 0) {
+      Alert.alert('Out of Stock', `${sku} has no stock on hand`);
+      return;
+    }
+    setCart(prev => {
+      const existing = prev.find(item => item.sku === sku);
+      if (existing) {
+        // Grow the line away from zero, so repeat scans of a negative adjustment remove more units
+        return prev.map(item => (item.sku === sku ? { ...item, quantity: stepQuantity(sku, item.quantity, item.quantity > 0) } : item));
+      }
+      return [...prev, { sku, quantity: activeTab === 'Adjustment' ? -1 : 1 }];
+    });
+  };
+
+  // Staff cannot step a Sale past what is on hand; owners may, and are asked for an override note on save
+  const getSaleLimit = (sku: string) => {
+    if (activeTab !== 'Sale' || isOwner) {
+      return Infinity;
+    }
+    const product = products.find(p => p.sku === sku);
+    return Math.max(0, product?.quantity_on_hand ?? 0);
+  };
+
+  const removeFromCart = (sku: string) => {
+    setCart(prev => prev.filter(item => item.sku !== sku));
+  };
+
+  // Delivery and Sale quantities stay at 1 or more; Adjustments are signed and skip over zero
+  const stepQuantity = (sku: string, quantity: number, increment: boolean) => {
+    if (activeTab !== 'Adjustment') {
+      return increment ? Math.min(getSaleLimit(sku), quantity + 1) : Math.max(1, quantity - 1);
+    }
+    const next = increment ? quantity + 1 : quantity - 1;
+    if (next === 0) {
+      return increment ? 1 : -1;
+    }
+    return next;
+  };
+
+  const handleQuantityChange = (sku: string, increment: boolean) => {
+    setCart(prev =>
+      prev.map(item => (item.sku === sku ? { ...item, quantity: stepQuantity(sku, item.quantity, increment) } : item))
+    );
+  };
+
+  const handleUnitCostChange = (sku: string, unitCost: string) => {
+    setCart(prev => prev.map(item => (item.sku === sku ? { ...item, unitCost } : item)));
+  };
+
+  const handleLineDiscount = (sku: string, discount: LineDiscount | null) => {
+    setCart(prev => prev.map(item => (item.sku === sku ? { ...item, discount } : item)));
+  };
+
+  const handleTabChange = (tab: EntryType) => {
+    setActiveTab(tab);
+    // Signed quantities only make sense for Adjustments
+    if (tab !== 'Adjustment') {
+      setCart(prev => prev.map(item => ({ ...item, quantity: Math.abs(item.quantity) })));
+    }
+    // Discounts are Sale-only
+    if (tab !== 'Sale') {
+      setCart(prev => prev.map(item => ({ ...item, discount: null })));
+      setSaleDiscount(null);
+      setDiscountReason('');
+      setPayments([EMPTY_PAYMENT]);
+    }
+  };
+
+  // Per-SKU shortages for the current Sale cart, e.g. "LE-MALE-65 (requested 3, available 1)"
+  const getStockShortages = () => {
+    if (activeTab !== 'Sale') {
+      return [];
+    }
+    return cart
+      .map(item => ({ item, available: products.find(p => p.sku === item.sku)?.quantity_on_hand ?? 0 }))
+      .filter(({ item, available }) => item.quantity > available)
+      .map(({ item, available }) => `${item.sku} (requested ${item.quantity}, available ${Math.max(0, available)})`);
+  };
+
+  const handleStockShortage = (message: string) => {
+    if (isOwner) {
+      setOverrideNote('');
+      setStockShortage(message);
     } else {
-      setQuantity(prev => Math.max(1, prev - 1));
+      Alert.alert('Insufficient Stock', message);
     }
   };
 
   const handleSave = async () => {
     // Validation
-    if (!selectedProduct) {
-      Alert.alert('Error', 'Please select a product');
+    if (cart.length === 0) {
+      Alert.alert('Error', 'Please add at least one product');
+      return;
+    }
+
+    if (activeTab === 'Adjustment' && !adjustmentReason) {
+      Alert.alert('Error', 'Please select a reason for the adjustment');
+      return;
+    }
+
+    if (activeTab === 'Delivery' && cart.some(item => item.unitCost?.trim() && !(parseFloat(item.unitCost) >= 0))) {
+      Alert.alert('Error', 'Unit cost must be zero or more');
+      return;
+    }
+
+    if (hasDiscount && !discountReason.trim()) {
+      Alert.alert('Error', 'Please enter a reason for the discount');
+      return;
+    }
+
+    if (
+      hasDiscount && !isOwner && shopSettings &&
+      exceedsDiscountLimit(
+        cartLines.map(line => ({ gross: line.lineGross, discount: line.lineDiscount })),
+        saleDiscountAmount,
+        shopSettings.staff_discount_limit
+      )
+    ) {
+      Alert.alert('Error', `Discounts over ${shopSettings.staff_discount_limit}% need an owner`);
+      return;
+    }
+
+    if (activeTab === 'Sale') {
+      const resolved = resolvePayments(payments, cartTotal);
+      if (resolved.some(payment => payment.amount <= 0)) {
+        Alert.alert('Error', 'Each payment must be more than ₱0.00 and together they must cover the total');
+        return;
+      }
+      if (resolved.some(payment => payment.tendered != null && (isNaN(payment.tendered) || payment.tendered < payment.amount))) {
+        Alert.alert('Error', 'Cash tendered cannot be less than the cash amount');
+        return;
+      }
+    }
+
+    if (effectiveAt && effectiveAt.getTime() > Date.now()) {
+      Alert.alert('Error', 'The date and time cannot be in the future');
+      return;
+    }
+
+    if (effectiveAt && !isOwner && shopSettings && effectiveAt < subDays(new Date(), shopSettings.staff_backdate_days)) {
+      Alert.alert(
+        'Error',
+        shopSettings.staff_backdate_days === 0
+          ? 'Only owners can backdate transactions'
+          : `Staff can only backdate up to ${shopSettings.staff_backdate_days} ${shopSettings.staff_backdate_days === 1 ? 'day' : 'days'}`
+      );
       return;
     }
 
@@ -102,6 +306,20 @@ export default function TransactionsScreen() {
       return;
     }
 
+    const shortages = getStockShortages();
+    if (shortages.length > 0) {
+      handleStockShortage(`Insufficient stock: ${shortages.join('; ')}`);
+      return;
+    }
+
+    await postTransaction(null);
+  };
+
+  const postTransaction = async (stockOverrideNote: string | null) => {
+    if (!user) {
+      return;
+    }
+
     setSubmitting(true);
 
     try {
@@ -110,36 +328,71 @@ export default function TransactionsScreen() {
         transaction_type: activeTab,
         reference: `TXN-${Date.now()}`,
         notes: notes.trim() || null,
-        customer_name: activeTab === 'Sale' && customerName.trim() ? customerName.trim() : null,
+        customer_id: activeTab === 'Sale' ? customer?.id ?? null : null,
+        supplier_id: activeTab === 'Delivery' ? supplierId : null,
+        adjustment_reason: activeTab === 'Adjustment' ? adjustmentReason : null,
+        stock_override_note: stockOverrideNote,
+        discount: activeTab === 'Sale' ? saleDiscount : null,
+        discount_reason: hasDiscount ? discountReason.trim() : null,
+        payments: activeTab === 'Sale' ? resolvePayments(payments, cartTotal) : undefined,
+        timestamp: effectiveAt,
         userId: user.id,
-        items: [
-          {
-            sku: selectedProduct,
-            quantity: quantity,
-          },
-        ],
+        items: cart.map(item => ({
+          sku: item.sku,
+          quantity: item.quantity,
+          discount: activeTab === 'Sale' ? item.discount : null,
+          unit_cost: activeTab === 'Delivery' && item.unitCost?.trim() ? parseFloat(item.unitCost) : null,
+        })),
       };
 
       // Call API
       const { data, error } = await createTransaction(input);
 
       if (error) {
+        // Stock moved since the products list was loaded (e.g. another phone sold the last unit)
+        if (isInsufficientStockError(error)) {
+          fetchProducts();
+          handleStockShortage(error.message);
+          return;
+        }
+        // Prices moved since the products list was loaded; reload so the total and payments match again
+        if (isPaymentMismatchError(error)) {
+          fetchProducts();
+          Alert.alert('Total Changed', 'Prices have changed since the products were loaded. Check the new total and payments, then save again.');
+          return;
+        }
         const errorMessage = error?.message || error?.toString() || 'Failed to save transaction';
         Alert.alert('Error', errorMessage);
         return;
       }
 
-      // Success
-      Alert.alert('Success', 'Transaction saved successfully!');
+      // Success; sales offer a receipt straight away
+      if (activeTab === 'Sale' && data) {
+        const saleId = data.id;
+        Alert.alert('Success', 'Sale saved successfully!', [
+          { text: 'Done', style: 'cancel' },
+          { text: 'Share Receipt', onPress: () => handleReceipt(saleId, 'share') },
+          { text: 'Print Receipt', onPress: () => handleReceipt(saleId, 'print') },
+        ]);
+      } else {
+        Alert.alert('Success', 'Transaction saved successfully!');
+      }
 
       // Reset form
-      setSelectedProduct(null);
-      setQuantity(1);
-      setCustomerName('');
+      setCart([]);
+      setCustomer(null);
+      setSupplierId(null);
+      setAdjustmentReason(null);
       setNotes('');
+      setEffectiveAt(null);
+      setStockShortage(null);
+      setSaleDiscount(null);
+      setDiscountReason('');
+      setPayments([EMPTY_PAYMENT]);
 
-      // Refresh transactions list
+      // Refresh transactions list and stock on hand
       fetchTransactions();
+      fetchProducts();
     } catch (err) {
       console.error('Transaction error:', err);
       Alert.alert('Error', 'Something went wrong');
@@ -148,12 +401,28 @@ export default function TransactionsScreen() {
     }
   };
 
+  const handleReceipt = async (transactionId: number, action: 'print' | 'share') => {
+    // Shops with a network thermal printer print there instead of the system dialog
+    const print = shopSettings?.printer_host ? sendReceiptToPrinter : printReceipt;
+    const result = action === 'print'
+      ? await print(transactionId, products)
+      : await shareReceipt(transactionId, products);
+
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to generate receipt');
+    }
+  };
+
   const getTransactionIcon = (type: TransactionType) => {
     switch (type) {
       case 'Delivery':
         return 'arrow-down-circle';
       case 'Sale':
         return 'arrow-up-circle';
+      case 'Adjustment':
+        return 'swap-vertical';
+      case 'Return':
+        return 'arrow-undo-circle';
     }
   };
 
@@ -163,6 +432,10 @@ export default function TransactionsScreen() {
         return '#10B981';
       case 'Sale':
         return '#EF4444';
+      case 'Adjustment':
+        return '#F59E0B';
+      case 'Return':
+        return '#3B82F6';
     }
   };
 
@@ -190,7 +463,31 @@ export default function TransactionsScreen() {
     });
   };
 
-  const selectedProductData = products.find(p => p.sku === selectedProduct);
+  // Only products still on sale can be picked or scanned into the cart
+  const sellableProducts = products.filter(product => !product.archived_at);
+
+  const cartLines = cart.map(item => {
+    const product = products.find(p => p.sku === item.sku);
+    const unitPrice = backdatedPrices[item.sku] ?? product?.price ?? 0;
+    const lineDiscount = activeTab === 'Sale' ? calculateLineDiscount(unitPrice, item.quantity, item.discount) : 0;
+    const lineGross = toCents(unitPrice) * item.quantity;
+    return { ...item, product, unitPrice, lineGross: fromCents(lineGross), lineDiscount, lineTotal: fromCents(lineGross - toCents(lineDiscount)) };
+  });
+  // Totals are summed in centavos so they match the database to the last digit
+  const cartSubtotal = fromCents(cartLines.reduce((sum, line) => sum + toCents(line.lineTotal), 0));
+  const saleDiscountAmount = activeTab === 'Sale' ? calculateTransactionDiscount(cartSubtotal, saleDiscount) : 0;
+  // Sale VAT is worked out on what is paid per line after its share of the sale discount
+  const cartVat = activeTab === 'Sale' && shopSettings
+    ? calculateSaleVat(
+        cartLines.map(line => ({ amount: line.lineTotal, rate: line.product?.vat_exempt ? 0 : shopSettings.vat_rate })),
+        saleDiscountAmount,
+        shopSettings.prices_include_vat
+      )
+    : null;
+  const cartTotal = cartVat ? cartVat.gross : fromCents(toCents(cartSubtotal) - toCents(saleDiscountAmount));
+  const hasDiscount = activeTab === 'Sale' && (!!saleDiscount || cart.some(item => !!item.discount));
+  const discountLine = discountTarget && discountTarget !== 'sale' ? cartLines.find(line => line.sku === discountTarget) : null;
+  const cartUnits = cart.reduce((sum, item) => sum + item.quantity, 0);
 
   const handleBarcodeScan = (scannedData: string) => {
     // Barcode format: SKU-VOLUMEml-UNIT (e.g., "LE-MALE-65-65ml-001")
@@ -199,41 +496,41 @@ export default function TransactionsScreen() {
     const baseBarcode = unitMatch ? scannedData.replace(/-(\d{3})$/, '') : scannedData;
     
     // Try to find product by base barcode match (SKU + volume)
-    const productByBarcode = products.find(
-      p => `${p.sku}-${p.volume_ml}ml` === baseBarcode
+    const productByBarcode = sellableProducts.find(
+      p => matchesUnitBarcode(p, baseBarcode)
     );
     
     if (productByBarcode) {
       const unitNum = unitMatch ? unitMatch[1] : null;
       const message = unitNum 
-        ? `Selected: ${productByBarcode.name} (${productByBarcode.volume_ml}ml) - Unit #${unitNum}`
-        : `Selected: ${productByBarcode.name} (${productByBarcode.volume_ml}ml)`;
-      setSelectedProduct(productByBarcode.sku);
+        ? `Added: ${productByBarcode.name} (${productByBarcode.volume_ml}ml) - Unit #${unitNum}`
+        : `Added: ${productByBarcode.name} (${productByBarcode.volume_ml}ml)`;
+      addToCart(productByBarcode.sku);
       setShowProductModal(false);
-      Alert.alert('Product Selected', message);
+      Alert.alert('Added to Cart', message);
       return;
     }
 
     // Try to extract SKU and volume from barcode
     const volumeMatch = baseBarcode.match(/-(\d+)ml$/);
     const skuPart = volumeMatch ? baseBarcode.replace(/-(\d+)ml$/, '') : baseBarcode;
-    const product = products.find(p => p.sku.toLowerCase() === skuPart.toLowerCase());
+    const product = sellableProducts.find(p => matchesSku(p, skuPart));
     
     if (product) {
-      setSelectedProduct(product.sku);
+      addToCart(product.sku);
       setShowProductModal(false);
-      Alert.alert('Product Selected', `Selected: ${product.name}`);
+      Alert.alert('Added to Cart', `Added: ${product.name}`);
     } else {
       // Try partial match
-      const productMatch = products.find(
+      const productMatch = sellableProducts.find(
         p => p.sku.toLowerCase().includes(scannedData.toLowerCase()) ||
              p.name.toLowerCase().includes(scannedData.toLowerCase())
       );
 
       if (productMatch) {
-        setSelectedProduct(productMatch.sku);
+        addToCart(productMatch.sku);
         setShowProductModal(false);
-        Alert.alert('Product Selected', `Selected: ${productMatch.name}`);
+        Alert.alert('Added to Cart', `Added: ${productMatch.name}`);
       } else {
         Alert.alert('Product Not Found', `No product found with barcode: ${scannedData}`);
       }
@@ -250,9 +547,9 @@ export default function TransactionsScreen() {
 
       {/* Tabs */}
       <Tabs
-        tabs={['Delivery', 'Sale']}
+        tabs={['Delivery', 'Sale', 'Adjustment']}
         activeTab={activeTab}
-        onTabPress={(tab: string) => setActiveTab(tab as TransactionType)}
+        onTabPress={(tab: string) => handleTabChange(tab as EntryType)}
       />
 
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
@@ -271,7 +568,7 @@ export default function TransactionsScreen() {
 
           {/* Product Selection */}
           <View style={styles.formGroup}>
-            <ThemedText style={styles.label}>Product</ThemedText>
+            <ThemedText style={styles.label}>Products</ThemedText>
             <TouchableOpacity
               style={[styles.picker, { borderColor: tintColor + '40' }]}
               onPress={() => {
@@ -281,56 +578,214 @@ export default function TransactionsScreen() {
             >
               <View style={styles.pickerContent}>
                 <Ionicons name="cube-outline" size={20} color={tintColor} />
-                <ThemedText style={styles.pickerText}>
-                  {selectedProductData
-                    ? `${selectedProductData.name} (${selectedProductData.volume_ml}ml)`
-                    : 'Select a product'}
-                </ThemedText>
+                <ThemedText style={styles.pickerText}>Add a product</ThemedText>
               </View>
               <Ionicons
-                name="search-outline"
+                name="add-circle-outline"
                 size={20}
                 color={tintColor}
               />
             </TouchableOpacity>
           </View>
 
-          {/* Quantity Stepper */}
-          <View style={styles.formGroup}>
-            <ThemedText style={styles.label}>Quantity</ThemedText>
-            <View style={styles.stepper}>
-              <TouchableOpacity
-                style={[styles.stepperButton, { backgroundColor: tintColor }]}
-                onPress={() => handleQuantityChange(false)}
-              >
-                <Ionicons name="remove" size={24} color="#fff" />
-              </TouchableOpacity>
-              <ThemedView style={styles.quantityDisplay}>
-                <ThemedText style={styles.quantityText}>{quantity}</ThemedText>
-              </ThemedView>
-              <TouchableOpacity
-                style={[styles.stepperButton, { backgroundColor: tintColor }]}
-                onPress={() => handleQuantityChange(true)}
-              >
-                <Ionicons name="add" size={24} color="#fff" />
-              </TouchableOpacity>
+          {/* Cart Lines */}
+          {cartLines.length > 0 && (
+            <View style={styles.formGroup}>
+              <ThemedText style={styles.label}>
+                Cart ({cartUnits} {cartUnits === 1 ? 'item' : 'items'})
+              </ThemedText>
+              <View style={styles.cartList}>
+                {cartLines.map(line => (
+                  <View key={line.sku} style={styles.cartItem}>
+                    <View style={styles.cartItemHeader}>
+                      <View style={styles.cartItemInfo}>
+                        <ThemedText style={styles.cartItemName}>
+                          {line.product ? `${line.product.name} (${line.product.volume_ml}ml)` : line.sku}
+                        </ThemedText>
+                        <ThemedText style={styles.cartItemMeta}>
+                          {line.sku} • ₱{line.unitPrice.toFixed(2)} each
+                        </ThemedText>
+                        {activeTab === 'Sale' && line.discount && (
+                          <ThemedText style={styles.cartDiscountText}>
+                            {formatDiscount(line.discount)} • -₱{line.lineDiscount.toFixed(2)}
+                          </ThemedText>
+                        )}
+                        {activeTab === 'Sale' && line.quantity > (line.product?.quantity_on_hand ?? 0) && (
+                          <ThemedText style={styles.cartStockWarning}>
+                            Only {Math.max(0, line.product?.quantity_on_hand ?? 0)} in stock
+                          </ThemedText>
+                        )}
+                      </View>
+                      <TouchableOpacity onPress={() => removeFromCart(line.sku)} style={styles.cartRemoveButton}>
+                        <Ionicons name="trash-outline" size={20} color="#EF4444" />
+                      </TouchableOpacity>
+                    </View>
+                    <View style={styles.cartItemFooter}>
+                      <View style={styles.stepper}>
+                        <TouchableOpacity
+                          style={[styles.cartStepperButton, { backgroundColor: tintColor }]}
+                          onPress={() => handleQuantityChange(line.sku, false)}
+                        >
+                          <Ionicons name="remove" size={18} color="#fff" />
+                        </TouchableOpacity>
+                        <ThemedText style={styles.cartQuantityText}>
+                          {activeTab === 'Adjustment' && line.quantity > 0 ? `+${line.quantity}` : line.quantity}
+                        </ThemedText>
+                        <TouchableOpacity
+                          style={[styles.cartStepperButton, { backgroundColor: tintColor }]}
+                          onPress={() => handleQuantityChange(line.sku, true)}
+                        >
+                          <Ionicons name="add" size={18} color="#fff" />
+                        </TouchableOpacity>
+                      </View>
+                      <View style={styles.cartLinePrice}>
+                        {activeTab === 'Sale' && (
+                          <TouchableOpacity onPress={() => setDiscountTarget(line.sku)} style={styles.cartDiscountButton}>
+                            <Ionicons name="pricetag-outline" size={18} color={tintColor} />
+                          </TouchableOpacity>
+                        )}
+                        {line.lineDiscount > 0 && (
+                          <ThemedText style={styles.cartLineGross}>₱{line.lineGross.toFixed(2)}</ThemedText>
+                        )}
+                        <ThemedText style={styles.cartLineTotal}>₱{line.lineTotal.toFixed(2)}</ThemedText>
+                      </View>
+                    </View>
+                    {activeTab === 'Delivery' && (
+                      <View style={styles.cartCostRow}>
+                        <ThemedText style={styles.cartItemMeta}>Unit cost (₱)</ThemedText>
+                        <TextInput
+                          style={[styles.cartCostInput, { borderColor: tintColor + '40', color: textColor }]}
+                          value={line.unitCost ?? ''}
+                          onChangeText={text => handleUnitCostChange(line.sku, text)}
+                          placeholder={line.product?.cost != null ? line.product.cost.toFixed(2) : 'Unknown'}
+                          placeholderTextColor="#999"
+                          keyboardType="decimal-pad"
+                        />
+                      </View>
+                    )}
+                  </View>
+                ))}
+              </View>
+              {activeTab === 'Sale' && (
+                <TouchableOpacity style={styles.cartSubtotalRow} onPress={() => setDiscountTarget('sale')}>
+                  <View style={styles.cartDiscountLabel}>
+                    <Ionicons name="pricetag-outline" size={16} color={tintColor} />
+                    <ThemedText style={[styles.cartDiscountLabelText, { color: tintColor }]}>
+                      {saleDiscount ? `Sale discount (${formatDiscount(saleDiscount)})` : 'Add sale discount'}
+                    </ThemedText>
+                  </View>
+                  {saleDiscountAmount > 0 && (
+                    <ThemedText style={styles.cartDiscountText}>-₱{saleDiscountAmount.toFixed(2)}</ThemedText>
+                  )}
+                </TouchableOpacity>
+              )}
+              {cartVat && shopSettings && cartVat.tax > 0 && (
+                <View style={styles.cartSubtotalRow}>
+                  <ThemedText style={styles.cartVatText}>
+                    {shopSettings.prices_include_vat ? 'Includes' : 'Plus'} VAT ({shopSettings.vat_rate}%)
+                  </ThemedText>
+                  <ThemedText style={styles.cartVatText}>₱{cartVat.tax.toFixed(2)}</ThemedText>
+                </View>
+              )}
+              <View style={styles.cartTotalRow}>
+                <ThemedText style={styles.cartTotalLabel}>Total</ThemedText>
+                <ThemedText style={styles.cartTotalValue}>₱{cartTotal.toFixed(2)}</ThemedText>
+              </View>
             </View>
-          </View>
+          )}
 
-          {/* Customer Name - Only for Sales */}
+          {/* Reason - Only for Adjustments */}
+          {activeTab === 'Adjustment' && (
+            <View style={styles.formGroup}>
+              <ThemedText style={styles.label}>Reason *</ThemedText>
+              <View style={styles.reasonList}>
+                {/* Opening balances are only posted by the ledger import */}
+                {(Object.keys(ADJUSTMENT_REASON_LABELS) as AdjustmentReason[]).filter(reason => reason !== 'opening_balance').map(reason => (
+                  <TouchableOpacity
+                    key={reason}
+                    style={[
+                      styles.reasonChip,
+                      adjustmentReason === reason && { backgroundColor: tintColor, borderColor: tintColor },
+                    ]}
+                    onPress={() => setAdjustmentReason(reason)}
+                  >
+                    <ThemedText style={[styles.reasonChipText, adjustmentReason === reason && styles.reasonChipTextActive]}>
+                      {ADJUSTMENT_REASON_LABELS[reason]}
+                    </ThemedText>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          )}
+
+          {/* Supplier - Only for Deliveries */}
+          {activeTab === 'Delivery' && suppliers.length > 0 && (
+            <View style={styles.formGroup}>
+              <ThemedText style={styles.label}>Supplier (Optional)</ThemedText>
+              <View style={styles.reasonList}>
+                {suppliers.map(supplier => (
+                  <TouchableOpacity
+                    key={supplier.id}
+                    style={[
+                      styles.reasonChip,
+                      supplierId === supplier.id && { backgroundColor: tintColor, borderColor: tintColor },
+                    ]}
+                    onPress={() => setSupplierId(supplierId === supplier.id ? null : supplier.id)}
+                  >
+                    <ThemedText style={[styles.reasonChipText, supplierId === supplier.id && styles.reasonChipTextActive]}>
+                      {supplier.name}
+                    </ThemedText>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          )}
+
+          {/* Customer - Only for Sales */}
           {activeTab === 'Sale' && (
             <View style={styles.formGroup}>
-              <ThemedText style={styles.label}>Customer Name (Optional)</ThemedText>
+              <ThemedText style={styles.label}>Customer (Optional)</ThemedText>
+              <CustomerPicker customer={customer} onChange={setCustomer} />
+            </View>
+          )}
+
+          {/* Payment - Only for Sales */}
+          {activeTab === 'Sale' && cartLines.length > 0 && (
+            <View style={styles.formGroup}>
+              <ThemedText style={styles.label}>Payment *</ThemedText>
+              <PaymentEntry total={cartTotal} payments={payments} onChange={setPayments} />
+            </View>
+          )}
+
+          {/* Discount Reason - Only when a Sale has a discount */}
+          {hasDiscount && (
+            <View style={styles.formGroup}>
+              <ThemedText style={styles.label}>Discount Reason *</ThemedText>
               <TextInput
                 style={[styles.textInput, { borderColor: tintColor + '40', color: textColor }]}
-                value={customerName}
-                onChangeText={setCustomerName}
-                placeholder="Enter customer name"
+                value={discountReason}
+                onChangeText={setDiscountReason}
+                placeholder="e.g., Loyal customer, damaged box"
                 placeholderTextColor="#999"
               />
             </View>
           )}
 
+          {/* Date & Time - leave as now unless entering something late */}
+          <View style={styles.formGroup}>
+            <ThemedText style={styles.label}>Date & Time</ThemedText>
+            <TransactionDateField
+              value={effectiveAt}
+              onChange={setEffectiveAt}
+              minimumDate={!isOwner && shopSettings ? subDays(new Date(), shopSettings.staff_backdate_days) : undefined}
+              hint={!isOwner && shopSettings
+                ? shopSettings.staff_backdate_days === 0
+                  ? 'Only owners can backdate transactions'
+                  : `You can backdate up to ${shopSettings.staff_backdate_days} ${shopSettings.staff_backdate_days === 1 ? 'day' : 'days'}`
+                : undefined}
+            />
+          </View>
+
           {/* Notes */}
           <View style={styles.formGroup}>
             <ThemedText style={styles.label}>Notes (Optional)</ThemedText>
@@ -392,48 +847,86 @@ export default function TransactionsScreen() {
             {transactions.map((transaction) => {
               const transactionDate = new Date(transaction.timestamp);
               const firstItem = transaction.transaction_item?.[0];
-              const productName = firstItem ? products.find(p => p.sku === firstItem.sku)?.name || firstItem.sku : 'Unknown';
+              const itemCount = transaction.transaction_item?.length || 0;
+              const firstProductName = firstItem ? products.find(p => p.sku === firstItem.sku)?.name || firstItem.sku : 'Unknown';
+              const productName = itemCount > 1 ? `${firstProductName} +${itemCount - 1} more` : firstProductName;
               const totalQuantity = transaction.transaction_item?.reduce((sum, item) => sum + Math.abs(item.quantity), 0) || 0;
+              const netQuantity = transaction.transaction_item?.reduce((sum, item) => sum + item.quantity, 0) || 0;
+              const quantityLabel = transaction.transaction_type === 'Adjustment'
+                ? `${netQuantity > 0 ? '+' : ''}${netQuantity}`
+                : `${transaction.transaction_type === 'Sale' ? '-' : '+'}${totalQuantity}`;
+              const isCancelled = transaction.status === 'cancelled';
 
               return (
-                <ThemedView key={transaction.id} style={[styles.transactionItem, styles.card]}>
-                  <View style={styles.transactionLeft}>
-                    <View
-                      style={[
-                        styles.transactionIcon,
-                        { backgroundColor: getTransactionColor(transaction.transaction_type) + '20' }
-                      ]}
-                    >
-                      <Ionicons
-                        name={getTransactionIcon(transaction.transaction_type)}
-                        size={24}
-                        color={getTransactionColor(transaction.transaction_type)}
-                      />
+                <TouchableOpacity key={transaction.id} activeOpacity={0.7} onPress={() => setDetailTarget(transaction)}>
+                  <ThemedView style={[styles.transactionItem, styles.card, isCancelled && styles.transactionCancelled]}>
+                    <View style={styles.transactionLeft}>
+                      <View
+                        style={[
+                          styles.transactionIcon,
+                          { backgroundColor: getTransactionColor(transaction.transaction_type) + '20' }
+                        ]}
+                      >
+                        <Ionicons
+                          name={getTransactionIcon(transaction.transaction_type)}
+                          size={24}
+                          color={getTransactionColor(transaction.transaction_type)}
+                        />
+                      </View>
+                      <View style={styles.transactionInfo}>
+                        <ThemedText style={[styles.transactionProduct, isCancelled && styles.struckThrough]}>
+                          {productName}
+                        </ThemedText>
+                        <ThemedText style={styles.transactionMeta}>
+                          {transaction.transaction_type}
+                          {(transaction.customer || transaction.customer_name) && ` • ${transaction.customer?.name || transaction.customer_name}`}
+                          {transaction.supplier && ` • ${transaction.supplier.name}`}
+                          {transaction.adjustment_reason && ` • ${ADJUSTMENT_REASON_LABELS[transaction.adjustment_reason]}`}
+                          {transaction.refund_amount !== null && ` • Refund ₱${Number(transaction.refund_amount).toFixed(2)}`}
+                          {transaction.discount_reason && ` • Discounted: ${transaction.discount_reason}`}
+                          {transaction.stock_override_note && ' • Stock override'}
+                        </ThemedText>
+                        {isCancelled && (
+                          <ThemedText style={styles.cancelledNote}>
+                            Cancelled{transaction.cancel_reason ? `: ${transaction.cancel_reason}` : ''}
+                          </ThemedText>
+                        )}
+                        <ThemedText style={styles.transactionDate}>
+                          {formatDate(transactionDate)} at {formatTime(transactionDate)}
+                        </ThemedText>
+                      </View>
                     </View>
-                    <View style={styles.transactionInfo}>
-                      <ThemedText style={styles.transactionProduct}>
-                        {productName}
-                      </ThemedText>
-                      <ThemedText style={styles.transactionMeta}>
-                        {transaction.transaction_type}
-                        {transaction.customer_name && ` • ${transaction.customer_name}`}
-                      </ThemedText>
-                      <ThemedText style={styles.transactionDate}>
-                        {formatDate(transactionDate)} at {formatTime(transactionDate)}
+                    <View style={styles.transactionRight}>
+                      <ThemedText
+                        style={[
+                          styles.transactionQuantity,
+                          { color: getTransactionColor(transaction.transaction_type) },
+                          isCancelled && styles.struckThrough,
+                        ]}
+                      >
+                        {quantityLabel}
                       </ThemedText>
+                      {transaction.transaction_type === 'Sale' && transaction.status === 'completed' && (
+                        <TouchableOpacity
+                          style={styles.historyAction}
+                          onPress={() => setReturnSaleId(transaction.id)}
+                        >
+                          <Ionicons name="arrow-undo-outline" size={14} color="#3B82F6" />
+                          <ThemedText style={styles.historyActionText}>Return</ThemedText>
+                        </TouchableOpacity>
+                      )}
+                      {transaction.status === 'completed' && (
+                        <TouchableOpacity
+                          style={[styles.historyAction, styles.historyActionDanger]}
+                          onPress={() => setCancelTarget(transaction)}
+                        >
+                          <Ionicons name="close-circle-outline" size={14} color="#EF4444" />
+                          <ThemedText style={[styles.historyActionText, styles.historyActionTextDanger]}>Cancel</ThemedText>
+                        </TouchableOpacity>
+                      )}
                     </View>
-                  </View>
-                  <View style={styles.transactionRight}>
-                    <ThemedText
-                      style={[
-                        styles.transactionQuantity,
-                        { color: getTransactionColor(transaction.transaction_type) }
-                      ]}
-                    >
-                      {transaction.transaction_type === 'Delivery' ? '+' : '-'}{totalQuantity}
-                    </ThemedText>
-                  </View>
-                </ThemedView>
+                  </ThemedView>
+                </TouchableOpacity>
               );
             })}
           </View>
@@ -497,27 +990,24 @@ export default function TransactionsScreen() {
               </ThemedView>
             ) : (
               <FlatList
-                data={products.filter(product => {
+                data={sellableProducts.filter(product => {
                   if (!productSearchQuery.trim()) return true;
-                  const query = productSearchQuery.toLowerCase();
-                  return (
-                    product.name.toLowerCase().includes(query) ||
-                    product.sku.toLowerCase().includes(query)
-                  );
+                  return matchesProductSearch(product, productSearchQuery);
                 })}
                 keyExtractor={item => item.sku}
                 renderItem={({ item }) => (
                   <TouchableOpacity
                     style={[
                       styles.modalProductItem,
-                      selectedProduct === item.sku && { backgroundColor: tintColor + '20' }
+                      cart.some(line => line.sku === item.sku) && { backgroundColor: tintColor + '20' }
                     ]}
                     onPress={() => {
-                      setSelectedProduct(item.sku);
+                      addToCart(item.sku);
                       setShowProductModal(false);
                       setProductSearchQuery('');
                     }}
                   >
+                    <ProductThumbnail path={item.image_path} size={44} style={styles.modalProductThumbnail} />
                     <View style={styles.modalProductInfo}>
                       <ThemedText style={styles.modalProductName}>{item.name}</ThemedText>
                       <ThemedText style={styles.modalProductSku}>{item.sku}</ThemedText>
@@ -530,7 +1020,7 @@ export default function TransactionsScreen() {
                         </ThemedText>
                       </View>
                     </View>
-                    {selectedProduct === item.sku && (
+                    {cart.some(line => line.sku === item.sku) && (
                       <Ionicons name="checkmark-circle" size={24} color={tintColor} />
                     )}
                   </TouchableOpacity>
@@ -549,19 +1039,112 @@ export default function TransactionsScreen() {
         </View>
       </Modal>
 
+      {/* Return Modal */}
+      <ReturnModal
+        visible={returnSaleId !== null}
+        saleId={returnSaleId}
+        products={products}
+        onClose={() => setReturnSaleId(null)}
+        onReturned={fetchTransactions}
+      />
+
+      {/* Discount Modal */}
+      <DiscountModal
+        visible={discountTarget !== null}
+        title={discountTarget === 'sale' ? 'Sale Discount' : 'Line Discount'}
+        subtitle={discountLine ? (discountLine.product?.name || discountLine.sku) : undefined}
+        discount={discountTarget === 'sale' ? saleDiscount : discountLine?.discount || null}
+        allowPriceOverride={discountTarget !== 'sale' && isOwner}
+        onClose={() => setDiscountTarget(null)}
+        onApply={discount => {
+          if (discountTarget === 'sale') {
+            setSaleDiscount(discount as Discount | null);
+          } else if (discountTarget) {
+            handleLineDiscount(discountTarget, discount);
+          }
+        }}
+      />
+
+      {/* Transaction Detail Modal */}
+      <TransactionDetailModal
+        visible={detailTarget !== null}
+        transaction={detailTarget}
+        products={products}
+        onClose={() => setDetailTarget(null)}
+      />
+
+      {/* Cancel Transaction Modal */}
+      <CancelTransactionModal
+        visible={cancelTarget !== null}
+        transaction={cancelTarget}
+        onClose={() => setCancelTarget(null)}
+        onCancelled={() => {
+          fetchTransactions();
+          fetchProducts();
+        }}
+      />
+
+      {/* Stock Override Modal - Owners only */}
+      <Modal
+        visible={stockShortage !== null}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setStockShortage(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <ThemedView style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <ThemedText style={styles.modalTitle}>Insufficient Stock</ThemedText>
+              <TouchableOpacity onPress={() => setStockShortage(null)}>
+                <Ionicons name="close" size={28} color={tintColor} />
+              </TouchableOpacity>
+            </View>
+            <ThemedText style={styles.overrideMessage}>{stockShortage}</ThemedText>
+            <ThemedText style={styles.label}>Override Note *</ThemedText>
+            <TextInput
+              style={[styles.textInput, styles.notesInput, { borderColor: tintColor + '40', color: textColor }]}
+              value={overrideNote}
+              onChangeText={setOverrideNote}
+              placeholder="Why is this sale going ahead without stock?"
+              placeholderTextColor="#999"
+              multiline
+              numberOfLines={3}
+            />
+            <TouchableOpacity
+              style={[
+                styles.saveButton,
+                { backgroundColor: '#EF4444' },
+                (submitting || !overrideNote.trim()) && styles.saveButtonDisabled,
+              ]}
+              onPress={() => postTransaction(overrideNote.trim())}
+              disabled={submitting || !overrideNote.trim()}
+            >
+              {submitting ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Ionicons name="warning-outline" size={22} color="#fff" />
+              )}
+              <ThemedText style={styles.saveButtonText}>
+                {submitting ? 'Saving...' : 'Override and Save'}
+              </ThemedText>
+            </TouchableOpacity>
+          </ThemedView>
+        </View>
+      </Modal>
+
       {/* Barcode Scanner Modal */}
       <BarcodeScanner
         visible={showBarcodeScanner}
         onClose={() => {
           setShowBarcodeScanner(false);
-          // Reopen product modal if it was open
-          if (!selectedProduct) {
+          // Reopen product modal if the cart is still empty
+          if (cart.length === 0) {
             setShowProductModal(true);
           }
         }}
         onScan={handleBarcodeScan}
         title="Scan Product Barcode"
-        subtitle="Scan a barcode to select the product"
+        subtitle="Scan a barcode to add the product to the cart"
       />
     </ThemedView>
   );
@@ -664,24 +1247,152 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     gap: 12,
   },
-  stepperButton: {
-    width: 48,
-    height: 48,
+  reasonList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  reasonChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 2,
+    borderColor: 'rgba(0,0,0,0.1)',
+  },
+  reasonChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  reasonChipTextActive: {
+    color: '#fff',
+  },
+  cartList: {
     borderRadius: 12,
-    alignItems: 'center',
-    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: 'rgba(0,0,0,0.1)',
+    overflow: 'hidden',
   },
-  quantityDisplay: {
+  cartItem: {
+    padding: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(0,0,0,0.05)',
+  },
+  cartItemHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  cartItemInfo: {
     flex: 1,
-    height: 48,
-    borderRadius: 12,
+  },
+  cartItemName: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  cartItemMeta: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  cartStockWarning: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#EF4444',
+    marginTop: 2,
+  },
+  cartRemoveButton: {
+    padding: 4,
+  },
+  cartItemFooter: {
+    flexDirection: 'row',
     alignItems: 'center',
-    justifyContent: 'center',
+    justifyContent: 'space-between',
+  },
+  cartCostRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  cartCostInput: {
+    width: 110,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
     borderWidth: 2,
-    borderColor: 'rgba(0,0,0,0.1)',
+    fontSize: 15,
+    textAlign: 'right',
   },
-  quantityText: {
-    fontSize: 24,
+  cartStepperButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  cartQuantityText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    minWidth: 32,
+    textAlign: 'center',
+  },
+  cartLinePrice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  cartDiscountButton: {
+    padding: 4,
+  },
+  cartLineGross: {
+    fontSize: 13,
+    opacity: 0.5,
+    textDecorationLine: 'line-through',
+  },
+  cartLineTotal: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  cartDiscountText: {
+    fontSize: 12,
+    color: '#10B981',
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  cartSubtotalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 12,
+    paddingHorizontal: 4,
+  },
+  cartVatText: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  cartDiscountLabel: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  cartDiscountLabelText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  cartTotalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 12,
+    paddingHorizontal: 4,
+  },
+  cartTotalLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  cartTotalValue: {
+    fontSize: 20,
     fontWeight: 'bold',
   },
   textInput: {
@@ -783,6 +1494,38 @@ const styles = StyleSheet.create({
     fontSize: 20,
     fontWeight: 'bold',
   },
+  historyAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+    backgroundColor: '#3B82F620',
+  },
+  historyActionText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#3B82F6',
+  },
+  historyActionDanger: {
+    backgroundColor: '#EF444420',
+  },
+  historyActionTextDanger: {
+    color: '#EF4444',
+  },
+  transactionCancelled: {
+    opacity: 0.6,
+  },
+  struckThrough: {
+    textDecorationLine: 'line-through',
+  },
+  cancelledNote: {
+    fontSize: 12,
+    color: '#EF4444',
+    marginTop: 2,
+  },
   modalOverlay: {
     flex: 1,
     backgroundColor: 'rgba(0,0,0,0.5)',
@@ -804,6 +1547,11 @@ const styles = StyleSheet.create({
     fontSize: 20,
     fontWeight: 'bold',
   },
+  overrideMessage: {
+    fontSize: 14,
+    color: '#EF4444',
+    marginBottom: 16,
+  },
   searchBarContainer: {
     flexDirection: 'row',
     gap: 12,
@@ -845,6 +1593,9 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: 'rgba(0,0,0,0.1)',
   },
+  modalProductThumbnail: {
+    marginRight: 12,
+  },
   modalProductInfo: {
     flex: 1,
   },
@@ -74,6 +74,15 @@ function RootLayoutNav() {
     <Stack>
       <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
       <Stack.Screen name="auth" options={{ headerShown: false }} />
+      <Stack.Screen name="fragrances" options={{ title: 'Fragrances' }} />
+      <Stack.Screen name="purchase-orders" options={{ title: 'Purchase Orders' }} />
+      <Stack.Screen name="suppliers" options={{ title: 'Suppliers' }} />
+      <Stack.Screen name="customers" options={{ title: 'Customers' }} />
+      <Stack.Screen name="customer/[id]" options={{ title: 'Customer' }} />
+      <Stack.Screen name="product/[sku]" options={{ title: 'Product' }} />
+      <Stack.Screen name="import-products" options={{ title: 'Import Products' }} />
+      <Stack.Screen name="import-ledger" options={{ title: 'Import Ledger History' }} />
+      <Stack.Screen name="shop-settings" options={{ title: 'Shop Settings' }} />
       <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
     </Stack>
   );
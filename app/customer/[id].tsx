@@ -0,0 +1,324 @@
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { router, Stack, useLocalSearchParams } from 'expo-router';
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { CustomerModal } from '@/components/customer-modal';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { deleteCustomer, getCustomerById, getCustomerTransactions, getFavoriteProducts } from '@/lib/api/customers';
+import { TransactionWithItems } from '@/lib/api/transactions';
+import { CustomerProductTotal, CustomerSummary } from '@/lib/types';
+
+export default function CustomerDetailScreen() {
+  const tintColor = useThemeColor({}, 'tint');
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const customerId = Number(id);
+
+  const [customer, setCustomer] = useState<CustomerSummary | null>(null);
+  const [favorites, setFavorites] = useState<CustomerProductTotal[]>([]);
+  const [transactions, setTransactions] = useState<TransactionWithItems[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showEditModal, setShowEditModal] = useState(false);
+
+  useEffect(() => {
+    fetchCustomer();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [customerId]);
+
+  const fetchCustomer = async () => {
+    try {
+      const [customerResult, favoritesResult, transactionsResult] = await Promise.all([
+        getCustomerById(customerId),
+        getFavoriteProducts(customerId),
+        getCustomerTransactions(customerId),
+      ]);
+
+      if (customerResult.error) {
+        console.error('Error fetching customer:', customerResult.error);
+        return;
+      }
+
+      setCustomer(customerResult.data);
+      setFavorites(favoritesResult.data || []);
+      setTransactions(transactionsResult.data || []);
+    } catch (error) {
+      console.error('Error in fetchCustomer:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!customer) {
+      return;
+    }
+
+    Alert.alert(
+      'Delete Customer',
+      `Are you sure you want to delete ${customer.name}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const { error } = await deleteCustomer(customer.id);
+
+            if (error) {
+              Alert.alert('Error', error.message || 'Failed to delete customer.');
+              return;
+            }
+
+            router.back();
+          },
+        },
+      ]
+    );
+  };
+
+  if (loading) {
+    return (
+      <ThemedView style={[styles.container, styles.loadingContainer]}>
+        <ActivityIndicator size="large" color={tintColor} />
+      </ThemedView>
+    );
+  }
+
+  if (!customer) {
+    return (
+      <ThemedView style={[styles.container, styles.loadingContainer]}>
+        <ThemedText>Customer not found</ThemedText>
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <Stack.Screen options={{ title: customer.name }} />
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Contact */}
+        <ThemedView style={[styles.section, styles.card]}>
+          <View style={styles.sectionHeader}>
+            <ThemedText style={styles.customerName}>{customer.name}</ThemedText>
+            <TouchableOpacity onPress={() => setShowEditModal(true)} style={styles.iconButton}>
+              <Ionicons name="create-outline" size={20} color={tintColor} />
+            </TouchableOpacity>
+            <TouchableOpacity onPress={handleDelete} style={styles.iconButton}>
+              <Ionicons name="trash-outline" size={20} color="#EF4444" />
+            </TouchableOpacity>
+          </View>
+          {customer.phone && (
+            <View style={styles.detailRow}>
+              <Ionicons name="call-outline" size={14} color={tintColor} />
+              <ThemedText style={styles.detailText}>{customer.phone}</ThemedText>
+            </View>
+          )}
+          {customer.email && (
+            <View style={styles.detailRow}>
+              <Ionicons name="mail-outline" size={14} color={tintColor} />
+              <ThemedText style={styles.detailText}>{customer.email}</ThemedText>
+            </View>
+          )}
+          {customer.notes && <ThemedText style={styles.notesText}>{customer.notes}</ThemedText>}
+        </ThemedView>
+
+        {/* Stats */}
+        <View style={styles.statsRow}>
+          <ThemedView style={[styles.statCard, styles.card]}>
+            <ThemedText style={styles.statValue}>₱{Number(customer.lifetime_purchases).toFixed(2)}</ThemedText>
+            <ThemedText style={styles.statLabel}>Lifetime Purchases</ThemedText>
+          </ThemedView>
+          <ThemedView style={[styles.statCard, styles.card]}>
+            <ThemedText style={styles.statValue}>{customer.visit_count}</ThemedText>
+            <ThemedText style={styles.statLabel}>Visits</ThemedText>
+          </ThemedView>
+          <ThemedView style={[styles.statCard, styles.card]}>
+            <ThemedText style={styles.statValue}>
+              {customer.last_visit ? format(new Date(customer.last_visit), 'MMM dd') : '—'}
+            </ThemedText>
+            <ThemedText style={styles.statLabel}>Last Visit</ThemedText>
+          </ThemedView>
+        </View>
+
+        {/* Favorite Scents */}
+        <ThemedView style={[styles.section, styles.card]}>
+          <ThemedText style={styles.sectionTitle}>Favorite Scents</ThemedText>
+          {favorites.length === 0 ? (
+            <ThemedText style={styles.emptyText}>No purchases yet</ThemedText>
+          ) : (
+            favorites.map((favorite, index) => (
+              <View key={favorite.sku} style={styles.listRow}>
+                <ThemedText style={[styles.rank, { color: tintColor }]}>{index + 1}</ThemedText>
+                <View style={styles.listInfo}>
+                  <ThemedText style={styles.listTitle}>{favorite.name} ({favorite.volume_ml}ml)</ThemedText>
+                  <ThemedText style={styles.listMeta}>
+                    Last bought {format(new Date(favorite.last_purchased), 'MMM dd, yyyy')}
+                  </ThemedText>
+                </View>
+                <ThemedText style={styles.listValue}>{favorite.units} pcs</ThemedText>
+              </View>
+            ))
+          )}
+        </ThemedView>
+
+        {/* Purchase History */}
+        <ThemedView style={[styles.section, styles.card]}>
+          <ThemedText style={styles.sectionTitle}>Purchase History</ThemedText>
+          {transactions.length === 0 ? (
+            <ThemedText style={styles.emptyText}>No transactions yet</ThemedText>
+          ) : (
+            transactions.map(transaction => {
+              const items = transaction.transaction_item || [];
+              const total = items.reduce((sum, item) => sum + item.total_amount - item.discount_amount, 0) - transaction.discount_amount;
+              const isCancelled = transaction.status === 'cancelled';
+              return (
+                <View key={transaction.id} style={styles.listRow}>
+                  <Ionicons
+                    name={transaction.transaction_type === 'Return' ? 'return-down-back-outline' : 'bag-handle-outline'}
+                    size={18}
+                    color={transaction.transaction_type === 'Return' ? '#3B82F6' : '#EF4444'}
+                  />
+                  <View style={styles.listInfo}>
+                    <ThemedText style={[styles.listTitle, isCancelled && styles.cancelledText]}>
+                      {transaction.transaction_type} • {items.length} {items.length === 1 ? 'item' : 'items'}
+                    </ThemedText>
+                    <ThemedText style={styles.listMeta}>
+                      {format(new Date(transaction.timestamp), 'MMM dd, yyyy HH:mm')}
+                      {isCancelled && ' • Cancelled'}
+                    </ThemedText>
+                  </View>
+                  <ThemedText style={[styles.listValue, isCancelled && styles.cancelledText]}>
+                    ₱{(transaction.transaction_type === 'Return' ? transaction.refund_amount ?? total : total).toFixed(2)}
+                  </ThemedText>
+                </View>
+              );
+            })
+          )}
+        </ThemedView>
+      </ScrollView>
+
+      <CustomerModal
+        visible={showEditModal}
+        customer={customer}
+        onClose={() => setShowEditModal(false)}
+        onSaved={fetchCustomer}
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(0,0,0,0.1)',
+  },
+  section: {
+    padding: 16,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  customerName: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  iconButton: {
+    padding: 4,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 4,
+  },
+  detailText: {
+    fontSize: 14,
+    opacity: 0.8,
+  },
+  notesText: {
+    fontSize: 13,
+    opacity: 0.6,
+    fontStyle: 'italic',
+    marginTop: 8,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  statCard: {
+    flex: 1,
+    padding: 12,
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  statLabel: {
+    fontSize: 11,
+    opacity: 0.6,
+    marginTop: 4,
+    textAlign: 'center',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    opacity: 0.6,
+  },
+  listRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(0,0,0,0.05)',
+  },
+  rank: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    width: 20,
+    textAlign: 'center',
+  },
+  listInfo: {
+    flex: 1,
+  },
+  listTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  listMeta: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  listValue: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  cancelledText: {
+    textDecorationLine: 'line-through',
+    opacity: 0.5,
+  },
+});
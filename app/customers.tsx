@@ -0,0 +1,276 @@
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { router, useFocusEffect } from 'expo-router';
+import { useCallback, useState } from 'react';
+import { ActivityIndicator, Alert, FlatList, RefreshControl, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { CustomerModal } from '@/components/customer-modal';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useAuth } from '@/context/AuthContext';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { getCustomers, migrateCustomerNames } from '@/lib/api/customers';
+import { CustomerSummary } from '@/lib/types';
+
+export default function CustomersScreen() {
+  const tintColor = useThemeColor({}, 'tint');
+  const textColor = useThemeColor({}, 'text');
+  const { isOwner } = useAuth();
+
+  const [customers, setCustomers] = useState<CustomerSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [showModal, setShowModal] = useState(false);
+  const [migrating, setMigrating] = useState(false);
+
+  const fetchCustomers = async () => {
+    try {
+      const { data, error } = await getCustomers();
+
+      if (error) {
+        console.error('Error fetching customers:', error);
+        return;
+      }
+
+      if (data) {
+        setCustomers(data);
+      }
+    } catch (error) {
+      console.error('Error in fetchCustomers:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Refetch when coming back from a customer's detail screen
+  useFocusEffect(
+    useCallback(() => {
+      fetchCustomers();
+    }, [])
+  );
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await fetchCustomers();
+    setRefreshing(false);
+  };
+
+  const handleMigrate = async () => {
+    setMigrating(true);
+    const { data, error } = await migrateCustomerNames();
+    setMigrating(false);
+
+    if (error) {
+      Alert.alert('Error', error.message || 'Failed to link customer names.');
+      return;
+    }
+
+    Alert.alert('Done', data ? `Linked ${data} past ${data === 1 ? 'sale' : 'sales'} to customer records.` : 'No unlinked customer names found.');
+    await fetchCustomers();
+  };
+
+  const query = searchQuery.trim().toLowerCase();
+  const filteredCustomers = query
+    ? customers.filter(c => c.name.toLowerCase().includes(query) || (c.phone || '').includes(query))
+    : customers;
+
+  const renderCustomerCard = ({ item }: { item: CustomerSummary }) => (
+    <TouchableOpacity onPress={() => router.push(`/customer/${item.id}` as any)} activeOpacity={0.7}>
+      <ThemedView style={[styles.customerCard, styles.card]}>
+        <View style={styles.cardHeader}>
+          <View style={styles.cardHeaderInfo}>
+            <ThemedText style={styles.customerName}>{item.name}</ThemedText>
+            {item.phone && <ThemedText style={styles.customerMeta}>{item.phone}</ThemedText>}
+          </View>
+          <ThemedText style={styles.lifetimeText}>₱{Number(item.lifetime_purchases).toFixed(2)}</ThemedText>
+        </View>
+        <ThemedText style={styles.customerMeta}>
+          {item.visit_count} {item.visit_count === 1 ? 'visit' : 'visits'}
+          {item.last_visit && ` • Last visit ${format(new Date(item.last_visit), 'MMM dd, yyyy')}`}
+        </ThemedText>
+      </ThemedView>
+    </TouchableOpacity>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      {/* Search Bar */}
+      <View style={styles.searchSection}>
+        <ThemedView style={[styles.searchContainer, { borderColor: tintColor + '40' }]}>
+          <Ionicons name="search-outline" size={20} color={tintColor} />
+          <TextInput
+            style={[styles.searchInput, { color: textColor }]}
+            placeholder="Search by name or phone..."
+            placeholderTextColor="#9CA3AF"
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+          />
+        </ThemedView>
+      </View>
+
+      {isOwner && (
+        <TouchableOpacity style={styles.migrateButton} onPress={handleMigrate} disabled={migrating}>
+          {migrating ? (
+            <ActivityIndicator size="small" color={tintColor} />
+          ) : (
+            <Ionicons name="git-merge-outline" size={16} color={tintColor} />
+          )}
+          <ThemedText style={[styles.migrateText, { color: tintColor }]}>
+            Link past sales by customer name
+          </ThemedText>
+        </TouchableOpacity>
+      )}
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={tintColor} />
+          <ThemedText style={{ marginTop: 16 }}>Loading customers...</ThemedText>
+        </View>
+      ) : (
+        <FlatList
+          data={filteredCustomers}
+          renderItem={renderCustomerCard}
+          keyExtractor={item => String(item.id)}
+          contentContainerStyle={styles.list}
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor={tintColor} />
+          }
+          ListEmptyComponent={
+            <ThemedView style={[styles.emptyState, styles.card]}>
+              <Ionicons name="people-outline" size={64} color="#9CA3AF" />
+              <ThemedText style={styles.emptyText}>No customers found</ThemedText>
+              <ThemedText style={styles.emptySubtext}>
+                Customers added on the Sale tab show up here
+              </ThemedText>
+            </ThemedView>
+          }
+        />
+      )}
+
+      {/* Floating Action Button */}
+      <TouchableOpacity
+        style={[styles.fab, { backgroundColor: tintColor }]}
+        onPress={() => setShowModal(true)}
+        activeOpacity={0.8}
+      >
+        <Ionicons name="add" size={28} color="#fff" />
+      </TouchableOpacity>
+
+      <CustomerModal
+        visible={showModal}
+        customer={null}
+        onClose={() => setShowModal(false)}
+        onSaved={fetchCustomers}
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  searchSection: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 8,
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 2,
+    gap: 8,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+  },
+  migrateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  migrateText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  list: {
+    paddingHorizontal: 16,
+    paddingTop: 8,
+    paddingBottom: 80,
+  },
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(0,0,0,0.1)',
+  },
+  customerCard: {
+    padding: 16,
+    marginBottom: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    gap: 12,
+    marginBottom: 8,
+  },
+  cardHeaderInfo: {
+    flex: 1,
+  },
+  customerName: {
+    fontSize: 17,
+    fontWeight: 'bold',
+  },
+  customerMeta: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  lifetimeText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  emptyState: {
+    padding: 40,
+    alignItems: 'center',
+    marginTop: 20,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginTop: 16,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    opacity: 0.6,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  fab: {
+    position: 'absolute',
+    right: 20,
+    bottom: 20,
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    alignItems: 'center',
+    justifyContent: 'center',
+    elevation: 4,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+  },
+});
@@ -0,0 +1,243 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, FlatList, RefreshControl, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { FragranceModal } from '@/components/fragrance-modal';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { CONCENTRATION_LABELS, GENDER_LABELS } from '@/constants/fragrances';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { deleteFragrance, getFragrances } from '@/lib/api/fragrances';
+import { Fragrance } from '@/lib/types';
+
+export default function FragrancesScreen() {
+  const tintColor = useThemeColor({}, 'tint');
+
+  const [fragrances, setFragrances] = useState<Fragrance[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [showModal, setShowModal] = useState(false);
+  const [editingFragrance, setEditingFragrance] = useState<Fragrance | null>(null);
+
+  useEffect(() => {
+    fetchFragrances();
+  }, []);
+
+  const fetchFragrances = async () => {
+    try {
+      const { data, error } = await getFragrances();
+
+      if (error) {
+        console.error('Error fetching fragrances:', error);
+        return;
+      }
+
+      if (data) {
+        setFragrances(data);
+      }
+    } catch (error) {
+      console.error('Error in fetchFragrances:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await fetchFragrances();
+    setRefreshing(false);
+  };
+
+  const openModal = (fragrance: Fragrance | null) => {
+    setEditingFragrance(fragrance);
+    setShowModal(true);
+  };
+
+  const handleDelete = (fragrance: Fragrance) => {
+    Alert.alert(
+      'Delete Fragrance',
+      `Delete ${fragrance.name}? Its bottle sizes are kept but no longer grouped.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const { error } = await deleteFragrance(fragrance.id);
+
+            if (error) {
+              Alert.alert('Error', error.message || 'Failed to delete fragrance.');
+              return;
+            }
+
+            await fetchFragrances();
+          },
+        },
+      ]
+    );
+  };
+
+  const renderFragranceCard = ({ item }: { item: Fragrance }) => (
+    <TouchableOpacity onPress={() => openModal(item)} activeOpacity={0.7}>
+      <ThemedView style={[styles.fragranceCard, styles.card]}>
+        <View style={styles.cardHeader}>
+          <ThemedText style={styles.fragranceName}>{item.name}</ThemedText>
+          <TouchableOpacity onPress={() => handleDelete(item)} style={styles.iconButton}>
+            <Ionicons name="trash-outline" size={20} color="#EF4444" />
+          </TouchableOpacity>
+        </View>
+
+        {item.brand && (
+          <View style={styles.detailRow}>
+            <Ionicons name="pricetag-outline" size={14} color={tintColor} />
+            <ThemedText style={styles.detailText}>{item.brand}</ThemedText>
+          </View>
+        )}
+        {(item.concentration || item.gender) && (
+          <View style={styles.detailRow}>
+            <Ionicons name="flask-outline" size={14} color={tintColor} />
+            <ThemedText style={styles.detailText}>
+              {[
+                item.concentration && CONCENTRATION_LABELS[item.concentration],
+                item.gender && GENDER_LABELS[item.gender],
+              ].filter(Boolean).join(' • ')}
+            </ThemedText>
+          </View>
+        )}
+        {item.notes && <ThemedText style={styles.notesText}>{item.notes}</ThemedText>}
+      </ThemedView>
+    </TouchableOpacity>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={tintColor} />
+          <ThemedText style={{ marginTop: 16 }}>Loading fragrances...</ThemedText>
+        </View>
+      ) : (
+        <FlatList
+          data={fragrances}
+          renderItem={renderFragranceCard}
+          keyExtractor={item => String(item.id)}
+          contentContainerStyle={styles.list}
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor={tintColor} />
+          }
+          ListEmptyComponent={
+            <ThemedView style={[styles.emptyState, styles.card]}>
+              <Ionicons name="flask-outline" size={64} color="#9CA3AF" />
+              <ThemedText style={styles.emptyText}>No fragrances yet</ThemedText>
+              <ThemedText style={styles.emptySubtext}>
+                Tap + to add a fragrance, then link its bottle sizes from Products
+              </ThemedText>
+            </ThemedView>
+          }
+        />
+      )}
+
+      {/* Floating Action Button */}
+      <TouchableOpacity
+        style={[styles.fab, { backgroundColor: tintColor }]}
+        onPress={() => openModal(null)}
+        activeOpacity={0.8}
+      >
+        <Ionicons name="add" size={28} color="#fff" />
+      </TouchableOpacity>
+
+      <FragranceModal
+        visible={showModal}
+        fragrance={editingFragrance}
+        onClose={() => setShowModal(false)}
+        onSaved={fetchFragrances}
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  list: {
+    padding: 16,
+    paddingBottom: 80,
+  },
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(0,0,0,0.1)',
+  },
+  fragranceCard: {
+    padding: 16,
+    marginBottom: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  fragranceName: {
+    flex: 1,
+    fontSize: 17,
+    fontWeight: 'bold',
+  },
+  iconButton: {
+    padding: 4,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 4,
+  },
+  detailText: {
+    fontSize: 13,
+    opacity: 0.8,
+  },
+  notesText: {
+    fontSize: 13,
+    opacity: 0.6,
+    fontStyle: 'italic',
+    marginTop: 8,
+  },
+  emptyState: {
+    padding: 40,
+    alignItems: 'center',
+    marginTop: 20,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginTop: 16,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    opacity: 0.6,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  fab: {
+    position: 'absolute',
+    right: 20,
+    bottom: 20,
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    alignItems: 'center',
+    justifyContent: 'center',
+    elevation: 4,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+  },
+});
@@ -0,0 +1,581 @@
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { endOfDay, format, startOfDay } from 'date-fns';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system/legacy';
+import { router } from 'expo-router';
+import { useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Alert, Modal, Platform, ScrollView, StyleSheet, Switch, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useAuth } from '@/context/AuthContext';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { getProducts } from '@/lib/api/products';
+import { importLedgerHistory, LedgerImportPeriod, LedgerImportPlanLine, LedgerImportResult } from '@/lib/api/transactions';
+import { CurrentStock } from '@/lib/types';
+import { LedgerSheet, matchLedgerRows, parseLedgerFile } from '@/lib/utils/ledgerImport';
+
+const IMPORT_FILE_TYPES = [
+  'text/csv',
+  'text/comma-separated-values',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-excel',
+];
+
+type PeriodField = 'startDate' | 'endDate';
+
+function formatChange(value: number): string {
+  return value > 0 ? `+${value}` : String(value);
+}
+
+function formatPeriod(startDate: Date, endDate: Date): string {
+  return `${format(startDate, 'MMM dd, yyyy')} - ${format(endDate, 'MMM dd, yyyy')}`;
+}
+
+export default function ImportLedgerScreen() {
+  const { user, isOwner } = useAuth();
+  const tintColor = useThemeColor({}, 'tint');
+
+  const [products, setProducts] = useState<CurrentStock[]>([]);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [sheets, setSheets] = useState<LedgerSheet[]>([]);
+  const [plan, setPlan] = useState<LedgerImportResult | null>(null);
+  const [confirmedOffsets, setConfirmedOffsets] = useState<string[]>([]);  // SKUs without a later count to offset anyway
+  const [datePicker, setDatePicker] = useState<{ sheet: number; field: PeriodField } | null>(null);
+  const [reading, setReading] = useState(false);
+  const [checking, setChecking] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    // Archived products had history too
+    getProducts(true).then(({ data }) => setProducts(data || []));
+  }, []);
+
+  const matchedSheets = useMemo(
+    () => sheets.map(sheet => ({ sheet, lines: matchLedgerRows(sheet, products) })),
+    [sheets, products]
+  );
+
+  // What gets sent: dated sheets oldest first, rows that matched a product
+  const periods: LedgerImportPeriod[] = matchedSheets
+    .filter(({ sheet }) => sheet.startDate && sheet.endDate)
+    .map(({ sheet, lines }) => ({
+      startDate: sheet.startDate!,
+      endDate: sheet.endDate!,
+      lines: lines
+        .filter(line => line.errors.length === 0)
+        .map(({ sku, beginning_inventory, deliveries, sales, ending_inventory }) => ({
+          sku: sku!,
+          beginning_inventory,
+          deliveries,
+          sales,
+          ending_inventory,
+        })),
+    }))
+    .filter(period => period.lines.length > 0)
+    .sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+
+  const undatedCount = sheets.filter(sheet => !sheet.startDate || !sheet.endDate).length;
+  const skippedCount = matchedSheets.reduce((sum, { lines }) => sum + lines.filter(line => line.errors.length > 0).length, 0);
+  const lineCount = periods.reduce((sum, period) => sum + period.lines.length, 0);
+
+  const handlePickFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: IMPORT_FILE_TYPES,
+        copyToCacheDirectory: true,
+      });
+
+      if (result.canceled || !result.assets?.[0]) {
+        return;
+      }
+
+      setReading(true);
+      const asset = result.assets[0];
+      const isCsv = /\.csv$/i.test(asset.name) || !!asset.mimeType?.includes('csv');
+      const content = await FileSystem.readAsStringAsync(asset.uri, {
+        encoding: isCsv ? FileSystem.EncodingType.UTF8 : FileSystem.EncodingType.Base64,
+      });
+      const parsed = parseLedgerFile(content, isCsv ? 'string' : 'base64').filter(sheet => sheet.rows.length > 0);
+
+      if (parsed.length === 0) {
+        Alert.alert('No Ledger Found', 'The file needs a header row with Product, ML, Beg Inv, Deliveries, Sales and End Inv.');
+        return;
+      }
+
+      setFileName(asset.name);
+      setSheets(parsed);
+      setPlan(null);
+    } catch (error) {
+      console.error('Error reading ledger file:', error);
+      Alert.alert('Error', 'Could not read the file. Use a CSV or XLSX file.');
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleDateChange = (event: any, selectedDate?: Date) => {
+    const target = datePicker;
+    if (Platform.OS !== 'ios') {
+      setDatePicker(null);
+    }
+    if (!selectedDate || !target) {
+      return;
+    }
+
+    setSheets(sheets.map((sheet, index) => index !== target.sheet ? sheet : {
+      ...sheet,
+      [target.field]: target.field === 'startDate' ? startOfDay(selectedDate) : endOfDay(selectedDate),
+    }));
+    setPlan(null);
+  };
+
+  const handleCheck = async () => {
+    if (!user) {
+      Alert.alert('Error', 'You must be logged in');
+      return;
+    }
+
+    setChecking(true);
+    const { data, error } = await importLedgerHistory(periods, user.id, true);
+    setChecking(false);
+
+    if (error || !data) {
+      Alert.alert('Error', error?.message || 'Failed to check the ledger');
+      return;
+    }
+
+    setPlan(data);
+    setConfirmedOffsets([]);
+  };
+
+  const toggleOffset = (sku: string, confirmed: boolean) => {
+    setConfirmedOffsets(prev => confirmed ? [...prev, sku] : prev.filter(item => item !== sku));
+  };
+
+  const handleImport = () => {
+    if (!user || !plan) {
+      return;
+    }
+
+    const skipped = skippedCount > 0 ? ` ${skippedCount} unmatched ${skippedCount === 1 ? 'row is' : 'rows are'} skipped.` : '';
+
+    Alert.alert(
+      'Import Ledger History',
+      `Post opening balances and movements for ${lineCount} ${lineCount === 1 ? 'line' : 'lines'} across ${periods.length} ${periods.length === 1 ? 'period' : 'periods'}? Stock on hand changes to match.${skipped}`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Import',
+          onPress: async () => {
+            setImporting(true);
+            const { data, error } = await importLedgerHistory(periods, user.id, false, confirmedOffsets);
+            setImporting(false);
+
+            if (error || !data) {
+              Alert.alert('Import Failed', `${error?.message || 'Failed to import the ledger.'} Nothing was posted.`);
+              return;
+            }
+
+            Alert.alert('Success', `${data.transactions} ${data.transactions === 1 ? 'transaction' : 'transactions'} posted (reference LEDGER-IMPORT)`);
+            router.back();
+          },
+        },
+      ]
+    );
+  };
+
+  const renderPlanLine = (line: LedgerImportPlanLine, key: string) => (
+    <View key={key} style={styles.previewRow}>
+      <View style={styles.previewInfo}>
+        <ThemedText style={styles.previewTitle}>
+          {line.sku}{line.name ? ` • ${line.name}` : ''}
+        </ThemedText>
+        {line.error ? (
+          <ThemedText style={styles.errorText}>{line.error}</ThemedText>
+        ) : (
+          <ThemedText style={styles.changeText}>
+            Opening {formatChange(line.opening_adjustment)} • Deliveries +{line.deliveries_added} • Sales +{line.sales_added} • Closing {formatChange(line.closing_adjustment)}
+          </ThemedText>
+        )}
+      </View>
+    </View>
+  );
+
+  // The plan comes back in the order the lines were sent
+  let planOffset = 0;
+  const planByPeriod = periods.map(period => {
+    const lines = plan ? plan.lines.slice(planOffset, planOffset + period.lines.length) : [];
+    planOffset += period.lines.length;
+    return { period, lines };
+  });
+
+  const pickerSheet = datePicker ? sheets[datePicker.sheet] : null;
+
+  if (!isOwner) {
+    return (
+      <ThemedView style={styles.container}>
+        <View style={styles.content}>
+          <ThemedText style={styles.hint}>Only owners can import ledger history.</ThemedText>
+        </View>
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        {/* File */}
+        <ThemedView style={[styles.section, styles.card]}>
+          <View style={styles.sectionHeader}>
+            <Ionicons name="document-outline" size={22} color={tintColor} />
+            <ThemedText style={styles.sectionTitle}>Paper Ledger</ThemedText>
+          </View>
+          <ThemedText style={styles.hint}>
+            A spreadsheet laid out like the Inventory Ledger export: Product, ML, Beg Inv, Deliveries, Sales and End Inv, one sheet per period. Brand or SKU columns help tell similar products apart.
+          </ThemedText>
+          <TouchableOpacity
+            style={[styles.pickButton, { borderColor: tintColor }]}
+            onPress={handlePickFile}
+            disabled={reading}
+          >
+            {reading ? (
+              <ActivityIndicator size="small" color={tintColor} />
+            ) : (
+              <Ionicons name="folder-open-outline" size={20} color={tintColor} />
+            )}
+            <ThemedText style={[styles.pickButtonText, { color: tintColor }]}>
+              {fileName ? 'Choose Another File' : 'Choose File'}
+            </ThemedText>
+          </TouchableOpacity>
+          {fileName && (
+            <ThemedText style={styles.fileText}>
+              {fileName} • {sheets.length} {sheets.length === 1 ? 'period' : 'periods'}
+            </ThemedText>
+          )}
+        </ThemedView>
+
+        {/* Periods */}
+        {matchedSheets.map(({ sheet, lines }, index) => {
+          const unmatched = lines.filter(line => line.errors.length > 0);
+          return (
+            <ThemedView key={sheet.name} style={[styles.section, styles.card]}>
+              <View style={styles.sectionHeader}>
+                <Ionicons name="calendar-outline" size={22} color={tintColor} />
+                <ThemedText style={styles.sectionTitle}>{sheet.name}</ThemedText>
+              </View>
+              <View style={styles.dateRow}>
+                {(['startDate', 'endDate'] as PeriodField[]).map(field => (
+                  <TouchableOpacity
+                    key={field}
+                    style={[styles.dateButton, { borderColor: sheet[field] ? tintColor + '40' : '#EF4444' }]}
+                    onPress={() => setDatePicker({ sheet: index, field })}
+                  >
+                    <ThemedText style={styles.dateLabel}>{field === 'startDate' ? 'From' : 'To'}</ThemedText>
+                    <ThemedText style={styles.dateValue}>
+                      {sheet[field] ? format(sheet[field]!, 'MMM dd, yyyy') : 'Set date'}
+                    </ThemedText>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <ThemedText style={styles.fileText}>
+                {lines.length - unmatched.length} of {lines.length} {lines.length === 1 ? 'row' : 'rows'} matched a product
+              </ThemedText>
+              {unmatched.map(line => (
+                <View key={line.rowNumber} style={styles.previewRow}>
+                  <View style={styles.previewInfo}>
+                    <ThemedText style={styles.previewTitle}>{line.label}</ThemedText>
+                    <ThemedText style={styles.previewMeta}>Row {line.rowNumber} • skipped</ThemedText>
+                    {line.errors.map(message => (
+                      <ThemedText key={message} style={styles.errorText}>{message}</ThemedText>
+                    ))}
+                  </View>
+                </View>
+              ))}
+            </ThemedView>
+          );
+        })}
+
+        {/* Preview */}
+        {plan && (
+          <ThemedView style={[styles.section, styles.card]}>
+            <View style={styles.sectionHeader}>
+              <Ionicons name="eye-outline" size={22} color={tintColor} />
+              <ThemedText style={styles.sectionTitle}>What Will Be Posted</ThemedText>
+            </View>
+            <ThemedText style={styles.hint}>
+              Movements already in the app count toward the paper figures. Opening balances post just before each period; returns and adjustments on paper end up in the closing count correction.
+            </ThemedText>
+            {plan.errors > 0 && (
+              <ThemedText style={[styles.errorText, styles.planSummary]}>
+                {plan.errors} {plan.errors === 1 ? 'line needs' : 'lines need'} fixing before anything can be imported
+              </ThemedText>
+            )}
+            {planByPeriod.map(({ period, lines }) => (
+              <View key={period.startDate.toISOString()}>
+                <ThemedText style={styles.periodTitle}>{formatPeriod(period.startDate, period.endDate)}</ThemedText>
+                {lines.map((line, index) => renderPlanLine(line, `${period.startDate.toISOString()}-${index}`))}
+              </View>
+            ))}
+            {plan.offsets.length > 0 && (
+              <View>
+                <ThemedText style={styles.periodTitle}>Keeping Today&apos;s Stock</ThemedText>
+                <ThemedText style={styles.hint}>
+                  These products already have transactions after their last imported period. Where a later count sets the stock, the import&apos;s units are taken back out right after the period. Otherwise turn the offset on only if the stock on paper is already on hand in the app.
+                </ThemedText>
+                {plan.offsets.map(offset => (
+                  <View key={offset.sku} style={styles.previewRow}>
+                    <View style={styles.previewInfo}>
+                      <ThemedText style={styles.previewTitle}>{offset.sku} • {offset.name}</ThemedText>
+                      <ThemedText style={styles.changeText}>
+                        {formatChange(offset.quantity)} after {format(new Date(offset.after), 'MMM dd, yyyy')}
+                      </ThemedText>
+                      <ThemedText style={styles.previewMeta}>
+                        {offset.recounted ? 'A later count already sets the stock' : 'No later count; stock on hand includes the paper End Inv unless offset'}
+                      </ThemedText>
+                    </View>
+                    {!offset.recounted && (
+                      <Switch
+                        value={confirmedOffsets.includes(offset.sku)}
+                        onValueChange={value => toggleOffset(offset.sku, value)}
+                        trackColor={{ true: tintColor }}
+                      />
+                    )}
+                  </View>
+                ))}
+              </View>
+            )}
+          </ThemedView>
+        )}
+
+        {sheets.length > 0 && (
+          plan && plan.errors === 0 ? (
+            <TouchableOpacity
+              style={[styles.importButton, { backgroundColor: tintColor }, importing && styles.importButtonDisabled]}
+              onPress={handleImport}
+              disabled={importing}
+            >
+              {importing ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Ionicons name="cloud-upload-outline" size={22} color="#fff" />
+              )}
+              <ThemedText style={styles.importButtonText}>
+                {importing ? 'Importing...' : 'Import Ledger History'}
+              </ThemedText>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity
+              style={[
+                styles.importButton,
+                { backgroundColor: tintColor },
+                (checking || undatedCount > 0 || lineCount === 0) && styles.importButtonDisabled,
+              ]}
+              onPress={handleCheck}
+              disabled={checking || undatedCount > 0 || lineCount === 0}
+            >
+              {checking ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Ionicons name="checkmark-done-outline" size={22} color="#fff" />
+              )}
+              <ThemedText style={styles.importButtonText}>
+                {checking
+                  ? 'Checking...'
+                  : undatedCount > 0
+                  ? 'Set Every Period First'
+                  : `Check ${lineCount} ${lineCount === 1 ? 'Line' : 'Lines'}`}
+              </ThemedText>
+            </TouchableOpacity>
+          )
+        )}
+      </ScrollView>
+
+      {/* Date Picker */}
+      {datePicker && pickerSheet && (
+        <Modal transparent animationType="slide">
+          <View style={styles.modalOverlay}>
+            <ThemedView style={styles.modalContent}>
+              <View style={styles.modalHeader}>
+                <ThemedText style={styles.modalTitle}>
+                  {datePicker.field === 'startDate' ? 'Period Starts' : 'Period Ends'}
+                </ThemedText>
+                <TouchableOpacity onPress={() => setDatePicker(null)}>
+                  <Ionicons name="close" size={24} color={tintColor} />
+                </TouchableOpacity>
+              </View>
+              <DateTimePicker
+                value={pickerSheet[datePicker.field] || new Date()}
+                mode="date"
+                display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                onChange={handleDateChange}
+                minimumDate={datePicker.field === 'endDate' ? pickerSheet.startDate || undefined : undefined}
+                maximumDate={datePicker.field === 'startDate' ? pickerSheet.endDate || new Date() : new Date()}
+              />
+              {Platform.OS === 'ios' && (
+                <TouchableOpacity
+                  style={[styles.doneButton, { backgroundColor: tintColor }]}
+                  onPress={() => setDatePicker(null)}
+                >
+                  <ThemedText style={styles.doneButtonText}>Done</ThemedText>
+                </TouchableOpacity>
+              )}
+            </ThemedView>
+          </View>
+        </Modal>
+      )}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(0,0,0,0.1)',
+  },
+  section: {
+    padding: 16,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  pickButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderStyle: 'dashed',
+    marginTop: 12,
+  },
+  pickButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  fileText: {
+    fontSize: 13,
+    marginTop: 8,
+  },
+  dateRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  dateButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 2,
+  },
+  dateLabel: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  dateValue: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  planSummary: {
+    marginTop: 8,
+  },
+  periodTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 12,
+  },
+  previewRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 10,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(0,0,0,0.05)',
+  },
+  previewInfo: {
+    flex: 1,
+  },
+  previewTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  previewMeta: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#EF4444',
+  },
+  changeText: {
+    fontSize: 12,
+    opacity: 0.8,
+  },
+  importButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+    borderRadius: 12,
+    gap: 8,
+  },
+  importButtonDisabled: {
+    opacity: 0.6,
+  },
+  importButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  doneButton: {
+    marginTop: 20,
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  doneButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
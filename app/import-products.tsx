@@ -0,0 +1,474 @@
+import { Ionicons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system/legacy';
+import { router } from 'expo-router';
+import { useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Alert, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { PRODUCT_IMPORT_FIELD_LABELS } from '@/constants/products';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { getProducts, importProducts } from '@/lib/api/products';
+import { CurrentStock, ProductImportField } from '@/lib/types';
+import {
+  buildImportPreview,
+  countImportRows,
+  guessColumnMapping,
+  ImportColumnMapping,
+  ImportPreviewRow,
+  ImportRowStatus,
+  ImportSheet,
+  parseImportFile,
+} from '@/lib/utils/productImport';
+
+const IMPORT_FIELDS = Object.keys(PRODUCT_IMPORT_FIELD_LABELS) as ProductImportField[];
+
+const IMPORT_FILE_TYPES = [
+  'text/csv',
+  'text/comma-separated-values',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-excel',
+];
+
+const STATUS_LABELS: Record<ImportRowStatus, string> = {
+  new: 'New',
+  updated: 'Updated',
+  unchanged: 'Unchanged',
+  invalid: 'Invalid',
+};
+
+const STATUS_COLORS: Record<ImportRowStatus, string> = {
+  new: '#10B981',
+  updated: '#3B82F6',
+  unchanged: '#9CA3AF',
+  invalid: '#EF4444',
+};
+
+const STATUSES = Object.keys(STATUS_LABELS) as ImportRowStatus[];
+
+function formatFieldValue(field: ProductImportField, value: string | number | null): string {
+  if (value === null || value === '') {
+    return '—';
+  }
+  if (field === 'price') {
+    return `₱${Number(value).toFixed(2)}`;
+  }
+  if (field === 'volume_ml') {
+    return `${value}ml`;
+  }
+  return String(value);
+}
+
+export default function ImportProductsScreen() {
+  const tintColor = useThemeColor({}, 'tint');
+
+  const [existingProducts, setExistingProducts] = useState<CurrentStock[]>([]);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [sheet, setSheet] = useState<ImportSheet | null>(null);
+  const [mapping, setMapping] = useState<ImportColumnMapping>({});
+  const [statusFilter, setStatusFilter] = useState<ImportRowStatus | null>(null);
+  const [reading, setReading] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    // Archived products count too, so their SKUs update instead of clashing
+    getProducts(true).then(({ data }) => setExistingProducts(data || []));
+  }, []);
+
+  const preview = useMemo(
+    () => (sheet && mapping.sku !== undefined ? buildImportPreview(sheet, mapping, existingProducts) : []),
+    [sheet, mapping, existingProducts]
+  );
+  const counts = countImportRows(preview);
+  const changedRows = preview.filter(row => row.status === 'new' || row.status === 'updated');
+  const visibleRows = statusFilter ? preview.filter(row => row.status === statusFilter) : preview;
+
+  const handlePickFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: IMPORT_FILE_TYPES,
+        copyToCacheDirectory: true,
+      });
+
+      if (result.canceled || !result.assets?.[0]) {
+        return;
+      }
+
+      setReading(true);
+      const asset = result.assets[0];
+      const isCsv = /\.csv$/i.test(asset.name) || !!asset.mimeType?.includes('csv');
+      const content = await FileSystem.readAsStringAsync(asset.uri, {
+        encoding: isCsv ? FileSystem.EncodingType.UTF8 : FileSystem.EncodingType.Base64,
+      });
+      const parsed = parseImportFile(content, isCsv ? 'string' : 'base64');
+
+      if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+        Alert.alert('Empty File', 'The file needs a header row and at least one product.');
+        return;
+      }
+
+      setFileName(asset.name);
+      setSheet(parsed);
+      setMapping(guessColumnMapping(parsed.headers));
+      setStatusFilter(null);
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      Alert.alert('Error', 'Could not read the file. Use a CSV or XLSX file.');
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleMapColumn = (field: ProductImportField, column: number | undefined) => {
+    setMapping({ ...mapping, [field]: column });
+  };
+
+  const handleImport = () => {
+    if (changedRows.length === 0) {
+      Alert.alert('Nothing to Import', 'No rows would add or change a product.');
+      return;
+    }
+
+    const skipped = counts.invalid > 0 ? ` ${counts.invalid} invalid ${counts.invalid === 1 ? 'row is' : 'rows are'} skipped.` : '';
+
+    Alert.alert(
+      'Import Products',
+      `Add ${counts.new} and update ${counts.updated} ${counts.updated === 1 ? 'product' : 'products'}?${skipped}`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Import',
+          onPress: async () => {
+            setImporting(true);
+            const { data, error } = await importProducts(changedRows.map(row => row.values!));
+            setImporting(false);
+
+            if (error) {
+              Alert.alert('Import Failed', `${error.message || 'Failed to import products.'} Nothing was saved.`);
+              return;
+            }
+
+            Alert.alert('Success', `${data} ${data === 1 ? 'product' : 'products'} imported`);
+            router.back();
+          },
+        },
+      ]
+    );
+  };
+
+  const renderPreviewRow = (row: ImportPreviewRow) => (
+    <View key={row.rowNumber} style={styles.previewRow}>
+      <View style={[styles.statusBadge, { backgroundColor: STATUS_COLORS[row.status] }]}>
+        <ThemedText style={styles.statusText}>{STATUS_LABELS[row.status]}</ThemedText>
+      </View>
+      <View style={styles.previewInfo}>
+        <ThemedText style={styles.previewTitle}>
+          {row.sku || '(no SKU)'}{row.values?.name ? ` • ${row.values.name}` : ''}
+        </ThemedText>
+        <ThemedText style={styles.previewMeta}>Row {row.rowNumber}</ThemedText>
+        {row.errors.map(message => (
+          <ThemedText key={message} style={styles.errorText}>{message}</ThemedText>
+        ))}
+        {row.status === 'updated' && row.existing && row.values && row.changes.map(field => (
+          <ThemedText key={field} style={styles.changeText}>
+            {PRODUCT_IMPORT_FIELD_LABELS[field]}: {formatFieldValue(field, row.existing![field])} → {formatFieldValue(field, row.values![field])}
+          </ThemedText>
+        ))}
+        {row.status === 'new' && row.values && (
+          <ThemedText style={styles.changeText}>
+            {formatFieldValue('volume_ml', row.values.volume_ml)} • {formatFieldValue('price', row.values.price)} • Min stock {row.values.min_stock_threshold}
+          </ThemedText>
+        )}
+      </View>
+    </View>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        {/* File */}
+        <ThemedView style={[styles.section, styles.card]}>
+          <View style={styles.sectionHeader}>
+            <Ionicons name="document-outline" size={22} color={tintColor} />
+            <ThemedText style={styles.sectionTitle}>File</ThemedText>
+          </View>
+          <ThemedText style={styles.hint}>
+            A CSV or XLSX file with a header row. Rows whose SKU already exists update that product; empty cells keep its current value.
+          </ThemedText>
+          <TouchableOpacity
+            style={[styles.pickButton, { borderColor: tintColor }]}
+            onPress={handlePickFile}
+            disabled={reading}
+          >
+            {reading ? (
+              <ActivityIndicator size="small" color={tintColor} />
+            ) : (
+              <Ionicons name="folder-open-outline" size={20} color={tintColor} />
+            )}
+            <ThemedText style={[styles.pickButtonText, { color: tintColor }]}>
+              {fileName ? 'Choose Another File' : 'Choose File'}
+            </ThemedText>
+          </TouchableOpacity>
+          {fileName && sheet && (
+            <ThemedText style={styles.fileText}>
+              {fileName} • {sheet.rows.length} {sheet.rows.length === 1 ? 'row' : 'rows'}
+            </ThemedText>
+          )}
+        </ThemedView>
+
+        {/* Column Mapping */}
+        {sheet && (
+          <ThemedView style={[styles.section, styles.card]}>
+            <View style={styles.sectionHeader}>
+              <Ionicons name="git-compare-outline" size={22} color={tintColor} />
+              <ThemedText style={styles.sectionTitle}>Columns</ThemedText>
+            </View>
+            {IMPORT_FIELDS.map(field => (
+              <View key={field} style={styles.formGroup}>
+                <ThemedText style={styles.label}>
+                  {PRODUCT_IMPORT_FIELD_LABELS[field]}{field === 'sku' ? ' *' : ''}
+                </ThemedText>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+                  {field !== 'sku' && (
+                    <TouchableOpacity
+                      style={[
+                        styles.chip,
+                        { borderColor: tintColor + '40' },
+                        mapping[field] === undefined && { backgroundColor: tintColor, borderColor: tintColor },
+                      ]}
+                      onPress={() => handleMapColumn(field, undefined)}
+                    >
+                      <ThemedText style={[styles.chipText, mapping[field] === undefined && styles.chipTextActive]}>
+                        Skip
+                      </ThemedText>
+                    </TouchableOpacity>
+                  )}
+                  {sheet.headers.map((header, column) => {
+                    const selected = mapping[field] === column;
+                    return (
+                      <TouchableOpacity
+                        key={column}
+                        style={[
+                          styles.chip,
+                          { borderColor: tintColor + '40' },
+                          selected && { backgroundColor: tintColor, borderColor: tintColor },
+                        ]}
+                        onPress={() => handleMapColumn(field, column)}
+                      >
+                        <ThemedText style={[styles.chipText, selected && styles.chipTextActive]}>
+                          {header || `Column ${column + 1}`}
+                        </ThemedText>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </ScrollView>
+              </View>
+            ))}
+          </ThemedView>
+        )}
+
+        {/* Preview */}
+        {sheet && (
+          <ThemedView style={[styles.section, styles.card]}>
+            <View style={styles.sectionHeader}>
+              <Ionicons name="eye-outline" size={22} color={tintColor} />
+              <ThemedText style={styles.sectionTitle}>Preview</ThemedText>
+            </View>
+            {mapping.sku === undefined ? (
+              <ThemedText style={styles.hint}>Choose the SKU column to see what will change.</ThemedText>
+            ) : (
+              <>
+                <View style={[styles.chipRow, styles.statusRow]}>
+                  {STATUSES.map(status => {
+                    const selected = statusFilter === status;
+                    return (
+                      <TouchableOpacity
+                        key={status}
+                        style={[
+                          styles.chip,
+                          { borderColor: STATUS_COLORS[status] },
+                          selected && { backgroundColor: STATUS_COLORS[status] },
+                        ]}
+                        onPress={() => setStatusFilter(selected ? null : status)}
+                      >
+                        <ThemedText style={[styles.chipText, selected && styles.chipTextActive]}>
+                          {STATUS_LABELS[status]} {counts[status]}
+                        </ThemedText>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+                {visibleRows.length === 0 ? (
+                  <ThemedText style={styles.hint}>No rows</ThemedText>
+                ) : (
+                  visibleRows.map(renderPreviewRow)
+                )}
+              </>
+            )}
+          </ThemedView>
+        )}
+
+        {sheet && mapping.sku !== undefined && (
+          <TouchableOpacity
+            style={[
+              styles.importButton,
+              { backgroundColor: tintColor },
+              (importing || changedRows.length === 0) && styles.importButtonDisabled,
+            ]}
+            onPress={handleImport}
+            disabled={importing || changedRows.length === 0}
+          >
+            {importing ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Ionicons name="cloud-upload-outline" size={22} color="#fff" />
+            )}
+            <ThemedText style={styles.importButtonText}>
+              {importing
+                ? 'Importing...'
+                : `Import ${changedRows.length} ${changedRows.length === 1 ? 'Product' : 'Products'}`}
+            </ThemedText>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(0,0,0,0.1)',
+  },
+  section: {
+    padding: 16,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  pickButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderStyle: 'dashed',
+    marginTop: 12,
+  },
+  pickButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  fileText: {
+    fontSize: 13,
+    marginTop: 8,
+  },
+  formGroup: {
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 8,
+    opacity: 0.8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  statusRow: {
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 2,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  previewRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 10,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(0,0,0,0.05)',
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+    minWidth: 72,
+    alignItems: 'center',
+  },
+  statusText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  previewInfo: {
+    flex: 1,
+  },
+  previewTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  previewMeta: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#EF4444',
+  },
+  changeText: {
+    fontSize: 12,
+    opacity: 0.8,
+  },
+  importButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+    borderRadius: 12,
+    gap: 8,
+  },
+  importButtonDisabled: {
+    opacity: 0.6,
+  },
+  importButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,303 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router, Stack, useLocalSearchParams } from 'expo-router';
+import { format } from 'date-fns';
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, ScrollView, StyleSheet, TouchableOpacity, useWindowDimensions, View } from 'react-native';
+
+import { ProductPhotos } from '@/components/product-photos';
+import { ProductSkuAction, ProductSkuModal } from '@/components/product-sku-modal';
+import { ProductThumbnail } from '@/components/product-thumbnail';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { CONCENTRATION_LABELS, GENDER_LABELS } from '@/constants/fragrances';
+import { useAuth } from '@/context/AuthContext';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { getProductImages } from '@/lib/api/productImages';
+import { getProductBySku, getProductSkuChanges, SkuChangeEntry } from '@/lib/api/products';
+import { CurrentStock, ProductImage } from '@/lib/types';
+
+export default function ProductDetailScreen() {
+  const tintColor = useThemeColor({}, 'tint');
+  const { width } = useWindowDimensions();
+  const { sku } = useLocalSearchParams<{ sku: string }>();
+  const { isOwner } = useAuth();
+
+  const [product, setProduct] = useState<CurrentStock | null>(null);
+  const [images, setImages] = useState<ProductImage[]>([]);
+  const [skuChanges, setSkuChanges] = useState<SkuChangeEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [skuAction, setSkuAction] = useState<ProductSkuAction | null>(null);
+
+  useEffect(() => {
+    fetchProduct();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sku]);
+
+  const fetchProduct = async () => {
+    try {
+      const [productResult, imagesResult] = await Promise.all([
+        getProductBySku(sku),
+        getProductImages(sku),
+      ]);
+
+      if (productResult.error) {
+        console.error('Error fetching product:', productResult.error);
+        return;
+      }
+
+      setProduct(productResult.data);
+      setImages(imagesResult.data || []);
+
+      if (productResult.data) {
+        const { data: changes } = await getProductSkuChanges(productResult.data.sku, productResult.data.sku_aliases);
+        setSkuChanges(changes || []);
+      }
+    } catch (error) {
+      console.error('Error in fetchProduct:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <ThemedView style={[styles.container, styles.loadingContainer]}>
+        <ActivityIndicator size="large" color={tintColor} />
+      </ThemedView>
+    );
+  }
+
+  if (!product) {
+    return (
+      <ThemedView style={[styles.container, styles.loadingContainer]}>
+        <ThemedText>Product not found</ThemedText>
+      </ThemedView>
+    );
+  }
+
+  const handleSkuActionDone = (newSku: string) => {
+    setSkuAction(null);
+    router.replace(`/product/${encodeURIComponent(newSku)}` as any);
+  };
+
+  const imageSize = width - 32;
+  const isLowStock = product.quantity_on_hand <= product.min_stock_threshold;
+
+  return (
+    <ThemedView style={styles.container}>
+      <Stack.Screen options={{ title: product.name }} />
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Photos, swipe for more */}
+        {images.length === 0 ? (
+          <ProductThumbnail path={null} size={imageSize} style={styles.heroImage} />
+        ) : (
+          <ScrollView horizontal pagingEnabled showsHorizontalScrollIndicator={false} style={styles.heroImage}>
+            {images.map(image => (
+              <ProductThumbnail key={image.id} path={image.storage_path} size={imageSize} />
+            ))}
+          </ScrollView>
+        )}
+
+        {/* Details */}
+        <ThemedView style={[styles.section, styles.card]}>
+          <ThemedText style={styles.productName}>{product.name}</ThemedText>
+          {product.archived_at && (
+            <View style={styles.archivedRow}>
+              <Ionicons name="archive-outline" size={14} color="#6B7280" />
+              <ThemedText style={styles.archivedText}>
+                Archived {format(new Date(product.archived_at), 'MMM dd, yyyy')}
+              </ThemedText>
+            </View>
+          )}
+          <ThemedText style={styles.metaText}>
+            {[product.sku, `${product.volume_ml}ml`, product.category].filter(Boolean).join(' • ')}
+          </ThemedText>
+          {(product.brand || product.concentration || product.gender) && (
+            <ThemedText style={styles.metaText}>
+              {[
+                product.brand,
+                product.concentration && CONCENTRATION_LABELS[product.concentration],
+                product.gender && GENDER_LABELS[product.gender],
+              ].filter(Boolean).join(' • ')}
+            </ThemedText>
+          )}
+          <View style={styles.detailRow}>
+            <Ionicons name={isLowStock ? 'alert-circle' : 'cube'} size={16} color={isLowStock ? '#EF4444' : tintColor} />
+            <ThemedText style={[styles.detailText, isLowStock && styles.lowStockText]}>
+              {product.quantity_on_hand} in stock
+            </ThemedText>
+            <ThemedText style={styles.priceText}>₱{product.price.toFixed(2)}</ThemedText>
+          </View>
+          {product.description && <ThemedText style={styles.notesText}>{product.description}</ThemedText>}
+        </ThemedView>
+
+        {/* SKU, aliases, renames and merges */}
+        <ThemedView style={[styles.section, styles.card]}>
+          <ThemedText style={styles.sectionTitle}>SKU</ThemedText>
+          {product.sku_aliases.length > 0 && (
+            <ThemedText style={styles.metaText}>Also scans as {product.sku_aliases.join(', ')}</ThemedText>
+          )}
+          {skuChanges.map(change => (
+            <View key={change.id} style={styles.changeRow}>
+              <Ionicons name={change.change_type === 'rename' ? 'pricetag-outline' : 'git-merge-outline'} size={16} color={tintColor} />
+              <View style={styles.changeInfo}>
+                <ThemedText style={styles.changeTitle}>
+                  {change.change_type === 'rename'
+                    ? `Renamed ${change.from_sku} → ${change.to_sku}`
+                    : `Merged ${change.from_sku} (${change.from_name}) into ${change.to_sku}`}
+                </ThemedText>
+                <ThemedText style={styles.metaText}>
+                  {[
+                    format(new Date(change.changed_at), 'MMM dd, yyyy HH:mm'),
+                    change.user?.full_name,
+                    change.change_type === 'merge' && `${change.moved_quantity} units moved`,
+                  ].filter(Boolean).join(' • ')}
+                </ThemedText>
+              </View>
+            </View>
+          ))}
+          {isOwner && (
+            <View style={styles.actionRow}>
+              <TouchableOpacity
+                style={[styles.actionButton, { borderColor: tintColor + '40' }]}
+                onPress={() => setSkuAction('rename')}
+              >
+                <Ionicons name="pricetag-outline" size={18} color={tintColor} />
+                <ThemedText style={[styles.actionText, { color: tintColor }]}>Rename SKU</ThemedText>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.actionButton, { borderColor: tintColor + '40' }]}
+                onPress={() => setSkuAction('merge')}
+              >
+                <Ionicons name="git-merge-outline" size={18} color={tintColor} />
+                <ThemedText style={[styles.actionText, { color: tintColor }]}>Merge Into...</ThemedText>
+              </TouchableOpacity>
+            </View>
+          )}
+        </ThemedView>
+
+        {/* Manage Photos */}
+        <ThemedView style={[styles.section, styles.card]}>
+          <ThemedText style={styles.sectionTitle}>Photos</ThemedText>
+          <ProductPhotos sku={product.sku} onChange={fetchProduct} />
+        </ThemedView>
+      </ScrollView>
+
+      <ProductSkuModal
+        visible={skuAction !== null}
+        action={skuAction || 'rename'}
+        product={product}
+        onClose={() => setSkuAction(null)}
+        onDone={handleSkuActionDone}
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  heroImage: {
+    borderRadius: 16,
+  },
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(0,0,0,0.1)',
+  },
+  section: {
+    padding: 16,
+  },
+  productName: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 4,
+  },
+  archivedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginBottom: 4,
+  },
+  archivedText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  metaText: {
+    fontSize: 13,
+    opacity: 0.7,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 12,
+  },
+  detailText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  lowStockText: {
+    color: '#EF4444',
+  },
+  priceText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  notesText: {
+    fontSize: 13,
+    opacity: 0.6,
+    fontStyle: 'italic',
+    marginTop: 8,
+  },
+  changeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(0,0,0,0.05)',
+  },
+  changeInfo: {
+    flex: 1,
+  },
+  changeTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 2,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+});
@@ -0,0 +1,342 @@
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, FlatList, RefreshControl, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { CreatePurchaseOrderModal } from '@/components/create-purchase-order-modal';
+import { PurchaseOrderModal } from '@/components/purchase-order-modal';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { PURCHASE_ORDER_STATUS_COLORS, PURCHASE_ORDER_STATUS_LABELS } from '@/constants/transactions';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { getProducts } from '@/lib/api/products';
+import { getPurchaseOrders, PurchaseOrder } from '@/lib/api/purchaseOrders';
+import { getSuppliers } from '@/lib/api/suppliers';
+import { CurrentStock, PurchaseOrderStatus, Supplier } from '@/lib/types';
+
+type StatusFilter = 'all' | PurchaseOrderStatus;
+
+const STATUS_FILTERS: StatusFilter[] = ['all', 'open', 'partial', 'closed'];
+
+// Lines received over, or closed short, of what was ordered
+const countDiscrepancies = (order: PurchaseOrder) =>
+  order.lines.filter(line =>
+    line.received_quantity > line.ordered_quantity ||
+    (order.order_status === 'closed' && line.received_quantity < line.ordered_quantity)
+  ).length;
+
+export default function PurchaseOrdersScreen() {
+  const tintColor = useThemeColor({}, 'tint');
+
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [products, setProducts] = useState<CurrentStock[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [selectedOrderId, setSelectedOrderId] = useState<number | null>(null);
+  const [showCreateModal, setShowCreateModal] = useState(false);
+
+  useEffect(() => {
+    fetchOrders();
+    fetchProducts();
+    fetchSuppliers();
+  }, []);
+
+  const fetchOrders = async () => {
+    try {
+      const { data, error } = await getPurchaseOrders();
+
+      if (error) {
+        console.error('Error fetching purchase orders:', error);
+        return;
+      }
+
+      if (data) {
+        setOrders(data);
+      }
+    } catch (error) {
+      console.error('Error in fetchOrders:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchProducts = async () => {
+    const { data } = await getProducts();
+    if (data) {
+      setProducts(data);
+    }
+  };
+
+  const fetchSuppliers = async () => {
+    const { data } = await getSuppliers();
+    if (data) {
+      setSuppliers(data);
+    }
+  };
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await Promise.all([fetchOrders(), fetchProducts(), fetchSuppliers()]);
+    setRefreshing(false);
+  };
+
+  const filteredOrders = statusFilter === 'all' ? orders : orders.filter(order => order.order_status === statusFilter);
+  const selectedOrder = orders.find(order => order.id === selectedOrderId) || null;
+
+  const renderOrderCard = ({ item }: { item: PurchaseOrder }) => {
+    const statusColor = PURCHASE_ORDER_STATUS_COLORS[item.order_status];
+    const orderedUnits = item.lines.reduce((sum, line) => sum + line.ordered_quantity, 0);
+    const receivedUnits = item.lines.reduce((sum, line) => sum + line.received_quantity, 0);
+    const discrepancies = countDiscrepancies(item);
+
+    return (
+      <TouchableOpacity onPress={() => setSelectedOrderId(item.id)} activeOpacity={0.7}>
+        <ThemedView style={[styles.orderCard, styles.card]}>
+          <View style={styles.cardHeader}>
+            <View style={styles.cardHeaderInfo}>
+              <ThemedText style={styles.supplierName}>{item.supplier?.name || 'Unknown supplier'}</ThemedText>
+              <ThemedText style={styles.orderMeta}>
+                {item.reference || `PO #${item.id}`} • {format(new Date(item.timestamp), 'MMM dd, yyyy')}
+              </ThemedText>
+            </View>
+            <View style={[styles.statusBadge, { backgroundColor: statusColor + '20' }]}>
+              <ThemedText style={[styles.statusText, { color: statusColor }]}>
+                {PURCHASE_ORDER_STATUS_LABELS[item.order_status]}
+              </ThemedText>
+            </View>
+          </View>
+
+          <View style={styles.cardStats}>
+            <ThemedText style={styles.statText}>
+              {item.lines.length} {item.lines.length === 1 ? 'item' : 'items'}
+            </ThemedText>
+            <ThemedText style={styles.statText}>
+              {receivedUnits} / {orderedUnits} received
+            </ThemedText>
+            {item.expected_date && item.order_status !== 'closed' && (
+              <ThemedText style={styles.statText}>
+                Expected {format(new Date(item.expected_date), 'MMM dd')}
+              </ThemedText>
+            )}
+          </View>
+
+          {discrepancies > 0 && (
+            <View style={styles.discrepancyBanner}>
+              <Ionicons name="warning" size={14} color="#DC2626" />
+              <ThemedText style={styles.discrepancyBannerText}>
+                {discrepancies} {discrepancies === 1 ? 'discrepancy' : 'discrepancies'}
+              </ThemedText>
+            </View>
+          )}
+        </ThemedView>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      {/* Status Filter */}
+      <View>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterList}>
+          {STATUS_FILTERS.map(filter => (
+            <TouchableOpacity
+              key={filter}
+              style={[
+                styles.filterChip,
+                { borderColor: tintColor + '40' },
+                statusFilter === filter && { backgroundColor: tintColor, borderColor: tintColor },
+              ]}
+              onPress={() => setStatusFilter(filter)}
+            >
+              <ThemedText style={[styles.filterChipText, statusFilter === filter && styles.filterChipTextActive]}>
+                {filter === 'all' ? 'All' : PURCHASE_ORDER_STATUS_LABELS[filter]}
+              </ThemedText>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={tintColor} />
+          <ThemedText style={{ marginTop: 16 }}>Loading purchase orders...</ThemedText>
+        </View>
+      ) : (
+        <FlatList
+          data={filteredOrders}
+          renderItem={renderOrderCard}
+          keyExtractor={item => String(item.id)}
+          contentContainerStyle={styles.list}
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor={tintColor} />
+          }
+          ListEmptyComponent={
+            <ThemedView style={[styles.emptyState, styles.card]}>
+              <Ionicons name="document-text-outline" size={64} color="#9CA3AF" />
+              <ThemedText style={styles.emptyText}>No purchase orders</ThemedText>
+              <ThemedText style={styles.emptySubtext}>
+                Tap + to order stock from a supplier
+              </ThemedText>
+            </ThemedView>
+          }
+        />
+      )}
+
+      {/* Floating Action Button */}
+      <TouchableOpacity
+        style={[styles.fab, { backgroundColor: tintColor }]}
+        onPress={() => setShowCreateModal(true)}
+        activeOpacity={0.8}
+      >
+        <Ionicons name="add" size={28} color="#fff" />
+      </TouchableOpacity>
+
+      <CreatePurchaseOrderModal
+        visible={showCreateModal}
+        products={products}
+        suppliers={suppliers}
+        onClose={() => setShowCreateModal(false)}
+        onCreated={fetchOrders}
+      />
+
+      <PurchaseOrderModal
+        visible={selectedOrder !== null}
+        order={selectedOrder}
+        products={products}
+        onClose={() => setSelectedOrderId(null)}
+        onChanged={() => {
+          fetchOrders();
+          fetchProducts();
+        }}
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  filterList: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    gap: 8,
+  },
+  filterChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 2,
+  },
+  filterChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  filterChipTextActive: {
+    color: '#fff',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  list: {
+    paddingHorizontal: 16,
+    paddingBottom: 80,
+  },
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(0,0,0,0.1)',
+  },
+  orderCard: {
+    padding: 16,
+    marginBottom: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    gap: 12,
+    marginBottom: 12,
+  },
+  cardHeaderInfo: {
+    flex: 1,
+  },
+  supplierName: {
+    fontSize: 17,
+    fontWeight: 'bold',
+  },
+  orderMeta: {
+    fontSize: 12,
+    opacity: 0.6,
+    marginTop: 2,
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 6,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  cardStats: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 16,
+  },
+  statText: {
+    fontSize: 13,
+    opacity: 0.8,
+  },
+  discrepancyBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#FEE2E2',
+  },
+  discrepancyBannerText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#DC2626',
+  },
+  emptyState: {
+    padding: 40,
+    alignItems: 'center',
+    marginTop: 20,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginTop: 16,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    opacity: 0.6,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  fab: {
+    position: 'absolute',
+    right: 20,
+    bottom: 20,
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    alignItems: 'center',
+    justifyContent: 'center',
+    elevation: 4,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+  },
+});
@@ -0,0 +1,476 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, ScrollView, StyleSheet, Switch, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useAuth } from '@/context/AuthContext';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { getShopSettings, updateShopSettings } from '@/lib/api/settings';
+import { PaperWidth } from '@/lib/types';
+
+export default function ShopSettingsScreen() {
+  const tintColor = useThemeColor({}, 'tint');
+  const textColor = useThemeColor({}, 'text');
+  const { user, isOwner } = useAuth();
+
+  const [vatRate, setVatRate] = useState('');
+  const [pricesIncludeVat, setPricesIncludeVat] = useState(true);
+  const [shopName, setShopName] = useState('');
+  const [shopAddress, setShopAddress] = useState('');
+  const [shopPhone, setShopPhone] = useState('');
+  const [shopTin, setShopTin] = useState('');
+  const [receiptFooter, setReceiptFooter] = useState('');
+  const [printerHost, setPrinterHost] = useState('');
+  const [printerPort, setPrinterPort] = useState('9100');
+  const [paperWidth, setPaperWidth] = useState<PaperWidth>(58);
+  const [staffBackdateDays, setStaffBackdateDays] = useState('2');
+  const [staffDiscountLimit, setStaffDiscountLimit] = useState('20');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const fetchSettings = async () => {
+    try {
+      const { data, error } = await getShopSettings();
+
+      if (error) {
+        console.error('Error fetching shop settings:', error);
+        return;
+      }
+
+      if (data) {
+        setVatRate(String(data.vat_rate));
+        setPricesIncludeVat(data.prices_include_vat);
+        setShopName(data.shop_name || '');
+        setShopAddress(data.shop_address || '');
+        setShopPhone(data.shop_phone || '');
+        setShopTin(data.shop_tin || '');
+        setReceiptFooter(data.receipt_footer || '');
+        setPrinterHost(data.printer_host || '');
+        setPrinterPort(String(data.printer_port));
+        setPaperWidth(data.paper_width);
+        setStaffBackdateDays(String(data.staff_backdate_days));
+        setStaffDiscountLimit(String(data.staff_discount_limit));
+      }
+    } catch (error) {
+      console.error('Error in fetchSettings:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!user) {
+      Alert.alert('Error', 'You must be logged in');
+      return;
+    }
+
+    const rate = parseFloat(vatRate);
+    if (isNaN(rate) || rate < 0 || rate > 100) {
+      Alert.alert('Error', 'VAT rate must be between 0 and 100');
+      return;
+    }
+
+    const port = parseInt(printerPort, 10);
+    if (isNaN(port) || port < 1 || port > 65535) {
+      Alert.alert('Error', 'Printer port must be between 1 and 65535');
+      return;
+    }
+
+    const backdateDays = Number(staffBackdateDays);
+    if (!Number.isInteger(backdateDays) || backdateDays < 0 || backdateDays > 365) {
+      Alert.alert('Error', 'Staff backdating must be a whole number of days from 0 to 365');
+      return;
+    }
+
+    const discountLimit = Number(staffDiscountLimit);
+    if (!Number.isInteger(discountLimit) || discountLimit < 0 || discountLimit > 100) {
+      Alert.alert('Error', 'Staff discount limit must be a whole number from 0 to 100');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const { error } = await updateShopSettings(
+        {
+          vat_rate: rate,
+          prices_include_vat: pricesIncludeVat,
+          shop_name: shopName.trim() || null,
+          shop_address: shopAddress.trim() || null,
+          shop_phone: shopPhone.trim() || null,
+          shop_tin: shopTin.trim() || null,
+          receipt_footer: receiptFooter.trim() || null,
+          printer_host: printerHost.trim() || null,
+          printer_port: port,
+          paper_width: paperWidth,
+          staff_backdate_days: backdateDays,
+          staff_discount_limit: discountLimit,
+        },
+        user.id
+      );
+
+      if (error) {
+        Alert.alert('Error', error.message || 'Failed to save settings');
+        return;
+      }
+
+      Alert.alert('Success', 'Settings saved');
+    } catch (error) {
+      console.error('Save shop settings error:', error);
+      Alert.alert('Error', 'Something went wrong');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <ThemedView style={[styles.container, styles.loadingContainer]}>
+        <ActivityIndicator size="large" color={tintColor} />
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Receipt */}
+        <ThemedView style={[styles.section, styles.card]}>
+          <View style={styles.sectionHeader}>
+            <Ionicons name="print-outline" size={22} color={tintColor} />
+            <ThemedText style={styles.sectionTitle}>Receipt</ThemedText>
+          </View>
+
+          <View style={styles.formGroup}>
+            <ThemedText style={styles.label}>Shop Name</ThemedText>
+            <TextInput
+              style={[styles.input, { borderColor: tintColor + '40', color: textColor }]}
+              value={shopName}
+              onChangeText={setShopName}
+              placeholder="Printed at the top of receipts"
+              placeholderTextColor="#9CA3AF"
+              editable={isOwner}
+            />
+          </View>
+
+          <View style={styles.formGroup}>
+            <ThemedText style={styles.label}>Address</ThemedText>
+            <TextInput
+              style={[styles.input, styles.multilineInput, { borderColor: tintColor + '40', color: textColor }]}
+              value={shopAddress}
+              onChangeText={setShopAddress}
+              placeholder="Street, city"
+              placeholderTextColor="#9CA3AF"
+              multiline
+              editable={isOwner}
+            />
+          </View>
+
+          <View style={styles.formGroup}>
+            <ThemedText style={styles.label}>Contact Number</ThemedText>
+            <TextInput
+              style={[styles.input, { borderColor: tintColor + '40', color: textColor }]}
+              value={shopPhone}
+              onChangeText={setShopPhone}
+              placeholder="e.g., 0917 123 4567"
+              placeholderTextColor="#9CA3AF"
+              keyboardType="phone-pad"
+              editable={isOwner}
+            />
+          </View>
+
+          <View style={styles.formGroup}>
+            <ThemedText style={styles.label}>TIN</ThemedText>
+            <TextInput
+              style={[styles.input, { borderColor: tintColor + '40', color: textColor }]}
+              value={shopTin}
+              onChangeText={setShopTin}
+              placeholder="e.g., 123-456-789-000"
+              placeholderTextColor="#9CA3AF"
+              editable={isOwner}
+            />
+          </View>
+
+          <View style={styles.formGroup}>
+            <ThemedText style={styles.label}>Footer</ThemedText>
+            <TextInput
+              style={[styles.input, styles.multilineInput, { borderColor: tintColor + '40', color: textColor }]}
+              value={receiptFooter}
+              onChangeText={setReceiptFooter}
+              placeholder="e.g., Thank you! Items may be returned within 7 days."
+              placeholderTextColor="#9CA3AF"
+              multiline
+              editable={isOwner}
+            />
+          </View>
+
+          <ThemedText style={styles.hint}>Blank fields are left off the receipt.</ThemedText>
+        </ThemedView>
+
+        {/* Thermal Printer */}
+        <ThemedView style={[styles.section, styles.card]}>
+          <View style={styles.sectionHeader}>
+            <Ionicons name="hardware-chip-outline" size={22} color={tintColor} />
+            <ThemedText style={styles.sectionTitle}>Thermal Printer</ThemedText>
+          </View>
+
+          <View style={styles.formGroup}>
+            <ThemedText style={styles.label}>Printer IP Address</ThemedText>
+            <TextInput
+              style={[styles.input, { borderColor: tintColor + '40', color: textColor }]}
+              value={printerHost}
+              onChangeText={setPrinterHost}
+              placeholder="e.g., 192.168.1.50"
+              placeholderTextColor="#9CA3AF"
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+              editable={isOwner}
+            />
+          </View>
+
+          <View style={styles.formGroup}>
+            <ThemedText style={styles.label}>Port</ThemedText>
+            <TextInput
+              style={[styles.input, { borderColor: tintColor + '40', color: textColor }]}
+              value={printerPort}
+              onChangeText={setPrinterPort}
+              placeholder="9100"
+              placeholderTextColor="#9CA3AF"
+              keyboardType="number-pad"
+              editable={isOwner}
+            />
+          </View>
+
+          <View style={styles.formGroup}>
+            <ThemedText style={styles.label}>Paper Width</ThemedText>
+            <View style={styles.chipRow}>
+              {([58, 80] as PaperWidth[]).map(width => (
+                <TouchableOpacity
+                  key={width}
+                  style={[
+                    styles.chip,
+                    { borderColor: tintColor + '40' },
+                    paperWidth === width && { backgroundColor: tintColor + '20', borderColor: tintColor },
+                  ]}
+                  onPress={() => setPaperWidth(width)}
+                  disabled={!isOwner}
+                >
+                  <ThemedText style={[styles.chipText, paperWidth === width && { color: tintColor }]}>{width}mm</ThemedText>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          <ThemedText style={styles.hint}>
+            Leave the IP address blank to share thermal receipts as .bin files instead.
+          </ThemedText>
+        </ThemedView>
+
+        {/* Tax */}
+        <ThemedView style={[styles.section, styles.card]}>
+          <View style={styles.sectionHeader}>
+            <Ionicons name="receipt-outline" size={22} color={tintColor} />
+            <ThemedText style={styles.sectionTitle}>Tax (VAT)</ThemedText>
+          </View>
+
+          <View style={styles.formGroup}>
+            <ThemedText style={styles.label}>VAT Rate (%)</ThemedText>
+            <TextInput
+              style={[styles.input, { borderColor: tintColor + '40', color: textColor }]}
+              value={vatRate}
+              onChangeText={setVatRate}
+              placeholder="e.g., 12"
+              placeholderTextColor="#9CA3AF"
+              keyboardType="decimal-pad"
+              editable={isOwner}
+            />
+          </View>
+
+          <View style={styles.switchRow}>
+            <View style={styles.switchInfo}>
+              <ThemedText style={styles.switchLabel}>Prices include VAT</ThemedText>
+              <ThemedText style={styles.hint}>
+                {pricesIncludeVat
+                  ? 'Product prices are what the customer pays; VAT is taken out of them.'
+                  : 'VAT is added on top of product prices at checkout.'}
+              </ThemedText>
+            </View>
+            <Switch
+              value={pricesIncludeVat}
+              onValueChange={setPricesIncludeVat}
+              disabled={!isOwner}
+              trackColor={{ true: tintColor }}
+            />
+          </View>
+
+          <ThemedText style={styles.hint}>
+            Mark VAT-exempt products from the product editor. Changes apply to new sales only.
+          </ThemedText>
+        </ThemedView>
+
+        {/* Transactions */}
+        <ThemedView style={[styles.section, styles.card]}>
+          <View style={styles.sectionHeader}>
+            <Ionicons name="time-outline" size={22} color={tintColor} />
+            <ThemedText style={styles.sectionTitle}>Transactions</ThemedText>
+          </View>
+
+          <View style={styles.formGroup}>
+            <ThemedText style={styles.label}>Staff Backdating (days)</ThemedText>
+            <TextInput
+              style={[styles.input, { borderColor: tintColor + '40', color: textColor }]}
+              value={staffBackdateDays}
+              onChangeText={setStaffBackdateDays}
+              placeholder="e.g., 2"
+              placeholderTextColor="#9CA3AF"
+              keyboardType="number-pad"
+              editable={isOwner}
+            />
+          </View>
+
+          <ThemedText style={styles.hint}>
+            How many days back staff can date a delivery, sale or adjustment. 0 means only owners can backdate.
+          </ThemedText>
+
+          <View style={styles.formGroup}>
+            <ThemedText style={styles.label}>Staff Discount Limit (%)</ThemedText>
+            <TextInput
+              style={[styles.input, { borderColor: tintColor + '40', color: textColor }]}
+              value={staffDiscountLimit}
+              onChangeText={setStaffDiscountLimit}
+              placeholder="e.g., 20"
+              placeholderTextColor="#9CA3AF"
+              keyboardType="number-pad"
+              editable={isOwner}
+            />
+          </View>
+
+          <ThemedText style={styles.hint}>
+            The most staff can take off a line or a whole sale. Setting a price and larger discounts need an owner. 0 means only owners can give discounts.
+          </ThemedText>
+        </ThemedView>
+
+        {isOwner ? (
+          <TouchableOpacity
+            style={[styles.saveButton, { backgroundColor: tintColor }, saving && styles.saveButtonDisabled]}
+            onPress={handleSave}
+            disabled={saving}
+          >
+            {saving ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Ionicons name="checkmark-circle-outline" size={22} color="#fff" />
+            )}
+            <ThemedText style={styles.saveButtonText}>{saving ? 'Saving...' : 'Save Settings'}</ThemedText>
+          </TouchableOpacity>
+        ) : (
+          <ThemedText style={styles.hint}>Only owners can change shop settings.</ThemedText>
+        )}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(0,0,0,0.1)',
+  },
+  section: {
+    padding: 16,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  formGroup: {
+    marginTop: 8,
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 8,
+    opacity: 0.8,
+  },
+  input: {
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 2,
+    fontSize: 15,
+  },
+  multilineInput: {
+    minHeight: 70,
+    textAlignVertical: 'top',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 2,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 16,
+  },
+  switchInfo: {
+    flex: 1,
+  },
+  switchLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  saveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+    borderRadius: 12,
+    gap: 8,
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,245 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, FlatList, RefreshControl, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { SupplierModal } from '@/components/supplier-modal';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { deleteSupplier, getSuppliers } from '@/lib/api/suppliers';
+import { Supplier } from '@/lib/types';
+
+export default function SuppliersScreen() {
+  const tintColor = useThemeColor({}, 'tint');
+
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [showModal, setShowModal] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+
+  useEffect(() => {
+    fetchSuppliers();
+  }, []);
+
+  const fetchSuppliers = async () => {
+    try {
+      const { data, error } = await getSuppliers();
+
+      if (error) {
+        console.error('Error fetching suppliers:', error);
+        return;
+      }
+
+      if (data) {
+        setSuppliers(data);
+      }
+    } catch (error) {
+      console.error('Error in fetchSuppliers:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await fetchSuppliers();
+    setRefreshing(false);
+  };
+
+  const openModal = (supplier: Supplier | null) => {
+    setEditingSupplier(supplier);
+    setShowModal(true);
+  };
+
+  const handleDelete = (supplier: Supplier) => {
+    Alert.alert(
+      'Delete Supplier',
+      `Are you sure you want to delete ${supplier.name}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const { error } = await deleteSupplier(supplier.id);
+
+            if (error) {
+              Alert.alert('Error', error.message || 'Failed to delete supplier.');
+              return;
+            }
+
+            await fetchSuppliers();
+          },
+        },
+      ]
+    );
+  };
+
+  const renderSupplierCard = ({ item }: { item: Supplier }) => (
+    <TouchableOpacity onPress={() => openModal(item)} activeOpacity={0.7}>
+      <ThemedView style={[styles.supplierCard, styles.card]}>
+        <View style={styles.cardHeader}>
+          <ThemedText style={styles.supplierName}>{item.name}</ThemedText>
+          <TouchableOpacity onPress={() => handleDelete(item)} style={styles.iconButton}>
+            <Ionicons name="trash-outline" size={20} color="#EF4444" />
+          </TouchableOpacity>
+        </View>
+
+        {(item.contact_person || item.phone) && (
+          <View style={styles.detailRow}>
+            <Ionicons name="call-outline" size={14} color={tintColor} />
+            <ThemedText style={styles.detailText}>
+              {[item.contact_person, item.phone].filter(Boolean).join(' • ')}
+            </ThemedText>
+          </View>
+        )}
+        {item.email && (
+          <View style={styles.detailRow}>
+            <Ionicons name="mail-outline" size={14} color={tintColor} />
+            <ThemedText style={styles.detailText}>{item.email}</ThemedText>
+          </View>
+        )}
+        {item.payment_terms && (
+          <View style={styles.detailRow}>
+            <Ionicons name="card-outline" size={14} color={tintColor} />
+            <ThemedText style={styles.detailText}>{item.payment_terms}</ThemedText>
+          </View>
+        )}
+        {item.notes && <ThemedText style={styles.notesText}>{item.notes}</ThemedText>}
+      </ThemedView>
+    </TouchableOpacity>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={tintColor} />
+          <ThemedText style={{ marginTop: 16 }}>Loading suppliers...</ThemedText>
+        </View>
+      ) : (
+        <FlatList
+          data={suppliers}
+          renderItem={renderSupplierCard}
+          keyExtractor={item => String(item.id)}
+          contentContainerStyle={styles.list}
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor={tintColor} />
+          }
+          ListEmptyComponent={
+            <ThemedView style={[styles.emptyState, styles.card]}>
+              <Ionicons name="business-outline" size={64} color="#9CA3AF" />
+              <ThemedText style={styles.emptyText}>No suppliers yet</ThemedText>
+              <ThemedText style={styles.emptySubtext}>
+                Tap + to add the people you buy stock from
+              </ThemedText>
+            </ThemedView>
+          }
+        />
+      )}
+
+      {/* Floating Action Button */}
+      <TouchableOpacity
+        style={[styles.fab, { backgroundColor: tintColor }]}
+        onPress={() => openModal(null)}
+        activeOpacity={0.8}
+      >
+        <Ionicons name="add" size={28} color="#fff" />
+      </TouchableOpacity>
+
+      <SupplierModal
+        visible={showModal}
+        supplier={editingSupplier}
+        onClose={() => setShowModal(false)}
+        onSaved={fetchSuppliers}
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  list: {
+    padding: 16,
+    paddingBottom: 80,
+  },
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(0,0,0,0.1)',
+  },
+  supplierCard: {
+    padding: 16,
+    marginBottom: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  supplierName: {
+    flex: 1,
+    fontSize: 17,
+    fontWeight: 'bold',
+  },
+  iconButton: {
+    padding: 4,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 4,
+  },
+  detailText: {
+    fontSize: 13,
+    opacity: 0.8,
+  },
+  notesText: {
+    fontSize: 13,
+    opacity: 0.6,
+    fontStyle: 'italic',
+    marginTop: 8,
+  },
+  emptyState: {
+    padding: 40,
+    alignItems: 'center',
+    marginTop: 20,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginTop: 16,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    opacity: 0.6,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  fab: {
+    position: 'absolute',
+    right: 20,
+    bottom: 20,
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    alignItems: 'center',
+    justifyContent: 'center',
+    elevation: 4,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+  },
+});
@@ -0,0 +1,217 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Modal, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useAuth } from '@/context/AuthContext';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { cancelTransaction, isInsufficientStockError, TransactionWithItems } from '@/lib/api/transactions';
+
+interface CancelTransactionModalProps {
+  visible: boolean;
+  transaction: TransactionWithItems | null;
+  onClose: () => void;
+  onCancelled: () => void;
+}
+
+export function CancelTransactionModal({ visible, transaction, onClose, onCancelled }: CancelTransactionModalProps) {
+  const tintColor = useThemeColor({}, 'tint');
+  const textColor = useThemeColor({}, 'text');
+  const { isOwner } = useAuth();
+
+  const [reason, setReason] = useState('');
+  // Set when the stock the transaction added is already gone; owners may override with a note
+  const [stockShortage, setStockShortage] = useState<string | null>(null);
+  const [overrideNote, setOverrideNote] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!visible) {
+      setReason('');
+      setStockShortage(null);
+      setOverrideNote('');
+    }
+  }, [visible]);
+
+  const handleSubmit = async () => {
+    if (!transaction) {
+      return;
+    }
+
+    if (!reason.trim()) {
+      Alert.alert('Error', 'Please enter a reason for cancelling');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const { error } = await cancelTransaction(transaction.id, reason, stockShortage !== null ? overrideNote.trim() : null);
+
+      if (error) {
+        if (isInsufficientStockError(error)) {
+          if (isOwner) {
+            setOverrideNote('');
+            setStockShortage(error.message);
+          } else {
+            Alert.alert('Insufficient Stock', error.message);
+          }
+          return;
+        }
+        Alert.alert('Error', error?.message || 'Failed to cancel transaction');
+        return;
+      }
+
+      Alert.alert('Success', 'Transaction cancelled');
+      onCancelled();
+      onClose();
+    } catch (error) {
+      console.error('Cancel transaction error:', error);
+      Alert.alert('Error', 'Something went wrong');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const canSubmit = !submitting && !!reason.trim() && (stockShortage === null || !!overrideNote.trim());
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <ThemedView style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <View>
+              <ThemedText style={styles.modalTitle}>Cancel Transaction</ThemedText>
+              {transaction && (
+                <ThemedText style={styles.modalSubtitle}>
+                  {transaction.transaction_type} {transaction.reference || `#${transaction.id}`}
+                </ThemedText>
+              )}
+            </View>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={28} color={tintColor} />
+            </TouchableOpacity>
+          </View>
+
+          <ThemedText style={styles.warning}>
+            The transaction stays in history but no longer counts toward stock or ledger totals.
+          </ThemedText>
+
+          <View style={styles.formGroup}>
+            <ThemedText style={styles.label}>Reason</ThemedText>
+            <TextInput
+              style={[styles.input, { borderColor: tintColor + '40', color: textColor }]}
+              value={reason}
+              onChangeText={setReason}
+              placeholder="e.g., Entered twice, wrong product"
+              placeholderTextColor="#9CA3AF"
+              multiline
+            />
+          </View>
+
+          {stockShortage !== null && (
+            <View style={styles.formGroup}>
+              <ThemedText style={styles.overrideMessage}>{stockShortage}</ThemedText>
+              <ThemedText style={styles.label}>Override Note *</ThemedText>
+              <TextInput
+                style={[styles.input, { borderColor: tintColor + '40', color: textColor }]}
+                value={overrideNote}
+                onChangeText={setOverrideNote}
+                placeholder="Why can stock go below zero?"
+                placeholderTextColor="#9CA3AF"
+                multiline
+              />
+            </View>
+          )}
+
+          <TouchableOpacity
+            style={[styles.submitButton, !canSubmit && styles.submitButtonDisabled]}
+            onPress={handleSubmit}
+            disabled={!canSubmit}
+          >
+            {submitting ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Ionicons name="close-circle-outline" size={22} color="#fff" />
+            )}
+            <ThemedText style={styles.submitButtonText}>
+              {submitting ? 'Cancelling...' : stockShortage !== null ? 'Override and Cancel' : 'Cancel Transaction'}
+            </ThemedText>
+          </TouchableOpacity>
+        </ThemedView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 16,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  modalSubtitle: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginTop: 2,
+  },
+  warning: {
+    fontSize: 13,
+    opacity: 0.7,
+  },
+  overrideMessage: {
+    fontSize: 14,
+    color: '#EF4444',
+    marginBottom: 12,
+  },
+  formGroup: {
+    marginTop: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 8,
+    opacity: 0.8,
+  },
+  input: {
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 2,
+    fontSize: 15,
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  submitButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+    borderRadius: 12,
+    gap: 8,
+    marginTop: 20,
+    backgroundColor: '#EF4444',
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
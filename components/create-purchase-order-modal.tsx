@@ -0,0 +1,397 @@
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { format } from 'date-fns';
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Modal, Platform, ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useAuth } from '@/context/AuthContext';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { createPurchaseOrder } from '@/lib/api/purchaseOrders';
+import { CurrentStock, Supplier } from '@/lib/types';
+import { matchesProductSearch } from '@/lib/utils/fragrances';
+
+interface CreatePurchaseOrderModalProps {
+  visible: boolean;
+  products: CurrentStock[];
+  suppliers: Supplier[];
+  onClose: () => void;
+  onCreated: () => void;
+}
+
+type OrderLine = {
+  sku: string;
+  quantity: string;
+};
+
+export function CreatePurchaseOrderModal({ visible, products, suppliers, onClose, onCreated }: CreatePurchaseOrderModalProps) {
+  const tintColor = useThemeColor({}, 'tint');
+  const textColor = useThemeColor({}, 'text');
+  const { user } = useAuth();
+
+  const [supplierId, setSupplierId] = useState<number | null>(null);
+  const [expectedDate, setExpectedDate] = useState<Date | null>(null);
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const [lines, setLines] = useState<OrderLine[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!visible) {
+      setSupplierId(null);
+      setExpectedDate(null);
+      setShowDatePicker(false);
+      setLines([]);
+      setSearchQuery('');
+      setNotes('');
+    }
+  }, [visible]);
+
+  const searchResults = searchQuery.trim()
+    ? products
+        .filter(p =>
+          !lines.some(line => line.sku === p.sku) &&
+          matchesProductSearch(p, searchQuery)
+        )
+        .slice(0, 5)
+    : [];
+
+  const addLine = (sku: string) => {
+    setLines(prev => [...prev, { sku, quantity: '1' }]);
+    setSearchQuery('');
+  };
+
+  const updateLineQuantity = (sku: string, text: string) => {
+    if (text !== '' && !/^[0-9]+$/.test(text)) {
+      return;
+    }
+    setLines(prev => prev.map(line => (line.sku === sku ? { ...line, quantity: text } : line)));
+  };
+
+  const removeLine = (sku: string) => {
+    setLines(prev => prev.filter(line => line.sku !== sku));
+  };
+
+  const handleDateChange = (_event: any, selectedDate?: Date) => {
+    setShowDatePicker(Platform.OS === 'ios');
+    if (selectedDate) {
+      setExpectedDate(selectedDate);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!user) {
+      return;
+    }
+
+    if (!supplierId) {
+      Alert.alert('Error', 'Please select a supplier');
+      return;
+    }
+
+    if (lines.length === 0) {
+      Alert.alert('Error', 'Please add at least one product');
+      return;
+    }
+
+    if (lines.some(line => !(parseInt(line.quantity, 10) > 0))) {
+      Alert.alert('Error', 'Every line needs a quantity of at least 1');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const { error } = await createPurchaseOrder({
+        supplier_id: supplierId,
+        expected_date: expectedDate ? format(expectedDate, 'yyyy-MM-dd') : null,
+        reference: `PO-${Date.now()}`,
+        notes: notes.trim() || null,
+        userId: user.id,
+        items: lines.map(line => ({ sku: line.sku, quantity: parseInt(line.quantity, 10) })),
+      });
+
+      if (error) {
+        Alert.alert('Error', error?.message || 'Failed to create purchase order');
+        return;
+      }
+
+      Alert.alert('Success', 'Purchase order created');
+      onCreated();
+      onClose();
+    } catch (error) {
+      console.error('Create purchase order error:', error);
+      Alert.alert('Error', 'Something went wrong');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <ThemedView style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <ThemedText style={styles.modalTitle}>New Purchase Order</ThemedText>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={28} color={tintColor} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.body} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+            <View style={styles.formGroup}>
+              <ThemedText style={styles.label}>Supplier *</ThemedText>
+              {suppliers.length === 0 ? (
+                <ThemedText style={styles.hint}>Add suppliers in Settings → Suppliers first</ThemedText>
+              ) : (
+                <View style={styles.chipRow}>
+                  {suppliers.map(supplier => (
+                    <TouchableOpacity
+                      key={supplier.id}
+                      style={[
+                        styles.chip,
+                        { borderColor: tintColor + '40' },
+                        supplierId === supplier.id && { backgroundColor: tintColor, borderColor: tintColor },
+                      ]}
+                      onPress={() => setSupplierId(supplier.id)}
+                    >
+                      <ThemedText style={[styles.chipText, supplierId === supplier.id && styles.chipTextActive]}>
+                        {supplier.name}
+                      </ThemedText>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+            </View>
+
+            <View style={styles.formGroup}>
+              <ThemedText style={styles.label}>Expected Date (Optional)</ThemedText>
+              <TouchableOpacity
+                style={[styles.input, styles.dateButton, { borderColor: tintColor + '40' }]}
+                onPress={() => setShowDatePicker(true)}
+              >
+                <Ionicons name="calendar-outline" size={18} color={tintColor} />
+                <ThemedText>{expectedDate ? format(expectedDate, 'MMM dd, yyyy') : 'Not set'}</ThemedText>
+              </TouchableOpacity>
+              {showDatePicker && (
+                <DateTimePicker
+                  value={expectedDate || new Date()}
+                  mode="date"
+                  display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                  onChange={handleDateChange}
+                  minimumDate={new Date()}
+                />
+              )}
+            </View>
+
+            <View style={styles.formGroup}>
+              <ThemedText style={styles.label}>Items *</ThemedText>
+              <View style={[styles.input, styles.searchRow, { borderColor: tintColor + '40' }]}>
+                <Ionicons name="search-outline" size={18} color={tintColor} />
+                <TextInput
+                  style={[styles.searchInput, { color: textColor }]}
+                  value={searchQuery}
+                  onChangeText={setSearchQuery}
+                  placeholder="Search products to add..."
+                  placeholderTextColor="#9CA3AF"
+                />
+              </View>
+              {searchResults.map(product => (
+                <TouchableOpacity key={product.sku} style={styles.searchResult} onPress={() => addLine(product.sku)}>
+                  <View style={styles.lineInfo}>
+                    <ThemedText style={styles.lineName}>{product.name} ({product.volume_ml}ml)</ThemedText>
+                    <ThemedText style={styles.lineMeta}>{product.sku} • {product.quantity_on_hand} on hand</ThemedText>
+                  </View>
+                  <Ionicons name="add-circle-outline" size={22} color={tintColor} />
+                </TouchableOpacity>
+              ))}
+
+              {lines.map(line => {
+                const product = products.find(p => p.sku === line.sku);
+                return (
+                  <View key={line.sku} style={styles.lineItem}>
+                    <View style={styles.lineInfo}>
+                      <ThemedText style={styles.lineName}>
+                        {product ? `${product.name} (${product.volume_ml}ml)` : line.sku}
+                      </ThemedText>
+                      <ThemedText style={styles.lineMeta}>{line.sku}</ThemedText>
+                    </View>
+                    <TextInput
+                      style={[styles.quantityInput, { borderColor: tintColor + '40', color: textColor }]}
+                      value={line.quantity}
+                      onChangeText={(text) => updateLineQuantity(line.sku, text)}
+                      keyboardType="number-pad"
+                    />
+                    <TouchableOpacity onPress={() => removeLine(line.sku)}>
+                      <Ionicons name="trash-outline" size={20} color="#EF4444" />
+                    </TouchableOpacity>
+                  </View>
+                );
+              })}
+            </View>
+
+            <View style={styles.formGroup}>
+              <ThemedText style={styles.label}>Notes (Optional)</ThemedText>
+              <TextInput
+                style={[styles.input, { borderColor: tintColor + '40', color: textColor }]}
+                value={notes}
+                onChangeText={setNotes}
+                placeholder="Payment terms, shipping details..."
+                placeholderTextColor="#9CA3AF"
+              />
+            </View>
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[styles.submitButton, { backgroundColor: tintColor }, submitting && styles.submitButtonDisabled]}
+            onPress={handleSubmit}
+            disabled={submitting}
+          >
+            {submitting ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Ionicons name="document-text-outline" size={22} color="#fff" />
+            )}
+            <ThemedText style={styles.submitButtonText}>
+              {submitting ? 'Saving...' : 'Create Purchase Order'}
+            </ThemedText>
+          </TouchableOpacity>
+        </ThemedView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  body: {
+    flexGrow: 0,
+  },
+  formGroup: {
+    marginTop: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 8,
+    opacity: 0.8,
+  },
+  input: {
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 2,
+    fontSize: 15,
+  },
+  hint: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 2,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  dateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 10,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 15,
+    padding: 0,
+  },
+  searchResult: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 4,
+    gap: 12,
+  },
+  lineItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(0,0,0,0.05)',
+    gap: 12,
+  },
+  lineInfo: {
+    flex: 1,
+  },
+  lineName: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  lineMeta: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  quantityInput: {
+    width: 64,
+    padding: 8,
+    borderRadius: 10,
+    borderWidth: 2,
+    fontSize: 16,
+    fontWeight: 'bold',
+    textAlign: 'center',
+  },
+  submitButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+    borderRadius: 12,
+    gap: 8,
+    marginTop: 20,
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
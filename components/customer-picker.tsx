@@ -0,0 +1,168 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { createCustomer, searchCustomers } from '@/lib/api/customers';
+import { Customer } from '@/lib/types';
+
+interface CustomerPickerProps {
+  customer: Customer | null;
+  onChange: (customer: Customer | null) => void;
+}
+
+/**
+ * Searchable customer field for the Sale tab; unknown names can be added inline
+ */
+export function CustomerPicker({ customer, onChange }: CustomerPickerProps) {
+  const tintColor = useThemeColor({}, 'tint');
+  const textColor = useThemeColor({}, 'text');
+
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<Customer[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      setSearching(true);
+      const { data } = await searchCustomers(query);
+      setResults(data || []);
+      setSearching(false);
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const normalizedQuery = query.trim().replace(/\s+/g, ' ').toLowerCase();
+  const hasExactMatch = results.some(result => result.name.toLowerCase() === normalizedQuery);
+
+  const selectCustomer = (selected: Customer) => {
+    onChange(selected);
+    setQuery('');
+    setResults([]);
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    const { data, error } = await createCustomer({ name: query, phone: null, email: null, notes: null });
+    setCreating(false);
+
+    if (error || !data) {
+      Alert.alert('Error', error?.message || 'Failed to add customer');
+      return;
+    }
+
+    selectCustomer(data);
+  };
+
+  if (customer) {
+    return (
+      <View style={[styles.selected, { borderColor: tintColor }]}>
+        <Ionicons name="person-circle-outline" size={22} color={tintColor} />
+        <View style={styles.selectedInfo}>
+          <ThemedText style={styles.selectedName}>{customer.name}</ThemedText>
+          {customer.phone && <ThemedText style={styles.resultMeta}>{customer.phone}</ThemedText>}
+        </View>
+        <TouchableOpacity onPress={() => onChange(null)}>
+          <Ionicons name="close-circle" size={22} color="#9CA3AF" />
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View>
+      <View style={[styles.searchRow, { borderColor: tintColor + '40' }]}>
+        <Ionicons name="search-outline" size={18} color={tintColor} />
+        <TextInput
+          style={[styles.searchInput, { color: textColor }]}
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Search customer by name or phone"
+          placeholderTextColor="#999"
+        />
+        {searching && <ActivityIndicator size="small" color={tintColor} />}
+      </View>
+
+      {results.map(result => (
+        <TouchableOpacity key={result.id} style={styles.result} onPress={() => selectCustomer(result)}>
+          <Ionicons name="person-outline" size={18} color={tintColor} />
+          <View style={styles.selectedInfo}>
+            <ThemedText style={styles.resultName}>{result.name}</ThemedText>
+            {result.phone && <ThemedText style={styles.resultMeta}>{result.phone}</ThemedText>}
+          </View>
+        </TouchableOpacity>
+      ))}
+
+      {normalizedQuery.length > 0 && !searching && !hasExactMatch && (
+        <TouchableOpacity style={styles.result} onPress={handleCreate} disabled={creating}>
+          {creating ? (
+            <ActivityIndicator size="small" color={tintColor} />
+          ) : (
+            <Ionicons name="person-add-outline" size={18} color={tintColor} />
+          )}
+          <ThemedText style={[styles.resultName, { color: tintColor }]}>
+            Add &quot;{query.trim()}&quot; as a new customer
+          </ThemedText>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    borderWidth: 2,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 15,
+    padding: 0,
+  },
+  result: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 10,
+    paddingHorizontal: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(0,0,0,0.05)',
+  },
+  resultName: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  resultMeta: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  selected: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    borderWidth: 2,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  selectedInfo: {
+    flex: 1,
+  },
+  selectedName: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
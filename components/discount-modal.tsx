@@ -0,0 +1,214 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useEffect, useState } from 'react';
+import { Alert, Modal, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { LineDiscount, LineDiscountType } from '@/lib/types';
+
+const MODE_LABELS: Record<LineDiscountType, string> = {
+  percent: '% Off',
+  amount: '₱ Off',
+  price: 'Set Price',
+};
+
+interface DiscountModalProps {
+  visible: boolean;
+  title: string;
+  subtitle?: string;
+  discount: LineDiscount | null;
+  // Whole-sale discounts cannot set a price, and only owners may
+  allowPriceOverride: boolean;
+  onClose: () => void;
+  onApply: (discount: LineDiscount | null) => void;
+}
+
+/**
+ * Discount entry for a cart line or the whole sale
+ */
+export function DiscountModal({ visible, title, subtitle, discount, allowPriceOverride, onClose, onApply }: DiscountModalProps) {
+  const tintColor = useThemeColor({}, 'tint');
+  const textColor = useThemeColor({}, 'text');
+
+  const [mode, setMode] = useState<LineDiscountType>('percent');
+  const [value, setValue] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      setMode(discount?.type || 'percent');
+      setValue(discount ? String(discount.value) : '');
+    }
+  }, [visible, discount]);
+
+  const modes: LineDiscountType[] = allowPriceOverride ? ['percent', 'amount', 'price'] : ['percent', 'amount'];
+
+  const handleApply = () => {
+    const parsed = parseFloat(value);
+
+    if (isNaN(parsed) || parsed < 0) {
+      Alert.alert('Error', 'Please enter a valid amount');
+      return;
+    }
+
+    if (mode === 'percent' && parsed > 100) {
+      Alert.alert('Error', 'Discount cannot exceed 100%');
+      return;
+    }
+
+    onApply({ type: mode, value: parsed });
+    onClose();
+  };
+
+  const handleRemove = () => {
+    onApply(null);
+    onClose();
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <ThemedView style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <View>
+              <ThemedText style={styles.modalTitle}>{title}</ThemedText>
+              {subtitle && <ThemedText style={styles.modalSubtitle}>{subtitle}</ThemedText>}
+            </View>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={28} color={tintColor} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.modeRow}>
+            {modes.map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.modeChip, mode === option && { backgroundColor: tintColor, borderColor: tintColor }]}
+                onPress={() => setMode(option)}
+              >
+                <ThemedText style={[styles.modeChipText, mode === option && styles.modeChipTextActive]}>
+                  {MODE_LABELS[option]}
+                </ThemedText>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.formGroup}>
+            <ThemedText style={styles.label}>
+              {mode === 'percent' ? 'Percent off' : mode === 'amount' ? 'Pesos off' : 'Price per unit'}
+            </ThemedText>
+            <TextInput
+              style={[styles.input, { borderColor: tintColor + '40', color: textColor }]}
+              value={value}
+              onChangeText={setValue}
+              placeholder={mode === 'percent' ? 'e.g., 10' : 'e.g., 50.00'}
+              placeholderTextColor="#9CA3AF"
+              keyboardType="decimal-pad"
+            />
+          </View>
+
+          <View style={styles.buttonRow}>
+            {discount && (
+              <TouchableOpacity style={[styles.button, styles.removeButton]} onPress={handleRemove}>
+                <ThemedText style={styles.removeButtonText}>Remove</ThemedText>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={[styles.button, { backgroundColor: tintColor }]} onPress={handleApply}>
+              <Ionicons name="pricetag-outline" size={20} color="#fff" />
+              <ThemedText style={styles.buttonText}>Apply</ThemedText>
+            </TouchableOpacity>
+          </View>
+        </ThemedView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 16,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  modalSubtitle: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginTop: 2,
+  },
+  modeRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  modeChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 2,
+    borderColor: 'rgba(0,0,0,0.1)',
+  },
+  modeChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  modeChipTextActive: {
+    color: '#fff',
+  },
+  formGroup: {
+    marginTop: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 8,
+    opacity: 0.8,
+  },
+  input: {
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 2,
+    fontSize: 15,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 20,
+  },
+  button: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+    borderRadius: 12,
+    gap: 8,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  removeButton: {
+    borderWidth: 2,
+    borderColor: '#EF4444',
+  },
+  removeButtonText: {
+    color: '#EF4444',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,265 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Modal, ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { CONCENTRATION_LABELS, GENDER_LABELS } from '@/constants/fragrances';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { createFragrance, FragranceInput, updateFragrance } from '@/lib/api/fragrances';
+import { Fragrance, FragranceConcentration, FragranceGender } from '@/lib/types';
+
+interface FragranceModalProps {
+  visible: boolean;
+  fragrance: Fragrance | null;  // null creates a new fragrance
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const EMPTY_FORM: FragranceInput = {
+  name: '',
+  brand: '',
+  concentration: null,
+  gender: null,
+  notes: '',
+};
+
+const CONCENTRATIONS = Object.keys(CONCENTRATION_LABELS) as FragranceConcentration[];
+const GENDERS = Object.keys(GENDER_LABELS) as FragranceGender[];
+
+export function FragranceModal({ visible, fragrance, onClose, onSaved }: FragranceModalProps) {
+  const tintColor = useThemeColor({}, 'tint');
+  const textColor = useThemeColor({}, 'text');
+
+  const [formData, setFormData] = useState<FragranceInput>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setFormData(fragrance ? {
+        name: fragrance.name,
+        brand: fragrance.brand || '',
+        concentration: fragrance.concentration,
+        gender: fragrance.gender,
+        notes: fragrance.notes || '',
+      } : EMPTY_FORM);
+    }
+  }, [visible, fragrance]);
+
+  const handleSave = async () => {
+    if (!formData.name.trim()) {
+      Alert.alert('Error', 'Fragrance name is required');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const { error } = fragrance
+        ? await updateFragrance(fragrance.id, formData)
+        : await createFragrance(formData);
+
+      if (error) {
+        // 23505 = unique violation on brand, name and concentration
+        Alert.alert('Error', error.code === '23505' ? 'This fragrance already exists' : error.message || 'Failed to save fragrance');
+        return;
+      }
+
+      onSaved();
+      onClose();
+    } catch (error) {
+      console.error('Save fragrance error:', error);
+      Alert.alert('Error', 'Something went wrong');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderChips = <T extends string>(
+    options: T[],
+    labels: Record<T, string>,
+    value: T | null,
+    onSelect: (value: T | null) => void
+  ) => (
+    <View style={styles.chipRow}>
+      {options.map(option => {
+        const selected = value === option;
+        return (
+          <TouchableOpacity
+            key={option}
+            style={[
+              styles.chip,
+              { borderColor: tintColor + '40' },
+              selected && { backgroundColor: tintColor, borderColor: tintColor },
+            ]}
+            onPress={() => onSelect(selected ? null : option)}
+          >
+            <ThemedText style={[styles.chipText, selected && styles.chipTextActive]}>
+              {labels[option]}
+            </ThemedText>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <ThemedView style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <ThemedText style={styles.modalTitle}>{fragrance ? 'Edit Fragrance' : 'New Fragrance'}</ThemedText>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={28} color={tintColor} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.body} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+            <View style={styles.formGroup}>
+              <ThemedText style={styles.label}>Name *</ThemedText>
+              <TextInput
+                style={[styles.input, { borderColor: tintColor + '40', color: textColor }]}
+                value={formData.name}
+                onChangeText={(text) => setFormData({ ...formData, name: text })}
+                placeholder="e.g., Sauvage"
+                placeholderTextColor="#9CA3AF"
+              />
+            </View>
+
+            <View style={styles.formGroup}>
+              <ThemedText style={styles.label}>Brand</ThemedText>
+              <TextInput
+                style={[styles.input, { borderColor: tintColor + '40', color: textColor }]}
+                value={formData.brand || ''}
+                onChangeText={(text) => setFormData({ ...formData, brand: text })}
+                placeholder="e.g., Dior"
+                placeholderTextColor="#9CA3AF"
+              />
+            </View>
+
+            <View style={styles.formGroup}>
+              <ThemedText style={styles.label}>Concentration</ThemedText>
+              {renderChips(CONCENTRATIONS, CONCENTRATION_LABELS, formData.concentration, (concentration) =>
+                setFormData({ ...formData, concentration })
+              )}
+            </View>
+
+            <View style={styles.formGroup}>
+              <ThemedText style={styles.label}>Gender</ThemedText>
+              {renderChips(GENDERS, GENDER_LABELS, formData.gender, (gender) =>
+                setFormData({ ...formData, gender })
+              )}
+            </View>
+
+            <View style={styles.formGroup}>
+              <ThemedText style={styles.label}>Notes</ThemedText>
+              <TextInput
+                style={[styles.input, styles.textArea, { borderColor: tintColor + '40', color: textColor }]}
+                value={formData.notes || ''}
+                onChangeText={(text) => setFormData({ ...formData, notes: text })}
+                placeholder="Top, heart and base notes..."
+                placeholderTextColor="#9CA3AF"
+                multiline
+              />
+            </View>
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[styles.submitButton, { backgroundColor: tintColor }, saving && styles.submitButtonDisabled]}
+            onPress={handleSave}
+            disabled={saving}
+          >
+            {saving ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Ionicons name="checkmark" size={22} color="#fff" />
+            )}
+            <ThemedText style={styles.submitButtonText}>
+              {saving ? 'Saving...' : fragrance ? 'Save Changes' : 'Create Fragrance'}
+            </ThemedText>
+          </TouchableOpacity>
+        </ThemedView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  body: {
+    flexGrow: 0,
+  },
+  formGroup: {
+    marginTop: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 8,
+    opacity: 0.8,
+  },
+  input: {
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 2,
+    fontSize: 15,
+  },
+  textArea: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 2,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  submitButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+    borderRadius: 12,
+    gap: 8,
+    marginTop: 20,
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
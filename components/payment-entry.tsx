@@ -0,0 +1,235 @@
+import { Ionicons } from '@expo/vector-icons';
+import { ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { PAYMENT_METHOD_LABELS } from '@/constants/transactions';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { PaymentInput, PaymentMethod } from '@/lib/types';
+import { fromCents, toCents } from '@/lib/utils/money';
+
+export type PaymentDraft = {
+  method: PaymentMethod;
+  amount: string;
+  tendered: string;
+  reference: string;
+};
+
+export const EMPTY_PAYMENT: PaymentDraft = { method: 'cash', amount: '', tendered: '', reference: '' };
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Turns the form rows into payments. The last row always takes whatever is
+ * left of the total, so split payments add up by construction.
+ */
+export function resolvePayments(drafts: PaymentDraft[], total: number): PaymentInput[] {
+  const others = drafts.slice(0, -1).reduce((sum, draft) => sum + toCents(parseFloat(draft.amount) || 0), 0);
+
+  return drafts.map((draft, index) => ({
+    method: draft.method,
+    amount: index === drafts.length - 1 ? fromCents(toCents(total) - others) : fromCents(toCents(parseFloat(draft.amount) || 0)),
+    tendered: draft.method === 'cash' && draft.tendered.trim() ? parseFloat(draft.tendered) : null,
+    reference: draft.method !== 'cash' ? draft.reference.trim() || null : null,
+  }));
+}
+
+interface PaymentEntryProps {
+  total: number;
+  payments: PaymentDraft[];
+  onChange: (payments: PaymentDraft[]) => void;
+}
+
+/**
+ * Split-tender payment rows for the Sale tab, with change for cash
+ */
+export function PaymentEntry({ total, payments, onChange }: PaymentEntryProps) {
+  const tintColor = useThemeColor({}, 'tint');
+  const textColor = useThemeColor({}, 'text');
+
+  const resolved = resolvePayments(payments, total);
+
+  const updatePayment = (index: number, updates: Partial<PaymentDraft>) => {
+    onChange(payments.map((payment, i) => (i === index ? { ...payment, ...updates } : payment)));
+  };
+
+  const addPayment = () => {
+    // The current last row stops auto-filling, so pin it at what it was showing
+    const pinned = payments.map((payment, i) =>
+      i === payments.length - 1 ? { ...payment, amount: String(Math.max(0, resolved[i].amount)) } : payment
+    );
+    onChange([...pinned, { ...EMPTY_PAYMENT, method: 'ewallet' }]);
+  };
+
+  const removePayment = (index: number) => {
+    onChange(payments.filter((_, i) => i !== index));
+  };
+
+  return (
+    <View style={styles.container}>
+      {payments.map((payment, index) => {
+        const isLast = index === payments.length - 1;
+        const amount = resolved[index].amount;
+        const tendered = parseFloat(payment.tendered);
+        const change = !isNaN(tendered) ? round2(tendered - amount) : null;
+
+        return (
+          <View key={index} style={[styles.paymentRow, { borderColor: tintColor + '40' }]}>
+            <View style={styles.paymentHeader}>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.methodRow}>
+                {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(method => (
+                  <TouchableOpacity
+                    key={method}
+                    style={[styles.methodChip, payment.method === method && { backgroundColor: tintColor, borderColor: tintColor }]}
+                    onPress={() => updatePayment(index, { method })}
+                  >
+                    <ThemedText style={[styles.methodChipText, payment.method === method && styles.methodChipTextActive]}>
+                      {PAYMENT_METHOD_LABELS[method]}
+                    </ThemedText>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+              {payments.length > 1 && (
+                <TouchableOpacity onPress={() => removePayment(index)} style={styles.removeButton}>
+                  <Ionicons name="close-circle" size={22} color="#9CA3AF" />
+                </TouchableOpacity>
+              )}
+            </View>
+
+            <View style={styles.fieldRow}>
+              <View style={styles.field}>
+                <ThemedText style={styles.fieldLabel}>{isLast && payments.length > 1 ? 'Remaining' : 'Amount'}</ThemedText>
+                {isLast ? (
+                  <ThemedText style={[styles.amountText, amount <= 0 && styles.errorText]}>₱{amount.toFixed(2)}</ThemedText>
+                ) : (
+                  <TextInput
+                    style={[styles.input, { borderColor: tintColor + '40', color: textColor }]}
+                    value={payment.amount}
+                    onChangeText={text => updatePayment(index, { amount: text })}
+                    placeholder="0.00"
+                    placeholderTextColor="#999"
+                    keyboardType="decimal-pad"
+                  />
+                )}
+              </View>
+
+              {payment.method === 'cash' ? (
+                <View style={styles.field}>
+                  <ThemedText style={styles.fieldLabel}>Cash Tendered</ThemedText>
+                  <TextInput
+                    style={[styles.input, { borderColor: tintColor + '40', color: textColor }]}
+                    value={payment.tendered}
+                    onChangeText={text => updatePayment(index, { tendered: text })}
+                    placeholder={amount > 0 ? amount.toFixed(2) : '0.00'}
+                    placeholderTextColor="#999"
+                    keyboardType="decimal-pad"
+                  />
+                </View>
+              ) : (
+                <View style={styles.field}>
+                  <ThemedText style={styles.fieldLabel}>Reference (Optional)</ThemedText>
+                  <TextInput
+                    style={[styles.input, { borderColor: tintColor + '40', color: textColor }]}
+                    value={payment.reference}
+                    onChangeText={text => updatePayment(index, { reference: text })}
+                    placeholder="Approval / ref no."
+                    placeholderTextColor="#999"
+                  />
+                </View>
+              )}
+            </View>
+
+            {payment.method === 'cash' && change !== null && (
+              <ThemedText style={[styles.changeText, change < 0 && styles.errorText]}>
+                {change < 0 ? `Short by ₱${Math.abs(change).toFixed(2)}` : `Change: ₱${change.toFixed(2)}`}
+              </ThemedText>
+            )}
+          </View>
+        );
+      })}
+
+      <TouchableOpacity style={styles.addButton} onPress={addPayment}>
+        <Ionicons name="add-circle-outline" size={18} color={tintColor} />
+        <ThemedText style={[styles.addButtonText, { color: tintColor }]}>Split payment</ThemedText>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  paymentRow: {
+    borderWidth: 2,
+    borderRadius: 12,
+    padding: 12,
+    gap: 8,
+  },
+  paymentHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  methodRow: {
+    gap: 6,
+  },
+  methodChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 20,
+    borderWidth: 2,
+    borderColor: 'rgba(0,0,0,0.1)',
+  },
+  methodChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  methodChipTextActive: {
+    color: '#fff',
+  },
+  removeButton: {
+    padding: 2,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  field: {
+    flex: 1,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    opacity: 0.6,
+    marginBottom: 4,
+  },
+  input: {
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 2,
+    fontSize: 15,
+  },
+  amountText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    paddingVertical: 10,
+  },
+  changeText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#10B981',
+  },
+  errorText: {
+    color: '#EF4444',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 4,
+  },
+  addButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
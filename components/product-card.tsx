@@ -1,4 +1,5 @@
-import { StyleSheet } from 'react-native';
+import { StyleSheet, View } from 'react-native';
+import { ProductThumbnail } from '@/components/product-thumbnail';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 
@@ -10,14 +11,20 @@ export type Product = {
   price: number;
   stock: number;
   lowStockThreshold: number;
+  image_path?: string | null;
 };
 
 export function ProductCard({ product }: { product: Product }) {
   return (
     <ThemedView style={styles.card}>
-      <ThemedText style={styles.sku}>{product.sku}</ThemedText>
-      <ThemedText style={styles.name}>{product.name}</ThemedText>
-      <ThemedText style={styles.category}>{product.category}</ThemedText>
+      <View style={styles.header}>
+        <ProductThumbnail path={product.image_path ?? null} size={56} />
+        <View style={styles.headerInfo}>
+          <ThemedText style={styles.sku}>{product.sku}</ThemedText>
+          <ThemedText style={styles.name}>{product.name}</ThemedText>
+          <ThemedText style={styles.category}>{product.category}</ThemedText>
+        </View>
+      </View>
       <ThemedView style={styles.details}>
         <ThemedText>Stock: {product.stock}</ThemedText>
         <ThemedText>Price: ${product.price}</ThemedText>
@@ -32,6 +39,14 @@ const styles = StyleSheet.create({
     borderRadius: 10,
     marginBottom: 15,
   },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  headerInfo: {
+    flex: 1,
+  },
   sku: {
     fontWeight: 'bold',
   },
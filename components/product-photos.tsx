@@ -0,0 +1,168 @@
+import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ProductThumbnail } from '@/components/product-thumbnail';
+import { ThemedText } from '@/components/themed-text';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { deleteProductImage, getProductImages, uploadProductImage } from '@/lib/api/productImages';
+import { ProductImage } from '@/lib/types';
+
+interface ProductPhotosProps {
+  sku: string;
+  // Called after a photo is added or removed, e.g. to refresh thumbnails
+  onChange?: () => void;
+}
+
+const PICKER_OPTIONS: ImagePicker.ImagePickerOptions = {
+  mediaTypes: ['images'],
+  quality: 0.6,
+  base64: true,
+};
+
+/**
+ * Photos of one product with buttons to add more from the camera or gallery.
+ * The first photo is the product's thumbnail.
+ */
+export function ProductPhotos({ sku, onChange }: ProductPhotosProps) {
+  const tintColor = useThemeColor({}, 'tint');
+
+  const [images, setImages] = useState<ProductImage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+
+  useEffect(() => {
+    fetchImages();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sku]);
+
+  const fetchImages = async () => {
+    setLoading(true);
+    const { data } = await getProductImages(sku);
+    setImages(data || []);
+    setLoading(false);
+  };
+
+  const handleAdd = async (source: 'camera' | 'library') => {
+    const permission = source === 'camera'
+      ? await ImagePicker.requestCameraPermissionsAsync()
+      : await ImagePicker.requestMediaLibraryPermissionsAsync();
+
+    if (!permission.granted) {
+      Alert.alert('Permission Needed', `Allow ${source === 'camera' ? 'camera' : 'photo library'} access to add product photos.`);
+      return;
+    }
+
+    const result = source === 'camera'
+      ? await ImagePicker.launchCameraAsync(PICKER_OPTIONS)
+      : await ImagePicker.launchImageLibraryAsync({ ...PICKER_OPTIONS, allowsMultipleSelection: true });
+
+    if (result.canceled) {
+      return;
+    }
+
+    setUploading(true);
+    let failed = 0;
+    for (const asset of result.assets) {
+      if (!asset.base64) {
+        failed += 1;
+        continue;
+      }
+      const { error } = await uploadProductImage(sku, { base64: asset.base64, mimeType: asset.mimeType });
+      if (error) {
+        failed += 1;
+      }
+    }
+    setUploading(false);
+
+    if (failed > 0) {
+      Alert.alert('Error', `${failed} photo(s) could not be uploaded.`);
+    }
+
+    await fetchImages();
+    onChange?.();
+  };
+
+  const handleDelete = (image: ProductImage) => {
+    Alert.alert('Delete Photo', 'Remove this photo from the product?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          const { error } = await deleteProductImage(image);
+          if (error) {
+            Alert.alert('Error', error.message || 'Failed to delete photo.');
+            return;
+          }
+          await fetchImages();
+          onChange?.();
+        },
+      },
+    ]);
+  };
+
+  if (loading) {
+    return <ActivityIndicator color={tintColor} />;
+  }
+
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+      {images.map(image => (
+        <View key={image.id}>
+          <ProductThumbnail path={image.storage_path} size={80} />
+          <TouchableOpacity style={styles.deleteButton} onPress={() => handleDelete(image)}>
+            <Ionicons name="close-circle" size={22} color="#EF4444" />
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      {uploading ? (
+        <View style={[styles.addButton, { borderColor: tintColor + '40' }]}>
+          <ActivityIndicator color={tintColor} />
+        </View>
+      ) : (
+        <>
+          <TouchableOpacity style={[styles.addButton, { borderColor: tintColor + '40' }]} onPress={() => handleAdd('camera')}>
+            <Ionicons name="camera-outline" size={24} color={tintColor} />
+            <ThemedText style={[styles.addText, { color: tintColor }]}>Camera</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.addButton, { borderColor: tintColor + '40' }]} onPress={() => handleAdd('library')}>
+            <Ionicons name="images-outline" size={24} color={tintColor} />
+            <ThemedText style={[styles.addText, { color: tintColor }]}>Gallery</ThemedText>
+          </TouchableOpacity>
+        </>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    gap: 10,
+    paddingTop: 6,
+    paddingRight: 6,
+  },
+  deleteButton: {
+    position: 'absolute',
+    top: -6,
+    right: -6,
+    backgroundColor: '#fff',
+    borderRadius: 11,
+  },
+  addButton: {
+    width: 80,
+    height: 80,
+    borderRadius: 10,
+    borderWidth: 2,
+    borderStyle: 'dashed',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 2,
+  },
+  addText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+});
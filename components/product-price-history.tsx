@@ -0,0 +1,245 @@
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { addDays, format, startOfDay } from 'date-fns';
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Platform, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import {
+  cancelPriceChange,
+  getPriceHistory,
+  getScheduledPriceChanges,
+  PriceHistoryEntry,
+  schedulePriceChange,
+} from '@/lib/api/products';
+import { ScheduledPriceChange } from '@/lib/types';
+
+interface ProductPriceHistoryProps {
+  sku: string;
+  // Called after a change is scheduled or cancelled, e.g. to refresh the product list
+  onChange?: () => void;
+}
+
+/**
+ * Past price changes and upcoming scheduled prices for one product, shown
+ * inside the product form. Scheduled prices take effect at the start of the
+ * chosen day.
+ */
+export function ProductPriceHistory({ sku, onChange }: ProductPriceHistoryProps) {
+  const tintColor = useThemeColor({}, 'tint');
+  const textColor = useThemeColor({}, 'text');
+
+  const [history, setHistory] = useState<PriceHistoryEntry[]>([]);
+  const [scheduled, setScheduled] = useState<ScheduledPriceChange[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newPrice, setNewPrice] = useState('');
+  const [effectiveDate, setEffectiveDate] = useState<Date>(addDays(startOfDay(new Date()), 1));
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchPrices();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sku]);
+
+  const fetchPrices = async () => {
+    setLoading(true);
+    const [{ data: historyData }, { data: scheduledData }] = await Promise.all([
+      getPriceHistory(sku),
+      getScheduledPriceChanges(sku),
+    ]);
+    setHistory(historyData || []);
+    setScheduled(scheduledData || []);
+    setLoading(false);
+  };
+
+  const handleDateChange = (_event: any, selectedDate?: Date) => {
+    setShowDatePicker(Platform.OS === 'ios');
+    if (selectedDate) {
+      setEffectiveDate(startOfDay(selectedDate));
+    }
+  };
+
+  const handleSchedule = async () => {
+    const price = parseFloat(newPrice);
+    if (isNaN(price) || price < 0) {
+      Alert.alert('Validation Error', 'Price must be a valid number.');
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await schedulePriceChange(sku, price, effectiveDate);
+    setSaving(false);
+
+    if (error) {
+      Alert.alert('Error', error.message || 'Failed to schedule price change.');
+      return;
+    }
+
+    setNewPrice('');
+    await fetchPrices();
+    onChange?.();
+  };
+
+  const handleCancel = (change: ScheduledPriceChange) => {
+    Alert.alert(
+      'Cancel Price Change',
+      `Cancel the change to ₱${change.new_price.toFixed(2)} from ${format(new Date(change.effective_at), 'MMM dd, yyyy')}?`,
+      [
+        { text: 'Keep', style: 'cancel' },
+        {
+          text: 'Cancel Change',
+          style: 'destructive',
+          onPress: async () => {
+            const { error } = await cancelPriceChange(change.id);
+            if (error) {
+              Alert.alert('Error', error.message || 'Failed to cancel price change.');
+              return;
+            }
+            await fetchPrices();
+            onChange?.();
+          },
+        },
+      ]
+    );
+  };
+
+  if (loading) {
+    return <ActivityIndicator color={tintColor} />;
+  }
+
+  return (
+    <View>
+      {scheduled.map(change => (
+        <View key={change.id} style={styles.row}>
+          <Ionicons name="time-outline" size={18} color={tintColor} />
+          <View style={styles.rowInfo}>
+            <ThemedText style={styles.rowTitle}>₱{change.new_price.toFixed(2)}</ThemedText>
+            <ThemedText style={styles.rowMeta}>
+              Scheduled from {format(new Date(change.effective_at), 'MMM dd, yyyy')}
+            </ThemedText>
+          </View>
+          <TouchableOpacity onPress={() => handleCancel(change)}>
+            <Ionicons name="close-circle-outline" size={20} color="#EF4444" />
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      <View style={styles.editRow}>
+        <TextInput
+          style={[styles.input, styles.priceInput, { borderColor: tintColor + '40', color: textColor }]}
+          value={newPrice}
+          onChangeText={(text) => {
+            if (text === '' || /^[0-9]*\.?[0-9]*$/.test(text)) {
+              setNewPrice(text);
+            }
+          }}
+          placeholder="New price ₱"
+          placeholderTextColor="#9CA3AF"
+          keyboardType="decimal-pad"
+        />
+        <TouchableOpacity
+          style={[styles.input, styles.dateButton, { borderColor: tintColor + '40' }]}
+          onPress={() => setShowDatePicker(true)}
+        >
+          <Ionicons name="calendar-outline" size={18} color={tintColor} />
+          <ThemedText>{format(effectiveDate, 'MMM dd, yyyy')}</ThemedText>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.saveButton, { backgroundColor: tintColor }, !newPrice && styles.disabled]}
+          onPress={handleSchedule}
+          disabled={saving || !newPrice}
+        >
+          {saving ? <ActivityIndicator size="small" color="#fff" /> : <Ionicons name="checkmark" size={20} color="#fff" />}
+        </TouchableOpacity>
+      </View>
+      {showDatePicker && (
+        <DateTimePicker
+          value={effectiveDate}
+          mode="date"
+          display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+          onChange={handleDateChange}
+          minimumDate={addDays(startOfDay(new Date()), 1)}
+        />
+      )}
+
+      {history.length === 0 ? (
+        <ThemedText style={styles.emptyText}>No price changes yet</ThemedText>
+      ) : (
+        history.map(entry => (
+          <View key={entry.id} style={styles.row}>
+            <View style={styles.rowInfo}>
+              <ThemedText style={styles.rowTitle}>
+                ₱{entry.old_price.toFixed(2)} → ₱{entry.new_price.toFixed(2)}
+              </ThemedText>
+              <ThemedText style={styles.rowMeta}>
+                {[
+                  format(new Date(entry.changed_at), 'MMM dd, yyyy HH:mm'),
+                  entry.user?.full_name,
+                  entry.scheduled_price_change_id !== null && 'Scheduled',
+                ].filter(Boolean).join(' • ')}
+              </ThemedText>
+            </View>
+          </View>
+        ))
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(0,0,0,0.05)',
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  rowMeta: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  editRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginVertical: 12,
+  },
+  input: {
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 2,
+    fontSize: 15,
+  },
+  priceInput: {
+    flex: 1,
+  },
+  dateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  saveButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  emptyText: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+});
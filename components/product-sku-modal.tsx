@@ -0,0 +1,284 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Modal, ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ProductThumbnail } from '@/components/product-thumbnail';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { getProducts, mergeProducts, renameProductSku } from '@/lib/api/products';
+import { CurrentStock } from '@/lib/types';
+import { matchesProductSearch } from '@/lib/utils/fragrances';
+
+export type ProductSkuAction = 'rename' | 'merge';
+
+interface ProductSkuModalProps {
+  visible: boolean;
+  action: ProductSkuAction;
+  product: CurrentStock;
+  onClose: () => void;
+  // Receives the SKU the product now lives under
+  onDone: (sku: string) => void;
+}
+
+/**
+ * Renames a product's SKU, or merges the product into a duplicate of the same
+ * size. Either way the old SKU keeps scanning as an alias.
+ */
+export function ProductSkuModal({ visible, action, product, onClose, onDone }: ProductSkuModalProps) {
+  const tintColor = useThemeColor({}, 'tint');
+  const textColor = useThemeColor({}, 'text');
+
+  const [newSku, setNewSku] = useState('');
+  const [candidates, setCandidates] = useState<CurrentStock[]>([]);
+  const [query, setQuery] = useState('');
+  const [target, setTarget] = useState<CurrentStock | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+
+    setNewSku('');
+    setQuery('');
+    setTarget(null);
+
+    if (action === 'merge') {
+      getProducts().then(({ data }) => setCandidates(
+        (data || []).filter(p => p.sku !== product.sku && p.volume_ml === product.volume_ml)
+      ));
+    }
+  }, [visible, action, product]);
+
+  const handleRename = async () => {
+    if (!newSku.trim()) {
+      Alert.alert('Error', 'New SKU is required');
+      return;
+    }
+
+    setSaving(true);
+    const { data, error } = await renameProductSku(product.sku, newSku);
+    setSaving(false);
+
+    if (error || !data) {
+      Alert.alert('Error', error?.message || 'Failed to rename SKU');
+      return;
+    }
+
+    Alert.alert('Success', `${product.sku} is now ${data.sku}. Old barcodes still scan.`);
+    onDone(data.sku);
+  };
+
+  const handleMerge = () => {
+    if (!target) {
+      Alert.alert('Error', 'Choose a product to merge into');
+      return;
+    }
+
+    Alert.alert(
+      'Merge Products',
+      `Move ${product.quantity_on_hand} in stock and all history from ${product.sku} into ${target.sku}? ${product.sku} will be removed and scan as ${target.sku}. This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Merge',
+          style: 'destructive',
+          onPress: async () => {
+            setSaving(true);
+            const { error } = await mergeProducts(product.sku, target.sku);
+            setSaving(false);
+
+            if (error) {
+              Alert.alert('Error', error.message || 'Failed to merge products');
+              return;
+            }
+
+            Alert.alert('Success', `${product.sku} was merged into ${target.sku}`);
+            onDone(target.sku);
+          },
+        },
+      ]
+    );
+  };
+
+  const filteredCandidates = candidates.filter(p => matchesProductSearch(p, query));
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <ThemedView style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <ThemedText style={styles.modalTitle}>{action === 'rename' ? 'Rename SKU' : 'Merge Into...'}</ThemedText>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={28} color={tintColor} />
+            </TouchableOpacity>
+          </View>
+
+          {action === 'rename' ? (
+            <View style={styles.formGroup}>
+              <ThemedText style={styles.label}>New SKU for {product.sku}</ThemedText>
+              <TextInput
+                style={[styles.input, { borderColor: tintColor + '40', color: textColor }]}
+                value={newSku}
+                onChangeText={(text) => setNewSku(text.toUpperCase())}
+                placeholder="e.g., DIOR-SAUVAGE-100"
+                placeholderTextColor="#9CA3AF"
+                autoCapitalize="characters"
+                autoCorrect={false}
+              />
+              <ThemedText style={styles.hint}>
+                Sales, deliveries, prices and photos move to the new SKU. {product.sku} keeps working on printed barcodes.
+              </ThemedText>
+            </View>
+          ) : (
+            <View style={styles.formGroup}>
+              <ThemedText style={styles.hint}>
+                {product.sku} ({product.volume_ml}ml) will be folded into the product you choose. Only products of the same size are listed.
+              </ThemedText>
+              <TextInput
+                style={[styles.input, styles.searchInput, { borderColor: tintColor + '40', color: textColor }]}
+                value={query}
+                onChangeText={setQuery}
+                placeholder="Search by name, SKU or brand..."
+                placeholderTextColor="#9CA3AF"
+              />
+              <ScrollView style={styles.candidateList} keyboardShouldPersistTaps="handled">
+                {filteredCandidates.length === 0 ? (
+                  <ThemedText style={styles.hint}>No other {product.volume_ml}ml products</ThemedText>
+                ) : (
+                  filteredCandidates.map(candidate => {
+                    const selected = target?.sku === candidate.sku;
+                    return (
+                      <TouchableOpacity
+                        key={candidate.sku}
+                        style={[
+                          styles.candidateRow,
+                          { borderColor: tintColor + '40' },
+                          selected && { borderColor: tintColor, backgroundColor: tintColor + '15' },
+                        ]}
+                        onPress={() => setTarget(candidate)}
+                      >
+                        <ProductThumbnail path={candidate.image_path} size={40} />
+                        <View style={styles.candidateInfo}>
+                          <ThemedText style={styles.candidateName}>{candidate.name}</ThemedText>
+                          <ThemedText style={styles.candidateMeta}>
+                            {candidate.sku} • {candidate.quantity_on_hand} in stock
+                          </ThemedText>
+                        </View>
+                        {selected && <Ionicons name="checkmark-circle" size={22} color={tintColor} />}
+                      </TouchableOpacity>
+                    );
+                  })
+                )}
+              </ScrollView>
+            </View>
+          )}
+
+          <TouchableOpacity
+            style={[styles.submitButton, { backgroundColor: tintColor }, saving && styles.submitButtonDisabled]}
+            onPress={action === 'rename' ? handleRename : handleMerge}
+            disabled={saving}
+          >
+            {saving ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Ionicons name={action === 'rename' ? 'pricetag-outline' : 'git-merge-outline'} size={22} color="#fff" />
+            )}
+            <ThemedText style={styles.submitButtonText}>
+              {saving ? 'Saving...' : action === 'rename' ? 'Rename SKU' : 'Merge Products'}
+            </ThemedText>
+          </TouchableOpacity>
+        </ThemedView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  formGroup: {
+    marginTop: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 8,
+    opacity: 0.8,
+  },
+  input: {
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 2,
+    fontSize: 15,
+  },
+  searchInput: {
+    marginTop: 12,
+  },
+  hint: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginTop: 8,
+  },
+  candidateList: {
+    maxHeight: 320,
+    marginTop: 12,
+  },
+  candidateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 10,
+    borderRadius: 12,
+    borderWidth: 2,
+    marginBottom: 8,
+  },
+  candidateInfo: {
+    flex: 1,
+  },
+  candidateName: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  candidateMeta: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  submitButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+    borderRadius: 12,
+    gap: 8,
+    marginTop: 20,
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,233 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { getProductSuppliers, removeProductSupplier, saveProductSupplier } from '@/lib/api/suppliers';
+import { ProductSupplier, Supplier } from '@/lib/types';
+
+interface ProductSuppliersProps {
+  sku: string;
+  suppliers: Supplier[];
+}
+
+/**
+ * Supplier SKU and cost mappings for one product, edited inside the product form
+ */
+export function ProductSuppliers({ sku, suppliers }: ProductSuppliersProps) {
+  const tintColor = useThemeColor({}, 'tint');
+  const textColor = useThemeColor({}, 'text');
+
+  const [mappings, setMappings] = useState<ProductSupplier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [supplierId, setSupplierId] = useState<number | null>(null);
+  const [supplierSku, setSupplierSku] = useState('');
+  const [unitCost, setUnitCost] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchMappings();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sku]);
+
+  const fetchMappings = async () => {
+    setLoading(true);
+    const { data } = await getProductSuppliers(sku);
+    setMappings(data || []);
+    setLoading(false);
+  };
+
+  const selectSupplier = (id: number) => {
+    const existing = mappings.find(mapping => mapping.supplier_id === id);
+    setSupplierId(id);
+    setSupplierSku(existing?.supplier_sku || '');
+    setUnitCost(existing?.unit_cost != null ? String(existing.unit_cost) : '');
+  };
+
+  const handleSave = async () => {
+    if (!supplierId) {
+      return;
+    }
+
+    const cost = unitCost.trim() ? parseFloat(unitCost) : null;
+    if (cost !== null && (isNaN(cost) || cost < 0)) {
+      Alert.alert('Validation Error', 'Unit cost must be a valid number.');
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await saveProductSupplier({
+      product_sku: sku,
+      supplier_id: supplierId,
+      supplier_sku: supplierSku,
+      unit_cost: cost,
+    });
+    setSaving(false);
+
+    if (error) {
+      Alert.alert('Error', error.message || 'Failed to save supplier details.');
+      return;
+    }
+
+    setSupplierId(null);
+    setSupplierSku('');
+    setUnitCost('');
+    await fetchMappings();
+  };
+
+  const handleRemove = async (id: number) => {
+    const { error } = await removeProductSupplier(sku, id);
+    if (error) {
+      Alert.alert('Error', error.message || 'Failed to remove supplier.');
+      return;
+    }
+    await fetchMappings();
+  };
+
+  if (loading) {
+    return <ActivityIndicator color={tintColor} />;
+  }
+
+  return (
+    <View>
+      {mappings.map(mapping => (
+        <View key={mapping.supplier_id} style={styles.mappingRow}>
+          <View style={styles.mappingInfo}>
+            <ThemedText style={styles.mappingName}>
+              {suppliers.find(s => s.id === mapping.supplier_id)?.name || 'Unknown supplier'}
+            </ThemedText>
+            <ThemedText style={styles.mappingMeta}>
+              {[
+                mapping.supplier_sku && `SKU ${mapping.supplier_sku}`,
+                mapping.unit_cost != null && `₱${mapping.unit_cost.toFixed(2)} / unit`,
+              ].filter(Boolean).join(' • ') || 'No SKU or cost yet'}
+            </ThemedText>
+          </View>
+          <TouchableOpacity onPress={() => selectSupplier(mapping.supplier_id)}>
+            <Ionicons name="create-outline" size={20} color={tintColor} />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => handleRemove(mapping.supplier_id)}>
+            <Ionicons name="trash-outline" size={20} color="#EF4444" />
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      <View style={styles.chipRow}>
+        {suppliers.map(supplier => (
+          <TouchableOpacity
+            key={supplier.id}
+            style={[
+              styles.chip,
+              { borderColor: tintColor + '40' },
+              supplierId === supplier.id && { backgroundColor: tintColor, borderColor: tintColor },
+            ]}
+            onPress={() => selectSupplier(supplier.id)}
+          >
+            <ThemedText style={[styles.chipText, supplierId === supplier.id && styles.chipTextActive]}>
+              {supplier.name}
+            </ThemedText>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {supplierId !== null && (
+        <View style={styles.editRow}>
+          <TextInput
+            style={[styles.input, styles.skuInput, { borderColor: tintColor + '40', color: textColor }]}
+            value={supplierSku}
+            onChangeText={setSupplierSku}
+            placeholder="Supplier SKU"
+            placeholderTextColor="#9CA3AF"
+            autoCapitalize="characters"
+          />
+          <TextInput
+            style={[styles.input, styles.costInput, { borderColor: tintColor + '40', color: textColor }]}
+            value={unitCost}
+            onChangeText={(text) => {
+              if (text === '' || /^[0-9]*\.?[0-9]*$/.test(text)) {
+                setUnitCost(text);
+              }
+            }}
+            placeholder="Cost ₱"
+            placeholderTextColor="#9CA3AF"
+            keyboardType="decimal-pad"
+          />
+          <TouchableOpacity
+            style={[styles.saveButton, { backgroundColor: tintColor }]}
+            onPress={handleSave}
+            disabled={saving}
+          >
+            {saving ? <ActivityIndicator size="small" color="#fff" /> : <Ionicons name="checkmark" size={20} color="#fff" />}
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  mappingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(0,0,0,0.05)',
+  },
+  mappingInfo: {
+    flex: 1,
+  },
+  mappingName: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  mappingMeta: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 2,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  editRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
+  input: {
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 2,
+    fontSize: 15,
+  },
+  skuInput: {
+    flex: 1,
+  },
+  costInput: {
+    width: 96,
+  },
+  saveButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
@@ -0,0 +1,63 @@
+import { Ionicons } from '@expo/vector-icons';
+import { Image } from 'expo-image';
+import { useEffect, useState } from 'react';
+import { PixelRatio, StyleProp, StyleSheet, View, ViewStyle } from 'react-native';
+
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { getProductImageUrl } from '@/lib/api/productImages';
+
+interface ProductThumbnailProps {
+  path: string | null;  // Storage path; null shows a placeholder
+  size?: number;
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * A product photo from the private product-images bucket, or a bottle icon
+ * when the product has none. The photo is fetched resized to `size`, so pass
+ * the largest side when a style with width/height fills a larger area.
+ */
+export function ProductThumbnail({ path, size = 48, style }: ProductThumbnailProps) {
+  const tintColor = useThemeColor({}, 'tint');
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setUrl(null);
+
+    if (path) {
+      getProductImageUrl(path, PixelRatio.getPixelSizeForLayoutSize(size)).then(({ data }) => {
+        if (!cancelled) {
+          setUrl(data);
+        }
+      });
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [path, size]);
+
+  return (
+    <View style={[styles.container, { width: size, height: size, backgroundColor: tintColor + '15' }, style]}>
+      {url ? (
+        <Image source={{ uri: url }} style={styles.image} contentFit="cover" cachePolicy="memory-disk" recyclingKey={path} />
+      ) : (
+        <Ionicons name="flask-outline" size={Math.min(size / 2, 48)} color={tintColor} />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 10,
+    overflow: 'hidden',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  image: {
+    width: '100%',
+    height: '100%',
+  },
+});
@@ -0,0 +1,413 @@
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Modal, ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { PURCHASE_ORDER_STATUS_COLORS, PURCHASE_ORDER_STATUS_LABELS } from '@/constants/transactions';
+import { useAuth } from '@/context/AuthContext';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { closePurchaseOrder, PurchaseOrder, receivePurchaseOrder } from '@/lib/api/purchaseOrders';
+import { CurrentStock } from '@/lib/types';
+
+interface PurchaseOrderModalProps {
+  visible: boolean;
+  order: PurchaseOrder | null;
+  products: CurrentStock[];
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+export function PurchaseOrderModal({ visible, order, products, onClose, onChanged }: PurchaseOrderModalProps) {
+  const tintColor = useThemeColor({}, 'tint');
+  const textColor = useThemeColor({}, 'text');
+  const { user } = useAuth();
+
+  // Units arriving now, keyed by ordered_item_id
+  const [receiving, setReceiving] = useState<Record<number, string>>({});
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!visible) {
+      setReceiving({});
+      setNotes('');
+    }
+  }, [visible]);
+
+  if (!order) {
+    return null;
+  }
+
+  const isClosed = order.order_status === 'closed';
+  const statusColor = PURCHASE_ORDER_STATUS_COLORS[order.order_status];
+  const receivingUnits = Object.values(receiving).reduce((sum, value) => sum + (parseInt(value, 10) || 0), 0);
+
+  const updateReceiving = (itemId: number, text: string) => {
+    if (text !== '' && !/^[0-9]+$/.test(text)) {
+      return;
+    }
+    setReceiving(prev => ({ ...prev, [itemId]: text }));
+  };
+
+  // Fill every line with what is still outstanding
+  const receiveAllOutstanding = () => {
+    const next: Record<number, string> = {};
+    order.lines.forEach(line => {
+      const outstanding = line.ordered_quantity - line.received_quantity;
+      if (outstanding > 0) {
+        next[line.ordered_item_id] = String(outstanding);
+      }
+    });
+    setReceiving(next);
+  };
+
+  const submitReceipt = async (close: boolean) => {
+    if (!user) {
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const { error } = await receivePurchaseOrder({
+        purchase_order_id: order.id,
+        reference: `RCV-${Date.now()}`,
+        notes: notes.trim() || null,
+        close,
+        userId: user.id,
+        items: order.lines
+          .map(line => ({ ordered_item_id: line.ordered_item_id, quantity: parseInt(receiving[line.ordered_item_id], 10) || 0 }))
+          .filter(item => item.quantity > 0),
+      });
+
+      if (error) {
+        Alert.alert('Error', error?.message || 'Failed to receive items');
+        return;
+      }
+
+      Alert.alert('Success', `Received ${receivingUnits} ${receivingUnits === 1 ? 'unit' : 'units'}`);
+      onChanged();
+      onClose();
+    } catch (error) {
+      console.error('Receive purchase order error:', error);
+      Alert.alert('Error', 'Something went wrong');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleReceive = () => {
+    if (receivingUnits === 0) {
+      Alert.alert('Error', 'Enter the quantities that arrived');
+      return;
+    }
+
+    const leavesOutstanding = order.lines.some(
+      line => line.received_quantity + (parseInt(receiving[line.ordered_item_id], 10) || 0) < line.ordered_quantity
+    );
+
+    if (!leavesOutstanding) {
+      submitReceipt(false);
+      return;
+    }
+
+    Alert.alert(
+      'Partial Delivery',
+      'Some items are still outstanding. Keep the order open for the rest?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Close Order', style: 'destructive', onPress: () => submitReceipt(true) },
+        { text: 'Keep Open', onPress: () => submitReceipt(false) },
+      ]
+    );
+  };
+
+  const handleClose = () => {
+    Alert.alert(
+      'Close Purchase Order',
+      'Outstanding items will no longer be expected. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Close Order',
+          style: 'destructive',
+          onPress: async () => {
+            const { error } = await closePurchaseOrder(order.id);
+            if (error) {
+              Alert.alert('Error', error?.message || 'Failed to close purchase order');
+              return;
+            }
+            onChanged();
+            onClose();
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <ThemedView style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <View style={styles.headerInfo}>
+              <ThemedText style={styles.modalTitle}>{order.supplier?.name || 'Unknown supplier'}</ThemedText>
+              <ThemedText style={styles.modalSubtitle}>
+                {order.reference || `PO #${order.id}`} • {format(new Date(order.timestamp), 'MMM dd, yyyy')}
+                {order.expected_date ? ` • Expected ${format(new Date(order.expected_date), 'MMM dd')}` : ''}
+              </ThemedText>
+            </View>
+            <View style={[styles.statusBadge, { backgroundColor: statusColor + '20' }]}>
+              <ThemedText style={[styles.statusText, { color: statusColor }]}>
+                {PURCHASE_ORDER_STATUS_LABELS[order.order_status]}
+              </ThemedText>
+            </View>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={28} color={tintColor} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.body} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+            <View style={styles.tableHeader}>
+              <ThemedText style={[styles.tableHeaderText, styles.productColumn]}>Product</ThemedText>
+              <ThemedText style={styles.tableHeaderText}>Ordered</ThemedText>
+              <ThemedText style={styles.tableHeaderText}>Received</ThemedText>
+              {!isClosed && <ThemedText style={styles.tableHeaderText}>Now</ThemedText>}
+            </View>
+
+            {order.lines.map(line => {
+              const product = products.find(p => p.sku === line.sku);
+              const difference = line.received_quantity - line.ordered_quantity;
+              // Shortfalls only count as discrepancies once the order is closed; overs always do
+              const isDiscrepancy = difference > 0 || (isClosed && difference < 0);
+              return (
+                <View key={line.ordered_item_id} style={styles.lineItem}>
+                  <View style={styles.productColumn}>
+                    <ThemedText style={styles.lineName}>
+                      {product ? `${product.name} (${product.volume_ml}ml)` : line.sku}
+                    </ThemedText>
+                    {isDiscrepancy && (
+                      <ThemedText style={styles.discrepancyText}>
+                        {difference > 0 ? `${difference} over` : `${-difference} short`}
+                      </ThemedText>
+                    )}
+                  </View>
+                  <ThemedText style={styles.quantityCell}>{line.ordered_quantity}</ThemedText>
+                  <ThemedText style={[styles.quantityCell, isDiscrepancy && styles.discrepancyText]}>
+                    {line.received_quantity}
+                  </ThemedText>
+                  {!isClosed && (
+                    <TextInput
+                      style={[styles.quantityInput, { borderColor: tintColor + '40', color: textColor }]}
+                      value={receiving[line.ordered_item_id] || ''}
+                      onChangeText={(text) => updateReceiving(line.ordered_item_id, text)}
+                      placeholder="0"
+                      placeholderTextColor="#9CA3AF"
+                      keyboardType="number-pad"
+                    />
+                  )}
+                </View>
+              );
+            })}
+
+            {order.notes && (
+              <ThemedText style={styles.notesText}>Notes: {order.notes}</ThemedText>
+            )}
+
+            {!isClosed && (
+              <>
+                <TouchableOpacity style={styles.linkButton} onPress={receiveAllOutstanding}>
+                  <Ionicons name="checkmark-done-outline" size={18} color={tintColor} />
+                  <ThemedText style={[styles.linkButtonText, { color: tintColor }]}>Fill outstanding quantities</ThemedText>
+                </TouchableOpacity>
+
+                <View style={styles.formGroup}>
+                  <ThemedText style={styles.label}>Receiving Notes (Optional)</ThemedText>
+                  <TextInput
+                    style={[styles.input, { borderColor: tintColor + '40', color: textColor }]}
+                    value={notes}
+                    onChangeText={setNotes}
+                    placeholder="Delivery receipt no., damaged boxes..."
+                    placeholderTextColor="#9CA3AF"
+                  />
+                </View>
+              </>
+            )}
+          </ScrollView>
+
+          {!isClosed && (
+            <View style={styles.actions}>
+              <TouchableOpacity
+                style={[styles.button, styles.buttonSecondary, { borderColor: '#EF4444' }]}
+                onPress={handleClose}
+                disabled={submitting}
+              >
+                <ThemedText style={[styles.buttonText, { color: '#EF4444' }]}>Close Order</ThemedText>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.button, { backgroundColor: '#10B981' }, (submitting || receivingUnits === 0) && styles.buttonDisabled]}
+                onPress={handleReceive}
+                disabled={submitting || receivingUnits === 0}
+              >
+                {submitting ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <ThemedText style={[styles.buttonText, { color: '#fff' }]}>
+                    Receive {receivingUnits > 0 ? receivingUnits : ''}
+                  </ThemedText>
+                )}
+              </TouchableOpacity>
+            </View>
+          )}
+        </ThemedView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 16,
+    gap: 12,
+  },
+  headerInfo: {
+    flex: 1,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  modalSubtitle: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginTop: 2,
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 6,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  body: {
+    flexGrow: 0,
+  },
+  tableHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingBottom: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(0,0,0,0.1)',
+    gap: 8,
+  },
+  tableHeaderText: {
+    width: 64,
+    fontSize: 12,
+    fontWeight: '600',
+    opacity: 0.6,
+    textAlign: 'center',
+  },
+  productColumn: {
+    flex: 1,
+    textAlign: 'left',
+  },
+  lineItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(0,0,0,0.05)',
+    gap: 8,
+  },
+  lineName: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  quantityCell: {
+    width: 64,
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  quantityInput: {
+    width: 64,
+    padding: 8,
+    borderRadius: 10,
+    borderWidth: 2,
+    fontSize: 16,
+    fontWeight: 'bold',
+    textAlign: 'center',
+  },
+  discrepancyText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#EF4444',
+  },
+  notesText: {
+    fontSize: 13,
+    opacity: 0.7,
+    marginTop: 12,
+  },
+  linkButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 16,
+  },
+  linkButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  formGroup: {
+    marginTop: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 8,
+    opacity: 0.8,
+  },
+  input: {
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 2,
+    fontSize: 15,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 20,
+  },
+  button: {
+    flex: 1,
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  buttonSecondary: {
+    borderWidth: 2,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,386 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Modal, ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useAuth } from '@/context/AuthContext';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { createReturn, getReturnedQuantities, getTransactionById, TransactionWithItems } from '@/lib/api/transactions';
+import { CurrentStock } from '@/lib/types';
+import { getNetUnitPrices } from '@/lib/utils/discounts';
+
+interface ReturnModalProps {
+  visible: boolean;
+  saleId: number | null;
+  products: CurrentStock[];
+  onClose: () => void;
+  onReturned: () => void;
+}
+
+export function ReturnModal({ visible, saleId, products, onClose, onReturned }: ReturnModalProps) {
+  const tintColor = useThemeColor({}, 'tint');
+  const textColor = useThemeColor({}, 'text');
+  const { user } = useAuth();
+
+  const [sale, setSale] = useState<TransactionWithItems | null>(null);
+  const [returned, setReturned] = useState<Record<number, number>>({});
+  const [quantities, setQuantities] = useState<Record<number, number>>({});
+  const [refundAmount, setRefundAmount] = useState('');
+  const [refundEdited, setRefundEdited] = useState(false);
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (visible && saleId) {
+      loadSale(saleId);
+    }
+    if (!visible) {
+      setSale(null);
+      setReturned({});
+      setQuantities({});
+      setRefundAmount('');
+      setRefundEdited(false);
+      setNotes('');
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visible, saleId]);
+
+  const loadSale = async (id: number) => {
+    try {
+      setLoading(true);
+      const [saleResult, returnedResult] = await Promise.all([
+        getTransactionById(id),
+        getReturnedQuantities(id),
+      ]);
+
+      if (saleResult.error || !saleResult.data) {
+        Alert.alert('Error', 'Unable to load the original sale.');
+        onClose();
+        return;
+      }
+
+      setSale(saleResult.data);
+      setReturned(returnedResult.data || {});
+    } catch (error) {
+      console.error('Error loading sale for return:', error);
+      Alert.alert('Error', 'An unexpected error occurred.');
+      onClose();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Refunds go back at what the customer paid, after any discounts
+  const netPrices = sale ? getNetUnitPrices(sale, sale.transaction_item || []) : {};
+
+  const lines = (sale?.transaction_item || []).map(item => {
+    const sold = Math.abs(item.quantity);
+    const alreadyReturned = returned[item.id] || 0;
+    return {
+      item,
+      product: products.find(p => p.sku === item.sku),
+      remaining: Math.max(0, sold - alreadyReturned),
+      alreadyReturned,
+      sold,
+      unitPrice: netPrices[item.id] ?? item.unit_price_at_transaction,
+      quantity: quantities[item.id] || 0,
+    };
+  });
+
+  // Matches post_return_transaction: the line's VAT-inclusive amount for the units coming back
+  const returnedValue = lines.reduce((sum, line) => {
+    if (line.item.gross_amount === null) {
+      return sum + line.quantity * line.unitPrice;
+    }
+    return sum + Math.round((line.item.gross_amount * line.quantity * 100) / line.sold) / 100;
+  }, 0);
+  const totalUnits = lines.reduce((sum, line) => sum + line.quantity, 0);
+
+  // Keep the refund in step with the selected lines until the user types their own amount
+  useEffect(() => {
+    if (!refundEdited) {
+      setRefundAmount(returnedValue > 0 ? returnedValue.toFixed(2) : '');
+    }
+  }, [returnedValue, refundEdited]);
+
+  const handleQuantityChange = (itemId: number, remaining: number, increment: boolean) => {
+    setQuantities(prev => {
+      const current = prev[itemId] || 0;
+      const next = increment ? Math.min(remaining, current + 1) : Math.max(0, current - 1);
+      return { ...prev, [itemId]: next };
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!sale || !user) {
+      return;
+    }
+
+    if (totalUnits === 0) {
+      Alert.alert('Error', 'Select at least one item to return');
+      return;
+    }
+
+    const refund = parseFloat(refundAmount);
+    if (isNaN(refund) || refund < 0) {
+      Alert.alert('Error', 'Refund amount must be a valid number');
+      return;
+    }
+
+    if (refund > returnedValue) {
+      Alert.alert('Error', `Refund cannot exceed ₱${returnedValue.toFixed(2)}`);
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const { error } = await createReturn({
+        original_transaction_id: sale.id,
+        reference: `RET-${Date.now()}`,
+        notes: notes.trim() || null,
+        refund_amount: refund,
+        userId: user.id,
+        items: lines
+          .filter(line => line.quantity > 0)
+          .map(line => ({ original_item_id: line.item.id, quantity: line.quantity })),
+      });
+
+      if (error) {
+        Alert.alert('Error', error?.message || 'Failed to record return');
+        return;
+      }
+
+      Alert.alert('Success', 'Return recorded successfully!');
+      onReturned();
+      onClose();
+    } catch (error) {
+      console.error('Return error:', error);
+      Alert.alert('Error', 'Something went wrong');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <ThemedView style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <View>
+              <ThemedText style={styles.modalTitle}>Return Items</ThemedText>
+              {sale && (
+                <ThemedText style={styles.modalSubtitle}>
+                  {sale.reference || `Sale #${sale.id}`}
+                  {sale.customer || sale.customer_name ? ` • ${sale.customer?.name || sale.customer_name}` : ''}
+                </ThemedText>
+              )}
+            </View>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={28} color={tintColor} />
+            </TouchableOpacity>
+          </View>
+
+          {loading || !sale ? (
+            <View style={styles.loadingState}>
+              <ActivityIndicator size="small" color={tintColor} />
+              <ThemedText style={{ marginTop: 8 }}>Loading sale...</ThemedText>
+            </View>
+          ) : (
+            <ScrollView style={styles.body} showsVerticalScrollIndicator={false}>
+              {lines.map(line => (
+                <View key={line.item.id} style={styles.lineItem}>
+                  <View style={styles.lineInfo}>
+                    <ThemedText style={styles.lineName}>
+                      {line.product ? `${line.product.name} (${line.product.volume_ml}ml)` : line.item.sku}
+                    </ThemedText>
+                    <ThemedText style={styles.lineMeta}>
+                      Sold {line.sold} @ ₱{line.unitPrice.toFixed(2)}
+                      {line.alreadyReturned > 0 && ` • ${line.alreadyReturned} already returned`}
+                    </ThemedText>
+                  </View>
+                  {line.remaining === 0 ? (
+                    <ThemedText style={styles.fullyReturned}>Fully returned</ThemedText>
+                  ) : (
+                    <View style={styles.stepper}>
+                      <TouchableOpacity
+                        style={[styles.stepperButton, { backgroundColor: tintColor }]}
+                        onPress={() => handleQuantityChange(line.item.id, line.remaining, false)}
+                      >
+                        <Ionicons name="remove" size={18} color="#fff" />
+                      </TouchableOpacity>
+                      <ThemedText style={styles.quantityText}>{line.quantity}</ThemedText>
+                      <TouchableOpacity
+                        style={[styles.stepperButton, { backgroundColor: tintColor }]}
+                        onPress={() => handleQuantityChange(line.item.id, line.remaining, true)}
+                      >
+                        <Ionicons name="add" size={18} color="#fff" />
+                      </TouchableOpacity>
+                    </View>
+                  )}
+                </View>
+              ))}
+
+              <View style={styles.formGroup}>
+                <ThemedText style={styles.label}>
+                  Refund Amount (max ₱{returnedValue.toFixed(2)})
+                </ThemedText>
+                <TextInput
+                  style={[styles.input, { borderColor: tintColor + '40', color: textColor }]}
+                  value={refundAmount}
+                  onChangeText={(text) => {
+                    setRefundEdited(true);
+                    setRefundAmount(text);
+                  }}
+                  placeholder="0.00"
+                  placeholderTextColor="#9CA3AF"
+                  keyboardType="decimal-pad"
+                />
+              </View>
+
+              <View style={styles.formGroup}>
+                <ThemedText style={styles.label}>Notes (Optional)</ThemedText>
+                <TextInput
+                  style={[styles.input, { borderColor: tintColor + '40', color: textColor }]}
+                  value={notes}
+                  onChangeText={setNotes}
+                  placeholder="Reason for return"
+                  placeholderTextColor="#9CA3AF"
+                />
+              </View>
+            </ScrollView>
+          )}
+
+          <TouchableOpacity
+            style={[styles.submitButton, (submitting || totalUnits === 0) && styles.submitButtonDisabled]}
+            onPress={handleSubmit}
+            disabled={submitting || totalUnits === 0}
+          >
+            {submitting ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Ionicons name="arrow-undo-outline" size={22} color="#fff" />
+            )}
+            <ThemedText style={styles.submitButtonText}>
+              {submitting ? 'Saving...' : `Return ${totalUnits} ${totalUnits === 1 ? 'item' : 'items'}`}
+            </ThemedText>
+          </TouchableOpacity>
+        </ThemedView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 16,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  modalSubtitle: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginTop: 2,
+  },
+  loadingState: {
+    padding: 40,
+    alignItems: 'center',
+  },
+  body: {
+    flexGrow: 0,
+  },
+  lineItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(0,0,0,0.05)',
+    gap: 12,
+  },
+  lineInfo: {
+    flex: 1,
+  },
+  lineName: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  lineMeta: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  fullyReturned: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    opacity: 0.6,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  stepperButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  quantityText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    minWidth: 28,
+    textAlign: 'center',
+  },
+  formGroup: {
+    marginTop: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 8,
+    opacity: 0.8,
+  },
+  input: {
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 2,
+    fontSize: 15,
+  },
+  submitButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+    borderRadius: 12,
+    gap: 8,
+    marginTop: 20,
+    backgroundColor: '#3B82F6',
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
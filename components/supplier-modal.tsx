@@ -0,0 +1,203 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Modal, ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { createSupplier, updateSupplier } from '@/lib/api/suppliers';
+import { Supplier } from '@/lib/types';
+
+interface SupplierModalProps {
+  visible: boolean;
+  supplier: Supplier | null;  // null creates a new supplier
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+type SupplierFormData = {
+  name: string;
+  contact_person: string;
+  phone: string;
+  email: string;
+  payment_terms: string;
+  notes: string;
+};
+
+const EMPTY_FORM: SupplierFormData = {
+  name: '',
+  contact_person: '',
+  phone: '',
+  email: '',
+  payment_terms: '',
+  notes: '',
+};
+
+const FIELDS: { key: keyof SupplierFormData; label: string; placeholder: string; keyboardType?: 'phone-pad' | 'email-address' }[] = [
+  { key: 'name', label: 'Name *', placeholder: 'e.g., Manila Scents Trading' },
+  { key: 'contact_person', label: 'Contact Person', placeholder: 'Who to call' },
+  { key: 'phone', label: 'Phone', placeholder: 'e.g., 0917 123 4567', keyboardType: 'phone-pad' },
+  { key: 'email', label: 'Email', placeholder: 'orders@supplier.ph', keyboardType: 'email-address' },
+  { key: 'payment_terms', label: 'Payment Terms', placeholder: 'e.g., COD, Net 30' },
+  { key: 'notes', label: 'Notes', placeholder: 'Lead times, minimum orders...' },
+];
+
+export function SupplierModal({ visible, supplier, onClose, onSaved }: SupplierModalProps) {
+  const tintColor = useThemeColor({}, 'tint');
+  const textColor = useThemeColor({}, 'text');
+
+  const [formData, setFormData] = useState<SupplierFormData>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setFormData(supplier ? {
+        name: supplier.name,
+        contact_person: supplier.contact_person || '',
+        phone: supplier.phone || '',
+        email: supplier.email || '',
+        payment_terms: supplier.payment_terms || '',
+        notes: supplier.notes || '',
+      } : EMPTY_FORM);
+    }
+  }, [visible, supplier]);
+
+  const handleSave = async () => {
+    if (!formData.name.trim()) {
+      Alert.alert('Error', 'Supplier name is required');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const { error } = supplier
+        ? await updateSupplier(supplier.id, formData)
+        : await createSupplier(formData);
+
+      if (error) {
+        // 23505 = unique violation on supplier.name
+        Alert.alert('Error', error.code === '23505' ? 'A supplier with this name already exists' : error.message || 'Failed to save supplier');
+        return;
+      }
+
+      onSaved();
+      onClose();
+    } catch (error) {
+      console.error('Save supplier error:', error);
+      Alert.alert('Error', 'Something went wrong');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <ThemedView style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <ThemedText style={styles.modalTitle}>{supplier ? 'Edit Supplier' : 'New Supplier'}</ThemedText>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={28} color={tintColor} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.body} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+            {FIELDS.map(field => (
+              <View key={field.key} style={styles.formGroup}>
+                <ThemedText style={styles.label}>{field.label}</ThemedText>
+                <TextInput
+                  style={[styles.input, field.key === 'notes' && styles.textArea, { borderColor: tintColor + '40', color: textColor }]}
+                  value={formData[field.key]}
+                  onChangeText={(text) => setFormData({ ...formData, [field.key]: text })}
+                  placeholder={field.placeholder}
+                  placeholderTextColor="#9CA3AF"
+                  keyboardType={field.keyboardType}
+                  autoCapitalize={field.key === 'email' ? 'none' : 'sentences'}
+                  multiline={field.key === 'notes'}
+                />
+              </View>
+            ))}
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[styles.submitButton, { backgroundColor: tintColor }, saving && styles.submitButtonDisabled]}
+            onPress={handleSave}
+            disabled={saving}
+          >
+            {saving ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Ionicons name="checkmark" size={22} color="#fff" />
+            )}
+            <ThemedText style={styles.submitButtonText}>
+              {saving ? 'Saving...' : supplier ? 'Save Changes' : 'Create Supplier'}
+            </ThemedText>
+          </TouchableOpacity>
+        </ThemedView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  body: {
+    flexGrow: 0,
+  },
+  formGroup: {
+    marginTop: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 8,
+    opacity: 0.8,
+  },
+  input: {
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 2,
+    fontSize: 15,
+  },
+  textArea: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  submitButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+    borderRadius: 12,
+    gap: 8,
+    marginTop: 20,
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,124 @@
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { format } from 'date-fns';
+import { useState } from 'react';
+import { Platform, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { useThemeColor } from '@/hooks/use-theme-color';
+
+interface TransactionDateFieldProps {
+  value: Date | null;  // Null means "now"
+  onChange: (value: Date | null) => void;
+  minimumDate?: Date;  // Earliest date the user may pick
+  hint?: string;
+}
+
+/**
+ * Effective date and time of a transaction being entered. iOS picks both in
+ * one spinner; Android asks for the date, then the time.
+ */
+export function TransactionDateField({ value, onChange, minimumDate, hint }: TransactionDateFieldProps) {
+  const tintColor = useThemeColor({}, 'tint');
+
+  const [pickerMode, setPickerMode] = useState<'date' | 'time' | 'datetime' | null>(null);
+  const [draft, setDraft] = useState<Date>(new Date());
+
+  const openPicker = () => {
+    setDraft(value || new Date());
+    setPickerMode(Platform.OS === 'ios' ? 'datetime' : 'date');
+  };
+
+  const handleChange = (event: any, selectedDate?: Date) => {
+    if (Platform.OS === 'ios') {
+      if (selectedDate) {
+        setDraft(selectedDate);
+        onChange(selectedDate);
+      }
+      return;
+    }
+
+    const mode = pickerMode;
+    setPickerMode(null);
+    if (event.type !== 'set' || !selectedDate) {
+      return;
+    }
+
+    if (mode === 'date') {
+      setDraft(selectedDate);
+      setPickerMode('time');
+    } else {
+      onChange(selectedDate);
+    }
+  };
+
+  return (
+    <View>
+      <View style={styles.row}>
+        <TouchableOpacity
+          style={[styles.dateButton, { borderColor: value ? tintColor : tintColor + '40' }]}
+          onPress={openPicker}
+        >
+          <Ionicons name="calendar-outline" size={18} color={tintColor} />
+          <ThemedText style={styles.dateText}>
+            {value ? format(value, 'MMM dd, yyyy h:mm a') : 'Now'}
+          </ThemedText>
+        </TouchableOpacity>
+        {value && (
+          <TouchableOpacity onPress={() => { setPickerMode(null); onChange(null); }}>
+            <Ionicons name="close-circle" size={24} color="#9CA3AF" />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {pickerMode && (
+        <DateTimePicker
+          value={draft}
+          mode={pickerMode}
+          display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+          onChange={handleChange}
+          minimumDate={minimumDate}
+          maximumDate={new Date()}
+        />
+      )}
+      {pickerMode && Platform.OS === 'ios' && (
+        <TouchableOpacity onPress={() => setPickerMode(null)}>
+          <ThemedText style={[styles.doneText, { color: tintColor }]}>Done</ThemedText>
+        </TouchableOpacity>
+      )}
+
+      {hint && <ThemedText style={styles.hint}>{hint}</ThemedText>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  dateButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 2,
+  },
+  dateText: {
+    fontSize: 15,
+  },
+  doneText: {
+    fontSize: 15,
+    fontWeight: '600',
+    textAlign: 'right',
+    marginTop: 4,
+  },
+  hint: {
+    fontSize: 12,
+    opacity: 0.6,
+    marginTop: 6,
+  },
+});
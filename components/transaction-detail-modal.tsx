@@ -0,0 +1,329 @@
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { useState } from 'react';
+import { ActivityIndicator, Alert, Modal, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { ADJUSTMENT_REASON_LABELS, PAYMENT_METHOD_LABELS } from '@/constants/transactions';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { TransactionWithItems } from '@/lib/api/transactions';
+import { CurrentStock, LineDiscountType } from '@/lib/types';
+import { formatDiscount } from '@/lib/utils/discounts';
+import { printReceipt, sendReceiptToPrinter, shareEscPosReceipt, shareReceipt } from '@/lib/utils/receipt';
+
+type ReceiptAction = 'print' | 'share' | 'thermal' | 'bin';
+
+// Entry times this far from the effective time mean the transaction was backdated
+const BACKDATED_AFTER_MS = 5 * 60 * 1000;
+
+const RECEIPT_ACTIONS: Record<ReceiptAction, {
+  label: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  run: typeof printReceipt;
+}> = {
+  print: { label: 'Print', icon: 'print-outline', run: printReceipt },
+  share: { label: 'Share PDF', icon: 'share-outline', run: shareReceipt },
+  thermal: { label: 'Thermal', icon: 'receipt-outline', run: sendReceiptToPrinter },
+  bin: { label: 'ESC/POS File', icon: 'document-outline', run: shareEscPosReceipt },
+};
+
+interface TransactionDetailModalProps {
+  visible: boolean;
+  transaction: TransactionWithItems | null;
+  products: CurrentStock[];
+  onClose: () => void;
+}
+
+export function TransactionDetailModal({ visible, transaction, products, onClose }: TransactionDetailModalProps) {
+  const tintColor = useThemeColor({}, 'tint');
+  const [receiptAction, setReceiptAction] = useState<ReceiptAction | null>(null);
+
+  if (!transaction) {
+    return null;
+  }
+
+  const handleReceipt = async (action: ReceiptAction) => {
+    setReceiptAction(action);
+    const result = await RECEIPT_ACTIONS[action].run(transaction.id, products);
+    setReceiptAction(null);
+
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to generate receipt');
+    }
+  };
+
+  const items = transaction.transaction_item || [];
+  const payments = transaction.transaction_payment || [];
+  const gross = items.reduce((sum, item) => sum + item.total_amount, 0);
+  const discounts = items.reduce((sum, item) => sum + item.discount_amount, 0) + transaction.discount_amount;
+  const hasVat = items.some(item => item.gross_amount !== null);
+  const vat = items.reduce((sum, item) => sum + (item.tax_amount ?? 0), 0);
+  const totalDue = hasVat ? items.reduce((sum, item) => sum + (item.gross_amount ?? 0), 0) : gross - discounts;
+  const change = payments.reduce((sum, payment) => sum + payment.change_amount, 0);
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <ThemedView style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <View>
+              <ThemedText style={styles.modalTitle}>{transaction.transaction_type}</ThemedText>
+              <ThemedText style={styles.modalSubtitle}>
+                {transaction.reference || `#${transaction.id}`} • {format(new Date(transaction.timestamp), 'MMM dd, yyyy HH:mm')}
+              </ThemedText>
+            </View>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={28} color={tintColor} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView showsVerticalScrollIndicator={false}>
+            {(transaction.customer || transaction.customer_name) && (
+              <ThemedText style={styles.metaText}>Customer: {transaction.customer?.name || transaction.customer_name}</ThemedText>
+            )}
+            {transaction.supplier && <ThemedText style={styles.metaText}>Supplier: {transaction.supplier.name}</ThemedText>}
+            {transaction.created_at &&
+              new Date(transaction.created_at).getTime() - new Date(transaction.timestamp).getTime() > BACKDATED_AFTER_MS && (
+              <ThemedText style={styles.metaText}>
+                Backdated • entered {format(new Date(transaction.created_at), 'MMM dd, yyyy HH:mm')}
+              </ThemedText>
+            )}
+            {transaction.adjustment_reason && (
+              <ThemedText style={styles.metaText}>Reason: {ADJUSTMENT_REASON_LABELS[transaction.adjustment_reason]}</ThemedText>
+            )}
+            {transaction.status === 'cancelled' && (
+              <ThemedText style={styles.cancelledText}>
+                Cancelled{transaction.cancel_reason ? `: ${transaction.cancel_reason}` : ''}
+              </ThemedText>
+            )}
+
+            {/* Items */}
+            <ThemedText style={styles.sectionTitle}>Items</ThemedText>
+            {items.map(item => {
+              const product = products.find(p => p.sku === item.sku);
+              return (
+                <View key={item.id} style={styles.row}>
+                  <View style={styles.rowInfo}>
+                    <ThemedText style={styles.rowTitle}>
+                      {product ? `${product.name} (${product.volume_ml}ml)` : item.sku}
+                    </ThemedText>
+                    <ThemedText style={styles.rowMeta}>
+                      {Math.abs(item.quantity)} × ₱{item.unit_price_at_transaction.toFixed(2)}
+                      {item.discount_type && item.discount_value !== null &&
+                        ` • ${formatDiscount({ type: item.discount_type as LineDiscountType, value: item.discount_value })}`}
+                    </ThemedText>
+                  </View>
+                  <ThemedText style={styles.rowValue}>₱{item.total_amount.toFixed(2)}</ThemedText>
+                </View>
+              );
+            })}
+
+            {/* Totals */}
+            {(transaction.transaction_type === 'Sale' || transaction.transaction_type === 'Return') && (
+              <View style={styles.totals}>
+                {discounts > 0 && (
+                  <>
+                    <View style={styles.totalRow}>
+                      <ThemedText style={styles.totalLabel}>Subtotal</ThemedText>
+                      <ThemedText style={styles.totalLabel}>₱{gross.toFixed(2)}</ThemedText>
+                    </View>
+                    <View style={styles.totalRow}>
+                      <ThemedText style={styles.totalLabel}>
+                        Discounts{transaction.discount_reason ? ` (${transaction.discount_reason})` : ''}
+                      </ThemedText>
+                      <ThemedText style={styles.discountText}>-₱{discounts.toFixed(2)}</ThemedText>
+                    </View>
+                  </>
+                )}
+                {hasVat && vat > 0 && (
+                  <View style={styles.totalRow}>
+                    <ThemedText style={styles.totalLabel}>VAT</ThemedText>
+                    <ThemedText style={styles.totalLabel}>₱{vat.toFixed(2)}</ThemedText>
+                  </View>
+                )}
+                <View style={styles.totalRow}>
+                  <ThemedText style={styles.grandTotalLabel}>Total</ThemedText>
+                  <ThemedText style={styles.grandTotalLabel}>₱{totalDue.toFixed(2)}</ThemedText>
+                </View>
+                {transaction.refund_amount !== null && (
+                  <View style={styles.totalRow}>
+                    <ThemedText style={styles.totalLabel}>Refunded</ThemedText>
+                    <ThemedText style={styles.totalLabel}>₱{Number(transaction.refund_amount).toFixed(2)}</ThemedText>
+                  </View>
+                )}
+              </View>
+            )}
+
+            {/* Payments */}
+            {payments.length > 0 && (
+              <>
+                <ThemedText style={styles.sectionTitle}>Payments</ThemedText>
+                {payments.map(payment => (
+                  <View key={payment.id} style={styles.row}>
+                    <View style={styles.rowInfo}>
+                      <ThemedText style={styles.rowTitle}>{PAYMENT_METHOD_LABELS[payment.method]}</ThemedText>
+                      {payment.tendered !== null && (
+                        <ThemedText style={styles.rowMeta}>Tendered ₱{Number(payment.tendered).toFixed(2)}</ThemedText>
+                      )}
+                      {payment.reference && <ThemedText style={styles.rowMeta}>Ref: {payment.reference}</ThemedText>}
+                    </View>
+                    <ThemedText style={styles.rowValue}>₱{Number(payment.amount).toFixed(2)}</ThemedText>
+                  </View>
+                ))}
+                {change > 0 && (
+                  <View style={styles.totalRow}>
+                    <ThemedText style={styles.totalLabel}>Change</ThemedText>
+                    <ThemedText style={styles.totalLabel}>₱{change.toFixed(2)}</ThemedText>
+                  </View>
+                )}
+              </>
+            )}
+
+            {transaction.notes && <ThemedText style={styles.notesText}>{transaction.notes}</ThemedText>}
+
+            {/* Receipt */}
+            {transaction.transaction_type === 'Sale' && (
+              <View style={styles.receiptActions}>
+                {(Object.keys(RECEIPT_ACTIONS) as ReceiptAction[]).map(action => (
+                  <TouchableOpacity
+                    key={action}
+                    style={[styles.receiptButton, { borderColor: tintColor }]}
+                    onPress={() => handleReceipt(action)}
+                    disabled={receiptAction !== null}
+                  >
+                    {receiptAction === action ? (
+                      <ActivityIndicator size="small" color={tintColor} />
+                    ) : (
+                      <Ionicons name={RECEIPT_ACTIONS[action].icon} size={18} color={tintColor} />
+                    )}
+                    <ThemedText style={[styles.receiptButtonText, { color: tintColor }]}>
+                      {RECEIPT_ACTIONS[action].label}
+                    </ThemedText>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+          </ScrollView>
+        </ThemedView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 16,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  modalSubtitle: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginTop: 2,
+  },
+  metaText: {
+    fontSize: 14,
+    opacity: 0.8,
+    marginBottom: 4,
+  },
+  cancelledText: {
+    fontSize: 14,
+    color: '#EF4444',
+    marginBottom: 4,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(0,0,0,0.05)',
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  rowMeta: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  rowValue: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  totals: {
+    marginTop: 8,
+    gap: 4,
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 2,
+  },
+  totalLabel: {
+    fontSize: 14,
+    opacity: 0.8,
+  },
+  discountText: {
+    fontSize: 14,
+    color: '#10B981',
+    fontWeight: '600',
+  },
+  grandTotalLabel: {
+    fontSize: 17,
+    fontWeight: 'bold',
+  },
+  notesText: {
+    fontSize: 13,
+    opacity: 0.6,
+    fontStyle: 'italic',
+    marginTop: 16,
+  },
+  receiptActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginTop: 20,
+  },
+  receiptButton: {
+    flexGrow: 1,
+    flexBasis: '40%',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 2,
+  },
+  receiptButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,20 @@
+import { FragranceConcentration, FragranceGender, ProductGrouping } from '@/lib/types';
+
+export const CONCENTRATION_LABELS: Record<FragranceConcentration, string> = {
+  EDT: 'Eau de Toilette',
+  EDP: 'Eau de Parfum',
+  Parfum: 'Parfum',
+  Elixir: 'Elixir',
+};
+
+export const GENDER_LABELS: Record<FragranceGender, string> = {
+  men: 'Men',
+  women: 'Women',
+  unisex: 'Unisex',
+};
+
+export const PRODUCT_GROUPING_LABELS: Record<ProductGrouping, string> = {
+  none: 'No grouping',
+  fragrance: 'Fragrance',
+  brand: 'Brand',
+};
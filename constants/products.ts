@@ -0,0 +1,13 @@
+import { ProductImportField } from '@/lib/types';
+
+// Offered in the product form alongside any categories already in use
+export const DEFAULT_PRODUCT_CATEGORIES = ['Men', 'Women', 'Unisex'];
+
+export const PRODUCT_IMPORT_FIELD_LABELS: Record<ProductImportField, string> = {
+  sku: 'SKU',
+  name: 'Name',
+  volume_ml: 'Volume (ML)',
+  price: 'Price',
+  min_stock_threshold: 'Min Stock',
+  description: 'Description',
+};
@@ -0,0 +1,34 @@
+import { AdjustmentReason, PaymentMethod, PurchaseOrderStatus, ValuationMethod } from '@/lib/types';
+
+export const ADJUSTMENT_REASON_LABELS: Record<AdjustmentReason, string> = {
+  damaged: 'Damaged',
+  lost: 'Lost',
+  tester_opened: 'Tester Opened',
+  count_correction: 'Count Correction',
+  opening_balance: 'Opening Balance',
+};
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  open: 'Open',
+  partial: 'Partially Received',
+  closed: 'Closed',
+};
+
+export const PURCHASE_ORDER_STATUS_COLORS: Record<PurchaseOrderStatus, string> = {
+  open: '#F59E0B',
+  partial: '#3B82F6',
+  closed: '#10B981',
+};
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  ewallet: 'GCash / E-wallet',
+  card: 'Card',
+  bank_transfer: 'Bank Transfer',
+  store_credit: 'Store Credit',
+};
+
+export const VALUATION_METHOD_LABELS: Record<ValuationMethod, string> = {
+  fifo: 'FIFO',
+  average: 'Weighted Average',
+};
@@ -1,10 +1,13 @@
-import { createUserRecord, updateLastLogin, userRecordExists } from '@/lib/api/users';
+import { createUserRecord, getUserById, updateLastLogin, userRecordExists } from '@/lib/api/users';
 import { supabase } from '@/lib/supabase';
+import { User as UserRecord } from '@/lib/types';
 import { User } from '@supabase/supabase-js';
 import React, { createContext, useContext, useEffect, useState } from 'react';
 
 interface AuthContextType {
   user: User | null;
+  profile: UserRecord | null;  // Row in our "user" table, carries the role
+  isOwner: boolean;
   loading: boolean;
   signUp: (
     email: string,
@@ -21,6 +24,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
   children,
 }) => {
   const [user, setUser] = useState<User | null>(null);
+  const [profile, setProfile] = useState<UserRecord | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
 
   useEffect(() => {
@@ -52,6 +56,18 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
     };
   }, []);
 
+  // Load the role whenever the signed-in account changes
+  useEffect(() => {
+    if (!user?.id) {
+      setProfile(null);
+      return;
+    }
+
+    getUserById(user.id).then(({ data }) => {
+      setProfile(data);
+    });
+  }, [user?.id]);
+
   const signUp = async (
     email: string,
     password: string,
@@ -153,6 +169,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
 
   const value: AuthContextType = {
     user,
+    profile,
+    isOwner: profile?.role === 'owner',
     loading,
     signUp,
     signIn,
@@ -0,0 +1,283 @@
+import { TransactionWithItems } from '@/lib/api/transactions';
+import { supabase } from '@/lib/supabase';
+import { Customer, CustomerProductTotal, CustomerSummary } from '@/lib/types';
+
+export type CustomerInput = Omit<Customer, 'id' | 'created_at' | 'updated_at'>;
+
+function sanitizeCustomer(customer: Partial<CustomerInput>): Partial<CustomerInput> {
+  const sanitized: Partial<CustomerInput> = { ...customer };
+
+  if (customer.name !== undefined) {
+    // Collapse repeated spaces so "Ana  Reyes" and "Ana Reyes" match
+    sanitized.name = customer.name.trim().replace(/\s+/g, ' ');
+  }
+
+  (['phone', 'email', 'notes'] as const).forEach((field) => {
+    if (customer[field] !== undefined) {
+      sanitized[field] = customer[field]?.trim() || null;
+    }
+  });
+
+  return sanitized;
+}
+
+export async function getCustomers(): Promise<{
+  data: CustomerSummary[] | null;
+  error: any;
+}> {
+  try {
+    const { data, error } = await supabase
+      .from('customer_summary')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching customers:', error);
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    console.error('Error in getCustomers:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Search customers by name or phone (case-insensitive)
+ */
+export async function searchCustomers(
+  query: string,
+  limit: number = 8
+): Promise<{
+  data: Customer[] | null;
+  error: any;
+}> {
+  try {
+    const searchTerm = query.trim().replace(/[%,()]/g, ' ');
+    if (!searchTerm) {
+      return { data: [], error: null };
+    }
+
+    const { data, error } = await supabase
+      .from('customer')
+      .select('*')
+      .or(`name.ilike.%${searchTerm}%,phone.ilike.%${searchTerm}%`)
+      .order('name', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error searching customers:', error);
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    console.error('Error in searchCustomers:', error);
+    return { data: null, error };
+  }
+}
+
+export async function getCustomerById(
+  id: number
+): Promise<{
+  data: CustomerSummary | null;
+  error: any;
+}> {
+  try {
+    if (!id || !Number.isInteger(id) || id <= 0) {
+      return { data: null, error: new Error('Invalid customer ID') };
+    }
+
+    const { data, error } = await supabase
+      .from('customer_summary')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching customer by ID:', error);
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    console.error('Error in getCustomerById:', error);
+    return { data: null, error };
+  }
+}
+
+export async function createCustomer(
+  customer: CustomerInput
+): Promise<{
+  data: Customer | null;
+  error: any;
+}> {
+  try {
+    if (!customer.name || customer.name.trim().length === 0) {
+      return { data: null, error: new Error('Customer name is required') };
+    }
+
+    const { data, error } = await supabase
+      .from('customer')
+      .insert(sanitizeCustomer(customer))
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating customer:', error);
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    console.error('Error in createCustomer:', error);
+    return { data: null, error };
+  }
+}
+
+export async function updateCustomer(
+  id: number,
+  updates: Partial<CustomerInput>
+): Promise<{
+  data: Customer | null;
+  error: any;
+}> {
+  try {
+    if (!id || !Number.isInteger(id) || id <= 0) {
+      return { data: null, error: new Error('Invalid customer ID') };
+    }
+
+    if (updates.name !== undefined && updates.name.trim().length === 0) {
+      return { data: null, error: new Error('Customer name is required') };
+    }
+
+    const { data, error } = await supabase
+      .from('customer')
+      .update(sanitizeCustomer(updates))
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating customer:', error);
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    console.error('Error in updateCustomer:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Fails while sales still reference the customer
+ */
+export async function deleteCustomer(id: number): Promise<{
+  data: boolean;
+  error: any;
+}> {
+  try {
+    if (!id || !Number.isInteger(id) || id <= 0) {
+      return { data: false, error: new Error('Invalid customer ID') };
+    }
+
+    const { error } = await supabase.from('customer').delete().eq('id', id);
+
+    if (error) {
+      console.error('Error deleting customer:', error);
+      // 23503 = foreign key violation
+      if (error.code === '23503') {
+        return { data: false, error: new Error('This customer has sales on record and cannot be deleted') };
+      }
+      return { data: false, error };
+    }
+
+    return { data: true, error: null };
+  } catch (error) {
+    console.error('Error in deleteCustomer:', error);
+    return { data: false, error };
+  }
+}
+
+/**
+ * Products the customer has bought most (net of returns)
+ */
+export async function getFavoriteProducts(
+  customerId: number,
+  limit: number = 3
+): Promise<{
+  data: CustomerProductTotal[] | null;
+  error: any;
+}> {
+  try {
+    const { data, error } = await supabase
+      .from('customer_product_totals')
+      .select('*')
+      .eq('customer_id', customerId)
+      .order('units', { ascending: false })
+      .order('last_purchased', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching favorite products:', error);
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    console.error('Error in getFavoriteProducts:', error);
+    return { data: null, error };
+  }
+}
+
+export async function getCustomerTransactions(
+  customerId: number,
+  limit: number = 20
+): Promise<{
+  data: TransactionWithItems[] | null;
+  error: any;
+}> {
+  try {
+    const { data, error } = await supabase
+      .from('inventory_transaction')
+      .select('*, transaction_item(*)')
+      .eq('customer_id', customerId)
+      .order('timestamp', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching customer transactions:', error);
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    console.error('Error in getCustomerTransactions:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Links sales that only have a free-text customer_name to customer records.
+ * Owners only; returns how many transactions were linked.
+ */
+export async function migrateCustomerNames(): Promise<{
+  data: number | null;
+  error: any;
+}> {
+  try {
+    const { data, error } = await supabase.rpc('migrate_customer_names');
+
+    if (error) {
+      console.error('Error migrating customer names:', error);
+      return { data: null, error };
+    }
+
+    return { data: data as number, error: null };
+  } catch (error) {
+    console.error('Error in migrateCustomerNames:', error);
+    return { data: null, error };
+  }
+}
@@ -0,0 +1,136 @@
+import { supabase } from '@/lib/supabase';
+import { Fragrance } from '@/lib/types';
+
+export type FragranceInput = Omit<Fragrance, 'id' | 'created_at' | 'updated_at'>;
+
+function sanitizeFragrance(fragrance: Partial<FragranceInput>): Partial<FragranceInput> {
+  const sanitized: Partial<FragranceInput> = { ...fragrance };
+
+  if (fragrance.name !== undefined) {
+    sanitized.name = fragrance.name.trim().replace(/\s+/g, ' ');
+  }
+
+  (['brand', 'notes'] as const).forEach((field) => {
+    if (fragrance[field] !== undefined) {
+      sanitized[field] = fragrance[field]?.trim() || null;
+    }
+  });
+
+  return sanitized;
+}
+
+export async function getFragrances(): Promise<{
+  data: Fragrance[] | null;
+  error: any;
+}> {
+  try {
+    const { data, error } = await supabase
+      .from('fragrance')
+      .select('*')
+      .order('brand', { ascending: true, nullsFirst: false })
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching fragrances:', error);
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    console.error('Error in getFragrances:', error);
+    return { data: null, error };
+  }
+}
+
+export async function createFragrance(
+  fragrance: FragranceInput
+): Promise<{
+  data: Fragrance | null;
+  error: any;
+}> {
+  try {
+    if (!fragrance.name || fragrance.name.trim().length === 0) {
+      return { data: null, error: new Error('Fragrance name is required') };
+    }
+
+    const { data, error } = await supabase
+      .from('fragrance')
+      .insert(sanitizeFragrance(fragrance))
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating fragrance:', error);
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    console.error('Error in createFragrance:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Changes apply to every bottle size of the fragrance
+ */
+export async function updateFragrance(
+  id: number,
+  updates: Partial<FragranceInput>
+): Promise<{
+  data: Fragrance | null;
+  error: any;
+}> {
+  try {
+    if (!id || !Number.isInteger(id) || id <= 0) {
+      return { data: null, error: new Error('Invalid fragrance ID') };
+    }
+
+    if (updates.name !== undefined && updates.name.trim().length === 0) {
+      return { data: null, error: new Error('Fragrance name is required') };
+    }
+
+    const { data, error } = await supabase
+      .from('fragrance')
+      .update(sanitizeFragrance(updates))
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating fragrance:', error);
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    console.error('Error in updateFragrance:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Its bottle sizes are kept and simply no longer grouped
+ */
+export async function deleteFragrance(id: number): Promise<{
+  data: boolean;
+  error: any;
+}> {
+  try {
+    if (!id || !Number.isInteger(id) || id <= 0) {
+      return { data: false, error: new Error('Invalid fragrance ID') };
+    }
+
+    const { error } = await supabase.from('fragrance').delete().eq('id', id);
+
+    if (error) {
+      console.error('Error deleting fragrance:', error);
+      return { data: false, error };
+    }
+
+    return { data: true, error: null };
+  } catch (error) {
+    console.error('Error in deleteFragrance:', error);
+    return { data: false, error };
+  }
+}
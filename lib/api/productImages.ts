@@ -0,0 +1,198 @@
+import { supabase } from '@/lib/supabase';
+import { ProductImage } from '@/lib/types';
+
+const BUCKET = 'product-images';
+
+// Signed URLs are reused until shortly before they expire; keyed by path and width
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+const signedUrlCache = new Map<string, { url: string; expiresAt: number }>();
+
+// Resized widths are rounded up to a step so a few cached sizes serve every list
+const RESIZE_STEP_PX = 64;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+export interface ImageUpload {
+  base64: string;
+  mimeType?: string | null;
+}
+
+function decodeBase64(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Photos of a product in display order
+ */
+export async function getProductImages(sku: string): Promise<{
+  data: ProductImage[] | null;
+  error: any;
+}> {
+  try {
+    if (!sku || typeof sku !== 'string' || sku.trim().length === 0) {
+      return { data: null, error: new Error('Invalid SKU') };
+    }
+
+    const { data, error } = await supabase
+      .from('product_image')
+      .select('*')
+      .eq('sku', sku)
+      .order('sort_order', { ascending: true })
+      .order('id', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching product images:', error);
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    console.error('Error in getProductImages:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Uploads a photo to Storage and adds it after the product's other photos
+ */
+export async function uploadProductImage(
+  sku: string,
+  image: ImageUpload
+): Promise<{
+  data: ProductImage | null;
+  error: any;
+}> {
+  try {
+    if (!sku || typeof sku !== 'string' || sku.trim().length === 0) {
+      return { data: null, error: new Error('Invalid SKU') };
+    }
+
+    const contentType = image.mimeType && EXTENSIONS[image.mimeType] ? image.mimeType : 'image/jpeg';
+    const path = `${sku}/${Date.now()}-${Math.random().toString(36).slice(2, 8)}.${EXTENSIONS[contentType]}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(BUCKET)
+      .upload(path, decodeBase64(image.base64), { contentType });
+
+    if (uploadError) {
+      console.error('Error uploading product image:', uploadError);
+      return { data: null, error: uploadError };
+    }
+
+    const { data: last } = await supabase
+      .from('product_image')
+      .select('sort_order')
+      .eq('sku', sku)
+      .order('sort_order', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const { data, error } = await supabase
+      .from('product_image')
+      .insert({ sku, storage_path: path, sort_order: last ? last.sort_order + 1 : 0 })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving product image:', error);
+      // Don't leave an unlisted file behind
+      await supabase.storage.from(BUCKET).remove([path]);
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    console.error('Error in uploadProductImage:', error);
+    return { data: null, error };
+  }
+}
+
+export async function deleteProductImage(image: ProductImage): Promise<{
+  data: boolean;
+  error: any;
+}> {
+  try {
+    const { error } = await supabase.from('product_image').delete().eq('id', image.id);
+
+    if (error) {
+      console.error('Error deleting product image:', error);
+      return { data: false, error };
+    }
+
+    await removeProductImageFiles([image.storage_path]);
+    return { data: true, error: null };
+  } catch (error) {
+    console.error('Error in deleteProductImage:', error);
+    return { data: false, error };
+  }
+}
+
+/**
+ * Deletes files from the bucket. Failures are logged only: by the time this
+ * runs the image records are gone, so a leftover file is merely orphaned.
+ */
+export async function removeProductImageFiles(paths: string[]): Promise<void> {
+  if (paths.length === 0) {
+    return;
+  }
+
+  Array.from(signedUrlCache.keys())
+    .filter((key) => paths.includes(key.split('@')[0]))
+    .forEach((key) => signedUrlCache.delete(key));
+  const { error } = await supabase.storage.from(BUCKET).remove(paths);
+
+  if (error) {
+    console.error('Error removing product image files:', error);
+  }
+}
+
+/**
+ * Signed URL for displaying a photo from the private bucket. With a width in
+ * pixels, Storage serves a square copy resized to it instead of the
+ * full-size upload, which is what lists should ask for.
+ */
+export async function getProductImageUrl(path: string, width?: number): Promise<{
+  data: string | null;
+  error: any;
+}> {
+  try {
+    const size = width ? Math.ceil(width / RESIZE_STEP_PX) * RESIZE_STEP_PX : null;
+    const key = size ? `${path}@${size}` : path;
+
+    const cached = signedUrlCache.get(key);
+    if (cached && cached.expiresAt - Date.now() > 5 * 60 * 1000) {
+      return { data: cached.url, error: null };
+    }
+
+    const { data, error } = await supabase.storage
+      .from(BUCKET)
+      .createSignedUrl(
+        path,
+        SIGNED_URL_TTL_SECONDS,
+        size ? { transform: { width: size, height: size, resize: 'cover' } } : undefined
+      );
+
+    if (error) {
+      console.error('Error signing product image URL:', error);
+      return { data: null, error };
+    }
+
+    signedUrlCache.set(key, {
+      url: data.signedUrl,
+      expiresAt: Date.now() + SIGNED_URL_TTL_SECONDS * 1000,
+    });
+    return { data: data.signedUrl, error: null };
+  } catch (error) {
+    console.error('Error in getProductImageUrl:', error);
+    return { data: null, error };
+  }
+}
@@ -1,22 +1,76 @@
+import { removeProductImageFiles } from '@/lib/api/productImages';
 import { supabase } from '@/lib/supabase';
-import { CurrentStock, Product } from '@/lib/types';
+import { CurrentStock, Product, ProductPriceHistory, ProductSkuChange, ScheduledPriceChange, User } from '@/lib/types';
+import { getCategoryOptions, normalizeCategory, normalizeTags } from '@/lib/utils/categories';
+import { ImportProductValues } from '@/lib/utils/productImport';
+import { getProductValidationError } from '@/lib/utils/products';
 
-export async function getProducts(): Promise<{
+export interface PriceHistoryEntry extends ProductPriceHistory {
+  user?: Pick<User, 'full_name'> | null;
+}
+
+export interface SkuChangeEntry extends ProductSkuChange {
+  user?: Pick<User, 'full_name'> | null;
+}
+
+/**
+ * Shows scheduled prices that have come due as the price even before anything
+ * has applied them (pg_cron may be off), matching what post_inventory_transaction
+ * charges once it applies them. Only reads; the latest due change per SKU wins.
+ */
+async function withDuePrices(products: CurrentStock[]): Promise<CurrentStock[]> {
+  if (products.length === 0) {
+    return products;
+  }
+
+  const { data, error } = await supabase
+    .from('scheduled_price_change')
+    .select('sku, new_price')
+    .in('sku', products.map((product) => product.sku))
+    .is('applied_at', null)
+    .is('cancelled_at', null)
+    .lte('effective_at', new Date().toISOString())
+    .order('effective_at', { ascending: true })
+    .order('id', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching due price changes:', error);
+    return products;
+  }
+
+  const duePrices = new Map<string, number>((data || []).map((change) => [change.sku, change.new_price]));
+
+  return products.map((product) => {
+    const price = duePrices.get(product.sku);
+    return price === undefined ? product : { ...product, price, total_value: product.quantity_on_hand * price };
+  });
+}
+
+/**
+ * Loads products with stock levels; archived products only when asked for.
+ */
+export async function getProducts(includeArchived = false): Promise<{
   data: CurrentStock[] | null;
   error: any;
 }> {
   try {
-    const { data, error } = await supabase
+    let query = supabase
       .from('current_stock')
       .select('*')
       .order('name', { ascending: true });
 
+    if (!includeArchived) {
+      query = query.is('archived_at', null);
+    }
+
+    const { data, error } = await query;
+
     if (error) {
       console.error('Error fetching products:', error);
       return { data: null, error };
     }
 
-    return { data, error: null };
+    return { data: await withDuePrices(data || []), error: null };
   } catch (error) {
     console.error('Error in getProducts:', error);
     return { data: null, error };
@@ -40,19 +94,33 @@ export async function getProductBySku(sku: string): Promise<{
       .eq('sku', sanitizedSku)
       .single();
 
+    // PGRST116 = no row; the SKU may have been renamed or merged away
+    if (error?.code === 'PGRST116') {
+      const { data: alias } = await supabase
+        .from('product_sku_alias')
+        .select('sku')
+        .eq('alias', sanitizedSku.toUpperCase())
+        .maybeSingle();
+
+      if (alias) {
+        return getProductBySku(alias.sku);
+      }
+    }
+
     if (error) {
       console.error('Error fetching product by SKU:', error);
       return { data: null, error };
     }
 
-    return { data, error: null };
+    const [product] = await withDuePrices([data]);
+    return { data: product, error: null };
   } catch (error) {
     console.error('Error in getProductBySku:', error);
     return { data: null, error };
   }
 }
 
-export async function searchProducts(query: string): Promise<{
+export async function searchProducts(query: string, includeArchived = false): Promise<{
   data: CurrentStock[] | null;
   error: any;
 }> {
@@ -67,48 +135,69 @@ export async function searchProducts(query: string): Promise<{
       return { data: [], error: null };
     }
 
-    // Search both name and SKU fields
+    // Search name, SKU, fragrance, brand and category fields
     // PostgREST handles parameterization automatically
     const searchPattern = `%${sanitizedQuery}%`;
     
-    const { data, error } = await supabase
+    let request = supabase
       .from('current_stock')
       .select('*')
-      .or(`name.ilike.${searchPattern},sku.ilike.${searchPattern}`);
+      .or(`name.ilike.${searchPattern},sku.ilike.${searchPattern},fragrance_name.ilike.${searchPattern},brand.ilike.${searchPattern},category.ilike.${searchPattern}`);
+
+    if (!includeArchived) {
+      request = request.is('archived_at', null);
+    }
+
+    const { data, error } = await request;
 
     if (error) {
       console.error('Error searching products:', error);
       return { data: null, error };
     }
 
-    return { data, error: null };
+    return { data: await withDuePrices(data || []), error: null };
   } catch (error) {
     console.error('Error in searchProducts:', error);
     return { data: null, error };
   }
 }
 
-export async function createProduct(
-  product: Omit<Product, 'created_at' | 'updated_at' | 'created_by'>
-): Promise<{
-  data: Product | null;
+/**
+ * Distinct categories assigned to products, sorted
+ */
+export async function getProductCategories(): Promise<{
+  data: string[] | null;
   error: any;
 }> {
   try {
-    if (!product.sku || !product.name) {
-      return { data: null, error: new Error('SKU and name are required') };
-    }
+    const { data, error } = await supabase
+      .from('product')
+      .select('category')
+      .not('category', 'is', null);
 
-    if (typeof product.volume_ml !== 'number' || product.volume_ml <= 0) {
-      return { data: null, error: new Error('Volume (ML) must be a positive number') };
+    if (error) {
+      console.error('Error fetching product categories:', error);
+      return { data: null, error };
     }
 
-    if (typeof product.price !== 'number' || product.price < 0) {
-      return { data: null, error: new Error('Price must be a positive number') };
-    }
+    return { data: getCategoryOptions(data || []), error: null };
+  } catch (error) {
+    console.error('Error in getProductCategories:', error);
+    return { data: null, error };
+  }
+}
 
-    if (typeof product.min_stock_threshold !== 'number' || product.min_stock_threshold < 0) {
-      return { data: null, error: new Error('Min stock threshold must be a positive number') };
+export async function createProduct(
+  product: Omit<Product, 'created_at' | 'updated_at' | 'created_by' | 'archived_at'>
+): Promise<{
+  data: Product | null;
+  error: any;
+}> {
+  try {
+    const validationError = getProductValidationError(product);
+
+    if (validationError) {
+      return { data: null, error: new Error(validationError) };
     }
 
     // Normalize SKU to uppercase, trim all strings
@@ -118,6 +207,8 @@ export async function createProduct(
       name: product.name.trim(),
       volume_ml: product.volume_ml,
       description: product.description?.trim() || null,
+      category: normalizeCategory(product.category),
+      tags: normalizeTags(product.tags || []),
     };
 
     const { data, error } = await supabase
@@ -158,6 +249,10 @@ export async function updateProduct(
       return { data: null, error: new Error('Price must be a positive number') };
     }
 
+    if (updates.cost != null && (typeof updates.cost !== 'number' || isNaN(updates.cost) || updates.cost < 0)) {
+      return { data: null, error: new Error('Cost must be zero or more') };
+    }
+
     if (updates.min_stock_threshold !== undefined &&
         (typeof updates.min_stock_threshold !== 'number' || updates.min_stock_threshold < 0)) {
       return { data: null, error: new Error('Min stock threshold must be a positive number') };
@@ -172,14 +267,25 @@ export async function updateProduct(
       sanitizedUpdates.name = updates.name.trim();
     }
 
-    if (updates.sku !== undefined) {
-      sanitizedUpdates.sku = updates.sku.trim().toUpperCase();
+    // Changing the primary key here would skip the alias and audit entry
+    if (updates.sku !== undefined && updates.sku.trim().toUpperCase() !== sku.trim().toUpperCase()) {
+      return { data: null, error: new Error('Use renameProductSku to change a SKU') };
     }
 
+    delete sanitizedUpdates.sku;
+
     if (updates.description !== undefined) {
       sanitizedUpdates.description = updates.description?.trim() || null;
     }
 
+    if (updates.category !== undefined) {
+      sanitizedUpdates.category = normalizeCategory(updates.category);
+    }
+
+    if (updates.tags !== undefined) {
+      sanitizedUpdates.tags = normalizeTags(updates.tags);
+    }
+
     const sanitizedSku = sku.trim().toUpperCase();
 
     const { data, error } = await supabase
@@ -201,6 +307,131 @@ export async function updateProduct(
   }
 }
 
+/**
+ * Creates and updates products from an import in a single upsert, so either
+ * every row is saved or none are. Only the imported columns are written;
+ * everything else on an existing product is left alone.
+ */
+export async function importProducts(products: ImportProductValues[]): Promise<{
+  data: number;
+  error: any;
+}> {
+  try {
+    if (products.length === 0) {
+      return { data: 0, error: null };
+    }
+
+    for (const product of products) {
+      const validationError = getProductValidationError({ ...product, cost: null });
+      if (validationError) {
+        return { data: 0, error: new Error(`${product.sku || 'Row'}: ${validationError}`) };
+      }
+    }
+
+    const sanitizedProducts = products.map(product => ({
+      sku: product.sku.trim().toUpperCase(),
+      name: product.name.trim(),
+      volume_ml: product.volume_ml,
+      price: product.price,
+      min_stock_threshold: product.min_stock_threshold,
+      description: product.description?.trim() || null,
+    }));
+
+    const { error } = await supabase
+      .from('product')
+      .upsert(sanitizedProducts, { onConflict: 'sku' });
+
+    if (error) {
+      console.error('Error importing products:', error);
+      return { data: 0, error };
+    }
+
+    return { data: sanitizedProducts.length, error: null };
+  } catch (error) {
+    console.error('Error in importProducts:', error);
+    return { data: 0, error };
+  }
+}
+
+/**
+ * Number of transaction lines (any type or status) that use the product
+ */
+export async function getProductTransactionCount(sku: string): Promise<{
+  data: number | null;
+  error: any;
+}> {
+  try {
+    if (!sku || typeof sku !== 'string' || sku.trim().length === 0) {
+      return { data: null, error: new Error('Invalid SKU') };
+    }
+
+    const { count, error } = await supabase
+      .from('transaction_item')
+      .select('id', { count: 'exact', head: true })
+      .eq('sku', sku.trim().toUpperCase());
+
+    if (error) {
+      console.error('Error counting product transactions:', error);
+      return { data: null, error };
+    }
+
+    return { data: count ?? 0, error: null };
+  } catch (error) {
+    console.error('Error in getProductTransactionCount:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Hides a product from pickers, search and the dashboard and blocks new sales
+ * and deliveries of it. Its history is kept.
+ */
+export async function archiveProduct(sku: string): Promise<{
+  data: Product | null;
+  error: any;
+}> {
+  return setProductArchived(sku, true);
+}
+
+export async function restoreProduct(sku: string): Promise<{
+  data: Product | null;
+  error: any;
+}> {
+  return setProductArchived(sku, false);
+}
+
+async function setProductArchived(sku: string, archived: boolean): Promise<{
+  data: Product | null;
+  error: any;
+}> {
+  try {
+    if (!sku || typeof sku !== 'string' || sku.trim().length === 0) {
+      return { data: null, error: new Error('Invalid SKU') };
+    }
+
+    const { data, error } = await supabase
+      .from('product')
+      .update({ archived_at: archived ? new Date().toISOString() : null })
+      .eq('sku', sku.trim().toUpperCase())
+      .select()
+      .single();
+
+    if (error) {
+      console.error(`Error ${archived ? 'archiving' : 'restoring'} product:`, error);
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    console.error('Error in setProductArchived:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Permanently deletes a product that has never been in a transaction.
+ * Products with history must be archived instead.
+ */
 export async function deleteProduct(sku: string): Promise<{
   data: boolean;
   error: any;
@@ -212,6 +443,22 @@ export async function deleteProduct(sku: string): Promise<{
 
     const sanitizedSku = sku.trim().toUpperCase();
 
+    const { data: transactionCount, error: countError } = await getProductTransactionCount(sanitizedSku);
+
+    if (countError) {
+      return { data: false, error: countError };
+    }
+
+    if (transactionCount) {
+      return { data: false, error: new Error('This product has transactions and can only be archived') };
+    }
+
+    // Image records go with the product (ON DELETE CASCADE); their files don't
+    const { data: images } = await supabase
+      .from('product_image')
+      .select('storage_path')
+      .eq('sku', sanitizedSku);
+
     const { error } = await supabase.from('product').delete().eq('sku', sanitizedSku);
 
     if (error) {
@@ -219,6 +466,8 @@ export async function deleteProduct(sku: string): Promise<{
       return { data: false, error };
     }
 
+    await removeProductImageFiles((images || []).map((image) => image.storage_path));
+
     return { data: true, error: null };
   } catch (error) {
     console.error('Error in deleteProduct:', error);
@@ -226,3 +475,269 @@ export async function deleteProduct(sku: string): Promise<{
   }
 }
 
+
+/**
+ * Changes a product's SKU. Transactions, suppliers, prices and photos follow,
+ * and the old SKU stays scannable as an alias. Owners only.
+ */
+export async function renameProductSku(
+  sku: string,
+  newSku: string
+): Promise<{
+  data: Product | null;
+  error: any;
+}> {
+  try {
+    if (!sku || typeof sku !== 'string' || sku.trim().length === 0) {
+      return { data: null, error: new Error('Invalid SKU') };
+    }
+
+    if (!newSku || typeof newSku !== 'string' || newSku.trim().length === 0) {
+      return { data: null, error: new Error('New SKU is required') };
+    }
+
+    const { data, error } = await supabase.rpc('rename_product_sku', {
+      p_old_sku: sku.trim().toUpperCase(),
+      p_new_sku: newSku.trim().toUpperCase(),
+    });
+
+    if (error) {
+      console.error('Error renaming product SKU:', error);
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    console.error('Error in renameProductSku:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Folds a duplicate product of the same size into `targetSku`: stock, history,
+ * suppliers and photos move over and the duplicate's SKU becomes an alias.
+ * Owners only.
+ */
+export async function mergeProducts(
+  sourceSku: string,
+  targetSku: string
+): Promise<{
+  data: Product | null;
+  error: any;
+}> {
+  try {
+    if (!sourceSku || typeof sourceSku !== 'string' || sourceSku.trim().length === 0) {
+      return { data: null, error: new Error('Invalid SKU') };
+    }
+
+    if (!targetSku || typeof targetSku !== 'string' || targetSku.trim().length === 0) {
+      return { data: null, error: new Error('Choose a product to merge into') };
+    }
+
+    const { data, error } = await supabase.rpc('merge_products', {
+      p_source_sku: sourceSku.trim().toUpperCase(),
+      p_target_sku: targetSku.trim().toUpperCase(),
+    });
+
+    if (error) {
+      console.error('Error merging products:', error);
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    console.error('Error in mergeProducts:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Renames and merges that led to a product, newest first. Pass its aliases to
+ * include changes made under earlier SKUs.
+ */
+export async function getProductSkuChanges(
+  sku: string,
+  aliases: string[] = []
+): Promise<{
+  data: SkuChangeEntry[] | null;
+  error: any;
+}> {
+  try {
+    if (!sku || typeof sku !== 'string' || sku.trim().length === 0) {
+      return { data: null, error: new Error('Invalid SKU') };
+    }
+
+    const { data, error } = await supabase
+      .from('product_sku_change')
+      .select('*, user(full_name)')
+      .in('to_sku', [sku.trim().toUpperCase(), ...aliases])
+      .order('changed_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching SKU changes:', error);
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    console.error('Error in getProductSkuChanges:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Price changes for a product, newest first, with who made each one
+ */
+export async function getPriceHistory(sku: string): Promise<{
+  data: PriceHistoryEntry[] | null;
+  error: any;
+}> {
+  try {
+    if (!sku || typeof sku !== 'string' || sku.trim().length === 0) {
+      return { data: null, error: new Error('Invalid SKU') };
+    }
+
+    const { data, error } = await supabase
+      .from('product_price_history')
+      .select('*, user(full_name)')
+      .eq('sku', sku.trim().toUpperCase())
+      .order('changed_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching price history:', error);
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    console.error('Error in getPriceHistory:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * List prices in effect at a past time, keyed by SKU, so a backdated cart is
+ * priced the way post_inventory_transaction will price it
+ */
+export async function getPricesAt(skus: string[], at: Date): Promise<{
+  data: Record<string, number> | null;
+  error: any;
+}> {
+  try {
+    if (skus.length === 0) {
+      return { data: {}, error: null };
+    }
+
+    const { data, error } = await supabase.rpc('product_prices_at', {
+      p_skus: skus,
+      p_timestamp: at.toISOString(),
+    });
+
+    if (error) {
+      console.error('Error fetching prices at time:', error);
+      return { data: null, error };
+    }
+
+    const prices: Record<string, number> = {};
+    (data as { sku: string; price: number }[]).forEach((row) => {
+      prices[row.sku] = Number(row.price);
+    });
+    return { data: prices, error: null };
+  } catch (error) {
+    console.error('Error in getPricesAt:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Pending scheduled price changes for a product, soonest first
+ */
+export async function getScheduledPriceChanges(sku: string): Promise<{
+  data: ScheduledPriceChange[] | null;
+  error: any;
+}> {
+  try {
+    if (!sku || typeof sku !== 'string' || sku.trim().length === 0) {
+      return { data: null, error: new Error('Invalid SKU') };
+    }
+
+    const { data, error } = await supabase
+      .from('scheduled_price_change')
+      .select('*')
+      .eq('sku', sku.trim().toUpperCase())
+      .is('applied_at', null)
+      .is('cancelled_at', null)
+      .order('effective_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching scheduled price changes:', error);
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    console.error('Error in getScheduledPriceChanges:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Schedules a product's price to change at `effectiveAt`, which must be in the future
+ */
+export async function schedulePriceChange(
+  sku: string,
+  newPrice: number,
+  effectiveAt: Date
+): Promise<{
+  data: ScheduledPriceChange | null;
+  error: any;
+}> {
+  try {
+    if (!sku || typeof sku !== 'string' || sku.trim().length === 0) {
+      return { data: null, error: new Error('Invalid SKU') };
+    }
+
+    if (typeof newPrice !== 'number' || isNaN(newPrice) || newPrice < 0) {
+      return { data: null, error: new Error('Price must be a positive number') };
+    }
+
+    if (effectiveAt.getTime() <= Date.now()) {
+      return { data: null, error: new Error('Scheduled price changes must take effect in the future') };
+    }
+
+    const { data, error } = await supabase.rpc('schedule_price_change', {
+      p_sku: sku.trim().toUpperCase(),
+      p_new_price: newPrice,
+      p_effective_at: effectiveAt.toISOString(),
+    });
+
+    if (error) {
+      console.error('Error scheduling price change:', error);
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    console.error('Error in schedulePriceChange:', error);
+    return { data: null, error };
+  }
+}
+
+export async function cancelPriceChange(changeId: number): Promise<{
+  data: boolean;
+  error: any;
+}> {
+  try {
+    const { error } = await supabase.rpc('cancel_price_change', { p_change_id: changeId });
+
+    if (error) {
+      console.error('Error cancelling price change:', error);
+      return { data: false, error };
+    }
+
+    return { data: true, error: null };
+  } catch (error) {
+    console.error('Error in cancelPriceChange:', error);
+    return { data: false, error };
+  }
+}
@@ -0,0 +1,256 @@
+import { TransactionWithItems } from '@/lib/api/transactions';
+import { ensureUserRecord } from '@/lib/api/users';
+import { supabase } from '@/lib/supabase';
+import {
+  CreatePurchaseOrderInput,
+  PurchaseOrderLine,
+  PurchaseOrderStatus,
+  ReceivePurchaseOrderInput,
+} from '@/lib/types';
+
+export interface PurchaseOrder extends TransactionWithItems {
+  lines: PurchaseOrderLine[];
+  order_status: PurchaseOrderStatus;
+}
+
+function getOrderStatus(order: TransactionWithItems, lines: PurchaseOrderLine[]): PurchaseOrderStatus {
+  if (order.closed_at) {
+    return 'closed';
+  }
+  return lines.some((line) => line.received_quantity > 0) ? 'partial' : 'open';
+}
+
+/**
+ * Attaches ordered vs received quantities (purchase_order_line view) to PO headers
+ */
+async function withLines(
+  orders: TransactionWithItems[]
+): Promise<{
+  data: PurchaseOrder[] | null;
+  error: any;
+}> {
+  if (orders.length === 0) {
+    return { data: [], error: null };
+  }
+
+  const { data: lines, error } = await supabase
+    .from('purchase_order_line')
+    .select('*')
+    .in('purchase_order_id', orders.map((order) => order.id))
+    .order('ordered_item_id', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching purchase order lines:', error);
+    return { data: null, error };
+  }
+
+  return {
+    data: orders.map((order) => {
+      const orderLines = (lines || []).filter((line: PurchaseOrderLine) => line.purchase_order_id === order.id);
+      return { ...order, lines: orderLines, order_status: getOrderStatus(order, orderLines) };
+    }),
+    error: null,
+  };
+}
+
+export async function getPurchaseOrders(
+  status?: PurchaseOrderStatus
+): Promise<{
+  data: PurchaseOrder[] | null;
+  error: any;
+}> {
+  try {
+    const { data, error } = await supabase
+      .from('inventory_transaction')
+      .select('*, transaction_item(*), supplier(id, name)')
+      .eq('transaction_type', 'Delivery')
+      .eq('status', 'pending')
+      .order('timestamp', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching purchase orders:', error);
+      return { data: null, error };
+    }
+
+    const result = await withLines(data || []);
+    if (result.error || !result.data) {
+      return result;
+    }
+
+    return {
+      data: status ? result.data.filter((order) => order.order_status === status) : result.data,
+      error: null,
+    };
+  } catch (error) {
+    console.error('Error in getPurchaseOrders:', error);
+    return { data: null, error };
+  }
+}
+
+export async function getPurchaseOrderById(
+  id: number
+): Promise<{
+  data: PurchaseOrder | null;
+  error: any;
+}> {
+  try {
+    if (!id || typeof id !== 'number' || id <= 0 || !Number.isInteger(id)) {
+      return { data: null, error: new Error('Invalid purchase order ID') };
+    }
+
+    const { data, error } = await supabase
+      .from('inventory_transaction')
+      .select('*, transaction_item(*), supplier(id, name)')
+      .eq('id', id)
+      .eq('transaction_type', 'Delivery')
+      .eq('status', 'pending')
+      .single();
+
+    if (error) {
+      console.error('Error fetching purchase order by ID:', error);
+      return { data: null, error };
+    }
+
+    const result = await withLines([data]);
+    return { data: result.data?.[0] ?? null, error: result.error };
+  } catch (error) {
+    console.error('Error in getPurchaseOrderById:', error);
+    return { data: null, error };
+  }
+}
+
+export async function createPurchaseOrder(
+  input: CreatePurchaseOrderInput & { userId: string }
+): Promise<{
+  data: TransactionWithItems | null;
+  error: any;
+}> {
+  try {
+    if (!input.userId || typeof input.userId !== 'string') {
+      return { data: null, error: new Error('Valid user ID is required') };
+    }
+
+    if (!input.supplier_id || !Number.isInteger(input.supplier_id)) {
+      return { data: null, error: new Error('Supplier is required') };
+    }
+
+    if (!input.items || !Array.isArray(input.items) || input.items.length === 0) {
+      return { data: null, error: new Error('At least one item is required') };
+    }
+
+    for (const item of input.items) {
+      if (!item.sku || typeof item.sku !== 'string' || item.sku.trim().length === 0) {
+        return { data: null, error: new Error('Valid SKU is required for all items') };
+      }
+
+      if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+        return { data: null, error: new Error('Ordered quantities must be positive whole numbers') };
+      }
+    }
+
+    await ensureUserRecord(input.userId);
+
+    const { data, error } = await supabase.rpc('create_purchase_order', {
+      p_supplier_id: input.supplier_id,
+      p_items: input.items.map((item) => ({
+        sku: item.sku.trim().toUpperCase(),
+        quantity: item.quantity,
+      })),
+      p_expected_date: input.expected_date || null,
+      p_reference: input.reference?.trim() || null,
+      p_notes: input.notes?.trim() || null,
+    });
+
+    if (error || !data) {
+      console.error('Error creating purchase order:', error);
+      return { data: null, error: error || new Error('Failed to create purchase order') };
+    }
+
+    return { data: data as TransactionWithItems, error: null };
+  } catch (error) {
+    console.error('Error in createPurchaseOrder:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Posts a completed Delivery for the units that arrived.
+ * Lines not received stay open on the PO unless input.close is set.
+ */
+export async function receivePurchaseOrder(
+  input: ReceivePurchaseOrderInput & { userId: string }
+): Promise<{
+  data: TransactionWithItems | null;
+  error: any;
+}> {
+  try {
+    if (!input.userId || typeof input.userId !== 'string') {
+      return { data: null, error: new Error('Valid user ID is required') };
+    }
+
+    if (!input.purchase_order_id || !Number.isInteger(input.purchase_order_id)) {
+      return { data: null, error: new Error('Purchase order is required') };
+    }
+
+    const items = (input.items || []).filter((item) => item.quantity !== 0);
+    if (items.length === 0) {
+      return { data: null, error: new Error('Enter at least one received quantity') };
+    }
+
+    for (const item of items) {
+      if (!Number.isInteger(item.quantity) || item.quantity < 0) {
+        return { data: null, error: new Error('Received quantities must be positive whole numbers') };
+      }
+    }
+
+    await ensureUserRecord(input.userId);
+
+    const { data, error } = await supabase.rpc('receive_purchase_order', {
+      p_purchase_order_id: input.purchase_order_id,
+      p_items: items.map((item) => ({
+        ordered_item_id: item.ordered_item_id,
+        quantity: item.quantity,
+      })),
+      p_reference: input.reference?.trim() || null,
+      p_notes: input.notes?.trim() || null,
+      p_close: !!input.close,
+    });
+
+    if (error || !data) {
+      console.error('Error receiving purchase order:', error);
+      return { data: null, error: error || new Error('Failed to receive purchase order') };
+    }
+
+    return { data: data as TransactionWithItems, error: null };
+  } catch (error) {
+    console.error('Error in receivePurchaseOrder:', error);
+    return { data: null, error };
+  }
+}
+
+export async function closePurchaseOrder(
+  id: number
+): Promise<{
+  data: boolean;
+  error: any;
+}> {
+  try {
+    if (!id || typeof id !== 'number' || id <= 0 || !Number.isInteger(id)) {
+      return { data: false, error: new Error('Invalid purchase order ID') };
+    }
+
+    const { error } = await supabase.rpc('close_purchase_order', {
+      p_purchase_order_id: id,
+    });
+
+    if (error) {
+      console.error('Error closing purchase order:', error);
+      return { data: false, error };
+    }
+
+    return { data: true, error: null };
+  } catch (error) {
+    console.error('Error in closePurchaseOrder:', error);
+    return { data: false, error };
+  }
+}
@@ -0,0 +1,79 @@
+import { supabase } from '@/lib/supabase';
+import { ShopSettings } from '@/lib/types';
+
+export type ShopSettingsInput = Omit<ShopSettings, 'id' | 'updated_at' | 'updated_by'>;
+
+export async function getShopSettings(): Promise<{
+  data: ShopSettings | null;
+  error: any;
+}> {
+  try {
+    const { data, error } = await supabase
+      .from('shop_settings')
+      .select('*')
+      .eq('id', 1)
+      .single();
+
+    if (error) {
+      console.error('Error fetching shop settings:', error);
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    console.error('Error in getShopSettings:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Owners only; RLS rejects updates from staff
+ */
+export async function updateShopSettings(
+  updates: Partial<ShopSettingsInput>,
+  userId: string
+): Promise<{
+  data: ShopSettings | null;
+  error: any;
+}> {
+  try {
+    if (updates.vat_rate !== undefined) {
+      if (typeof updates.vat_rate !== 'number' || isNaN(updates.vat_rate) || updates.vat_rate < 0 || updates.vat_rate > 100) {
+        return { data: null, error: new Error('VAT rate must be between 0 and 100') };
+      }
+    }
+
+    if (updates.staff_backdate_days !== undefined) {
+      if (!Number.isInteger(updates.staff_backdate_days) || updates.staff_backdate_days < 0 || updates.staff_backdate_days > 365) {
+        return { data: null, error: new Error('Staff backdating must be between 0 and 365 days') };
+      }
+    }
+
+    if (updates.staff_discount_limit !== undefined) {
+      if (!Number.isInteger(updates.staff_discount_limit) || updates.staff_discount_limit < 0 || updates.staff_discount_limit > 100) {
+        return { data: null, error: new Error('Staff discount limit must be between 0 and 100 percent') };
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('shop_settings')
+      .update({ ...updates, updated_by: userId })
+      .eq('id', 1)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating shop settings:', error);
+      // No row comes back when RLS filters out the update
+      if (error.code === 'PGRST116') {
+        return { data: null, error: new Error('Only owners can change shop settings') };
+      }
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    console.error('Error in updateShopSettings:', error);
+    return { data: null, error };
+  }
+}
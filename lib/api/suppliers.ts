@@ -0,0 +1,231 @@
+import { supabase } from '@/lib/supabase';
+import { ProductSupplier, Supplier } from '@/lib/types';
+
+export type SupplierInput = Omit<Supplier, 'id' | 'created_at' | 'updated_at'>;
+
+function sanitizeSupplier(supplier: Partial<SupplierInput>): Partial<SupplierInput> {
+  const sanitized: Partial<SupplierInput> = { ...supplier };
+
+  if (supplier.name !== undefined) {
+    sanitized.name = supplier.name.trim();
+  }
+
+  (['contact_person', 'phone', 'email', 'payment_terms', 'notes'] as const).forEach((field) => {
+    if (supplier[field] !== undefined) {
+      sanitized[field] = supplier[field]?.trim() || null;
+    }
+  });
+
+  return sanitized;
+}
+
+export async function getSuppliers(): Promise<{
+  data: Supplier[] | null;
+  error: any;
+}> {
+  try {
+    const { data, error } = await supabase
+      .from('supplier')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching suppliers:', error);
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    console.error('Error in getSuppliers:', error);
+    return { data: null, error };
+  }
+}
+
+export async function createSupplier(
+  supplier: SupplierInput
+): Promise<{
+  data: Supplier | null;
+  error: any;
+}> {
+  try {
+    if (!supplier.name || supplier.name.trim().length === 0) {
+      return { data: null, error: new Error('Supplier name is required') };
+    }
+
+    const { data, error } = await supabase
+      .from('supplier')
+      .insert(sanitizeSupplier(supplier))
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating supplier:', error);
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    console.error('Error in createSupplier:', error);
+    return { data: null, error };
+  }
+}
+
+export async function updateSupplier(
+  id: number,
+  updates: Partial<SupplierInput>
+): Promise<{
+  data: Supplier | null;
+  error: any;
+}> {
+  try {
+    if (!id || !Number.isInteger(id) || id <= 0) {
+      return { data: null, error: new Error('Invalid supplier ID') };
+    }
+
+    if (updates.name !== undefined && updates.name.trim().length === 0) {
+      return { data: null, error: new Error('Supplier name is required') };
+    }
+
+    const { data, error } = await supabase
+      .from('supplier')
+      .update(sanitizeSupplier(updates))
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating supplier:', error);
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    console.error('Error in updateSupplier:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Fails while deliveries or purchase orders still reference the supplier
+ */
+export async function deleteSupplier(id: number): Promise<{
+  data: boolean;
+  error: any;
+}> {
+  try {
+    if (!id || !Number.isInteger(id) || id <= 0) {
+      return { data: false, error: new Error('Invalid supplier ID') };
+    }
+
+    const { error } = await supabase.from('supplier').delete().eq('id', id);
+
+    if (error) {
+      console.error('Error deleting supplier:', error);
+      // 23503 = foreign key violation
+      if (error.code === '23503') {
+        return { data: false, error: new Error('This supplier has deliveries on record and cannot be deleted') };
+      }
+      return { data: false, error };
+    }
+
+    return { data: true, error: null };
+  } catch (error) {
+    console.error('Error in deleteSupplier:', error);
+    return { data: false, error };
+  }
+}
+
+export async function getProductSuppliers(
+  sku: string
+): Promise<{
+  data: ProductSupplier[] | null;
+  error: any;
+}> {
+  try {
+    if (!sku || typeof sku !== 'string' || sku.trim().length === 0) {
+      return { data: null, error: new Error('Invalid SKU') };
+    }
+
+    const { data, error } = await supabase
+      .from('product_supplier')
+      .select('*')
+      .eq('product_sku', sku.trim().toUpperCase());
+
+    if (error) {
+      console.error('Error fetching product suppliers:', error);
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    console.error('Error in getProductSuppliers:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Adds or updates a supplier's SKU and cost for a product
+ */
+export async function saveProductSupplier(
+  mapping: Omit<ProductSupplier, 'created_at'>
+): Promise<{
+  data: ProductSupplier | null;
+  error: any;
+}> {
+  try {
+    if (!mapping.product_sku || !mapping.supplier_id) {
+      return { data: null, error: new Error('Product and supplier are required') };
+    }
+
+    if (mapping.unit_cost !== null && (typeof mapping.unit_cost !== 'number' || mapping.unit_cost < 0)) {
+      return { data: null, error: new Error('Unit cost must be a positive number') };
+    }
+
+    const { data, error } = await supabase
+      .from('product_supplier')
+      .upsert({
+        product_sku: mapping.product_sku.trim().toUpperCase(),
+        supplier_id: mapping.supplier_id,
+        supplier_sku: mapping.supplier_sku?.trim() || null,
+        unit_cost: mapping.unit_cost,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving product supplier:', error);
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    console.error('Error in saveProductSupplier:', error);
+    return { data: null, error };
+  }
+}
+
+export async function removeProductSupplier(
+  sku: string,
+  supplierId: number
+): Promise<{
+  data: boolean;
+  error: any;
+}> {
+  try {
+    const { error } = await supabase
+      .from('product_supplier')
+      .delete()
+      .eq('product_sku', sku.trim().toUpperCase())
+      .eq('supplier_id', supplierId);
+
+    if (error) {
+      console.error('Error removing product supplier:', error);
+      return { data: false, error };
+    }
+
+    return { data: true, error: null };
+  } catch (error) {
+    console.error('Error in removeProductSupplier:', error);
+    return { data: false, error };
+  }
+}
@@ -1,13 +1,22 @@
-import { createUserRecord, userRecordExists } from '@/lib/api/users';
+import { ensureUserRecord } from '@/lib/api/users';
 import { supabase } from '@/lib/supabase';
 import {
+  CreateReturnInput,
   CreateTransactionInput,
+  Customer,
+  Supplier,
   Transaction,
   TransactionItem,
+  TransactionPayment,
+  TransactionType,
+  ValuationMethod,
 } from '@/lib/types';
 
 export interface TransactionWithItems extends Transaction {
   transaction_item: TransactionItem[];
+  transaction_payment?: TransactionPayment[];
+  supplier?: Pick<Supplier, 'id' | 'name'> | null;
+  customer?: Pick<Customer, 'id' | 'name'> | null;
 }
 
 export async function createTransaction(
@@ -25,8 +34,16 @@ export async function createTransaction(
       return { data: null, error: new Error('At least one transaction item is required') };
     }
 
-    if (!['Delivery', 'Sale'].includes(input.transaction_type)) {
-      return { data: null, error: new Error('Invalid transaction type. Must be "Delivery" or "Sale"') };
+    if (!['Delivery', 'Sale', 'Adjustment'].includes(input.transaction_type)) {
+      return { data: null, error: new Error('Invalid transaction type. Must be "Delivery", "Sale" or "Adjustment"') };
+    }
+
+    if (input.transaction_type === 'Adjustment' && !input.adjustment_reason) {
+      return { data: null, error: new Error('A reason is required for stock adjustments') };
+    }
+
+    if (input.stock_override_note !== undefined && input.stock_override_note !== null && !input.stock_override_note.trim()) {
+      return { data: null, error: new Error('A note is required to override the stock check') };
     }
 
     // Validate all items before processing
@@ -35,132 +52,277 @@ export async function createTransaction(
         return { data: null, error: new Error('Valid SKU is required for all items') };
       }
 
-      if (typeof item.quantity !== 'number' || item.quantity === 0) {
+      if (typeof item.quantity !== 'number' || !Number.isInteger(item.quantity) || item.quantity === 0) {
         return { data: null, error: new Error('Valid quantity is required for all items') };
       }
+
+      if (item.unit_cost != null) {
+        if (input.transaction_type !== 'Delivery') {
+          return { data: null, error: new Error('Unit cost can only be entered on deliveries') };
+        }
+
+        if (typeof item.unit_cost !== 'number' || isNaN(item.unit_cost) || item.unit_cost < 0) {
+          return { data: null, error: new Error('Unit cost must be zero or more') };
+        }
+      }
     }
 
-    // Ensure user record exists before creating transaction
-    const { data: userExists } = await userRecordExists(input.userId);
-    if (!userExists) {
-      // Try to get user metadata from auth
-      const { data: { user: authUser } } = await supabase.auth.getUser();
-      if (authUser?.user_metadata) {
-        const metadata = authUser.user_metadata;
-        if (metadata?.username && metadata?.full_name) {
-          await createUserRecord(
-            input.userId,
-            metadata.username,
-            metadata.full_name
-          );
-        } else {
-          // Fallback: create with minimal info
-          await createUserRecord(
-            input.userId,
-            authUser.email?.split('@')[0] || 'user',
-            authUser.email || 'User'
-          );
+    // Discounts and price overrides are Sale-only; owner rights are checked by the database
+    const discounts = [input.discount, ...input.items.map((item) => item.discount)].filter(
+      (discount): discount is NonNullable<typeof discount> => !!discount
+    );
+    if (discounts.length > 0) {
+      if (input.transaction_type !== 'Sale') {
+        return { data: null, error: new Error('Discounts can only be given on sales') };
+      }
+
+      for (const discount of discounts) {
+        if (typeof discount.value !== 'number' || isNaN(discount.value) || discount.value < 0) {
+          return { data: null, error: new Error('Discounts must be positive numbers') };
+        }
+
+        if (discount.type === 'percent' && discount.value > 100) {
+          return { data: null, error: new Error('Discount cannot exceed 100%') };
         }
-      } else {
-        // Last resort: create with user ID as username
-        await createUserRecord(
-          input.userId,
-          `user_${input.userId.slice(0, 8)}`,
-          'User'
-        );
       }
+
+      if (!input.discount_reason || !input.discount_reason.trim()) {
+        return { data: null, error: new Error('A reason is required for discounts and price overrides') };
+      }
+    }
+
+    // The database checks that Sale payments add up to the total due
+    const payments = input.payments || [];
+    if (input.transaction_type === 'Sale' && payments.length === 0) {
+      return { data: null, error: new Error('At least one payment is required for sales') };
+    }
+
+    for (const payment of payments) {
+      if (typeof payment.amount !== 'number' || isNaN(payment.amount) || payment.amount <= 0) {
+        return { data: null, error: new Error('Payment amounts must be greater than zero') };
+      }
+
+      if (payment.tendered != null && (payment.method !== 'cash' || payment.tendered < payment.amount)) {
+        return { data: null, error: new Error('Cash tendered cannot be less than the amount paid') };
+      }
+    }
+
+    // Staff backdating limits are enforced by the database
+    if (input.timestamp && input.timestamp.getTime() > Date.now()) {
+      return { data: null, error: new Error('Transactions cannot be dated in the future') };
     }
 
+    // Ensure user record exists before creating transaction
+    await ensureUserRecord(input.userId);
+
     const sanitizedReference = input.reference?.trim() || null;
     const sanitizedNotes = input.notes?.trim() || null;
-    const sanitizedCustomerName = input.customer_name?.trim() || null;
 
-    const { data: transaction, error: transError } = await supabase
-      .from('inventory_transaction')
-      .insert({
-        transaction_type: input.transaction_type,
-        reference: sanitizedReference,
-        performed_by: input.userId,
-        notes: sanitizedNotes,
-        customer_name: sanitizedCustomerName,
-      })
-      .select()
-      .single();
+    // Header and lines are posted in one database transaction by post_inventory_transaction,
+    // which also snapshots unit_price_at_transaction and unit_cost, normalizes Delivery/Sale quantity signs,
+    // applies discounts and rejects Sales beyond available stock unless an owner overrides it
+    const { data, error } = await supabase.rpc('post_inventory_transaction', {
+      p_transaction_type: input.transaction_type,
+      p_items: input.items.map((item) => ({
+        sku: item.sku.trim().toUpperCase(),
+        quantity: item.quantity,
+        discount: item.discount || null,
+        unit_cost: item.unit_cost ?? null,
+      })),
+      p_reference: sanitizedReference,
+      p_notes: sanitizedNotes,
+      p_customer_id: input.transaction_type === 'Sale' ? input.customer_id || null : null,
+      p_adjustment_reason: input.transaction_type === 'Adjustment' ? input.adjustment_reason : null,
+      p_override_stock: !!input.stock_override_note,
+      p_override_note: input.stock_override_note?.trim() || null,
+      p_supplier_id: input.transaction_type === 'Delivery' ? input.supplier_id || null : null,
+      p_discount_type: input.discount?.type || null,
+      p_discount_value: input.discount?.value ?? null,
+      p_discount_reason: discounts.length > 0 ? input.discount_reason!.trim() : null,
+      p_payments: input.transaction_type === 'Sale'
+        ? payments.map((payment) => ({
+            method: payment.method,
+            amount: payment.amount,
+            tendered: payment.method === 'cash' ? payment.tendered ?? null : null,
+            reference: payment.reference?.trim() || null,
+          }))
+        : null,
+      p_timestamp: input.timestamp ? input.timestamp.toISOString() : null,
+    });
+
+    if (error || !data) {
+      console.error('Error posting transaction:', error);
+      return { data: null, error: error || new Error('Failed to post transaction') };
+    }
+
+    return { data: data as TransactionWithItems, error: null };
+  } catch (error) {
+    console.error('Error in createTransaction:', error);
+    return { data: null, error };
+  }
+}
 
-    if (transError || !transaction) {
-      console.error('Error creating transaction:', transError);
-      return { data: null, error: transError };
+/**
+ * True when posting failed because a Sale exceeds available stock.
+ * The message lists each short SKU; owners can retry with a stock_override_note.
+ */
+export function isInsufficientStockError(error: any): boolean {
+  return error?.hint === 'insufficient_stock';
+}
+
+/**
+ * True when a Sale's payments did not match the total the database worked out,
+ * e.g. because a price changed since the products list was loaded.
+ */
+export function isPaymentMismatchError(error: any): boolean {
+  return error?.hint === 'payment_mismatch';
+}
+
+/**
+ * Posts a customer Return against an existing Sale.
+ * Quantities and refund limits are enforced by post_return_transaction.
+ */
+export async function createReturn(
+  input: CreateReturnInput & { userId: string }
+): Promise<{
+  data: TransactionWithItems | null;
+  error: any;
+}> {
+  try {
+    if (!input.userId || typeof input.userId !== 'string') {
+      return { data: null, error: new Error('Valid user ID is required') };
     }
 
-    const transactionItems: TransactionItem[] = [];
+    if (!input.original_transaction_id || !Number.isInteger(input.original_transaction_id)) {
+      return { data: null, error: new Error('Original sale is required') };
+    }
 
-    for (const item of input.items) {
-      const sanitizedSku = item.sku.trim().toUpperCase();
-
-      // Fetch current product price for historical accuracy
-      const { data: product, error: productError } = await supabase
-        .from('product')
-        .select('price')
-        .eq('sku', sanitizedSku)
-        .single();
-
-      if (productError || !product) {
-        console.error(`Error fetching product ${sanitizedSku}:`, productError);
-        // Rollback: delete the transaction if product lookup fails
-        await supabase
-          .from('inventory_transaction')
-          .delete()
-          .eq('id', transaction.id);
-        return { data: null, error: productError || new Error(`Product not found: ${sanitizedSku}`) };
-      }
+    const items = (input.items || []).filter((item) => item.quantity !== 0);
+    if (items.length === 0) {
+      return { data: null, error: new Error('Select at least one item to return') };
+    }
 
-      // Normalize quantity: Sale becomes negative, Delivery positive
-      let quantity = item.quantity;
-      if (input.transaction_type === 'Sale') {
-        quantity = -Math.abs(item.quantity);
-      } else if (input.transaction_type === 'Delivery') {
-        quantity = Math.abs(item.quantity);
+    for (const item of items) {
+      if (!Number.isInteger(item.quantity) || item.quantity < 0) {
+        return { data: null, error: new Error('Returned quantities must be positive whole numbers') };
       }
+    }
 
-      const totalAmount = quantity * product.price;
-      const { data: transactionItem, error: itemError } = await supabase
-        .from('transaction_item')
-        .insert({
-          transaction_id: transaction.id,
-          sku: sanitizedSku,
-          quantity: quantity,
-          unit_price_at_transaction: product.price,
-          total_amount: totalAmount,
-        })
-        .select()
-        .single();
-
-      if (itemError || !transactionItem) {
-        console.error('Error creating transaction item:', itemError);
-        // Rollback: clean up items and transaction
-        await supabase
-          .from('transaction_item')
-          .delete()
-          .eq('transaction_id', transaction.id);
-        await supabase
-          .from('inventory_transaction')
-          .delete()
-          .eq('id', transaction.id);
-        return { data: null, error: itemError };
-      }
+    if (input.refund_amount !== undefined && input.refund_amount !== null &&
+        (typeof input.refund_amount !== 'number' || input.refund_amount < 0)) {
+      return { data: null, error: new Error('Refund amount must be a positive number') };
+    }
 
-      transactionItems.push(transactionItem);
+    await ensureUserRecord(input.userId);
+
+    const { data, error } = await supabase.rpc('post_return_transaction', {
+      p_original_transaction_id: input.original_transaction_id,
+      p_items: items.map((item) => ({
+        original_item_id: item.original_item_id,
+        quantity: item.quantity,
+      })),
+      p_refund_amount: input.refund_amount ?? null,
+      p_reference: input.reference?.trim() || null,
+      p_notes: input.notes?.trim() || null,
+    });
+
+    if (error || !data) {
+      console.error('Error posting return:', error);
+      return { data: null, error: error || new Error('Failed to post return') };
     }
 
-    return {
-      data: {
-        ...transaction,
-        transaction_item: transactionItems,
-      },
-      error: null,
-    };
+    return { data: data as TransactionWithItems, error: null };
   } catch (error) {
-    console.error('Error in createTransaction:', error);
+    console.error('Error in createReturn:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Voids a completed transaction so it no longer counts toward stock or the ledger.
+ * The database records who cancelled it, when and why. Cancelling a transaction
+ * that added stock fails with an insufficient stock error if those units are
+ * already gone; owners can retry with a stockOverrideNote.
+ */
+export async function cancelTransaction(
+  id: number,
+  reason: string,
+  stockOverrideNote?: string | null
+): Promise<{
+  data: TransactionWithItems | null;
+  error: any;
+}> {
+  try {
+    if (!id || typeof id !== 'number' || id <= 0 || !Number.isInteger(id)) {
+      return { data: null, error: new Error('Invalid transaction ID') };
+    }
+
+    const sanitizedReason = reason?.trim();
+    if (!sanitizedReason) {
+      return { data: null, error: new Error('A reason is required to cancel a transaction') };
+    }
+
+    if (stockOverrideNote !== undefined && stockOverrideNote !== null && !stockOverrideNote.trim()) {
+      return { data: null, error: new Error('A note is required to override the stock check') };
+    }
+
+    const { data, error } = await supabase.rpc('cancel_inventory_transaction', {
+      p_transaction_id: id,
+      p_reason: sanitizedReason,
+      p_override_stock: !!stockOverrideNote,
+      p_override_note: stockOverrideNote?.trim() || null,
+    });
+
+    if (error || !data) {
+      console.error('Error cancelling transaction:', error);
+      return { data: null, error: error || new Error('Failed to cancel transaction') };
+    }
+
+    return { data: data as TransactionWithItems, error: null };
+  } catch (error) {
+    console.error('Error in cancelTransaction:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Units already returned per Sale line, keyed by the Sale's transaction_item id
+ */
+export async function getReturnedQuantities(
+  saleId: number
+): Promise<{
+  data: Record<number, number> | null;
+  error: any;
+}> {
+  try {
+    if (!saleId || !Number.isInteger(saleId) || saleId <= 0) {
+      return { data: null, error: new Error('Invalid transaction ID') };
+    }
+
+    const { data, error } = await supabase
+      .from('inventory_transaction')
+      .select('id, transaction_item(original_item_id, quantity)')
+      .eq('transaction_type', 'Return')
+      .eq('original_transaction_id', saleId)
+      .eq('status', 'completed');
+
+    if (error) {
+      console.error('Error fetching returned quantities:', error);
+      return { data: null, error };
+    }
+
+    const returned: Record<number, number> = {};
+    (data || []).forEach((ret: any) => {
+      (ret.transaction_item || []).forEach((item: { original_item_id: number | null; quantity: number }) => {
+        if (item.original_item_id) {
+          returned[item.original_item_id] = (returned[item.original_item_id] || 0) + item.quantity;
+        }
+      });
+    });
+
+    return { data: returned, error: null };
+  } catch (error) {
+    console.error('Error in getReturnedQuantities:', error);
     return { data: null, error };
   }
 }
@@ -179,7 +341,8 @@ export async function getTransactions(
 
     const { data, error } = await supabase
       .from('inventory_transaction')
-      .select('*, transaction_item(*)')
+      .select('*, transaction_item(*), transaction_payment(*), supplier(id, name), customer(id, name)')
+      .neq('status', 'pending')  // Pending Deliveries are purchase orders, listed on their own screen
       .order('timestamp', { ascending: false })
       .range(validatedOffset, validatedOffset + validatedLimit - 1);
 
@@ -208,7 +371,7 @@ export async function getTransactionById(
 
     const { data, error } = await supabase
       .from('inventory_transaction')
-      .select('*, transaction_item(*)')
+      .select('*, transaction_item(*), transaction_payment(*), supplier(id, name), customer(id, name)')
       .eq('id', id)
       .single();
 
@@ -235,7 +398,8 @@ export async function getRecentTransactions(
 
     const { data, error } = await supabase
       .from('inventory_transaction')
-      .select('*, transaction_item(*)')
+      .select('*, transaction_item(*), transaction_payment(*), supplier(id, name), customer(id, name)')
+      .neq('status', 'pending')  // Pending Deliveries are purchase orders, listed on their own screen
       .order('timestamp', { ascending: false })
       .limit(validatedLimit);
 
@@ -257,7 +421,8 @@ export async function getRecentTransactions(
 export async function getTransactionsByDateRange(
   startDate: Date,
   endDate: Date,
-  transactionType?: 'Delivery' | 'Sale'
+  transactionType?: TransactionType,
+  supplierId?: number
 ): Promise<{
   data: TransactionWithItems[] | null;
   error: any;
@@ -265,15 +430,20 @@ export async function getTransactionsByDateRange(
   try {
     let query = supabase
       .from('inventory_transaction')
-      .select('*, transaction_item(*)')
+      .select('*, transaction_item(*), transaction_payment(*), supplier(id, name), customer(id, name)')
       .gte('timestamp', startDate.toISOString())
       .lte('timestamp', endDate.toISOString())
+      .neq('status', 'pending')  // Purchase orders are not stock movements
       .order('timestamp', { ascending: false });
 
     if (transactionType) {
       query = query.eq('transaction_type', transactionType);
     }
 
+    if (supplierId) {
+      query = query.eq('supplier_id', supplierId);
+    }
+
     const { data, error } = await query;
 
     if (error) {
@@ -290,11 +460,16 @@ export async function getTransactionsByDateRange(
 
 /**
  * Get inventory ledger data for export
- * Uses the database function get_inventory_ledger
+ * Uses the database function get_inventory_ledger, optionally limited to one supplier's products
+ * and/or one category.
+ * Stock value and COGS are costed by `method` (FIFO or moving weighted average).
  */
 export async function getInventoryLedger(
   startDate: Date,
-  endDate: Date
+  endDate: Date,
+  supplierId?: number,
+  method: ValuationMethod = 'fifo',
+  category?: string
 ): Promise<{
   data: any[] | null;
   error: any;
@@ -304,6 +479,9 @@ export async function getInventoryLedger(
       .rpc('get_inventory_ledger', {
         start_date: startDate.toISOString(),
         end_date: endDate.toISOString(),
+        p_supplier_id: supplierId || null,
+        p_method: method,
+        p_category: category || null,
       });
 
     if (error) {
@@ -318,3 +496,94 @@ export async function getInventoryLedger(
   }
 }
 
+
+// One past period of a paper ledger, as sent to import_ledger_history
+export interface LedgerImportPeriod {
+  startDate: Date;
+  endDate: Date;
+  lines: {
+    sku: string;
+    beginning_inventory: number;
+    deliveries: number;
+    sales: number;
+    ending_inventory: number;
+  }[];
+}
+
+// What the import posts (or would post) for one product in one period
+export interface LedgerImportPlanLine {
+  start_date: string;
+  end_date: string;
+  sku: string;
+  name: string | null;
+  opening_adjustment: number;  // Opening balance adjustment just before the period
+  deliveries_added: number;
+  sales_added: number;
+  closing_adjustment: number;  // Count correction at the end of the period
+  error: string | null;
+}
+
+// Units that can be taken back out after a product's last imported period,
+// when later transactions may already count that stock
+export interface LedgerImportOffset {
+  sku: string;
+  name: string;
+  after: string;  // End of the last imported period for the product
+  quantity: number;
+  recounted: boolean;  // A later count sets the stock, so the offset is always posted
+  applied: boolean;  // Posted (or would be) with this import
+}
+
+export interface LedgerImportResult {
+  dry_run: boolean;
+  lines: LedgerImportPlanLine[];
+  offsets: LedgerImportOffset[];
+  errors: number;
+  transactions: number;  // Transactions created; zero for a dry run
+}
+
+/**
+ * Brings paper ledger periods into the app so get_inventory_ledger reproduces
+ * their Beg Inv, Deliveries, Sales and End Inv (owners only).
+ * With dryRun nothing is posted; the result shows what would be. Offsets for
+ * products without a later count are only posted for SKUs in confirmedOffsets.
+ */
+export async function importLedgerHistory(
+  periods: LedgerImportPeriod[],
+  userId: string,
+  dryRun: boolean,
+  confirmedOffsets: string[] = []
+): Promise<{
+  data: LedgerImportResult | null;
+  error: any;
+}> {
+  try {
+    if (periods.length === 0) {
+      return { data: null, error: new Error('At least one period is required') };
+    }
+
+    if (!dryRun) {
+      await ensureUserRecord(userId);
+    }
+
+    const { data, error } = await supabase.rpc('import_ledger_history', {
+      p_periods: periods.map((period) => ({
+        start_date: period.startDate.toISOString(),
+        end_date: period.endDate.toISOString(),
+        lines: period.lines,
+      })),
+      p_dry_run: dryRun,
+      p_confirmed_offsets: confirmedOffsets,
+    });
+
+    if (error || !data) {
+      console.error('Error importing ledger history:', error);
+      return { data: null, error: error || new Error('Failed to import ledger history') };
+    }
+
+    return { data: data as LedgerImportResult, error: null };
+  } catch (error) {
+    console.error('Error in importLedgerHistory:', error);
+    return { data: null, error };
+  }
+}
@@ -151,3 +151,38 @@ export async function userRecordExists(userId: string): Promise<{
   }
 }
 
+/**
+ * Creates the user record on the fly for accounts that predate it,
+ * since transactions reference "user"(id).
+ */
+export async function ensureUserRecord(userId: string): Promise<void> {
+  const { data: userExists } = await userRecordExists(userId);
+  if (!userExists) {
+    // Try to get user metadata from auth
+    const { data: { user: authUser } } = await supabase.auth.getUser();
+    if (authUser?.user_metadata) {
+      const metadata = authUser.user_metadata;
+      if (metadata?.username && metadata?.full_name) {
+        await createUserRecord(
+          userId,
+          metadata.username,
+          metadata.full_name
+        );
+      } else {
+        // Fallback: create with minimal info
+        await createUserRecord(
+          userId,
+          authUser.email?.split('@')[0] || 'user',
+          authUser.email || 'User'
+        );
+      }
+    } else {
+      // Last resort: create with user ID as username
+      await createUserRecord(
+        userId,
+        `user_${userId.slice(0, 8)}`,
+        'User'
+      );
+    }
+  }
+}
@@ -5,27 +5,128 @@ export interface Product {
   price: number;
   min_stock_threshold: number;
   description: string | null;
+  preferred_supplier_id: number | null;
+  vat_exempt: boolean;
+  cost: number | null;  // Current cost per unit, from the latest delivery; null if unknown
+  fragrance_id: number | null;  // The scent this bottle size belongs to
+  category: string | null;  // e.g. 'Men', 'Women', 'Unisex'
+  tags: string[];  // Free-form, lowercase, e.g. ['summer', 'tester']
+  archived_at: string | null;  // Set while discontinued; history is kept
   created_at: string;
   updated_at: string;
   created_by: string | null;
 }
 
+// One change to a product's price, recorded by a database trigger
+export interface ProductPriceHistory {
+  id: number;
+  sku: string;
+  old_price: number;
+  new_price: number;
+  changed_at: string;
+  changed_by: string | null;
+  scheduled_price_change_id: number | null;  // Set when a scheduled change was applied
+}
+
+// A price that takes effect automatically once effective_at passes
+export interface ScheduledPriceChange {
+  id: number;
+  sku: string;
+  new_price: number;
+  effective_at: string;
+  created_by: string | null;
+  created_at: string;
+  applied_at: string | null;
+  cancelled_at: string | null;
+}
+
 export interface CurrentStock extends Product {
   quantity_on_hand: number;
   total_value: number;
+  // From the product's fragrance
+  fragrance_name: string | null;
+  brand: string | null;
+  concentration: FragranceConcentration | null;
+  gender: FragranceGender | null;
+  image_path: string | null;  // First photo, for thumbnails
+  sku_aliases: string[];  // Former SKUs that still scan as this product
+}
+
+// A SKU rename or product merge, kept for audit
+export interface ProductSkuChange {
+  id: number;
+  change_type: 'rename' | 'merge';
+  from_sku: string;
+  to_sku: string;
+  from_name: string;  // Name of the renamed or merged-away product at the time
+  moved_items: number;  // Transaction lines re-pointed to to_sku
+  moved_quantity: number;  // Units on hand moved by a merge
+  changed_by: string | null;
+  changed_at: string;
+}
+
+// A photo of a product; the file lives in the product-images Storage bucket
+export interface ProductImage {
+  id: number;
+  sku: string;
+  storage_path: string;
+  sort_order: number;
+  created_at: string;
+}
+
+export type FragranceConcentration = 'EDT' | 'EDP' | 'Parfum' | 'Elixir';
+
+export type FragranceGender = 'men' | 'women' | 'unisex';
+
+// How product lists and ledger exports are grouped and subtotalled
+export type ProductGrouping = 'none' | 'fragrance' | 'brand';
+
+// Product columns a CSV/XLSX import can fill
+export type ProductImportField = 'sku' | 'name' | 'volume_ml' | 'price' | 'min_stock_threshold' | 'description';
+
+// A scent sold in one or more bottle sizes; each size is a Product
+export interface Fragrance {
+  id: number;
+  name: string;
+  brand: string | null;
+  concentration: FragranceConcentration | null;
+  gender: FragranceGender | null;
+  notes: string | null;  // Scent notes, e.g. 'Bergamot, pepper, ambroxan'
+  created_at: string;
+  updated_at: string;
 }
 
-export type TransactionType = 'Delivery' | 'Sale';
+export type TransactionType = 'Delivery' | 'Sale' | 'Adjustment' | 'Return';
+
+// Why an Adjustment was posted (required for that type only); opening_balance is posted by the ledger import
+export type AdjustmentReason = 'damaged' | 'lost' | 'tester_opened' | 'count_correction' | 'opening_balance';
 
 export interface Transaction {
   id: number;
-  timestamp: string;
-  transaction_type: TransactionType;  // Only 'Delivery' (stock in) or 'Sale' (stock out)
+  timestamp: string;  // Effective time; may be backdated
+  transaction_type: TransactionType;  // 'Delivery' (stock in), 'Sale' (stock out), 'Adjustment' (signed correction) or 'Return' (customer return)
   reference: string | null;
   performed_by: string;
   status: 'pending' | 'completed' | 'cancelled';
+  created_at: string;  // When it was actually entered
   notes: string | null;
-  customer_name: string | null;  // Optional customer name for sales
+  customer_name: string | null;  // Legacy free-text name; new sales use customer_id
+  customer_id: number | null;  // Sales and their returns
+  adjustment_reason: AdjustmentReason | null;  // Set only for Adjustments
+  original_transaction_id: number | null;  // Returns: the Sale being returned
+  refund_amount: number | null;  // Returns: amount refunded to the customer
+  cancelled_by: string | null;  // Set when status is 'cancelled'
+  cancelled_at: string | null;
+  cancel_reason: string | null;
+  stock_override_note: string | null;  // Owner's note when a Sale was posted, or a stock-adding transaction cancelled, beyond available stock
+  purchase_order_id: number | null;  // Deliveries received against a purchase order
+  supplier_id: number | null;  // Deliveries and purchase orders
+  expected_date: string | null;  // Purchase orders: when the shipment is expected
+  closed_at: string | null;  // Purchase orders: fully received or closed short
+  discount_type: DiscountType | null;  // Sales: whole-transaction discount
+  discount_value: number | null;
+  discount_amount: number;  // Pesos off the sale after line discounts
+  discount_reason: string | null;  // Required whenever a sale has any discount
 }
 
 export interface TransactionItem {
@@ -36,12 +137,143 @@ export interface TransactionItem {
   unit_price_at_transaction: number;
   total_amount: number;
   note: string | null;
+  original_item_id: number | null;  // Return lines: the Sale line being returned
+  ordered_item_id: number | null;  // Received lines: the purchase order line being received
+  discount_type: LineDiscountType | null;
+  discount_value: number | null;
+  discount_amount: number;  // Pesos off total_amount for this line
+  vat_rate: number | null;  // Sale and Return lines; 0 for exempt products, null before VAT was tracked
+  net_amount: number | null;  // Paid before VAT, after discounts
+  tax_amount: number | null;
+  gross_amount: number | null;  // Paid including VAT
+  unit_cost: number | null;  // Paid on Deliveries; cost snapshot (COGS) on Sales, Returns and Adjustments
+}
+
+export type DiscountType = 'amount' | 'percent';
+
+// Lines can also be sold at a manually set unit price
+export type LineDiscountType = DiscountType | 'price';
+
+export interface Discount {
+  type: DiscountType;
+  value: number;  // Pesos, or 0-100 for percent
+}
+
+export interface LineDiscount {
+  type: LineDiscountType;
+  value: number;  // Pesos off the line, 0-100 for percent, or the unit price charged
+}
+
+export type PaymentMethod = 'cash' | 'ewallet' | 'card' | 'bank_transfer' | 'store_credit';
+
+// One tender on a Sale; split payments are several rows
+export interface TransactionPayment {
+  id: number;
+  transaction_id: number;
+  method: PaymentMethod;
+  amount: number;  // Applied to the sale
+  tendered: number | null;  // Cash only: what the customer handed over
+  change_amount: number;
+  reference: string | null;  // e.g. GCash or card approval number
+  created_at: string;
+}
+
+export interface PaymentInput {
+  method: PaymentMethod;
+  amount: number;
+  tendered?: number | null;  // Cash only
+  reference?: string | null;
+}
+
+// A purchase order is a pending Delivery; its status is derived from what has been received
+export type PurchaseOrderStatus = 'open' | 'partial' | 'closed';
+
+export interface PurchaseOrderLine {
+  purchase_order_id: number;
+  ordered_item_id: number;
+  sku: string;
+  ordered_quantity: number;
+  received_quantity: number;
+}
+
+export type UserRole = 'owner' | 'staff';
+
+// Thermal paper roll width in millimetres
+export type PaperWidth = 58 | 80;
+
+// Single-row table; only owners can update it
+export interface ShopSettings {
+  id: number;
+  vat_rate: number;  // Percent, e.g. 12
+  prices_include_vat: boolean;  // Catalog prices already include VAT
+  // Receipt header and footer; blank fields are left off
+  shop_name: string | null;
+  shop_address: string | null;
+  shop_phone: string | null;
+  shop_tin: string | null;
+  receipt_footer: string | null;
+  // Network thermal printer for ESC/POS receipts; no host means share a .bin file instead
+  printer_host: string | null;
+  printer_port: number;
+  paper_width: PaperWidth;
+  staff_backdate_days: number;  // How far back staff may date a transaction; owners are not limited
+  staff_discount_limit: number;  // Largest discount staff may give, in percent; owners are not limited
+  updated_at: string;
+  updated_by: string | null;
+}
+
+export interface Supplier {
+  id: number;
+  name: string;
+  contact_person: string | null;
+  phone: string | null;
+  email: string | null;
+  payment_terms: string | null;  // e.g. 'COD', 'Net 30'
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A supplier's code and cost for one of our products
+export interface ProductSupplier {
+  product_sku: string;
+  supplier_id: number;
+  supplier_sku: string | null;
+  unit_cost: number | null;
+  created_at: string;
+}
+
+export interface Customer {
+  id: number;
+  name: string;
+  phone: string | null;
+  email: string | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CustomerSummary extends Customer {
+  visit_count: number;
+  lifetime_purchases: number;  // Completed sales less refunds
+  last_visit: string | null;
+}
+
+// Units a customer has kept of one product (bought less returned)
+export interface CustomerProductTotal {
+  customer_id: number;
+  sku: string;
+  name: string;
+  volume_ml: number;
+  units: number;
+  last_purchased: string;
 }
 
 export interface User {
   id: string;
   username: string;
   full_name: string;
+  role: UserRole;
   is_active: boolean;
   last_login: string | null;
   created_at: string;
@@ -49,13 +281,33 @@ export interface User {
 }
 
 export interface CreateTransactionInput {
-  transaction_type: TransactionType;  // 'Delivery' or 'Sale'
+  transaction_type: Exclude<TransactionType, 'Return'>;  // Returns go through CreateReturnInput
   reference: string | null;
   notes: string | null;
-  customer_name?: string | null;  // Optional: for sales transactions
+  customer_id?: number | null;  // Optional: for sales transactions
+  adjustment_reason?: AdjustmentReason | null;  // Required for Adjustments
+  stock_override_note?: string | null;  // Owners only: post a Sale beyond available stock
+  supplier_id?: number | null;  // Optional: for deliveries
+  discount?: Discount | null;  // Owners only, Sales only
+  discount_reason?: string | null;  // Required with any discount
+  payments?: PaymentInput[];  // Required for Sales; must add up to the total due
+  timestamp?: Date | null;  // Effective time when backdated; defaults to now
   items: Array<{
     sku: string;
-    quantity: number;  // Positive for Delivery, negative for Sale
+    quantity: number;  // Positive for Delivery, negative for Sale, signed for Adjustment
+    discount?: LineDiscount | null;  // Owners only, Sales only
+    unit_cost?: number | null;  // Deliveries only: what was paid per unit
+  }>;
+}
+
+export interface CreateReturnInput {
+  original_transaction_id: number;  // The Sale being returned
+  reference: string | null;
+  notes: string | null;
+  refund_amount?: number | null;  // Defaults to the value of the returned lines
+  items: Array<{
+    original_item_id: number;  // Sale line being returned
+    quantity: number;  // Positive number of units coming back
   }>;
 }
 
@@ -65,13 +317,29 @@ export interface InventoryLedger {
   name: string;
   volume_ml: number;
   price: number;
+  supplier_name: string | null;  // Preferred supplier
   beginning_inventory: number;  // Stock before date range
   total_deliveries: number;  // Sum of deliveries in date range
   total_sales: number;  // Sum of sales in date range (absolute value)
+  total_returns: number;  // Sum of customer returns in date range
+  total_adjustments: number;  // Net adjustments in date range (signed)
   ending_inventory: number;  // Stock after date range
-  inventory_value: number;  // ending_inventory * price
+  beginning_value: number | null;  // beginning_inventory at cost; null while any unit on hand has no cost
+  inventory_value: number | null;  // ending_inventory at cost, same rule
+  cost: number | null;  // Current cost per unit
+  sales_revenue: number;  // Sales less returns in range, after discounts, before VAT
+  cost_of_goods_sold: number;  // Cost of units sold less units returned, by the valuation method
+  gross_profit: number | null;  // sales_revenue - cost_of_goods_sold; null if any unit sold has no cost
+  fragrance_id: number | null;
+  fragrance_name: string | null;
+  brand: string | null;
+  category: string | null;
+  tags: string[];
 }
 
+// How stock is costed as it moves: oldest units first, or a moving weighted average
+export type ValuationMethod = 'fifo' | 'average';
+
 // Date range for filtering exports
 export interface DateRange {
   start: Date;
@@ -81,3 +349,24 @@ export interface DateRange {
 // Predefined date range options
 export type DateRangePreset = 'today' | 'this_week' | 'this_month' | 'this_year' | 'custom';
 
+export interface CreatePurchaseOrderInput {
+  supplier_id: number;
+  reference: string | null;
+  notes: string | null;
+  expected_date?: string | null;  // yyyy-MM-dd
+  items: Array<{
+    sku: string;
+    quantity: number;  // Units ordered
+  }>;
+}
+
+export interface ReceivePurchaseOrderInput {
+  purchase_order_id: number;
+  reference: string | null;
+  notes: string | null;
+  close?: boolean;  // Close the PO short after this receipt
+  items: Array<{
+    ordered_item_id: number;  // Purchase order line being received
+    quantity: number;  // Units that arrived
+  }>;
+}
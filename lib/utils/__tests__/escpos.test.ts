@@ -0,0 +1,191 @@
+import { TransactionWithItems } from '@/lib/api/transactions';
+import { CurrentStock, PaperWidth, ShopSettings } from '@/lib/types';
+import { PAPER_COLUMNS, renderEscPosReceipt } from '@/lib/utils/escpos';
+import type { ReceiptData } from '@/lib/utils/receipt';
+
+const settings: ShopSettings = {
+  id: 1,
+  vat_rate: 12,
+  prices_include_vat: true,
+  shop_name: 'Scent Corner',
+  shop_address: '12 Rizal Avenue, Poblacion, Makati City',
+  shop_phone: '0917 555 0123',
+  shop_tin: '123-456-789-000',
+  receipt_footer: 'Thank you for shopping with us! Items may be exchanged within 7 days with this receipt.',
+  printer_host: null,
+  printer_port: 9100,
+  paper_width: 58,
+  staff_backdate_days: 3,
+  staff_discount_limit: 20,
+  updated_at: '2025-01-01T00:00:00Z',
+  updated_by: null,
+};
+
+const product = (sku: string, name: string, volume_ml: number, price: number): CurrentStock => ({
+  sku,
+  name,
+  volume_ml,
+  price,
+  min_stock_threshold: 2,
+  description: null,
+  preferred_supplier_id: null,
+  vat_exempt: false,
+  cost: null,
+  fragrance_id: null,
+  category: null,
+  tags: [],
+  archived_at: null,
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+  created_by: null,
+  quantity_on_hand: 10,
+  total_value: 0,
+  fragrance_name: null,
+  brand: null,
+  concentration: null,
+  gender: null,
+  image_path: null,
+  sku_aliases: [],
+});
+
+const line = (id: number, sku: string, quantity: number, unitPrice: number, extra: Partial<TransactionWithItems['transaction_item'][number]> = {}) => ({
+  id,
+  transaction_id: 1001,
+  sku,
+  quantity: -quantity,
+  unit_price_at_transaction: unitPrice,
+  total_amount: quantity * unitPrice,
+  note: null,
+  original_item_id: null,
+  ordered_item_id: null,
+  discount_type: null,
+  discount_value: null,
+  discount_amount: 0,
+  vat_rate: 12,
+  net_amount: null,
+  tax_amount: null,
+  gross_amount: null,
+  unit_cost: null,
+  ...extra,
+});
+
+// Built from local time so the printed date doesn't depend on the machine's time zone
+const timestamp = new Date(2025, 0, 15, 14, 30).toISOString();
+
+const receipt: ReceiptData = {
+  transaction: {
+    id: 1001,
+    timestamp,
+    transaction_type: 'Sale',
+    reference: 'S-20250115-0042',
+    performed_by: 'user-1',
+    status: 'completed',
+    created_at: timestamp,
+    notes: null,
+    customer_name: null,
+    customer_id: 7,
+    adjustment_reason: null,
+    original_transaction_id: null,
+    refund_amount: null,
+    cancelled_by: null,
+    cancelled_at: null,
+    cancel_reason: null,
+    stock_override_note: null,
+    purchase_order_id: null,
+    supplier_id: null,
+    expected_date: null,
+    closed_at: null,
+    discount_type: 'amount',
+    discount_value: 100,
+    discount_amount: 100,
+    discount_reason: 'Loyal customer',
+    customer: { id: 7, name: 'Maria Santos' },
+    transaction_item: [
+      line(1, 'DIOR-SAUV-100', 1, 6500, {
+        discount_type: 'percent',
+        discount_value: 10,
+        discount_amount: 650,
+        net_amount: 5155.07,
+        tax_amount: 618.61,
+        gross_amount: 5773.68,
+      }),
+      line(2, 'CK1-200', 2, 1850, { net_amount: 3252.12, tax_amount: 390.25, gross_amount: 3642.37 }),
+      line(3, 'CHANEL-NO5-EDP-50', 1, 7200, { net_amount: 6329.94, tax_amount: 759.59, gross_amount: 7089.53 }),
+    ],
+    transaction_payment: [
+      { id: 1, transaction_id: 1001, method: 'cash', amount: 10000, tendered: 10000, change_amount: 0, reference: null, created_at: timestamp },
+      { id: 2, transaction_id: 1001, method: 'ewallet', amount: 6505.58, tendered: null, change_amount: 0, reference: 'GC-88123401', created_at: timestamp },
+    ],
+  },
+  settings,
+  cashierName: 'Ana Reyes',
+  products: [
+    product('DIOR-SAUV-100', 'Dior Sauvage Eau de Parfum', 100, 6500),
+    product('CK1-200', 'CK One', 200, 1850),
+    product('CHANEL-NO5-EDP-50', 'Chanel No. 5', 50, 7200),
+  ],
+};
+
+const CONTROL_NAMES: Record<number, string> = { 0x1b: 'ESC', 0x1d: 'GS' };
+
+// Bytes after the prefix for each command used in renderEscPosReceipt:
+// ESC @ takes no argument, GS V a cut mode and feed, GS k a type, length and data
+function commandLength(bytes: Uint8Array, index: number): number {
+  const command = bytes[index + 1];
+  if (bytes[index] === 0x1b && command === 0x40) {
+    return 1;
+  }
+  if (bytes[index] === 0x1d && command === 0x56) {
+    return 3;
+  }
+  if (bytes[index] === 0x1d && command === 0x6b) {
+    return 3 + bytes[index + 3];
+  }
+  return 2;
+}
+
+/**
+ * Printable text as-is and commands as <GS 77 01>-style tags, one printed
+ * line per row, so the fixture reads like the paper
+ */
+function toFixture(bytes: Uint8Array): string {
+  let result = '';
+  for (let i = 0; i < bytes.length; i++) {
+    const byte = bytes[i];
+    if (byte === 0x0a) {
+      result += '\n';
+    } else if (byte in CONTROL_NAMES) {
+      const length = commandLength(bytes, i);
+      const command = Array.from(bytes.slice(i + 1, i + 1 + length), (b) => b.toString(16).padStart(2, '0'));
+      result += `<${CONTROL_NAMES[byte]} ${command.join(' ')}>`;
+      i += length;
+    } else {
+      result += byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : `<${byte.toString(16).padStart(2, '0')}>`;
+    }
+  }
+  return result;
+}
+
+function printedLines(bytes: Uint8Array): string[] {
+  return toFixture(bytes).split('\n').map((value) => value.replace(/<[^>]*>/g, ''));
+}
+
+describe.each([58, 80] as PaperWidth[])('renderEscPosReceipt on %dmm paper', (paperWidth) => {
+  const bytes = renderEscPosReceipt(receipt, paperWidth);
+
+  it('matches the fixture', () => {
+    expect(toFixture(bytes)).toMatchSnapshot();
+  });
+
+  it('keeps every line within the paper width', () => {
+    printedLines(bytes).forEach((value) => {
+      expect(value.length).toBeLessThanOrEqual(PAPER_COLUMNS[paperWidth]);
+    });
+  });
+
+  it('fits the barcode on the paper', () => {
+    const moduleWidth = paperWidth === 58 ? 1 : 2;
+    const index = bytes.findIndex((byte, i) => byte === 0x1d && bytes[i + 1] === 0x77);
+    expect(bytes[index + 2]).toBe(moduleWidth);
+  });
+});
@@ -0,0 +1,23 @@
+import { CurrentStock } from '@/lib/types';
+
+type ScannableProduct = Pick<CurrentStock, 'sku' | 'volume_ml' | 'sku_aliases'>;
+
+// Former SKUs still scan, so barcodes printed before a rename or merge keep working
+function scannableSkus(product: ScannableProduct): string[] {
+  return [product.sku, ...(product.sku_aliases || [])];
+}
+
+/**
+ * True when `sku` is the product's SKU or one of its aliases (case-insensitive)
+ */
+export function matchesSku(product: ScannableProduct, sku: string): boolean {
+  const code = sku.toLowerCase();
+  return scannableSkus(product).some(candidate => candidate.toLowerCase() === code);
+}
+
+/**
+ * True when a unit barcode without its unit number (SKU-VOLUMEml) belongs to the product
+ */
+export function matchesUnitBarcode(product: ScannableProduct, baseBarcode: string): boolean {
+  return scannableSkus(product).some(candidate => `${candidate}-${product.volume_ml}ml` === baseBarcode);
+}
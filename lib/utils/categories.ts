@@ -0,0 +1,55 @@
+import { DEFAULT_PRODUCT_CATEGORIES } from '@/constants/products';
+
+const collapseWhitespace = (value: string) => value.trim().replace(/\s+/g, ' ');
+
+/**
+ * Trimmed category, or null when blank
+ */
+export function normalizeCategory(category: string | null | undefined): string | null {
+  return category ? collapseWhitespace(category) || null : null;
+}
+
+/**
+ * Trimmed, lowercase and de-duplicated tags, in the order given
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const normalized = tags.map((tag) => collapseWhitespace(tag).toLowerCase()).filter(Boolean);
+  return Array.from(new Set(normalized));
+}
+
+/**
+ * Tags typed as a comma-separated list, e.g. "summer, tester"
+ */
+export function parseTags(text: string): string[] {
+  return normalizeTags(text.split(','));
+}
+
+/**
+ * Distinct categories in use, sorted, matched case-insensitively. With
+ * includeDefaults the standard Men/Women/Unisex come first.
+ */
+export function getCategoryOptions(
+  products: { category: string | null }[],
+  includeDefaults = false
+): string[] {
+  const byKey = new Map<string, string>();
+  products.forEach(({ category }) => {
+    if (category && !byKey.has(category.toLowerCase())) {
+      byKey.set(category.toLowerCase(), category);
+    }
+  });
+
+  if (!includeDefaults) {
+    return Array.from(byKey.values()).sort((a, b) => a.localeCompare(b));
+  }
+
+  DEFAULT_PRODUCT_CATEGORIES.forEach((category) => byKey.delete(category.toLowerCase()));
+  return [...DEFAULT_PRODUCT_CATEGORIES, ...Array.from(byKey.values()).sort((a, b) => a.localeCompare(b))];
+}
+
+/**
+ * Distinct tags in use, sorted
+ */
+export function getTagOptions(products: { tags: string[] }[]): string[] {
+  return Array.from(new Set(products.flatMap((product) => product.tags))).sort((a, b) => a.localeCompare(b));
+}
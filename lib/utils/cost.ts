@@ -0,0 +1,146 @@
+import { TransactionWithItems } from '@/lib/api/transactions';
+import { InventoryLedger } from '@/lib/types';
+import { getNetLineAmounts } from '@/lib/utils/discounts';
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export interface Margin {
+  profit: number;  // Per unit
+  margin: number;  // Percent of price
+  markup: number | null;  // Percent of cost; null when cost is zero
+}
+
+/**
+ * Margin and markup of selling at `price`; null while the cost is unknown
+ */
+export function calculateMargin(price: number, cost: number | null): Margin | null {
+  if (cost === null || cost === undefined) {
+    return null;
+  }
+
+  const profit = price - cost;
+  return {
+    profit: round2(profit),
+    margin: price > 0 ? round2((profit / price) * 100) : 0,
+    markup: cost > 0 ? round2((profit / cost) * 100) : null,
+  };
+}
+
+export interface LineProfit {
+  revenue: number;  // After discounts, before VAT; negative on returns
+  cogs: number | null;  // Null when the line has no cost snapshot
+  profit: number | null;
+}
+
+/**
+ * Revenue, cost of goods sold and gross profit per Sale or Return line,
+ * keyed by item id. Other transaction types have no lines here.
+ */
+export function getLineProfits(transaction: TransactionWithItems): Record<number, LineProfit> {
+  const profits: Record<number, LineProfit> = {};
+  if (transaction.transaction_type !== 'Sale' && transaction.transaction_type !== 'Return') {
+    return profits;
+  }
+
+  const items = transaction.transaction_item || [];
+  const isReturn = transaction.transaction_type === 'Return';
+  // Return lines are already priced net of discounts
+  const netAmounts = isReturn ? null : getNetLineAmounts(transaction, items);
+
+  items.forEach((item) => {
+    const net = item.net_amount ?? (netAmounts ? netAmounts[item.id] : item.total_amount);
+    const revenue = isReturn ? -net : net;
+    // Sale quantities are negative and return quantities positive, so this is signed like revenue
+    const cogs = item.unit_cost !== null ? -item.quantity * item.unit_cost : null;
+
+    profits[item.id] = {
+      revenue: round2(revenue),
+      cogs: cogs !== null ? round2(cogs) : null,
+      profit: cogs !== null ? round2(revenue - cogs) : null,
+    };
+  });
+
+  return profits;
+}
+
+export interface GrossProfitSummary {
+  revenue: number;
+  cogs: number;
+  grossProfit: number;  // Over costed lines only
+  uncosted: number;  // Lines without a cost snapshot, left out of grossProfit
+}
+
+/**
+ * Gross profit over completed sales and returns in the given transactions
+ */
+export function summarizeGrossProfit(transactions: TransactionWithItems[]): GrossProfitSummary {
+  const summary: GrossProfitSummary = { revenue: 0, cogs: 0, grossProfit: 0, uncosted: 0 };
+
+  transactions.forEach((transaction) => {
+    if (transaction.status !== 'completed') {
+      return;
+    }
+
+    Object.values(getLineProfits(transaction)).forEach((line) => {
+      summary.revenue += line.revenue;
+      if (line.cogs === null || line.profit === null) {
+        summary.uncosted += 1;
+        return;
+      }
+      summary.cogs += line.cogs;
+      summary.grossProfit += line.profit;
+    });
+  });
+
+  return {
+    revenue: round2(summary.revenue),
+    cogs: round2(summary.cogs),
+    grossProfit: round2(summary.grossProfit),
+    uncosted: summary.uncosted,
+  };
+}
+
+export interface LedgerValuationSummary {
+  beginningValue: number;  // Over products with a known value
+  endingValue: number;
+  costOfGoodsSold: number;
+  grossProfit: number;  // Over products whose units sold all have a cost
+  unvalued: number;  // Products with stock of unknown cost, left out of the values
+  uncosted: number;  // Products with uncosted sales, left out of grossProfit
+}
+
+/**
+ * Totals for an inventory ledger costed by FIFO or weighted average
+ */
+export function summarizeLedgerValuation(ledger: InventoryLedger[]): LedgerValuationSummary {
+  const summary: LedgerValuationSummary = {
+    beginningValue: 0,
+    endingValue: 0,
+    costOfGoodsSold: 0,
+    grossProfit: 0,
+    unvalued: 0,
+    uncosted: 0,
+  };
+
+  ledger.forEach((item) => {
+    if (item.beginning_value === null || item.inventory_value === null) {
+      summary.unvalued += 1;
+    }
+    summary.beginningValue += item.beginning_value ?? 0;
+    summary.endingValue += item.inventory_value ?? 0;
+    summary.costOfGoodsSold += item.cost_of_goods_sold;
+    if (item.gross_profit === null) {
+      summary.uncosted += 1;
+    } else {
+      summary.grossProfit += item.gross_profit;
+    }
+  });
+
+  return {
+    ...summary,
+    beginningValue: round2(summary.beginningValue),
+    endingValue: round2(summary.endingValue),
+    costOfGoodsSold: round2(summary.costOfGoodsSold),
+    grossProfit: round2(summary.grossProfit),
+  };
+}
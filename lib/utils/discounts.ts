@@ -0,0 +1,107 @@
+import { Discount, LineDiscount, Transaction, TransactionItem } from '@/lib/types';
+import { fromCents, mulDivRounded, toCents } from '@/lib/utils/money';
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Pesos taken off a line. Mirrors post_inventory_transaction so the cart shows
+ * what the database will store.
+ */
+export function calculateLineDiscount(unitPrice: number, quantity: number, discount: LineDiscount | null | undefined): number {
+  if (!discount) {
+    return 0;
+  }
+
+  const units = Math.abs(quantity);
+  const gross = toCents(unitPrice) * units;
+
+  switch (discount.type) {
+    case 'percent':
+      return fromCents(mulDivRounded(gross, toCents(Math.min(100, Math.max(0, discount.value))), 10000));
+    case 'amount':
+      return fromCents(Math.min(gross, toCents(Math.max(0, discount.value))));
+    case 'price':
+      return fromCents(Math.max(0, toCents(unitPrice) - toCents(Math.max(0, discount.value))) * units);
+  }
+}
+
+/**
+ * Pesos taken off the whole sale, applied after line discounts
+ */
+export function calculateTransactionDiscount(subtotal: number, discount: Discount | null | undefined): number {
+  if (!discount) {
+    return 0;
+  }
+
+  const cents = toCents(subtotal);
+
+  return discount.type === 'percent'
+    ? fromCents(mulDivRounded(cents, toCents(Math.min(100, Math.max(0, discount.value))), 10000))
+    : fromCents(Math.min(cents, toCents(Math.max(0, discount.value))));
+}
+
+/**
+ * True when a sale's discounts go past the staff limit (percent of list price)
+ * on any line or across the whole sale. Mirrors post_inventory_transaction.
+ */
+export function exceedsDiscountLimit(
+  lines: { gross: number; discount: number }[],
+  saleDiscount: number,
+  limitPercent: number
+): boolean {
+  const limit = toCents(limitPercent);
+  const gross = lines.reduce((sum, line) => sum + toCents(line.gross), 0);
+  const discount = lines.reduce((sum, line) => sum + toCents(line.discount), 0) + toCents(saleDiscount);
+
+  return lines.some(line => toCents(line.discount) > mulDivRounded(toCents(line.gross), limit, 10000))
+    || discount > mulDivRounded(gross, limit, 10000);
+}
+
+export function formatDiscount(discount: LineDiscount): string {
+  switch (discount.type) {
+    case 'percent':
+      return `${discount.value}% off`;
+    case 'amount':
+      return `₱${discount.value.toFixed(2)} off`;
+    case 'price':
+      return `Price ₱${discount.value.toFixed(2)}`;
+  }
+}
+
+/**
+ * What the customer actually paid for each line of a sale, after line discounts
+ * and the line's share of the sale discount. Shares are proportional to each
+ * line's discounted total, as in post_return_transaction.
+ */
+export function getNetLineAmounts(
+  sale: Pick<Transaction, 'discount_amount'>,
+  items: TransactionItem[]
+): Record<number, number> {
+  const subtotal = items.reduce((sum, item) => sum + item.total_amount - item.discount_amount, 0);
+  const amounts: Record<number, number> = {};
+
+  items.forEach((item) => {
+    const lineNet = item.total_amount - item.discount_amount;
+    const share = subtotal > 0 ? (sale.discount_amount * lineNet) / subtotal : 0;
+    amounts[item.id] = lineNet - share;
+  });
+
+  return amounts;
+}
+
+/**
+ * Net price per unit on each line of a sale. Returns refund at this price.
+ */
+export function getNetUnitPrices(
+  sale: Pick<Transaction, 'discount_amount'>,
+  items: TransactionItem[]
+): Record<number, number> {
+  const amounts = getNetLineAmounts(sale, items);
+  const prices: Record<number, number> = {};
+
+  items.forEach((item) => {
+    prices[item.id] = round2(amounts[item.id] / Math.abs(item.quantity));
+  });
+
+  return prices;
+}
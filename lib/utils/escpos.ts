@@ -0,0 +1,285 @@
+import { format } from 'date-fns';
+
+import { PAYMENT_METHOD_LABELS } from '@/constants/transactions';
+import type { PaperWidth } from '@/lib/types';
+import { formatDiscount } from '@/lib/utils/discounts';
+import type { ReceiptData } from '@/lib/utils/receipt';
+
+// Raw ESC/POS receipt rendering for 58mm / 80mm thermal printers. Everything
+// here is pure so output can be compared byte-for-byte without a printer.
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+// Characters per line in the printer's default font A
+export const PAPER_COLUMNS: Record<PaperWidth, number> = {
+  58: 32,
+  80: 48,
+};
+
+// CODE128 module width in dots. Width 2 runs a long reference past the
+// 384-dot print area of 58mm paper
+export const BARCODE_MODULE_WIDTH: Record<PaperWidth, number> = {
+  58: 1,
+  80: 2,
+};
+
+export type EscPosAlign = 'left' | 'center' | 'right';
+
+const ALIGN_CODES: Record<EscPosAlign, number> = {
+  left: 0,
+  center: 1,
+  right: 2,
+};
+
+// Printers default to an ASCII code page, so common non-ASCII characters
+// are spelled out and anything else prints as '?'
+const CHAR_REPLACEMENTS: Record<string, string> = {
+  '₱': 'P',
+  '×': 'x',
+  '•': '*',
+  '–': '-',
+  '—': '-',
+  '‘': "'",
+  '’': "'",
+  '“': '"',
+  '”': '"',
+  'ñ': 'n',
+  'Ñ': 'N',
+};
+
+export const EscPos = {
+  init: (): number[] => [ESC, 0x40],
+  align: (align: EscPosAlign): number[] => [ESC, 0x61, ALIGN_CODES[align]],
+  bold: (on: boolean): number[] => [ESC, 0x45, on ? 1 : 0],
+  // Double width and height, for the shop name
+  doubleSize: (on: boolean): number[] => [GS, 0x21, on ? 0x11 : 0x00],
+  feed: (lines: number): number[] => [ESC, 0x64, lines],
+  // Feed past the tear bar, then partial cut
+  cut: (): number[] => [GS, 0x56, 0x42, 0x03],
+  text: (value: string): number[] => encodeText(value),
+  line: (value = ''): number[] => [...encodeText(value), LF],
+
+  /**
+   * CODE128 barcode (code set B) with the human-readable text printed below
+   */
+  barcode128: (data: string, moduleWidth = 2): number[] => {
+    // "{B" selects code set B; a literal "{" is sent as "{{"
+    const payload = [0x7b, 0x42, ...encodeText(data.replace(/\{/g, '{{'))];
+    return [
+      GS, 0x68, 80,  // Height in dots
+      GS, 0x77, moduleWidth,  // Module width
+      GS, 0x48, 2,  // Text below the bars
+      GS, 0x6b, 73, payload.length, ...payload,
+      LF,
+    ];
+  },
+};
+
+export function encodeText(value: string): number[] {
+  const bytes: number[] = [];
+  for (const char of value) {
+    const replaced = CHAR_REPLACEMENTS[char] ?? char;
+    for (const c of replaced) {
+      const code = c.charCodeAt(0);
+      bytes.push(code >= 0x20 && code < 0x7f ? code : 0x3f);
+    }
+  }
+  return bytes;
+}
+
+function formatAmount(amount: number): string {
+  return amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+/**
+ * One line with `left` flush left and `right` flush right, truncating `left`
+ * when both don't fit
+ */
+export function padColumns(left: string, right: string, columns: number): string {
+  const space = columns - right.length - 1;
+  if (space <= 0) {
+    return right.slice(0, columns);
+  }
+  const leftText = left.length > space ? left.slice(0, space) : left;
+  return leftText + ' '.repeat(columns - leftText.length - right.length) + right;
+}
+
+/**
+ * Breaks text on spaces into lines no wider than `columns`
+ */
+export function wrapText(value: string, columns: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  value.split(/\s+/).filter(Boolean).forEach((word) => {
+    while (word.length > columns) {
+      if (current) {
+        lines.push(current);
+        current = '';
+      }
+      lines.push(word.slice(0, columns));
+      word = word.slice(columns);
+    }
+    if (!current) {
+      current = word;
+    } else if (current.length + 1 + word.length <= columns) {
+      current += ` ${word}`;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  });
+
+  if (current) {
+    lines.push(current);
+  }
+  return lines;
+}
+
+/**
+ * Renders the same receipt as generateReceiptHTML as an ESC/POS byte stream
+ */
+export function renderEscPosReceipt(
+  { transaction, settings, cashierName, products }: ReceiptData,
+  paperWidth: PaperWidth = 58
+): Uint8Array {
+  const columns = PAPER_COLUMNS[paperWidth];
+  const items = transaction.transaction_item || [];
+  const payments = transaction.transaction_payment || [];
+
+  const subtotal = items.reduce((sum, item) => sum + item.total_amount, 0);
+  const discounts = items.reduce((sum, item) => sum + item.discount_amount, 0) + transaction.discount_amount;
+  const hasVat = items.some((item) => item.gross_amount !== null);
+  const vat = items.reduce((sum, item) => sum + (item.tax_amount ?? 0), 0);
+  const totalDue = hasVat ? items.reduce((sum, item) => sum + (item.gross_amount ?? 0), 0) : subtotal - discounts;
+  const change = payments.reduce((sum, payment) => sum + payment.change_amount, 0);
+
+  const out: number[] = [];
+  const push = (...chunks: number[][]) => chunks.forEach((chunk) => out.push(...chunk));
+  const row = (left: string, right: string) => push(EscPos.line(padColumns(left, right, columns)));
+  const divider = () => push(EscPos.line('-'.repeat(columns)));
+  const wrapped = (value: string) => wrapText(value, columns).forEach((line) => push(EscPos.line(line)));
+
+  push(EscPos.init());
+
+  // Header
+  push(EscPos.align('center'));
+  if (settings?.shop_name) {
+    push(EscPos.bold(true), EscPos.doubleSize(true));
+    wrapText(settings.shop_name, columns / 2).forEach((line) => push(EscPos.line(line)));
+    push(EscPos.doubleSize(false), EscPos.bold(false));
+  }
+  if (settings?.shop_address) {
+    wrapped(settings.shop_address);
+  }
+  if (settings?.shop_phone) {
+    wrapped(settings.shop_phone);
+  }
+  if (settings?.shop_tin) {
+    wrapped(`TIN: ${settings.shop_tin}`);
+  }
+  push(EscPos.align('left'));
+  divider();
+
+  // Sale details
+  const customerName = transaction.customer?.name || transaction.customer_name;
+  row('Receipt', transaction.reference || `#${transaction.id}`);
+  row('Date', format(new Date(transaction.timestamp), 'MMM dd, yyyy HH:mm'));
+  if (cashierName) {
+    row('Cashier', cashierName);
+  }
+  if (customerName) {
+    row('Customer', customerName);
+  }
+  divider();
+
+  // Lines
+  items.forEach((item) => {
+    const product = products.find((p) => p.sku === item.sku);
+    wrapped(product ? `${product.name} (${product.volume_ml}ml)` : item.sku);
+    row(`  ${Math.abs(item.quantity)} x ${formatAmount(item.unit_price_at_transaction)}`, formatAmount(item.total_amount));
+    if (item.discount_type && item.discount_value !== null) {
+      row(`  ${formatDiscount({ type: item.discount_type, value: item.discount_value })}`, `-${formatAmount(item.discount_amount)}`);
+    }
+  });
+  divider();
+
+  // Totals
+  if (discounts > 0) {
+    row('Subtotal', formatAmount(subtotal));
+  }
+  if (transaction.discount_amount > 0 && transaction.discount_type && transaction.discount_value !== null) {
+    row(
+      `Sale discount (${formatDiscount({ type: transaction.discount_type, value: transaction.discount_value })})`,
+      `-${formatAmount(transaction.discount_amount)}`
+    );
+  }
+  if (discounts > 0) {
+    row('Total discounts', `-${formatAmount(discounts)}`);
+  }
+  if (hasVat && vat > 0) {
+    row(`VAT${settings?.prices_include_vat ? ' (included)' : ''}`, formatAmount(vat));
+  }
+  push(EscPos.bold(true));
+  row('TOTAL', `P${formatAmount(totalDue)}`);
+  push(EscPos.bold(false));
+
+  // Payments
+  if (payments.length > 0) {
+    divider();
+    payments.forEach((payment) => {
+      row(PAYMENT_METHOD_LABELS[payment.method], formatAmount(Number(payment.amount)));
+      if (payment.tendered !== null) {
+        row('  Tendered', formatAmount(Number(payment.tendered)));
+      }
+      if (payment.reference) {
+        row('  Ref', payment.reference);
+      }
+    });
+    if (change > 0) {
+      push(EscPos.bold(true));
+      row('Change', formatAmount(change));
+      push(EscPos.bold(false));
+    }
+  }
+
+  // Footer
+  push(EscPos.align('center'));
+  if (transaction.status === 'cancelled') {
+    divider();
+    push(EscPos.bold(true), EscPos.line('CANCELLED'), EscPos.bold(false));
+  }
+  if (transaction.reference) {
+    push(EscPos.line(), EscPos.barcode128(transaction.reference, BARCODE_MODULE_WIDTH[paperWidth]));
+  }
+  if (settings?.receipt_footer) {
+    divider();
+    wrapped(settings.receipt_footer);
+  }
+  push(EscPos.align('left'), EscPos.cut());
+
+  return Uint8Array.from(out);
+}
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Base64 for writing the byte stream with expo-file-system
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const a = bytes[i];
+    const b = i + 1 < bytes.length ? bytes[i + 1] : 0;
+    const c = i + 2 < bytes.length ? bytes[i + 2] : 0;
+    const triple = (a << 16) | (b << 8) | c;
+
+    result += BASE64_CHARS[(triple >> 18) & 0x3f];
+    result += BASE64_CHARS[(triple >> 12) & 0x3f];
+    result += i + 1 < bytes.length ? BASE64_CHARS[(triple >> 6) & 0x3f] : '=';
+    result += i + 2 < bytes.length ? BASE64_CHARS[triple & 0x3f] : '=';
+  }
+  return result;
+}
@@ -4,11 +4,18 @@ import * as Print from 'expo-print';
 import * as Sharing from 'expo-sharing';
 import * as XLSX from 'xlsx';
 
+import { PRODUCT_GROUPING_LABELS } from '@/constants/fragrances';
+import { ADJUSTMENT_REASON_LABELS, PAYMENT_METHOD_LABELS, VALUATION_METHOD_LABELS } from '@/constants/transactions';
 import { TransactionWithItems } from '@/lib/api/transactions';
-import { CurrentStock, InventoryLedger, TransactionItem } from '@/lib/types';
+import { CurrentStock, InventoryLedger, ProductGrouping, Transaction, TransactionItem, ValuationMethod } from '@/lib/types';
+import { getLineProfits, summarizeGrossProfit, summarizeLedgerValuation } from '@/lib/utils/cost';
+import { getNetLineAmounts } from '@/lib/utils/discounts';
+import { groupProducts } from '@/lib/utils/fragrances';
+import { summarizePaymentsByDay } from '@/lib/utils/payments';
+import { summarizeVat } from '@/lib/utils/tax';
 
 // Workaround for expo-file-system v19 type definitions
-const getDocumentDirectory = (): string => {
+export const getDocumentDirectory = (): string => {
   const docDir = (FileSystem as any).documentDirectory;
   const cacheDir = (FileSystem as any).cacheDirectory;
   return docDir || cacheDir || '';
@@ -31,6 +38,11 @@ export function formatCurrency(amount: number): string {
   return `₱${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
 }
 
+// Blank for amounts that are unknown, e.g. cost on lines posted before costs were tracked
+export function formatOptionalCurrency(amount: number | null | undefined): string {
+  return amount !== null && amount !== undefined ? formatCurrency(amount) : '';
+}
+
 export function generateFilename(prefix: string, extension: string): string {
   const now = new Date();
   const dateStr = format(now, 'yyyy-MM-dd');
@@ -38,6 +50,14 @@ export function generateFilename(prefix: string, extension: string): string {
   return `${prefix}_${dateStr}_${timeStr}${extension}`;
 }
 
+export function formatAdjustmentReason(transaction: Transaction): string {
+  return transaction.adjustment_reason ? ADJUSTMENT_REASON_LABELS[transaction.adjustment_reason] : '';
+}
+
+export function formatCancelledAt(transaction: Transaction): string {
+  return transaction.cancelled_at ? format(new Date(transaction.cancelled_at), 'yyyy-MM-dd HH:mm') : '';
+}
+
 export function generateHTMLTable(headers: string[], rows: string[][]): string {
   const headerRow = headers.map((h) => `<th>${h}</th>`).join('');
   const dataRows = rows.map((row) => `<tr>${row.map((cell) => `<td>${cell}</td>`).join('')}</tr>`).join('');
@@ -321,7 +341,7 @@ export async function exportTransactionsToCSV(
     const file = filename || generateFilename('transactions', '.csv');
 
     // Headers
-    const headers = ['ID', 'Date', 'Type', 'SKU', 'Product', 'Quantity', 'Price', 'Total', 'Reference', 'Performed By'];
+    const headers = ['ID', 'Date', 'Type', 'SKU', 'Product', 'Quantity', 'Price', 'Gross', 'Discount', 'Discounted', 'VAT Rate', 'Net of VAT', 'VAT', 'Amount Paid', 'Unit Cost', 'COGS', 'Gross Profit', 'Reference', 'Supplier', 'Performed By', 'Reason', 'Discount Reason', 'Original Txn', 'Refund', 'Status', 'Cancelled At', 'Cancelled By', 'Cancel Reason'];
     const csvRows = [headers.join(',')];
 
     // Flatten transactions with items
@@ -340,12 +360,32 @@ export async function exportTransactionsToCSV(
           escapeCSV(''),
           escapeCSV(''),
           escapeCSV(''),
+          escapeCSV(''),
+          escapeCSV(''),
+          escapeCSV(''),
+          escapeCSV(''),
+          escapeCSV(''),
+          escapeCSV(''),
+          escapeCSV(''),
+          escapeCSV(''),
+          escapeCSV(''),
           escapeCSV(transaction.reference || ''),
+          escapeCSV(transaction.supplier?.name || ''),
           escapeCSV(transaction.performed_by),
+          escapeCSV(formatAdjustmentReason(transaction)),
+          escapeCSV(transaction.discount_reason || ''),
+          escapeCSV(transaction.original_transaction_id ? String(transaction.original_transaction_id) : ''),
+          escapeCSV(transaction.refund_amount !== null ? formatCurrency(transaction.refund_amount) : ''),
+          escapeCSV(transaction.status),
+          escapeCSV(formatCancelledAt(transaction)),
+          escapeCSV(transaction.cancelled_by || ''),
+          escapeCSV(transaction.cancel_reason || ''),
         ];
         csvRows.push(row.join(','));
       } else {
-        // Transaction with items
+        // Transaction with items; the sale discount is spread across its lines so Net sums to what was paid
+        const netAmounts = getNetLineAmounts(transaction, items);
+        const profits = getLineProfits(transaction);
         items.forEach((item: TransactionItem) => {
           const row = [
             escapeCSV(String(transaction.id)),
@@ -356,8 +396,26 @@ export async function exportTransactionsToCSV(
             escapeCSV(String(item.quantity)),
             escapeCSV(formatCurrency(item.unit_price_at_transaction)),
             escapeCSV(formatCurrency(item.total_amount)),
+            escapeCSV(formatCurrency(item.total_amount - netAmounts[item.id])),
+            escapeCSV(formatCurrency(netAmounts[item.id])),
+            escapeCSV(item.vat_rate !== null ? `${item.vat_rate}%` : ''),
+            escapeCSV(item.net_amount !== null ? formatCurrency(item.net_amount) : ''),
+            escapeCSV(item.tax_amount !== null ? formatCurrency(item.tax_amount) : ''),
+            escapeCSV(item.gross_amount !== null ? formatCurrency(item.gross_amount) : ''),
+            escapeCSV(item.unit_cost !== null ? formatCurrency(item.unit_cost) : ''),
+            escapeCSV(formatOptionalCurrency(profits[item.id]?.cogs)),
+            escapeCSV(formatOptionalCurrency(profits[item.id]?.profit)),
             escapeCSV(transaction.reference || ''),
+            escapeCSV(transaction.supplier?.name || ''),
             escapeCSV(transaction.performed_by),
+            escapeCSV(formatAdjustmentReason(transaction)),
+            escapeCSV(transaction.discount_reason || ''),
+            escapeCSV(transaction.original_transaction_id ? String(transaction.original_transaction_id) : ''),
+            escapeCSV(transaction.refund_amount !== null ? formatCurrency(transaction.refund_amount) : ''),
+            escapeCSV(transaction.status),
+            escapeCSV(formatCancelledAt(transaction)),
+            escapeCSV(transaction.cancelled_by || ''),
+            escapeCSV(transaction.cancel_reason || ''),
           ];
           csvRows.push(row.join(','));
         });
@@ -413,13 +471,32 @@ export async function exportTransactionsToExcel(
           SKU: '',
           Quantity: '',
           'Unit Price': '',
-          'Total Amount': '',
+          'Gross Amount': '',
+          Discount: '',
+          'Discounted Amount': '',
+          'VAT Rate': '',
+          'Net of VAT': '',
+          VAT: '',
+          'Amount Paid': '',
+          'Unit Cost': '',
+          COGS: '',
+          'Gross Profit': '',
           Reference: transaction.reference || '',
+          Supplier: transaction.supplier?.name || '',
           'Performed By': transaction.performed_by,
           Status: transaction.status,
+          'Cancelled At': formatCancelledAt(transaction),
+          'Cancelled By': transaction.cancelled_by || '',
+          'Cancel Reason': transaction.cancel_reason || '',
+          Reason: formatAdjustmentReason(transaction),
+          'Discount Reason': transaction.discount_reason || '',
+          'Original Txn': transaction.original_transaction_id || '',
+          Refund: transaction.refund_amount ?? '',
           Notes: transaction.notes || '',
         });
       } else {
+        const netAmounts = getNetLineAmounts(transaction, items);
+        const profits = getLineProfits(transaction);
         items.forEach((item: TransactionItem) => {
           excelData.push({
             'Transaction ID': transaction.id,
@@ -428,10 +505,27 @@ export async function exportTransactionsToExcel(
             SKU: item.sku,
             Quantity: item.quantity,
             'Unit Price': item.unit_price_at_transaction,
-            'Total Amount': item.total_amount,
+            'Gross Amount': item.total_amount,
+            Discount: Math.round((item.total_amount - netAmounts[item.id]) * 100) / 100,
+            'Discounted Amount': Math.round(netAmounts[item.id] * 100) / 100,
+            'VAT Rate': item.vat_rate ?? '',
+            'Net of VAT': item.net_amount ?? '',
+            VAT: item.tax_amount ?? '',
+            'Amount Paid': item.gross_amount ?? '',
+            'Unit Cost': item.unit_cost ?? '',
+            COGS: profits[item.id]?.cogs ?? '',
+            'Gross Profit': profits[item.id]?.profit ?? '',
             Reference: transaction.reference || '',
+            Supplier: transaction.supplier?.name || '',
             'Performed By': transaction.performed_by,
             Status: transaction.status,
+            'Cancelled At': formatCancelledAt(transaction),
+            'Cancelled By': transaction.cancelled_by || '',
+            'Cancel Reason': transaction.cancel_reason || '',
+            Reason: formatAdjustmentReason(transaction),
+            'Discount Reason': transaction.discount_reason || '',
+            'Original Txn': transaction.original_transaction_id || '',
+            Refund: transaction.refund_amount ?? '',
             Notes: transaction.notes || '',
           });
         });
@@ -449,10 +543,27 @@ export async function exportTransactionsToExcel(
       { wch: 15 }, // SKU
       { wch: 10 }, // Quantity
       { wch: 12 }, // Unit Price
-      { wch: 12 }, // Total Amount
+      { wch: 12 }, // Gross Amount
+      { wch: 12 }, // Discount
+      { wch: 12 }, // Discounted Amount
+      { wch: 10 }, // VAT Rate
+      { wch: 12 }, // Net of VAT
+      { wch: 12 }, // VAT
+      { wch: 12 }, // Amount Paid
+      { wch: 12 }, // Unit Cost
+      { wch: 12 }, // COGS
+      { wch: 12 }, // Gross Profit
       { wch: 15 }, // Reference
+      { wch: 20 }, // Supplier
       { wch: 20 }, // Performed By
       { wch: 12 }, // Status
+      { wch: 18 }, // Cancelled At
+      { wch: 20 }, // Cancelled By
+      { wch: 25 }, // Cancel Reason
+      { wch: 18 }, // Reason
+      { wch: 25 }, // Discount Reason
+      { wch: 12 }, // Original Txn
+      { wch: 12 }, // Refund
       { wch: 30 }, // Notes
     ];
     worksheet['!cols'] = columnWidths;
@@ -471,6 +582,63 @@ export async function exportTransactionsToExcel(
     const workbook = XLSX.utils.book_new();
     XLSX.utils.book_append_sheet(workbook, worksheet, 'Transactions');
 
+    // VAT summary for the bookkeeper
+    const vat = summarizeVat(transactions);
+    const vatSheet = XLSX.utils.json_to_sheet([
+      { Item: 'VATable Sales (net of VAT)', Amount: vat.vatableSales },
+      { Item: 'VAT-Exempt Sales', Amount: vat.exemptSales },
+      { Item: 'Output VAT', Amount: vat.vatAmount },
+      { Item: 'Total Sales (incl. VAT)', Amount: vat.grossSales },
+      { Item: 'Less: Returns (incl. VAT, already deducted)', Amount: vat.returnsGross },
+      ...(vat.untracked > 0 ? [{ Item: 'Lines posted before VAT tracking (excluded)', Amount: vat.untracked }] : []),
+    ]);
+    vatSheet['!cols'] = [{ wch: 45 }, { wch: 15 }];
+    XLSX.utils.book_append_sheet(workbook, vatSheet, 'VAT Summary');
+
+    // One row per payment, so split tenders show each method
+    const paymentRows: any[] = [];
+    transactions.forEach((transaction) => {
+      (transaction.transaction_payment || []).forEach((payment) => {
+        paymentRows.push({
+          'Transaction ID': transaction.id,
+          Date: format(new Date(transaction.timestamp), 'yyyy-MM-dd HH:mm'),
+          Reference: transaction.reference || '',
+          Method: PAYMENT_METHOD_LABELS[payment.method],
+          Amount: payment.amount,
+          Tendered: payment.tendered ?? '',
+          Change: payment.change_amount,
+          'Payment Ref': payment.reference || '',
+          Status: transaction.status,
+        });
+      });
+    });
+    if (paymentRows.length > 0) {
+      const paymentSheet = XLSX.utils.json_to_sheet(paymentRows);
+      paymentSheet['!cols'] = [
+        { wch: 12 }, // Transaction ID
+        { wch: 18 }, // Date
+        { wch: 15 }, // Reference
+        { wch: 18 }, // Method
+        { wch: 12 }, // Amount
+        { wch: 12 }, // Tendered
+        { wch: 12 }, // Change
+        { wch: 20 }, // Payment Ref
+        { wch: 12 }, // Status
+      ];
+      XLSX.utils.book_append_sheet(workbook, paymentSheet, 'Payments');
+
+      const dailySheet = XLSX.utils.json_to_sheet(
+        summarizePaymentsByDay(transactions).map((total) => ({
+          Date: total.date,
+          Method: PAYMENT_METHOD_LABELS[total.method],
+          Payments: total.count,
+          Amount: total.amount,
+        }))
+      );
+      dailySheet['!cols'] = [{ wch: 12 }, { wch: 18 }, { wch: 10 }, { wch: 12 }];
+      XLSX.utils.book_append_sheet(workbook, dailySheet, 'Daily Payment Totals');
+    }
+
     // Convert to base64
     const excelBuffer = XLSX.write(workbook, { type: 'base64', bookType: 'xlsx' });
     const fileUri = getDocumentDirectory() + file;
@@ -508,16 +676,32 @@ export async function exportTransactionsToPDF(
 
     const file = filename || generateFilename('transactions', '.pdf');
 
-    // Calculate summary stats
+    // Calculate summary stats (cancelled transactions are listed but not totalled)
     const totalTransactions = transactions.length;
+    const cancelledCount = transactions.filter((t) => t.status === 'cancelled').length;
     let totalItems = 0;
     let totalValue = 0;
+    // Sales revenue before and after discounts
+    let grossSales = 0;
+    let netSales = 0;
     transactions.forEach((t) => {
+      if (t.status === 'cancelled') {
+        return;
+      }
       const items = t.transaction_item || [];
       totalItems += items.length;
       totalValue += items.reduce((sum, item) => sum + item.total_amount, 0);
+      if (t.transaction_type === 'Sale') {
+        const netAmounts = getNetLineAmounts(t, items);
+        grossSales += items.reduce((sum, item) => sum + item.total_amount, 0);
+        netSales += items.reduce((sum, item) => sum + netAmounts[item.id], 0);
+      }
     });
 
+    const vat = summarizeVat(transactions);
+    const dailyPayments = summarizePaymentsByDay(transactions);
+    const profit = summarizeGrossProfit(transactions);
+
     // Generate transaction sections
     let transactionsHTML = '';
     transactions.forEach((transaction) => {
@@ -526,12 +710,16 @@ export async function exportTransactionsToPDF(
 
       let itemsTable = '';
       if (items.length > 0) {
-        const itemHeaders = ['SKU', 'Quantity', 'Unit Price', 'Total'];
+        const profits = getLineProfits(transaction);
+        const itemHeaders = ['SKU', 'Quantity', 'Unit Price', 'Total', 'Discount', 'Unit Cost', 'Gross Profit'];
         const itemRows = items.map((item) => [
           item.sku,
           String(item.quantity),
           formatCurrency(item.unit_price_at_transaction),
           formatCurrency(item.total_amount),
+          item.discount_amount > 0 ? formatCurrency(item.discount_amount) : '',
+          item.unit_cost !== null ? formatCurrency(item.unit_cost) : '',
+          formatOptionalCurrency(profits[item.id]?.profit),
         ]);
         itemsTable = generateHTMLTable(itemHeaders, itemRows);
       }
@@ -541,24 +729,38 @@ export async function exportTransactionsToPDF(
           ? '#10B981'
           : transaction.transaction_type === 'Sale'
           ? '#EF4444'
+          : transaction.transaction_type === 'Return'
+          ? '#3B82F6'
           : '#F59E0B';
 
+      const isCancelled = transaction.status === 'cancelled';
+
       transactionsHTML += `
-        <div style="margin-bottom: 30px; border: 1px solid #e5e7eb; border-radius: 8px; padding: 15px;">
+        <div class="${isCancelled ? 'cancelled' : ''}" style="margin-bottom: 30px; border: 1px solid #e5e7eb; border-radius: 8px; padding: 15px;">
           <div style="display: flex; justify-content: space-between; margin-bottom: 10px;">
             <div>
               <h3 style="margin: 0; color: #1f2937;">Transaction #${transaction.id}</h3>
               <p style="margin: 5px 0; color: #6b7280; font-size: 14px;">${transactionDate}</p>
             </div>
             <div style="background-color: ${typeColor}20; color: ${typeColor}; padding: 8px 16px; border-radius: 6px; font-weight: bold;">
-              ${transaction.transaction_type}
+              ${transaction.transaction_type}${isCancelled ? ' (CANCELLED)' : ''}
             </div>
           </div>
           <div style="margin-bottom: 10px;">
             <strong>Reference:</strong> ${transaction.reference || 'N/A'} |
             <strong>Status:</strong> ${transaction.status} |
             <strong>Performed By:</strong> ${transaction.performed_by}
+            ${transaction.supplier ? ` | <strong>Supplier:</strong> ${transaction.supplier.name}` : ''}
+            ${transaction.adjustment_reason ? ` | <strong>Reason:</strong> ${formatAdjustmentReason(transaction)}` : ''}
+            ${transaction.original_transaction_id ? ` | <strong>Return of:</strong> Transaction #${transaction.original_transaction_id}` : ''}
+            ${transaction.refund_amount !== null ? ` | <strong>Refund:</strong> ${formatCurrency(transaction.refund_amount)}` : ''}
+            ${transaction.discount_amount > 0 ? ` | <strong>Sale Discount:</strong> ${formatCurrency(transaction.discount_amount)}` : ''}
+            ${transaction.discount_reason ? ` | <strong>Discount Reason:</strong> ${transaction.discount_reason}` : ''}
+            ${(transaction.transaction_payment || []).length > 0 ? ` | <strong>Paid:</strong> ${(transaction.transaction_payment || [])
+              .map((payment) => `${PAYMENT_METHOD_LABELS[payment.method]} ${formatCurrency(payment.amount)}${payment.change_amount > 0 ? ` (change ${formatCurrency(payment.change_amount)})` : ''}`)
+              .join(', ')}` : ''}
           </div>
+          ${isCancelled ? `<p style="margin: 5px 0; color: #EF4444;"><strong>Cancelled:</strong> ${formatCancelledAt(transaction)} by ${transaction.cancelled_by || 'N/A'} — ${transaction.cancel_reason || ''}</p>` : ''}
           ${items.length > 0 ? `<div style="margin-top: 15px;">${itemsTable}</div>` : '<p>No items in this transaction</p>'}
           ${transaction.notes ? `<p style="margin-top: 10px; color: #6b7280;"><strong>Notes:</strong> ${transaction.notes}</p>` : ''}
         </div>
@@ -620,6 +822,12 @@ export async function exportTransactionsToPDF(
             tr:nth-child(even) {
               background-color: #f9fafb;
             }
+            .cancelled {
+              opacity: 0.6;
+            }
+            .cancelled td {
+              text-decoration: line-through;
+            }
           </style>
         </head>
         <body>
@@ -637,7 +845,58 @@ export async function exportTransactionsToPDF(
               <div class="summary-label">Total Value</div>
               <div class="summary-value">${formatCurrency(totalValue)}</div>
             </div>
+            ${grossSales > 0 ? `
+            <div class="summary-item">
+              <div class="summary-label">Gross Sales</div>
+              <div class="summary-value">${formatCurrency(grossSales)}</div>
+            </div>
+            <div class="summary-item">
+              <div class="summary-label">Discounts</div>
+              <div class="summary-value">${formatCurrency(grossSales - netSales)}</div>
+            </div>
+            <div class="summary-item">
+              <div class="summary-label">Net Sales</div>
+              <div class="summary-value">${formatCurrency(netSales)}</div>
+            </div>` : ''}
+            ${cancelledCount > 0 ? `
+            <div class="summary-item">
+              <div class="summary-label">Cancelled</div>
+              <div class="summary-value">${cancelledCount}</div>
+            </div>` : ''}
           </div>
+          ${vat.grossSales !== 0 || vat.untracked > 0 ? `
+          <h2 style="color: #1f2937;">VAT Summary</h2>
+          ${generateHTMLTable(
+            ['Item', 'Amount'],
+            [
+              ['VATable Sales (net of VAT)', formatCurrency(vat.vatableSales)],
+              ['VAT-Exempt Sales', formatCurrency(vat.exemptSales)],
+              ['Output VAT', formatCurrency(vat.vatAmount)],
+              ['Total Sales (incl. VAT)', formatCurrency(vat.grossSales)],
+              ['Less: Returns (incl. VAT, already deducted)', formatCurrency(vat.returnsGross)],
+            ]
+          )}
+          ${vat.untracked > 0 ? `<p style="color: #6b7280; font-size: 12px;">${vat.untracked} line(s) posted before VAT tracking are not included.</p>` : ''}
+          <div style="margin-bottom: 30px;"></div>` : ''}
+          ${profit.revenue !== 0 || profit.uncosted > 0 ? `
+          <h2 style="color: #1f2937;">Gross Profit</h2>
+          ${generateHTMLTable(
+            ['Item', 'Amount'],
+            [
+              ['Sales less returns (net of discounts and VAT)', formatCurrency(profit.revenue)],
+              ['Cost of Goods Sold', formatCurrency(profit.cogs)],
+              ['Gross Profit', formatCurrency(profit.grossProfit)],
+            ]
+          )}
+          ${profit.uncosted > 0 ? `<p style="color: #6b7280; font-size: 12px;">${profit.uncosted} line(s) without a recorded cost are left out of gross profit.</p>` : ''}
+          <div style="margin-bottom: 30px;"></div>` : ''}
+          ${dailyPayments.length > 0 ? `
+          <h2 style="color: #1f2937;">Daily Payment Totals</h2>
+          ${generateHTMLTable(
+            ['Date', 'Method', 'Payments', 'Amount'],
+            dailyPayments.map((total) => [total.date, PAYMENT_METHOD_LABELS[total.method], String(total.count), formatCurrency(total.amount)])
+          )}
+          <div style="margin-bottom: 30px;"></div>` : ''}
           ${transactionsHTML}
           <p style="margin-top: 30px; color: #6b7280; font-size: 12px;">
             Generated on ${format(new Date(), 'MMMM dd, yyyy HH:mm')}
@@ -667,10 +926,31 @@ export async function exportTransactionsToPDF(
 }
 
 // Inventory Ledger Export Functions
+
+// Unit and value totals for a group of ledger rows
+function summarizeLedgerGroup(items: InventoryLedger[]) {
+  const sum = (field: 'beginning_inventory' | 'total_deliveries' | 'total_sales' | 'total_returns' | 'total_adjustments' | 'ending_inventory' | 'sales_revenue') =>
+    items.reduce((total, item) => total + item[field], 0);
+
+  return {
+    beginningInventory: sum('beginning_inventory'),
+    deliveries: sum('total_deliveries'),
+    sales: sum('total_sales'),
+    returns: sum('total_returns'),
+    adjustments: sum('total_adjustments'),
+    endingInventory: sum('ending_inventory'),
+    revenue: sum('sales_revenue'),
+    valuation: summarizeLedgerValuation(items),
+  };
+}
+
 export async function exportInventoryLedgerToCSV(
   ledger: InventoryLedger[],
   startDate: Date,
   endDate: Date,
+  method: ValuationMethod,
+  grouping: ProductGrouping = 'none',
+  category: string | null = null,
   filename?: string
 ): Promise<{ success: boolean; error?: string }> {
   try {
@@ -681,28 +961,77 @@ export async function exportInventoryLedgerToCSV(
     const file = filename || generateFilename('inventory_ledger', '.csv');
 
     // Headers matching the manual ledger format
-    const headers = ['Product', 'ML', 'Beg Inv', 'Deliveries', 'Sales', 'End Inv', 'Value', 'Remarks'];
+    const headers = ['Product', 'Brand', 'Category', 'ML', 'Supplier', 'Beg Inv', 'Deliveries', 'Sales', 'Returns', 'Adjustments', 'End Inv', 'Beg Value', 'End Value', 'Revenue', 'COGS', 'Gross Profit', 'Remarks'];
     const csvRows = [headers.join(',')];
 
     // Add date range info
     csvRows.push(`"Period: ${format(startDate, 'MMM dd, yyyy')} - ${format(endDate, 'MMM dd, yyyy')}"`);
+    csvRows.push(`"Valuation: ${VALUATION_METHOD_LABELS[method]}"`);
+    if (category) {
+      csvRows.push(escapeCSV(`Category: ${category}`));
+    }
+    if (grouping !== 'none') {
+      csvRows.push(`"Grouped by: ${PRODUCT_GROUPING_LABELS[grouping]}"`);
+    }
     csvRows.push(''); // Empty row for spacing
 
-    // Data rows
-    ledger.forEach((item) => {
-      const row = [
-        escapeCSV(item.name),
-        escapeCSV(String(item.volume_ml)),
-        escapeCSV(String(item.beginning_inventory)),
-        escapeCSV(String(item.total_deliveries)),
-        escapeCSV(String(item.total_sales)),
-        escapeCSV(String(item.ending_inventory)),
-        escapeCSV(formatCurrency(item.inventory_value)),
-        escapeCSV(''), // Remarks column (empty for now)
-      ];
-      csvRows.push(row.join(','));
+    // Data rows, each group followed by its subtotal
+    groupProducts(ledger, grouping).forEach((group) => {
+      group.items.forEach((item) => {
+        const row = [
+          escapeCSV(item.name),
+          escapeCSV(item.brand || ''),
+          escapeCSV(item.category || ''),
+          escapeCSV(String(item.volume_ml)),
+          escapeCSV(item.supplier_name || ''),
+          escapeCSV(String(item.beginning_inventory)),
+          escapeCSV(String(item.total_deliveries)),
+          escapeCSV(String(item.total_sales)),
+          escapeCSV(String(item.total_returns)),
+          escapeCSV(String(item.total_adjustments)),
+          escapeCSV(String(item.ending_inventory)),
+          escapeCSV(formatOptionalCurrency(item.beginning_value)),
+          escapeCSV(formatOptionalCurrency(item.inventory_value)),
+          escapeCSV(formatCurrency(item.sales_revenue)),
+          escapeCSV(formatCurrency(item.cost_of_goods_sold)),
+          escapeCSV(formatOptionalCurrency(item.gross_profit)),
+          escapeCSV(''), // Remarks column (empty for now)
+        ];
+        csvRows.push(row.join(','));
+      });
+
+      if (grouping !== 'none') {
+        const subtotal = summarizeLedgerGroup(group.items);
+        csvRows.push([
+          `Subtotal: ${group.label}`, '', '', '', '',
+          String(subtotal.beginningInventory),
+          String(subtotal.deliveries),
+          String(subtotal.sales),
+          String(subtotal.returns),
+          String(subtotal.adjustments),
+          String(subtotal.endingInventory),
+          formatCurrency(subtotal.valuation.beginningValue),
+          formatCurrency(subtotal.valuation.endingValue),
+          formatCurrency(subtotal.revenue),
+          formatCurrency(subtotal.valuation.costOfGoodsSold),
+          formatCurrency(subtotal.valuation.grossProfit),
+          '',
+        ].map(escapeCSV).join(','));
+      }
     });
 
+    // Value totals at cost
+    const valuation = summarizeLedgerValuation(ledger);
+    csvRows.push('');
+    csvRows.push(['Total', '', '', '', '', '', '', '', '', '', '',
+      formatCurrency(valuation.beginningValue),
+      formatCurrency(valuation.endingValue),
+      '',
+      formatCurrency(valuation.costOfGoodsSold),
+      formatCurrency(valuation.grossProfit),
+      '',
+    ].map(escapeCSV).join(','));
+
     const csvContent = csvRows.join('\n');
     const fileUri = getDocumentDirectory() + file;
 
@@ -731,6 +1060,9 @@ export async function exportInventoryLedgerToExcel(
   ledger: InventoryLedger[],
   startDate: Date,
   endDate: Date,
+  method: ValuationMethod,
+  grouping: ProductGrouping = 'none',
+  category: string | null = null,
   filename?: string
 ): Promise<{ success: boolean; error?: string }> {
   try {
@@ -741,33 +1073,92 @@ export async function exportInventoryLedgerToExcel(
     const file = filename || generateFilename('inventory_ledger', '.xlsx');
 
     // Prepare data for Excel matching manual ledger format
-    const excelData = ledger.map((item) => ({
-      'Product': item.name,
-      'ML': item.volume_ml,
-      'Beg Inv': item.beginning_inventory,
-      'Deliveries': item.total_deliveries,
-      'Sales': item.total_sales,
-      'End Inv': item.ending_inventory,
-      'Value': item.inventory_value,
-      'Remarks': '', // Empty remarks column
-    }));
+    // Each group is followed by its subtotal
+    const excelData: Record<string, string | number>[] = [];
+    groupProducts(ledger, grouping).forEach((group) => {
+      group.items.forEach((item) => {
+        excelData.push({
+          'Product': item.name,
+          'Brand': item.brand || '',
+          'Category': item.category || '',
+          'ML': item.volume_ml,
+          'Supplier': item.supplier_name || '',
+          'Beg Inv': item.beginning_inventory,
+          'Deliveries': item.total_deliveries,
+          'Sales': item.total_sales,
+          'Returns': item.total_returns,
+          'Adjustments': item.total_adjustments,
+          'End Inv': item.ending_inventory,
+          'Beg Value': item.beginning_value ?? '',
+          'End Value': item.inventory_value ?? '',
+          'Revenue': item.sales_revenue,
+          'COGS': item.cost_of_goods_sold,
+          'Gross Profit': item.gross_profit ?? '',
+          'Remarks': '', // Empty remarks column
+        });
+      });
+
+      if (grouping !== 'none') {
+        const subtotal = summarizeLedgerGroup(group.items);
+        excelData.push({
+          'Product': `Subtotal: ${group.label}`,
+          'Beg Inv': subtotal.beginningInventory,
+          'Deliveries': subtotal.deliveries,
+          'Sales': subtotal.sales,
+          'Returns': subtotal.returns,
+          'Adjustments': subtotal.adjustments,
+          'End Inv': subtotal.endingInventory,
+          'Beg Value': subtotal.valuation.beginningValue,
+          'End Value': subtotal.valuation.endingValue,
+          'Revenue': subtotal.revenue,
+          'COGS': subtotal.valuation.costOfGoodsSold,
+          'Gross Profit': subtotal.valuation.grossProfit,
+        });
+      }
+    });
+
+    // Value totals at cost
+    const valuation = summarizeLedgerValuation(ledger);
+    excelData.push({
+      'Product': 'Total',
+      'Beg Value': valuation.beginningValue,
+      'End Value': valuation.endingValue,
+      'COGS': valuation.costOfGoodsSold,
+      'Gross Profit': valuation.grossProfit,
+    });
 
     // Create worksheet
     const worksheet = XLSX.utils.json_to_sheet(excelData);
 
     // Add date range header
     XLSX.utils.sheet_add_aoa(worksheet, [[`Period: ${format(startDate, 'MMM dd, yyyy')} - ${format(endDate, 'MMM dd, yyyy')}`]], { origin: 'A1' });
+    XLSX.utils.sheet_add_aoa(worksheet, [[
+      [
+        `Valuation: ${VALUATION_METHOD_LABELS[method]}`,
+        category ? `Category: ${category}` : '',
+        grouping !== 'none' ? `Grouped by: ${PRODUCT_GROUPING_LABELS[grouping]}` : '',
+      ].filter(Boolean).join(' • '),
+    ]], { origin: 'A2' });
     XLSX.utils.sheet_add_json(worksheet, excelData, { origin: 'A3', skipHeader: false });
 
     // Set column widths
     const columnWidths = [
       { wch: 30 }, // Product
+      { wch: 15 }, // Brand
+      { wch: 12 }, // Category
       { wch: 8 },  // ML
+      { wch: 20 }, // Supplier
       { wch: 10 }, // Beg Inv
       { wch: 12 }, // Deliveries
       { wch: 10 }, // Sales
+      { wch: 10 }, // Returns
+      { wch: 12 }, // Adjustments
       { wch: 10 }, // End Inv
-      { wch: 15 }, // Value
+      { wch: 15 }, // Beg Value
+      { wch: 15 }, // End Value
+      { wch: 15 }, // Revenue
+      { wch: 15 }, // COGS
+      { wch: 15 }, // Gross Profit
       { wch: 30 }, // Remarks
     ];
     worksheet['!cols'] = columnWidths;
@@ -806,6 +1197,9 @@ export async function exportInventoryLedgerToPDF(
   ledger: InventoryLedger[],
   startDate: Date,
   endDate: Date,
+  method: ValuationMethod,
+  grouping: ProductGrouping = 'none',
+  category: string | null = null,
   filename?: string
 ): Promise<{ success: boolean; error?: string }> {
   try {
@@ -819,20 +1213,54 @@ export async function exportInventoryLedgerToPDF(
     const totalBegInv = ledger.reduce((sum, item) => sum + item.beginning_inventory, 0);
     const totalDeliveries = ledger.reduce((sum, item) => sum + item.total_deliveries, 0);
     const totalSales = ledger.reduce((sum, item) => sum + item.total_sales, 0);
+    const totalReturns = ledger.reduce((sum, item) => sum + item.total_returns, 0);
+    const totalAdjustments = ledger.reduce((sum, item) => sum + item.total_adjustments, 0);
     const totalEndInv = ledger.reduce((sum, item) => sum + item.ending_inventory, 0);
-    const totalValue = ledger.reduce((sum, item) => sum + item.inventory_value, 0);
+    const valuation = summarizeLedgerValuation(ledger);
 
     // Prepare table data
-    const headers = ['Product', 'ML', 'Beg Inv', 'Deliveries', 'Sales', 'End Inv', 'Value'];
-    const rows = ledger.map((item) => [
-      item.name,
-      String(item.volume_ml),
-      String(item.beginning_inventory),
-      String(item.total_deliveries),
-      String(item.total_sales),
-      String(item.ending_inventory),
-      formatCurrency(item.inventory_value),
-    ]);
+    const headers = ['Product', 'Brand', 'Category', 'ML', 'Supplier', 'Beg Inv', 'Deliveries', 'Sales', 'Returns', 'Adjustments', 'End Inv', 'Beg Value', 'End Value', 'Revenue', 'COGS', 'Gross Profit'];
+    const rows: string[][] = [];
+    groupProducts(ledger, grouping).forEach((group) => {
+      group.items.forEach((item) => {
+        rows.push([
+          item.name,
+          item.brand || '',
+          item.category || '',
+          String(item.volume_ml),
+          item.supplier_name || '',
+          String(item.beginning_inventory),
+          String(item.total_deliveries),
+          String(item.total_sales),
+          String(item.total_returns),
+          String(item.total_adjustments),
+          String(item.ending_inventory),
+          formatOptionalCurrency(item.beginning_value),
+          formatOptionalCurrency(item.inventory_value),
+          formatCurrency(item.sales_revenue),
+          formatCurrency(item.cost_of_goods_sold),
+          formatOptionalCurrency(item.gross_profit),
+        ]);
+      });
+
+      if (grouping !== 'none') {
+        const subtotal = summarizeLedgerGroup(group.items);
+        rows.push([
+          `Subtotal: ${group.label}`, '', '', '', '',
+          String(subtotal.beginningInventory),
+          String(subtotal.deliveries),
+          String(subtotal.sales),
+          String(subtotal.returns),
+          String(subtotal.adjustments),
+          String(subtotal.endingInventory),
+          formatCurrency(subtotal.valuation.beginningValue),
+          formatCurrency(subtotal.valuation.endingValue),
+          formatCurrency(subtotal.revenue),
+          formatCurrency(subtotal.valuation.costOfGoodsSold),
+          formatCurrency(subtotal.valuation.grossProfit),
+        ].map((cell) => (cell ? `<strong>${cell}</strong>` : cell)));
+      }
+    });
 
     const tableHTML = generateHTMLTable(headers, rows);
 
@@ -902,6 +1330,9 @@ export async function exportInventoryLedgerToPDF(
           <h1>Inventory Ledger</h1>
           <div class="date-range">
             Period: ${format(startDate, 'MMMM dd, yyyy')} - ${format(endDate, 'MMMM dd, yyyy')}
+            • Valuation: ${VALUATION_METHOD_LABELS[method]}
+            ${category ? `• Category: ${category}` : ''}
+            ${grouping !== 'none' ? `• Grouped by: ${PRODUCT_GROUPING_LABELS[grouping]}` : ''}
           </div>
           <div class="summary">
             <div class="summary-item">
@@ -916,16 +1347,38 @@ export async function exportInventoryLedgerToPDF(
               <div class="summary-label">Total Sales</div>
               <div class="summary-value">${totalSales.toLocaleString()}</div>
             </div>
+            <div class="summary-item">
+              <div class="summary-label">Total Returns</div>
+              <div class="summary-value">${totalReturns.toLocaleString()}</div>
+            </div>
+            <div class="summary-item">
+              <div class="summary-label">Net Adjustments</div>
+              <div class="summary-value">${totalAdjustments.toLocaleString()}</div>
+            </div>
             <div class="summary-item">
               <div class="summary-label">Ending Inventory</div>
               <div class="summary-value">${totalEndInv.toLocaleString()}</div>
             </div>
             <div class="summary-item">
-              <div class="summary-label">Total Value</div>
-              <div class="summary-value">${formatCurrency(totalValue)}</div>
+              <div class="summary-label">Beginning Value</div>
+              <div class="summary-value">${formatCurrency(valuation.beginningValue)}</div>
+            </div>
+            <div class="summary-item">
+              <div class="summary-label">Ending Value</div>
+              <div class="summary-value">${formatCurrency(valuation.endingValue)}</div>
+            </div>
+            <div class="summary-item">
+              <div class="summary-label">COGS</div>
+              <div class="summary-value">${formatCurrency(valuation.costOfGoodsSold)}</div>
+            </div>
+            <div class="summary-item">
+              <div class="summary-label">Gross Profit</div>
+              <div class="summary-value">${formatCurrency(valuation.grossProfit)}</div>
             </div>
           </div>
           ${tableHTML}
+          ${valuation.unvalued > 0 ? `<p style="color: #6b7280; font-size: 12px;">Stock value is blank for ${valuation.unvalued} product(s) with units of unknown cost.</p>` : ''}
+          ${valuation.uncosted > 0 ? `<p style="color: #6b7280; font-size: 12px;">Gross profit is blank for ${valuation.uncosted} product(s) with sales that have no recorded cost.</p>` : ''}
           <p style="margin-top: 30px; color: #6b7280; font-size: 12px;">
             Generated on ${format(new Date(), 'MMMM dd, yyyy HH:mm')}
           </p>
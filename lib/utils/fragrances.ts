@@ -0,0 +1,86 @@
+import { FragranceConcentration, ProductGrouping } from '@/lib/types';
+
+// Products and ledger rows both carry their fragrance's name and brand
+interface GroupableProduct {
+  name: string;
+  sku: string;
+  fragrance_id: number | null;
+  fragrance_name: string | null;
+  brand: string | null;
+  concentration?: FragranceConcentration | null;
+}
+
+export interface ProductGroup<T> {
+  key: string;
+  label: string;
+  items: T[];
+}
+
+const NO_BRAND = 'No brand';
+
+/**
+ * Display name of a fragrance, e.g. "Dior Sauvage EDT"
+ */
+export function formatFragranceName(fragrance: {
+  name: string;
+  brand: string | null;
+  concentration?: FragranceConcentration | null;
+}): string {
+  return [fragrance.brand, fragrance.name, fragrance.concentration].filter(Boolean).join(' ');
+}
+
+function getGroup(item: GroupableProduct, grouping: ProductGrouping): { key: string; label: string } {
+  if (grouping === 'brand') {
+    const brand = item.brand?.trim();
+    return brand ? { key: `brand:${brand.toLowerCase()}`, label: brand } : { key: 'brand:', label: NO_BRAND };
+  }
+
+  // Products without a fragrance form a group of their own
+  if (item.fragrance_id === null) {
+    return { key: `sku:${item.sku}`, label: item.name };
+  }
+  return {
+    key: `fragrance:${item.fragrance_id}`,
+    label: formatFragranceName({ name: item.fragrance_name || item.name, brand: item.brand, concentration: item.concentration }),
+  };
+}
+
+/**
+ * Splits items into fragrance or brand groups sorted by label, keeping each
+ * group's items in their original order. 'none' returns a single group, or
+ * none at all for an empty list.
+ */
+export function groupProducts<T extends GroupableProduct>(items: T[], grouping: ProductGrouping): ProductGroup<T>[] {
+  if (grouping === 'none') {
+    return items.length > 0 ? [{ key: 'all', label: '', items }] : [];
+  }
+
+  const groups = new Map<string, ProductGroup<T>>();
+  items.forEach((item) => {
+    const { key, label } = getGroup(item, grouping);
+    const group = groups.get(key);
+    if (group) {
+      group.items.push(item);
+    } else {
+      groups.set(key, { key, label, items: [item] });
+    }
+  });
+
+  return Array.from(groups.values()).sort((a, b) => {
+    // Unbranded products go last
+    if (a.label === NO_BRAND || b.label === NO_BRAND) {
+      return a.label === NO_BRAND ? (b.label === NO_BRAND ? 0 : 1) : -1;
+    }
+    return a.label.localeCompare(b.label);
+  });
+}
+
+/**
+ * Case-insensitive match on name, SKU, fragrance or brand
+ */
+export function matchesProductSearch(product: GroupableProduct, query: string): boolean {
+  const q = query.trim().toLowerCase();
+  return [product.name, product.sku, product.fragrance_name, product.brand].some(
+    (value) => value?.toLowerCase().includes(q)
+  );
+}
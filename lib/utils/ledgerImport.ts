@@ -0,0 +1,226 @@
+import { endOfDay, isValid, parse, startOfDay } from 'date-fns';
+import * as XLSX from 'xlsx';
+
+import { CurrentStock } from '@/lib/types';
+import { matchesSku } from '@/lib/utils/barcode';
+import { parseNumberCell } from '@/lib/utils/productImport';
+
+type LedgerColumn = 'product' | 'brand' | 'sku' | 'volume_ml' | 'beginning_inventory' | 'deliveries' | 'sales' | 'ending_inventory';
+
+// Header spellings recognised (compared without spaces, dashes or underscores)
+const LEDGER_HEADERS: Record<LedgerColumn, string[]> = {
+  product: ['product', 'productname', 'item', 'name'],
+  brand: ['brand'],
+  sku: ['sku', 'code', 'itemcode'],
+  volume_ml: ['ml', 'volumeml', 'volume', 'size'],
+  beginning_inventory: ['beginv', 'beginning', 'beginninginventory', 'beginningbalance'],
+  deliveries: ['deliveries', 'delivery', 'received'],
+  sales: ['sales', 'sold'],
+  ending_inventory: ['endinv', 'ending', 'endinginventory', 'endingbalance'],
+};
+
+const REQUIRED_COLUMNS: LedgerColumn[] = ['product', 'volume_ml', 'beginning_inventory', 'deliveries', 'sales', 'ending_inventory'];
+
+// The export puts its title lines and header within the first few rows
+const HEADER_SEARCH_ROWS = 10;
+const PERIOD_PATTERN = /^Period:\s*(.+?)\s+-\s+(.+)$/i;
+const PERIOD_DATE_FORMAT = 'MMM dd, yyyy';
+
+export interface LedgerSheetRow {
+  rowNumber: number;  // Line in the sheet, counting from 1
+  product: string;
+  brand: string | null;
+  sku: string | null;
+  volumeMl: number | undefined;
+  beginningInventory: number | undefined;
+  deliveries: number | undefined;
+  sales: number | undefined;
+  endingInventory: number | undefined;
+}
+
+// One sheet of an inventory ledger export: a period and its product rows
+export interface LedgerSheet {
+  name: string;
+  startDate: Date | null;  // From the "Period:" line; null when the sheet has none
+  endDate: Date | null;
+  rows: LedgerSheetRow[];
+}
+
+export interface LedgerImportLine {
+  rowNumber: number;
+  label: string;  // Product and size as written on the sheet
+  sku: string | null;  // Null when no single product matched
+  beginning_inventory: number;
+  deliveries: number;
+  sales: number;
+  ending_inventory: number;
+  errors: string[];
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[\s_\-()]/g, '');
+}
+
+function normalizeName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function parsePeriod(rows: string[][]): { startDate: Date | null; endDate: Date | null } {
+  for (const row of rows.slice(0, HEADER_SEARCH_ROWS)) {
+    const match = row.map(cell => cell.match(PERIOD_PATTERN)).find(Boolean);
+    if (match) {
+      const start = parse(match[1], PERIOD_DATE_FORMAT, new Date());
+      const end = parse(match[2], PERIOD_DATE_FORMAT, new Date());
+      if (isValid(start) && isValid(end)) {
+        // Whole days, the same bounds the export screen sends to get_inventory_ledger
+        return { startDate: startOfDay(start), endDate: endOfDay(end) };
+      }
+    }
+  }
+
+  return { startDate: null, endDate: null };
+}
+
+/**
+ * Reads every sheet laid out like exportInventoryLedgerToExcel (or its CSV
+ * twin): a header row with at least Product, ML, Beg Inv, Deliveries, Sales
+ * and End Inv, and optionally a "Period: MMM dd, yyyy - MMM dd, yyyy" line.
+ * Subtotal, Total and title rows are skipped. Sheets without a ledger header
+ * are left out.
+ */
+export function parseLedgerFile(data: string, type: 'string' | 'base64'): LedgerSheet[] {
+  const workbook = XLSX.read(data, { type });
+
+  return workbook.SheetNames.flatMap(name => {
+    const table = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], { header: 1, raw: false, defval: '', blankrows: true });
+    const rows = table.map(row => row.map(cell => String(cell ?? '').trim()));
+
+    const headerIndex = rows.slice(0, HEADER_SEARCH_ROWS).findIndex(row => {
+      const headers = row.map(normalizeHeader);
+      return REQUIRED_COLUMNS.every(column => headers.some(header => LEDGER_HEADERS[column].includes(header)));
+    });
+
+    if (headerIndex === -1) {
+      return [];
+    }
+
+    const headers = rows[headerIndex].map(normalizeHeader);
+    const columns: Partial<Record<LedgerColumn, number>> = {};
+    (Object.keys(LEDGER_HEADERS) as LedgerColumn[]).forEach(column => {
+      const index = headers.findIndex(header => LEDGER_HEADERS[column].includes(header));
+      if (index !== -1) {
+        columns[column] = index;
+      }
+    });
+
+    const sheetRows: LedgerSheetRow[] = [];
+    rows.forEach((row, index) => {
+      if (index <= headerIndex) {
+        return;
+      }
+
+      const cell = (column: LedgerColumn) => {
+        const position = columns[column];
+        return position === undefined ? undefined : row[position] || undefined;
+      };
+
+      const product = cell('product') || '';
+      const figures = [cell('volume_ml'), cell('beginning_inventory'), cell('deliveries'), cell('sales'), cell('ending_inventory')];
+
+      // Title lines (Period:, Valuation:) have no figures; subtotals and the total are derived
+      if (figures.every(figure => figure === undefined) || /^subtotal:/i.test(product) || /^total$/i.test(product)) {
+        return;
+      }
+
+      sheetRows.push({
+        rowNumber: index + 1,
+        product,
+        brand: cell('brand') || null,
+        sku: cell('sku')?.toUpperCase() || null,
+        volumeMl: parseNumberCell(cell('volume_ml')),
+        beginningInventory: parseNumberCell(cell('beginning_inventory')),
+        deliveries: parseNumberCell(cell('deliveries')),
+        sales: parseNumberCell(cell('sales')),
+        endingInventory: parseNumberCell(cell('ending_inventory')),
+      });
+    });
+
+    return [{ name, ...parsePeriod(rows), rows: sheetRows }];
+  });
+}
+
+/**
+ * Finds the product behind each sheet row: by SKU when the sheet has one,
+ * otherwise by name and size, narrowed by brand when several match. Pass
+ * archived products too so their history can be brought in. Blank
+ * Deliveries and Sales count as zero; Beg Inv and End Inv must be filled.
+ */
+export function matchLedgerRows(sheet: LedgerSheet, products: CurrentStock[]): LedgerImportLine[] {
+  const firstRowBySku = new Map<string, number>();
+
+  return sheet.rows.map(row => {
+    const errors: string[] = [];
+    const label = `${row.product} ${row.volumeMl ?? '?'}ml`;
+    let sku: string | null = null;
+
+    const count = (value: number | undefined, field: string, required: boolean) => {
+      if (value === undefined) {
+        if (required) {
+          errors.push(`${field} is missing`);
+        }
+        return 0;
+      }
+      if (!Number.isInteger(value) || value < 0) {
+        errors.push(`${field} must be a whole number of zero or more`);
+        return 0;
+      }
+      return value;
+    };
+
+    const line = {
+      beginning_inventory: count(row.beginningInventory, 'Beg Inv', true),
+      deliveries: count(row.deliveries, 'Deliveries', false),
+      sales: count(row.sales, 'Sales', false),
+      ending_inventory: count(row.endingInventory, 'End Inv', true),
+    };
+
+    if (row.sku) {
+      const product = products.find(p => matchesSku(p, row.sku!));
+      if (product) {
+        sku = product.sku;
+      } else {
+        errors.push(`No product with SKU ${row.sku}`);
+      }
+    } else if (!row.product) {
+      errors.push('Product is missing');
+    } else if (row.volumeMl === undefined || !Number.isInteger(row.volumeMl)) {
+      errors.push('ML must be a whole number');
+    } else {
+      let candidates = products.filter(p =>
+        p.volume_ml === row.volumeMl && normalizeName(p.name) === normalizeName(row.product)
+      );
+
+      if (candidates.length > 1 && row.brand) {
+        candidates = candidates.filter(p => normalizeName(p.brand || '') === normalizeName(row.brand!));
+      }
+
+      if (candidates.length === 1) {
+        sku = candidates[0].sku;
+      } else if (candidates.length === 0) {
+        errors.push(`No ${row.volumeMl}ml product named ${row.product}`);
+      } else {
+        errors.push(`Matches several products: ${candidates.map(p => p.sku).join(', ')}; add a SKU column`);
+      }
+    }
+
+    if (sku) {
+      if (firstRowBySku.has(sku)) {
+        errors.push(`Same product as row ${firstRowBySku.get(sku)}`);
+      } else {
+        firstRowBySku.set(sku, row.rowNumber);
+      }
+    }
+
+    return { rowNumber: row.rowNumber, label, sku, ...line, errors };
+  });
+}
@@ -0,0 +1,25 @@
+/**
+ * Whole-centavo arithmetic, so amounts the cart shows round exactly like the
+ * NUMERIC ROUND in the database (half away from zero) instead of drifting with
+ * floating point.
+ */
+
+// Also turns a percent with two decimals into hundredths of a percent (12.5 -> 1250)
+export const toCents = (amount: number) => Math.round(amount * 100);
+
+export const fromCents = (cents: number) => cents / 100;
+
+/**
+ * a * b / divisor rounded half away from zero. Worked out in BigInt so large
+ * sales cannot lose precision in the product.
+ */
+export function mulDivRounded(a: number, b: number, divisor: number): number {
+  const product = BigInt(a) * BigInt(b);
+  const d = BigInt(divisor);
+  const negative = (product < BigInt(0)) !== (d < BigInt(0));
+  const n = product < BigInt(0) ? -product : product;
+  const m = d < BigInt(0) ? -d : d;
+  const quotient = (BigInt(2) * n + m) / (BigInt(2) * m);
+
+  return Number(negative ? -quotient : quotient);
+}
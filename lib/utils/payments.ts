@@ -0,0 +1,37 @@
+import { format } from 'date-fns';
+
+import { TransactionWithItems } from '@/lib/api/transactions';
+import { PaymentMethod } from '@/lib/types';
+
+export interface DailyPaymentTotal {
+  date: string;  // yyyy-MM-dd
+  method: PaymentMethod;
+  count: number;
+  amount: number;
+}
+
+/**
+ * Payment totals per day and method for completed sales, oldest day first
+ */
+export function summarizePaymentsByDay(transactions: TransactionWithItems[]): DailyPaymentTotal[] {
+  const totals = new Map<string, DailyPaymentTotal>();
+
+  transactions.forEach((transaction) => {
+    if (transaction.transaction_type !== 'Sale' || transaction.status !== 'completed') {
+      return;
+    }
+
+    const date = format(new Date(transaction.timestamp), 'yyyy-MM-dd');
+    (transaction.transaction_payment || []).forEach((payment) => {
+      const key = `${date}|${payment.method}`;
+      const total = totals.get(key) || { date, method: payment.method, count: 0, amount: 0 };
+      total.count += 1;
+      total.amount += Number(payment.amount);
+      totals.set(key, total);
+    });
+  });
+
+  return Array.from(totals.values())
+    .map((total) => ({ ...total, amount: Math.round(total.amount * 100) / 100 }))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.method.localeCompare(b.method));
+}
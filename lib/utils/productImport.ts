@@ -0,0 +1,197 @@
+import * as XLSX from 'xlsx';
+
+import { PRODUCT_IMPORT_FIELD_LABELS } from '@/constants/products';
+import { CurrentStock, ProductImportField } from '@/lib/types';
+import { getProductValidationError } from '@/lib/utils/products';
+
+// Column index in the sheet for each mapped field
+export type ImportColumnMapping = Partial<Record<ProductImportField, number>>;
+
+export interface ImportSheet {
+  headers: string[];
+  rows: string[][];
+}
+
+export type ImportRowStatus = 'new' | 'updated' | 'unchanged' | 'invalid';
+
+export interface ImportProductValues {
+  sku: string;
+  name: string;
+  volume_ml: number;
+  price: number;
+  min_stock_threshold: number;
+  description: string | null;
+}
+
+export interface ImportPreviewRow {
+  rowNumber: number;  // Line in the file, counting the header as line 1
+  status: ImportRowStatus;
+  sku: string;
+  values: ImportProductValues | null;  // Null when invalid
+  existing: CurrentStock | null;
+  changes: ProductImportField[];  // Fields that differ from the existing product
+  errors: string[];
+}
+
+const IMPORT_FIELDS = Object.keys(PRODUCT_IMPORT_FIELD_LABELS) as ProductImportField[];
+
+// Header spellings recognised when guessing the mapping (compared without spaces, dashes or underscores)
+const HEADER_ALIASES: Record<ProductImportField, string[]> = {
+  sku: ['sku', 'code', 'itemcode', 'productcode', 'barcode'],
+  name: ['name', 'productname', 'product', 'item', 'itemname'],
+  volume_ml: ['volumeml', 'volume', 'ml', 'size', 'bottlesize'],
+  price: ['price', 'sellingprice', 'srp', 'retailprice', 'unitprice'],
+  min_stock_threshold: ['minstockthreshold', 'minstock', 'reorderlevel', 'reorderpoint', 'threshold'],
+  description: ['description', 'notes', 'details'],
+};
+
+// Matches the product table's column sizes
+const MAX_SKU_LENGTH = 50;
+const MAX_NAME_LENGTH = 255;
+const DEFAULT_MIN_STOCK_THRESHOLD = 5;
+
+/**
+ * Reads the first sheet of a CSV or XLSX file. The first row is the header;
+ * blank rows are dropped and every cell comes back as trimmed text. Pass CSV
+ * files as text so UTF-8 (e.g. ₱) survives; spreadsheets as base64.
+ */
+export function parseImportFile(data: string, type: 'string' | 'base64'): ImportSheet {
+  const workbook = XLSX.read(data, { type });
+  const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+
+  if (!worksheet) {
+    return { headers: [], rows: [] };
+  }
+
+  const table = XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1, raw: false, defval: '', blankrows: false });
+  const [headerRow = [], ...rows] = table.map(row => row.map(cell => String(cell ?? '').trim()));
+
+  return {
+    headers: headerRow,
+    rows: rows.filter(row => row.some(cell => cell !== '')),
+  };
+}
+
+export function guessColumnMapping(headers: string[]): ImportColumnMapping {
+  const normalized = headers.map(header => header.toLowerCase().replace(/[\s_\-()]/g, ''));
+  const mapping: ImportColumnMapping = {};
+
+  IMPORT_FIELDS.forEach(field => {
+    const index = normalized.findIndex(header => HEADER_ALIASES[field].includes(header));
+    if (index !== -1) {
+      mapping[field] = index;
+    }
+  });
+
+  return mapping;
+}
+
+// Accepts "₱1,250.00" and "100ml"; empty cells are undefined, garbage is NaN
+export function parseNumberCell(text: string | undefined): number | undefined {
+  if (text === undefined || text === '') {
+    return undefined;
+  }
+
+  const cleaned = text.replace(/[₱,\s]/g, '').replace(/ml$/i, '');
+  return cleaned === '' || isNaN(Number(cleaned)) ? NaN : Number(cleaned);
+}
+
+/**
+ * Sorts each row into new, updated, unchanged or invalid against the
+ * existing products (pass archived ones too). Empty cells keep the existing
+ * value on updates; new products need a name, volume and price.
+ */
+export function buildImportPreview(
+  sheet: ImportSheet,
+  mapping: ImportColumnMapping,
+  existingProducts: CurrentStock[]
+): ImportPreviewRow[] {
+  const productsBySku = new Map(existingProducts.map(product => [product.sku, product]));
+  const aliasOf = new Map(existingProducts.flatMap(product => product.sku_aliases.map(alias => [alias, product.sku] as const)));
+  const firstRowBySku = new Map<string, number>();
+
+  return sheet.rows.map((row, index) => {
+    const rowNumber = index + 2;
+    const cell = (field: ProductImportField) => {
+      const column = mapping[field];
+      return column === undefined ? undefined : row[column]?.trim() || undefined;
+    };
+
+    const sku = (cell('sku') || '').toUpperCase();
+    const existing = productsBySku.get(sku) || null;
+    const errors: string[] = [];
+
+    if (!sku) {
+      errors.push('SKU is missing');
+    } else if (sku.length > MAX_SKU_LENGTH) {
+      errors.push(`SKU is longer than ${MAX_SKU_LENGTH} characters`);
+    } else if (aliasOf.has(sku)) {
+      errors.push(`${sku} is now ${aliasOf.get(sku)}; use the current SKU`);
+    } else if (firstRowBySku.has(sku)) {
+      errors.push(`Duplicate of row ${firstRowBySku.get(sku)}`);
+    } else {
+      firstRowBySku.set(sku, rowNumber);
+    }
+
+    const volume = parseNumberCell(cell('volume_ml'));
+    const price = parseNumberCell(cell('price'));
+    const threshold = parseNumberCell(cell('min_stock_threshold'));
+    const name = cell('name')?.replace(/\s+/g, ' ');
+
+    if (volume !== undefined && !Number.isInteger(volume)) {
+      errors.push('Volume (ML) must be a whole number');
+    }
+    if (price !== undefined && isNaN(price)) {
+      errors.push('Price must be a number');
+    }
+    if (threshold !== undefined && !Number.isInteger(threshold)) {
+      errors.push('Min stock threshold must be a whole number');
+    }
+    if (name && name.length > MAX_NAME_LENGTH) {
+      errors.push(`Name is longer than ${MAX_NAME_LENGTH} characters`);
+    }
+
+    const values: ImportProductValues = {
+      sku,
+      name: name ?? existing?.name ?? '',
+      volume_ml: volume ?? existing?.volume_ml ?? NaN,
+      price: price ?? existing?.price ?? NaN,
+      min_stock_threshold: threshold ?? existing?.min_stock_threshold ?? DEFAULT_MIN_STOCK_THRESHOLD,
+      description: cell('description') ?? existing?.description ?? null,
+    };
+
+    if (errors.length === 0) {
+      // Same checks as createProduct
+      const validationError = getProductValidationError({ ...values, cost: existing?.cost ?? null });
+      if (validationError) {
+        errors.push(validationError);
+      }
+    }
+
+    if (errors.length > 0) {
+      return { rowNumber, status: 'invalid', sku, values: null, existing, changes: [], errors };
+    }
+
+    const changes = existing
+      ? IMPORT_FIELDS.filter(field => field !== 'sku' && values[field] !== existing[field])
+      : [];
+
+    return {
+      rowNumber,
+      status: !existing ? 'new' : changes.length > 0 ? 'updated' : 'unchanged',
+      sku,
+      values,
+      existing,
+      changes,
+      errors,
+    };
+  });
+}
+
+export function countImportRows(rows: ImportPreviewRow[]): Record<ImportRowStatus, number> {
+  const counts: Record<ImportRowStatus, number> = { new: 0, updated: 0, unchanged: 0, invalid: 0 };
+  rows.forEach(row => {
+    counts[row.status] += 1;
+  });
+  return counts;
+}
@@ -0,0 +1,31 @@
+import { Product } from '@/lib/types';
+
+type ValidatedProductFields = Pick<Product, 'sku' | 'name' | 'volume_ml' | 'price' | 'cost' | 'min_stock_threshold'>;
+
+/**
+ * The checks a new product must pass; returns the first problem found, or
+ * null when the product is valid
+ */
+export function getProductValidationError(product: ValidatedProductFields): string | null {
+  if (!product.sku || !product.name) {
+    return 'SKU and name are required';
+  }
+
+  if (typeof product.volume_ml !== 'number' || isNaN(product.volume_ml) || product.volume_ml <= 0) {
+    return 'Volume (ML) must be a positive number';
+  }
+
+  if (typeof product.price !== 'number' || isNaN(product.price) || product.price < 0) {
+    return 'Price must be a positive number';
+  }
+
+  if (product.cost !== null && (typeof product.cost !== 'number' || isNaN(product.cost) || product.cost < 0)) {
+    return 'Cost must be zero or more';
+  }
+
+  if (typeof product.min_stock_threshold !== 'number' || product.min_stock_threshold < 0) {
+    return 'Min stock threshold must be a positive number';
+  }
+
+  return null;
+}
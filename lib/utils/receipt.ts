@@ -0,0 +1,347 @@
+import { format } from 'date-fns';
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import TcpSocket from 'react-native-tcp-socket';
+
+import { PAYMENT_METHOD_LABELS } from '@/constants/transactions';
+import { getShopSettings } from '@/lib/api/settings';
+import { getTransactionById, TransactionWithItems } from '@/lib/api/transactions';
+import { getUserById } from '@/lib/api/users';
+import { CurrentStock, ShopSettings } from '@/lib/types';
+import { formatDiscount } from '@/lib/utils/discounts';
+import { bytesToBase64, renderEscPosReceipt } from '@/lib/utils/escpos';
+import { formatCurrency, generateFilename, getDocumentDirectory } from '@/lib/utils/exportData';
+
+const PRINTER_TIMEOUT_MS = 10000;
+
+export interface ReceiptData {
+  transaction: TransactionWithItems;
+  settings: ShopSettings | null;
+  cashierName: string | null;
+  products: CurrentStock[];
+}
+
+/**
+ * Loads a sale together with the shop header and the cashier's full name.
+ * Settings and cashier are optional; the receipt prints without them.
+ */
+export async function loadReceiptData(
+  transactionId: number,
+  products: CurrentStock[]
+): Promise<{
+  data: ReceiptData | null;
+  error: any;
+}> {
+  try {
+    const { data: transaction, error } = await getTransactionById(transactionId);
+
+    if (error || !transaction) {
+      return { data: null, error: error || new Error('Transaction not found') };
+    }
+
+    if (transaction.transaction_type !== 'Sale') {
+      return { data: null, error: new Error('Receipts are only available for sales') };
+    }
+
+    const [{ data: settings }, { data: cashier }] = await Promise.all([
+      getShopSettings(),
+      getUserById(transaction.performed_by),
+    ]);
+
+    return {
+      data: { transaction, settings, cashierName: cashier?.full_name || null, products },
+      error: null,
+    };
+  } catch (error) {
+    console.error('Error in loadReceiptData:', error);
+    return { data: null, error };
+  }
+}
+
+export function generateReceiptHTML({ transaction, settings, cashierName, products }: ReceiptData): string {
+  const items = transaction.transaction_item || [];
+  const payments = transaction.transaction_payment || [];
+
+  const subtotal = items.reduce((sum, item) => sum + item.total_amount, 0);
+  const discounts = items.reduce((sum, item) => sum + item.discount_amount, 0) + transaction.discount_amount;
+  const hasVat = items.some((item) => item.gross_amount !== null);
+  const vat = items.reduce((sum, item) => sum + (item.tax_amount ?? 0), 0);
+  const totalDue = hasVat ? items.reduce((sum, item) => sum + (item.gross_amount ?? 0), 0) : subtotal - discounts;
+  const change = payments.reduce((sum, payment) => sum + payment.change_amount, 0);
+
+  const row = (label: string, value: string, className = '') =>
+    `<tr class="${className}"><td>${label}</td><td class="right">${value}</td></tr>`;
+
+  const header = [
+    settings?.shop_name ? `<h1>${settings.shop_name}</h1>` : '',
+    settings?.shop_address ? `<div>${settings.shop_address}</div>` : '',
+    settings?.shop_phone ? `<div>${settings.shop_phone}</div>` : '',
+    settings?.shop_tin ? `<div>TIN: ${settings.shop_tin}</div>` : '',
+  ].join('');
+
+  const customerName = transaction.customer?.name || transaction.customer_name;
+  const meta = [
+    row('Receipt', transaction.reference || `#${transaction.id}`),
+    row('Date', format(new Date(transaction.timestamp), 'MMM dd, yyyy HH:mm')),
+    cashierName ? row('Cashier', cashierName) : '',
+    customerName ? row('Customer', customerName) : '',
+  ].join('');
+
+  const lines = items
+    .map((item) => {
+      const product = products.find((p) => p.sku === item.sku);
+      const name = product ? `${product.name} (${product.volume_ml}ml)` : item.sku;
+      const quantity = Math.abs(item.quantity);
+      const discount =
+        item.discount_type && item.discount_value !== null
+          ? `<div class="muted">${formatDiscount({ type: item.discount_type, value: item.discount_value })} (-${formatCurrency(item.discount_amount)})</div>`
+          : '';
+      return `
+        <tr>
+          <td>
+            <div>${name}</div>
+            <div class="muted">${quantity} × ${formatCurrency(item.unit_price_at_transaction)}</div>
+            ${discount}
+          </td>
+          <td class="right">${formatCurrency(item.total_amount)}</td>
+        </tr>
+      `;
+    })
+    .join('');
+
+  const totals = [
+    discounts > 0 ? row('Subtotal', formatCurrency(subtotal)) : '',
+    transaction.discount_amount > 0 && transaction.discount_type && transaction.discount_value !== null
+      ? row(
+          `Sale discount (${formatDiscount({ type: transaction.discount_type, value: transaction.discount_value })})`,
+          `-${formatCurrency(transaction.discount_amount)}`
+        )
+      : '',
+    discounts > 0 ? row('Total discounts', `-${formatCurrency(discounts)}`) : '',
+    hasVat && vat > 0 ? row(`VAT${settings?.prices_include_vat ? ' (included)' : ''}`, formatCurrency(vat)) : '',
+    row('TOTAL', formatCurrency(totalDue), 'total'),
+  ].join('');
+
+  const paymentRows = [
+    ...payments.map((payment) =>
+      [
+        row(PAYMENT_METHOD_LABELS[payment.method], formatCurrency(Number(payment.amount))),
+        payment.tendered !== null ? row('&nbsp;&nbsp;Tendered', formatCurrency(Number(payment.tendered)), 'muted') : '',
+        payment.reference ? row('&nbsp;&nbsp;Ref', payment.reference, 'muted') : '',
+      ].join('')
+    ),
+    change > 0 ? row('Change', formatCurrency(change)) : '',
+  ].join('');
+
+  return `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1">
+        <style>
+          body {
+            font-family: 'Courier New', monospace;
+            font-size: 12px;
+            color: #111827;
+            max-width: 300px;
+            margin: 0 auto;
+            padding: 16px;
+          }
+          h1 {
+            font-size: 16px;
+            margin: 0 0 4px 0;
+          }
+          table {
+            width: 100%;
+            border-collapse: collapse;
+          }
+          td {
+            padding: 2px 0;
+            vertical-align: top;
+          }
+          .header, .footer {
+            text-align: center;
+          }
+          .right {
+            text-align: right;
+            white-space: nowrap;
+          }
+          .muted {
+            color: #6b7280;
+          }
+          .total td {
+            font-size: 14px;
+            font-weight: bold;
+            padding-top: 4px;
+          }
+          hr {
+            border: none;
+            border-top: 1px dashed #9ca3af;
+            margin: 8px 0;
+          }
+        </style>
+      </head>
+      <body>
+        ${header ? `<div class="header">${header}</div><hr>` : ''}
+        <table>${meta}</table>
+        <hr>
+        <table>${lines}</table>
+        <hr>
+        <table>${totals}</table>
+        ${paymentRows ? `<hr><table>${paymentRows}</table>` : ''}
+        ${transaction.status === 'cancelled' ? '<hr><div class="footer"><strong>CANCELLED</strong></div>' : ''}
+        ${settings?.receipt_footer ? `<hr><div class="footer">${settings.receipt_footer}</div>` : ''}
+      </body>
+    </html>
+  `;
+}
+
+/**
+ * Opens the system print dialog for a sale's receipt
+ */
+export async function printReceipt(
+  transactionId: number,
+  products: CurrentStock[]
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { data, error } = await loadReceiptData(transactionId, products);
+
+    if (error || !data) {
+      return { success: false, error: error?.message || 'Failed to load receipt' };
+    }
+
+    await Print.printAsync({ html: generateReceiptHTML(data) });
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Print receipt error:', error);
+    return { success: false, error: error?.message || 'Failed to print receipt' };
+  }
+}
+
+/**
+ * Saves a sale's receipt as a PDF and opens the share sheet
+ */
+export async function shareReceipt(
+  transactionId: number,
+  products: CurrentStock[]
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { data, error } = await loadReceiptData(transactionId, products);
+
+    if (error || !data) {
+      return { success: false, error: error?.message || 'Failed to load receipt' };
+    }
+
+    const { uri } = await Print.printToFileAsync({ html: generateReceiptHTML(data) });
+
+    const isAvailable = await Sharing.isAvailableAsync();
+    if (isAvailable) {
+      await Sharing.shareAsync(uri, {
+        mimeType: 'application/pdf',
+        dialogTitle: 'Share Receipt',
+      });
+    } else {
+      return { success: false, error: 'Sharing is not available on this device' };
+    }
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Share receipt error:', error);
+    return { success: false, error: error?.message || 'Failed to share receipt' };
+  }
+}
+
+/**
+ * Saves a sale's ESC/POS receipt as a .bin file and opens the share sheet,
+ * for printer apps that accept raw print jobs
+ */
+export async function shareEscPosReceipt(
+  transactionId: number,
+  products: CurrentStock[]
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { data, error } = await loadReceiptData(transactionId, products);
+
+    if (error || !data) {
+      return { success: false, error: error?.message || 'Failed to load receipt' };
+    }
+
+    const bytes = renderEscPosReceipt(data, data.settings?.paper_width);
+    const fileUri = getDocumentDirectory() + generateFilename(`receipt_${data.transaction.reference || data.transaction.id}`, '.bin');
+
+    await FileSystem.writeAsStringAsync(fileUri, bytesToBase64(bytes), {
+      encoding: 'base64' as any,
+    });
+
+    const isAvailable = await Sharing.isAvailableAsync();
+    if (isAvailable) {
+      await Sharing.shareAsync(fileUri, {
+        mimeType: 'application/octet-stream',
+        dialogTitle: 'Share Thermal Receipt',
+      });
+    } else {
+      return { success: false, error: 'Sharing is not available on this device' };
+    }
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Share ESC/POS receipt error:', error);
+    return { success: false, error: error?.message || 'Failed to share thermal receipt' };
+  }
+}
+
+/**
+ * Sends a sale's ESC/POS receipt to the network thermal printer in shop
+ * settings over raw TCP
+ */
+export async function sendReceiptToPrinter(
+  transactionId: number,
+  products: CurrentStock[]
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { data, error } = await loadReceiptData(transactionId, products);
+
+    if (error || !data) {
+      return { success: false, error: error?.message || 'Failed to load receipt' };
+    }
+
+    const host = data.settings?.printer_host;
+    if (!host) {
+      return { success: false, error: 'No thermal printer is set up in Shop Settings' };
+    }
+
+    const bytes = renderEscPosReceipt(data, data.settings?.paper_width);
+    const port = data.settings?.printer_port || 9100;
+
+    await new Promise<void>((resolve, reject) => {
+      const socket = TcpSocket.createConnection({ host, port }, () => {
+        socket.write(bytes, undefined, (writeError) => {
+          if (writeError) {
+            socket.destroy();
+            reject(writeError);
+            return;
+          }
+          socket.end();
+          resolve();
+        });
+      });
+
+      socket.setTimeout(PRINTER_TIMEOUT_MS, () => {
+        socket.destroy();
+        reject(new Error(`Printer at ${host}:${port} did not respond`));
+      });
+      socket.on('error', (socketError) => {
+        socket.destroy();
+        reject(socketError);
+      });
+    });
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Send receipt to printer error:', error);
+    return { success: false, error: error?.message || 'Failed to send receipt to printer' };
+  }
+}
@@ -0,0 +1,106 @@
+import { TransactionWithItems } from '@/lib/api/transactions';
+import { fromCents, mulDivRounded, toCents } from '@/lib/utils/money';
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export interface VatBreakdown {
+  net: number;
+  tax: number;
+  gross: number;
+}
+
+export interface VatLine {
+  amount: number;  // Line total after its own discount
+  rate: number;  // VAT percent; 0 for exempt products
+}
+
+/**
+ * Net, VAT and gross for a whole sale. Mirrors apply_sale_vat line by line:
+ * each line takes its share of the sale discount and is rounded to the
+ * centavo before VAT is split out, so the total matches what the database
+ * expects the payments to add up to.
+ */
+export function calculateSaleVat(lines: VatLine[], saleDiscount: number, pricesIncludeVat: boolean): VatBreakdown {
+  const amounts = lines.map((line) => toCents(line.amount));
+  const subtotal = amounts.reduce((sum, amount) => sum + amount, 0);
+  const discount = toCents(saleDiscount);
+
+  const totals = lines.reduce(
+    (sum, line, index) => {
+      const amount = amounts[index];
+      const paid = subtotal > 0 ? mulDivRounded(amount, subtotal - discount, subtotal) : amount;
+      const rate = toCents(line.rate);
+      const net = pricesIncludeVat ? mulDivRounded(paid, 10000, 10000 + rate) : paid;
+      const gross = pricesIncludeVat ? paid : paid + mulDivRounded(paid, rate, 10000);
+      return { net: sum.net + net, gross: sum.gross + gross };
+    },
+    { net: 0, gross: 0 }
+  );
+
+  return {
+    net: fromCents(totals.net),
+    tax: fromCents(totals.gross - totals.net),
+    gross: fromCents(totals.gross),
+  };
+}
+
+export interface VatSummary {
+  vatableSales: number;  // Net of VAT
+  exemptSales: number;
+  vatAmount: number;
+  grossSales: number;  // Including VAT
+  returnsGross: number;  // Including VAT; already taken off the figures above
+  untracked: number;  // Lines posted before VAT was tracked
+}
+
+/**
+ * VAT totals for completed sales in the given transactions, less returns
+ */
+export function summarizeVat(transactions: TransactionWithItems[]): VatSummary {
+  const summary: VatSummary = {
+    vatableSales: 0,
+    exemptSales: 0,
+    vatAmount: 0,
+    grossSales: 0,
+    returnsGross: 0,
+    untracked: 0,
+  };
+
+  transactions.forEach((transaction) => {
+    if (transaction.status !== 'completed') {
+      return;
+    }
+    if (transaction.transaction_type !== 'Sale' && transaction.transaction_type !== 'Return') {
+      return;
+    }
+
+    const sign = transaction.transaction_type === 'Return' ? -1 : 1;
+
+    (transaction.transaction_item || []).forEach((item) => {
+      if (item.gross_amount === null || item.net_amount === null) {
+        summary.untracked += 1;
+        return;
+      }
+
+      if (item.vat_rate && item.vat_rate > 0) {
+        summary.vatableSales += sign * item.net_amount;
+      } else {
+        summary.exemptSales += sign * item.net_amount;
+      }
+      summary.vatAmount += sign * (item.tax_amount ?? 0);
+      summary.grossSales += sign * item.gross_amount;
+      if (sign < 0) {
+        summary.returnsGross += item.gross_amount;
+      }
+    });
+  });
+
+  return {
+    vatableSales: round2(summary.vatableSales),
+    exemptSales: round2(summary.exemptSales),
+    vatAmount: round2(summary.vatAmount),
+    grossSales: round2(summary.grossSales),
+    returnsGross: round2(summary.returnsGross),
+    untracked: summary.untracked,
+  };
+}
@@ -0,0 +1,119 @@
+-- ============================================================================
+-- Atomic transaction posting
+-- ============================================================================
+-- Description: Adds post_inventory_transaction(), which validates line items,
+--              snapshots unit prices and inserts the header and all lines in a
+--              single database transaction. Replaces the client-side insert
+--              loop that could leave half-posted transactions behind.
+-- Version: 1.0
+-- Date: 2025-01-11
+-- ============================================================================
+
+BEGIN;
+
+-- ----------------------------------------------------------------------------
+-- Post Inventory Transaction Function
+-- ----------------------------------------------------------------------------
+-- Input items: JSON array of { "sku": text, "quantity": integer, "note": text? }
+-- Quantities are normalized by type: positive for Delivery, negative for Sale
+-- Returns the transaction header with a nested transaction_item array,
+-- matching the shape of select('*, transaction_item(*)')
+
+CREATE OR REPLACE FUNCTION post_inventory_transaction(
+  p_transaction_type VARCHAR(20),
+  p_items JSONB,
+  p_reference VARCHAR(100) DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_customer_name VARCHAR(255) DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id VARCHAR(255);
+  v_transaction_id INTEGER;
+  v_item JSONB;
+  v_sku VARCHAR(50);
+  v_quantity INTEGER;
+  v_price DECIMAL(10,2);
+  v_result JSONB;
+BEGIN
+  v_user_id := auth.uid()::text;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to post transactions';
+  END IF;
+
+  IF p_transaction_type NOT IN ('Delivery', 'Sale') THEN
+    RAISE EXCEPTION 'Invalid transaction type. Must be "Delivery" or "Sale"';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one transaction item is required';
+  END IF;
+
+  INSERT INTO inventory_transaction (transaction_type, reference, performed_by, notes, customer_name)
+  VALUES (
+    p_transaction_type,
+    NULLIF(TRIM(p_reference), ''),
+    v_user_id,
+    NULLIF(TRIM(p_notes), ''),
+    NULLIF(TRIM(p_customer_name), '')
+  )
+  RETURNING id INTO v_transaction_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_sku := UPPER(TRIM(v_item->>'sku'));
+
+    IF v_sku IS NULL OR v_sku = '' THEN
+      RAISE EXCEPTION 'Valid SKU is required for all items';
+    END IF;
+
+    IF jsonb_typeof(v_item->'quantity') <> 'number' OR (v_item->>'quantity')::NUMERIC <> TRUNC((v_item->>'quantity')::NUMERIC) THEN
+      RAISE EXCEPTION 'Valid quantity is required for all items (SKU %)', v_sku;
+    END IF;
+
+    v_quantity := (v_item->>'quantity')::INTEGER;
+
+    IF v_quantity = 0 THEN
+      RAISE EXCEPTION 'Valid quantity is required for all items (SKU %)', v_sku;
+    END IF;
+
+    -- Snapshot the current price for historical accuracy
+    SELECT price INTO v_price FROM product WHERE sku = v_sku;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found: %', v_sku;
+    END IF;
+
+    IF p_transaction_type = 'Sale' THEN
+      v_quantity := -ABS(v_quantity);
+    ELSE
+      v_quantity := ABS(v_quantity);
+    END IF;
+
+    INSERT INTO transaction_item (transaction_id, sku, quantity, unit_price_at_transaction, note)
+    VALUES (v_transaction_id, v_sku, v_quantity, v_price, NULLIF(TRIM(v_item->>'note'), ''));
+  END LOOP;
+
+  SELECT to_jsonb(t) || jsonb_build_object(
+    'transaction_item',
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(ti) ORDER BY ti.id)
+       FROM transaction_item ti
+       WHERE ti.transaction_id = t.id),
+      '[]'::jsonb
+    )
+  )
+  INTO v_result
+  FROM inventory_transaction t
+  WHERE t.id = v_transaction_id;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION post_inventory_transaction(VARCHAR, JSONB, VARCHAR, TEXT, VARCHAR) TO authenticated;
+
+COMMENT ON FUNCTION post_inventory_transaction IS 'Validates and posts a transaction header with all line items atomically';
+
+COMMIT;
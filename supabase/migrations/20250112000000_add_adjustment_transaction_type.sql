@@ -0,0 +1,289 @@
+-- ============================================================================
+-- Stock Adjustment transaction type
+-- ============================================================================
+-- Description: Adds 'Adjustment' as a third transaction type for corrections,
+--              damage and shrinkage. Adjustment lines carry signed quantities
+--              and every Adjustment header requires a reason code.
+--              current_stock needs no change: it already sums every completed
+--              line regardless of type.
+-- Version: 1.0
+-- Date: 2025-01-12
+-- ============================================================================
+
+BEGIN;
+
+-- ----------------------------------------------------------------------------
+-- Transaction Type and Reason Code
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE inventory_transaction
+DROP CONSTRAINT IF EXISTS inventory_transaction_transaction_type_check;
+
+ALTER TABLE inventory_transaction
+ADD CONSTRAINT inventory_transaction_transaction_type_check
+CHECK (transaction_type IN ('Delivery', 'Sale', 'Adjustment'));
+
+ALTER TABLE inventory_transaction
+ADD COLUMN adjustment_reason VARCHAR(30)
+CHECK (adjustment_reason IN ('damaged', 'lost', 'tester_opened', 'count_correction'));
+
+-- Adjustments must say why; other types must not carry a reason
+ALTER TABLE inventory_transaction
+ADD CONSTRAINT inventory_transaction_adjustment_reason_check
+CHECK (
+  (transaction_type = 'Adjustment' AND adjustment_reason IS NOT NULL)
+  OR (transaction_type <> 'Adjustment' AND adjustment_reason IS NULL)
+);
+
+-- ----------------------------------------------------------------------------
+-- Validate Transaction Quantity Function
+-- ----------------------------------------------------------------------------
+-- Delivery: positive, Sale: negative, Adjustment: any non-zero (signed)
+
+CREATE OR REPLACE FUNCTION validate_transaction_quantity()
+RETURNS TRIGGER AS $$
+DECLARE
+  trans_type VARCHAR(20);
+BEGIN
+  -- Get transaction type
+  SELECT transaction_type INTO trans_type
+  FROM inventory_transaction
+  WHERE id = NEW.transaction_id;
+
+  -- Validate quantity based on transaction type
+  IF trans_type = 'Delivery' AND NEW.quantity <= 0 THEN
+    RAISE EXCEPTION 'Delivery transactions must have positive quantity';
+  END IF;
+
+  IF trans_type = 'Sale' AND NEW.quantity >= 0 THEN
+    RAISE EXCEPTION 'Sale transactions must have negative quantity';
+  END IF;
+
+  -- Adjustments may go either way; the column CHECK already rejects zero
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ----------------------------------------------------------------------------
+-- Post Inventory Transaction Function
+-- ----------------------------------------------------------------------------
+-- Adds p_adjustment_reason; Adjustment quantities keep the sign they are given
+
+DROP FUNCTION IF EXISTS post_inventory_transaction(VARCHAR, JSONB, VARCHAR, TEXT, VARCHAR);
+
+CREATE OR REPLACE FUNCTION post_inventory_transaction(
+  p_transaction_type VARCHAR(20),
+  p_items JSONB,
+  p_reference VARCHAR(100) DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_customer_name VARCHAR(255) DEFAULT NULL,
+  p_adjustment_reason VARCHAR(30) DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id VARCHAR(255);
+  v_transaction_id INTEGER;
+  v_item JSONB;
+  v_sku VARCHAR(50);
+  v_quantity INTEGER;
+  v_price DECIMAL(10,2);
+  v_result JSONB;
+BEGIN
+  v_user_id := auth.uid()::text;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to post transactions';
+  END IF;
+
+  IF p_transaction_type NOT IN ('Delivery', 'Sale', 'Adjustment') THEN
+    RAISE EXCEPTION 'Invalid transaction type. Must be "Delivery", "Sale" or "Adjustment"';
+  END IF;
+
+  IF p_transaction_type = 'Adjustment' AND p_adjustment_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required for stock adjustments';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one transaction item is required';
+  END IF;
+
+  INSERT INTO inventory_transaction (transaction_type, reference, performed_by, notes, customer_name, adjustment_reason)
+  VALUES (
+    p_transaction_type,
+    NULLIF(TRIM(p_reference), ''),
+    v_user_id,
+    NULLIF(TRIM(p_notes), ''),
+    NULLIF(TRIM(p_customer_name), ''),
+    CASE WHEN p_transaction_type = 'Adjustment' THEN p_adjustment_reason ELSE NULL END
+  )
+  RETURNING id INTO v_transaction_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_sku := UPPER(TRIM(v_item->>'sku'));
+
+    IF v_sku IS NULL OR v_sku = '' THEN
+      RAISE EXCEPTION 'Valid SKU is required for all items';
+    END IF;
+
+    IF jsonb_typeof(v_item->'quantity') <> 'number' OR (v_item->>'quantity')::NUMERIC <> TRUNC((v_item->>'quantity')::NUMERIC) THEN
+      RAISE EXCEPTION 'Valid quantity is required for all items (SKU %)', v_sku;
+    END IF;
+
+    v_quantity := (v_item->>'quantity')::INTEGER;
+
+    IF v_quantity = 0 THEN
+      RAISE EXCEPTION 'Valid quantity is required for all items (SKU %)', v_sku;
+    END IF;
+
+    -- Snapshot the current price for historical accuracy
+    SELECT price INTO v_price FROM product WHERE sku = v_sku;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found: %', v_sku;
+    END IF;
+
+    IF p_transaction_type = 'Sale' THEN
+      v_quantity := -ABS(v_quantity);
+    ELSIF p_transaction_type = 'Delivery' THEN
+      v_quantity := ABS(v_quantity);
+    END IF;
+
+    INSERT INTO transaction_item (transaction_id, sku, quantity, unit_price_at_transaction, note)
+    VALUES (v_transaction_id, v_sku, v_quantity, v_price, NULLIF(TRIM(v_item->>'note'), ''));
+  END LOOP;
+
+  SELECT to_jsonb(t) || jsonb_build_object(
+    'transaction_item',
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(ti) ORDER BY ti.id)
+       FROM transaction_item ti
+       WHERE ti.transaction_id = t.id),
+      '[]'::jsonb
+    )
+  )
+  INTO v_result
+  FROM inventory_transaction t
+  WHERE t.id = v_transaction_id;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION post_inventory_transaction(VARCHAR, JSONB, VARCHAR, TEXT, VARCHAR, VARCHAR) TO authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Get Inventory Ledger Function
+-- ----------------------------------------------------------------------------
+-- Adds total_adjustments (signed net of Adjustment lines in the date range)
+-- Return type changes, so the function has to be dropped first
+
+DROP FUNCTION IF EXISTS get_inventory_ledger(TIMESTAMP, TIMESTAMP);
+
+CREATE OR REPLACE FUNCTION get_inventory_ledger(
+  start_date TIMESTAMP,
+  end_date TIMESTAMP
+)
+RETURNS TABLE (
+  sku VARCHAR(50),
+  name VARCHAR(255),
+  volume_ml INTEGER,
+  price DECIMAL(10,2),
+  beginning_inventory BIGINT,
+  total_deliveries BIGINT,
+  total_sales BIGINT,
+  total_adjustments BIGINT,
+  ending_inventory BIGINT,
+  inventory_value DECIMAL(10,2)
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.sku,
+    p.name,
+    p.volume_ml,
+    p.price,
+    -- Beginning inventory: sum of all transactions before start_date
+    COALESCE(
+      (SELECT SUM(ti_before.quantity)
+       FROM transaction_item ti_before
+       JOIN inventory_transaction t_before ON ti_before.transaction_id = t_before.id
+       WHERE ti_before.sku = p.sku
+         AND t_before.timestamp < start_date
+         AND t_before.status = 'completed'
+      ), 0
+    ) AS beginning_inventory,
+    -- Total deliveries in date range
+    COALESCE(
+      (SELECT SUM(ti_del.quantity)
+       FROM transaction_item ti_del
+       JOIN inventory_transaction t_del ON ti_del.transaction_id = t_del.id
+       WHERE ti_del.sku = p.sku
+         AND t_del.transaction_type = 'Delivery'
+         AND t_del.timestamp >= start_date
+         AND t_del.timestamp <= end_date
+         AND t_del.status = 'completed'
+      ), 0
+    ) AS total_deliveries,
+    -- Total sales in date range (absolute value of negative quantities)
+    COALESCE(
+      ABS(
+        (SELECT SUM(ti_sale.quantity)
+         FROM transaction_item ti_sale
+         JOIN inventory_transaction t_sale ON ti_sale.transaction_id = t_sale.id
+         WHERE ti_sale.sku = p.sku
+           AND t_sale.transaction_type = 'Sale'
+           AND t_sale.timestamp >= start_date
+           AND t_sale.timestamp <= end_date
+           AND t_sale.status = 'completed'
+        )
+      ), 0
+    ) AS total_sales,
+    -- Net adjustments in date range (signed: negative for shrinkage)
+    COALESCE(
+      (SELECT SUM(ti_adj.quantity)
+       FROM transaction_item ti_adj
+       JOIN inventory_transaction t_adj ON ti_adj.transaction_id = t_adj.id
+       WHERE ti_adj.sku = p.sku
+         AND t_adj.transaction_type = 'Adjustment'
+         AND t_adj.timestamp >= start_date
+         AND t_adj.timestamp <= end_date
+         AND t_adj.status = 'completed'
+      ), 0
+    ) AS total_adjustments,
+    -- Ending inventory: sum of all transactions up to end_date
+    COALESCE(
+      (SELECT SUM(ti_end.quantity)
+       FROM transaction_item ti_end
+       JOIN inventory_transaction t_end ON ti_end.transaction_id = t_end.id
+       WHERE ti_end.sku = p.sku
+         AND t_end.timestamp <= end_date
+         AND t_end.status = 'completed'
+      ), 0
+    ) AS ending_inventory,
+    -- Inventory value
+    COALESCE(
+      (SELECT SUM(ti_end.quantity)
+       FROM transaction_item ti_end
+       JOIN inventory_transaction t_end ON ti_end.transaction_id = t_end.id
+       WHERE ti_end.sku = p.sku
+         AND t_end.timestamp <= end_date
+         AND t_end.status = 'completed'
+      ), 0
+    ) * p.price AS inventory_value
+  FROM product p
+  ORDER BY p.name, p.volume_ml;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE inventory_transaction IS 'Transaction headers for Deliveries, Sales and Adjustments';
+COMMENT ON COLUMN inventory_transaction.transaction_type IS 'Delivery (stock in), Sale (stock out) or Adjustment (signed correction)';
+COMMENT ON COLUMN inventory_transaction.adjustment_reason IS 'Required for Adjustments: damaged, lost, tester_opened or count_correction';
+COMMENT ON COLUMN transaction_item.quantity IS 'Positive for Deliveries, negative for Sales, either sign for Adjustments';
+
+COMMIT;
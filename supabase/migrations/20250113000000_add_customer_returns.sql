@@ -0,0 +1,335 @@
+-- ============================================================================
+-- Customer returns linked to the original sale
+-- ============================================================================
+-- Description: Adds the 'Return' transaction type. A Return references the
+--              Sale it came from, restocks the chosen lines at their original
+--              unit price and records the refund amount. Returned quantities
+--              can never exceed what was sold on each line.
+-- Version: 1.0
+-- Date: 2025-01-13
+-- ============================================================================
+
+BEGIN;
+
+-- ----------------------------------------------------------------------------
+-- Schema Changes
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE inventory_transaction
+DROP CONSTRAINT IF EXISTS inventory_transaction_transaction_type_check;
+
+ALTER TABLE inventory_transaction
+ADD CONSTRAINT inventory_transaction_transaction_type_check
+CHECK (transaction_type IN ('Delivery', 'Sale', 'Adjustment', 'Return'));
+
+ALTER TABLE inventory_transaction
+ADD COLUMN original_transaction_id INTEGER REFERENCES inventory_transaction(id) ON DELETE RESTRICT,
+ADD COLUMN refund_amount DECIMAL(10,2) CHECK (refund_amount >= 0);
+
+-- Returns must point at a sale; nothing else may
+ALTER TABLE inventory_transaction
+ADD CONSTRAINT inventory_transaction_return_link_check
+CHECK (
+  (transaction_type = 'Return' AND original_transaction_id IS NOT NULL AND refund_amount IS NOT NULL)
+  OR (transaction_type <> 'Return' AND original_transaction_id IS NULL AND refund_amount IS NULL)
+);
+
+ALTER TABLE transaction_item
+ADD COLUMN original_item_id INTEGER REFERENCES transaction_item(id) ON DELETE RESTRICT;
+
+CREATE INDEX idx_transaction_original_transaction_id ON inventory_transaction(original_transaction_id);
+CREATE INDEX idx_transaction_item_original_item_id ON transaction_item(original_item_id);
+
+-- ----------------------------------------------------------------------------
+-- Validate Transaction Quantity Function
+-- ----------------------------------------------------------------------------
+-- Delivery: positive, Sale: negative, Adjustment: signed, Return: positive
+
+CREATE OR REPLACE FUNCTION validate_transaction_quantity()
+RETURNS TRIGGER AS $$
+DECLARE
+  trans_type VARCHAR(20);
+BEGIN
+  -- Get transaction type
+  SELECT transaction_type INTO trans_type
+  FROM inventory_transaction
+  WHERE id = NEW.transaction_id;
+
+  -- Validate quantity based on transaction type
+  IF trans_type = 'Delivery' AND NEW.quantity <= 0 THEN
+    RAISE EXCEPTION 'Delivery transactions must have positive quantity';
+  END IF;
+
+  IF trans_type = 'Sale' AND NEW.quantity >= 0 THEN
+    RAISE EXCEPTION 'Sale transactions must have negative quantity';
+  END IF;
+
+  IF trans_type = 'Return' AND NEW.quantity <= 0 THEN
+    RAISE EXCEPTION 'Return transactions must have positive quantity';
+  END IF;
+
+  -- Adjustments may go either way; the column CHECK already rejects zero
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ----------------------------------------------------------------------------
+-- Post Return Transaction Function
+-- ----------------------------------------------------------------------------
+-- Input items: JSON array of { "original_item_id": integer, "quantity": integer }
+-- p_refund_amount defaults to the value of the returned lines and may not
+-- exceed it. The original sale row is locked so two concurrent returns of the
+-- same sale cannot both pass the "not more than sold" check.
+
+CREATE OR REPLACE FUNCTION post_return_transaction(
+  p_original_transaction_id INTEGER,
+  p_items JSONB,
+  p_refund_amount DECIMAL(10,2) DEFAULT NULL,
+  p_reference VARCHAR(100) DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id VARCHAR(255);
+  v_original inventory_transaction%ROWTYPE;
+  v_transaction_id INTEGER;
+  v_item JSONB;
+  v_original_item transaction_item%ROWTYPE;
+  v_quantity INTEGER;
+  v_already_returned INTEGER;
+  v_returned_value DECIMAL(10,2) := 0;
+  v_result JSONB;
+BEGIN
+  v_user_id := auth.uid()::text;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to post transactions';
+  END IF;
+
+  SELECT * INTO v_original
+  FROM inventory_transaction
+  WHERE id = p_original_transaction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Original transaction not found: %', p_original_transaction_id;
+  END IF;
+
+  IF v_original.transaction_type <> 'Sale' OR v_original.status <> 'completed' THEN
+    RAISE EXCEPTION 'Only completed sales can be returned';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one returned item is required';
+  END IF;
+
+  -- Refund is filled in after the lines are known
+  INSERT INTO inventory_transaction (
+    transaction_type, reference, performed_by, notes, customer_name,
+    original_transaction_id, refund_amount
+  )
+  VALUES (
+    'Return',
+    NULLIF(TRIM(p_reference), ''),
+    v_user_id,
+    NULLIF(TRIM(p_notes), ''),
+    v_original.customer_name,
+    v_original.id,
+    0
+  )
+  RETURNING id INTO v_transaction_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    SELECT * INTO v_original_item
+    FROM transaction_item
+    WHERE id = (v_item->>'original_item_id')::INTEGER
+      AND transaction_id = v_original.id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item % is not part of sale %', v_item->>'original_item_id', v_original.id;
+    END IF;
+
+    IF jsonb_typeof(v_item->'quantity') <> 'number' OR (v_item->>'quantity')::NUMERIC <> TRUNC((v_item->>'quantity')::NUMERIC) THEN
+      RAISE EXCEPTION 'Valid quantity is required for all items (SKU %)', v_original_item.sku;
+    END IF;
+
+    v_quantity := (v_item->>'quantity')::INTEGER;
+
+    IF v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Returned quantity must be positive (SKU %)', v_original_item.sku;
+    END IF;
+
+    SELECT COALESCE(SUM(ti.quantity), 0) INTO v_already_returned
+    FROM transaction_item ti
+    JOIN inventory_transaction t ON ti.transaction_id = t.id
+    WHERE ti.original_item_id = v_original_item.id
+      AND t.status = 'completed';
+
+    IF v_already_returned + v_quantity > ABS(v_original_item.quantity) THEN
+      RAISE EXCEPTION 'Cannot return % of % (sold %, already returned %)',
+        v_quantity, v_original_item.sku, ABS(v_original_item.quantity), v_already_returned;
+    END IF;
+
+    -- Restock at the price the customer originally paid
+    INSERT INTO transaction_item (transaction_id, sku, quantity, unit_price_at_transaction, original_item_id)
+    VALUES (v_transaction_id, v_original_item.sku, v_quantity, v_original_item.unit_price_at_transaction, v_original_item.id);
+
+    v_returned_value := v_returned_value + v_quantity * v_original_item.unit_price_at_transaction;
+  END LOOP;
+
+  IF p_refund_amount IS NOT NULL AND (p_refund_amount < 0 OR p_refund_amount > v_returned_value) THEN
+    RAISE EXCEPTION 'Refund amount must be between 0 and %', v_returned_value;
+  END IF;
+
+  UPDATE inventory_transaction
+  SET refund_amount = COALESCE(p_refund_amount, v_returned_value)
+  WHERE id = v_transaction_id;
+
+  SELECT to_jsonb(t) || jsonb_build_object(
+    'transaction_item',
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(ti) ORDER BY ti.id)
+       FROM transaction_item ti
+       WHERE ti.transaction_id = t.id),
+      '[]'::jsonb
+    )
+  )
+  INTO v_result
+  FROM inventory_transaction t
+  WHERE t.id = v_transaction_id;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION post_return_transaction(INTEGER, JSONB, DECIMAL, VARCHAR, TEXT) TO authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Get Inventory Ledger Function
+-- ----------------------------------------------------------------------------
+-- Adds total_returns so returns are not netted against deliveries
+
+DROP FUNCTION IF EXISTS get_inventory_ledger(TIMESTAMP, TIMESTAMP);
+
+CREATE OR REPLACE FUNCTION get_inventory_ledger(
+  start_date TIMESTAMP,
+  end_date TIMESTAMP
+)
+RETURNS TABLE (
+  sku VARCHAR(50),
+  name VARCHAR(255),
+  volume_ml INTEGER,
+  price DECIMAL(10,2),
+  beginning_inventory BIGINT,
+  total_deliveries BIGINT,
+  total_sales BIGINT,
+  total_returns BIGINT,
+  total_adjustments BIGINT,
+  ending_inventory BIGINT,
+  inventory_value DECIMAL(10,2)
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.sku,
+    p.name,
+    p.volume_ml,
+    p.price,
+    -- Beginning inventory: sum of all transactions before start_date
+    COALESCE(
+      (SELECT SUM(ti_before.quantity)
+       FROM transaction_item ti_before
+       JOIN inventory_transaction t_before ON ti_before.transaction_id = t_before.id
+       WHERE ti_before.sku = p.sku
+         AND t_before.timestamp < start_date
+         AND t_before.status = 'completed'
+      ), 0
+    ) AS beginning_inventory,
+    -- Total deliveries in date range
+    COALESCE(
+      (SELECT SUM(ti_del.quantity)
+       FROM transaction_item ti_del
+       JOIN inventory_transaction t_del ON ti_del.transaction_id = t_del.id
+       WHERE ti_del.sku = p.sku
+         AND t_del.transaction_type = 'Delivery'
+         AND t_del.timestamp >= start_date
+         AND t_del.timestamp <= end_date
+         AND t_del.status = 'completed'
+      ), 0
+    ) AS total_deliveries,
+    -- Total sales in date range (absolute value of negative quantities)
+    COALESCE(
+      ABS(
+        (SELECT SUM(ti_sale.quantity)
+         FROM transaction_item ti_sale
+         JOIN inventory_transaction t_sale ON ti_sale.transaction_id = t_sale.id
+         WHERE ti_sale.sku = p.sku
+           AND t_sale.transaction_type = 'Sale'
+           AND t_sale.timestamp >= start_date
+           AND t_sale.timestamp <= end_date
+           AND t_sale.status = 'completed'
+        )
+      ), 0
+    ) AS total_sales,
+    -- Customer returns in date range
+    COALESCE(
+      (SELECT SUM(ti_ret.quantity)
+       FROM transaction_item ti_ret
+       JOIN inventory_transaction t_ret ON ti_ret.transaction_id = t_ret.id
+       WHERE ti_ret.sku = p.sku
+         AND t_ret.transaction_type = 'Return'
+         AND t_ret.timestamp >= start_date
+         AND t_ret.timestamp <= end_date
+         AND t_ret.status = 'completed'
+      ), 0
+    ) AS total_returns,
+    -- Net adjustments in date range (signed: negative for shrinkage)
+    COALESCE(
+      (SELECT SUM(ti_adj.quantity)
+       FROM transaction_item ti_adj
+       JOIN inventory_transaction t_adj ON ti_adj.transaction_id = t_adj.id
+       WHERE ti_adj.sku = p.sku
+         AND t_adj.transaction_type = 'Adjustment'
+         AND t_adj.timestamp >= start_date
+         AND t_adj.timestamp <= end_date
+         AND t_adj.status = 'completed'
+      ), 0
+    ) AS total_adjustments,
+    -- Ending inventory: sum of all transactions up to end_date
+    COALESCE(
+      (SELECT SUM(ti_end.quantity)
+       FROM transaction_item ti_end
+       JOIN inventory_transaction t_end ON ti_end.transaction_id = t_end.id
+       WHERE ti_end.sku = p.sku
+         AND t_end.timestamp <= end_date
+         AND t_end.status = 'completed'
+      ), 0
+    ) AS ending_inventory,
+    -- Inventory value
+    COALESCE(
+      (SELECT SUM(ti_end.quantity)
+       FROM transaction_item ti_end
+       JOIN inventory_transaction t_end ON ti_end.transaction_id = t_end.id
+       WHERE ti_end.sku = p.sku
+         AND t_end.timestamp <= end_date
+         AND t_end.status = 'completed'
+      ), 0
+    ) * p.price AS inventory_value
+  FROM product p
+  ORDER BY p.name, p.volume_ml;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE inventory_transaction IS 'Transaction headers for Deliveries, Sales, Adjustments and Returns';
+COMMENT ON COLUMN inventory_transaction.original_transaction_id IS 'For Returns: the Sale being returned';
+COMMENT ON COLUMN inventory_transaction.refund_amount IS 'For Returns: amount refunded to the customer';
+COMMENT ON COLUMN transaction_item.original_item_id IS 'For Return lines: the Sale line being returned';
+COMMENT ON COLUMN transaction_item.quantity IS 'Positive for Deliveries and Returns, negative for Sales, either sign for Adjustments';
+
+COMMIT;
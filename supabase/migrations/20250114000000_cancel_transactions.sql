@@ -0,0 +1,140 @@
+-- ============================================================================
+-- Cancel (void) transactions
+-- ============================================================================
+-- Description: Records who cancelled a transaction, when and why, and adds
+--              cancel_inventory_transaction() to flip a completed transaction
+--              to 'cancelled'. current_stock and get_inventory_ledger only
+--              count completed rows, so a cancelled entry simply drops out of
+--              stock and ledger totals instead of needing an opposite entry.
+-- Version: 1.0
+-- Date: 2025-01-14
+-- ============================================================================
+
+BEGIN;
+
+-- ----------------------------------------------------------------------------
+-- Schema Changes
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE inventory_transaction
+ADD COLUMN cancelled_by VARCHAR(255) REFERENCES "user"(id) ON DELETE RESTRICT,
+ADD COLUMN cancelled_at TIMESTAMP,
+ADD COLUMN cancel_reason TEXT;
+
+-- A cancelled transaction always carries its audit trail; nothing else may
+ALTER TABLE inventory_transaction
+ADD CONSTRAINT inventory_transaction_cancel_audit_check
+CHECK (
+  (status = 'cancelled' AND cancelled_by IS NOT NULL AND cancelled_at IS NOT NULL AND cancel_reason IS NOT NULL)
+  OR (status <> 'cancelled' AND cancelled_by IS NULL AND cancelled_at IS NULL AND cancel_reason IS NULL)
+);
+
+-- ----------------------------------------------------------------------------
+-- Current Stock View
+-- ----------------------------------------------------------------------------
+-- The status filter moves into the SUM: as a WHERE clause it drops any
+-- product whose only lines are on cancelled transactions.
+
+CREATE OR REPLACE VIEW current_stock AS
+SELECT
+  p.sku,
+  p.name,
+  p.volume_ml,
+  p.price,
+  p.min_stock_threshold,
+  p.description,
+  COALESCE(SUM(ti.quantity) FILTER (WHERE t.status = 'completed'), 0) AS quantity_on_hand,
+  COALESCE(SUM(ti.quantity) FILTER (WHERE t.status = 'completed'), 0) * p.price AS total_value,
+  p.created_at,
+  p.updated_at
+FROM product p
+LEFT JOIN transaction_item ti ON p.sku = ti.sku
+LEFT JOIN inventory_transaction t ON ti.transaction_id = t.id
+GROUP BY p.sku, p.name, p.volume_ml, p.price, p.min_stock_threshold, p.description, p.created_at, p.updated_at;
+
+-- ----------------------------------------------------------------------------
+-- Cancel Inventory Transaction Function
+-- ----------------------------------------------------------------------------
+-- Only completed transactions can be cancelled. A Sale with completed Returns
+-- against it must have those Returns cancelled first, otherwise the returned
+-- units would be restocked without ever having left.
+
+CREATE OR REPLACE FUNCTION cancel_inventory_transaction(
+  p_transaction_id INTEGER,
+  p_reason TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id VARCHAR(255);
+  v_transaction inventory_transaction%ROWTYPE;
+  v_result JSONB;
+BEGIN
+  v_user_id := auth.uid()::text;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to cancel transactions';
+  END IF;
+
+  IF p_reason IS NULL OR LENGTH(TRIM(p_reason)) = 0 THEN
+    RAISE EXCEPTION 'A reason is required to cancel a transaction';
+  END IF;
+
+  SELECT * INTO v_transaction
+  FROM inventory_transaction
+  WHERE id = p_transaction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found: %', p_transaction_id;
+  END IF;
+
+  IF v_transaction.status <> 'completed' THEN
+    RAISE EXCEPTION 'Only completed transactions can be cancelled (transaction % is %)',
+      p_transaction_id, v_transaction.status;
+  END IF;
+
+  IF v_transaction.transaction_type = 'Sale' AND EXISTS (
+    SELECT 1
+    FROM inventory_transaction r
+    WHERE r.original_transaction_id = v_transaction.id
+      AND r.transaction_type = 'Return'
+      AND r.status = 'completed'
+  ) THEN
+    RAISE EXCEPTION 'Sale % has returns recorded against it; cancel those returns first', p_transaction_id;
+  END IF;
+
+  UPDATE inventory_transaction
+  SET status = 'cancelled',
+      cancelled_by = v_user_id,
+      cancelled_at = NOW(),
+      cancel_reason = TRIM(p_reason)
+  WHERE id = p_transaction_id;
+
+  SELECT to_jsonb(t) || jsonb_build_object(
+    'transaction_item',
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(ti) ORDER BY ti.id)
+       FROM transaction_item ti
+       WHERE ti.transaction_id = t.id),
+      '[]'::jsonb
+    )
+  )
+  INTO v_result
+  FROM inventory_transaction t
+  WHERE t.id = p_transaction_id;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION cancel_inventory_transaction(INTEGER, TEXT) TO authenticated;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN inventory_transaction.cancelled_by IS 'User who cancelled the transaction';
+COMMENT ON COLUMN inventory_transaction.cancelled_at IS 'When the transaction was cancelled';
+COMMENT ON COLUMN inventory_transaction.cancel_reason IS 'Why the transaction was cancelled';
+
+COMMIT;
@@ -0,0 +1,397 @@
+-- ============================================================================
+-- Prevent overselling
+-- ============================================================================
+-- Description: Sales are rejected when they would take any SKU below zero
+--              on hand. Product rows are locked while stock is checked so two
+--              phones selling the last unit at the same time cannot both
+--              succeed. Cancelling a transaction that added stock is checked
+--              the same way. Owners may explicitly override the check with a
+--              note, so this also introduces user roles ('owner' / 'staff').
+-- Version: 1.0
+-- Date: 2025-01-15
+-- ============================================================================
+
+BEGIN;
+
+-- ----------------------------------------------------------------------------
+-- Schema Changes
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE "user"
+ADD COLUMN role VARCHAR(20) NOT NULL DEFAULT 'staff' CHECK (role IN ('owner', 'staff'));
+
+-- The account that set the shop up becomes its first owner
+UPDATE "user"
+SET role = 'owner'
+WHERE id = (SELECT id FROM "user" ORDER BY created_at ASC LIMIT 1);
+
+ALTER TABLE inventory_transaction
+ADD COLUMN stock_override_note TEXT;
+
+-- ----------------------------------------------------------------------------
+-- Is Owner Function
+-- ----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION is_owner()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM "user"
+    WHERE id = auth.uid()::text
+      AND role = 'owner'
+      AND is_active = TRUE
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION is_owner() TO authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Protect User Role Function
+-- ----------------------------------------------------------------------------
+-- Users may update their own record, so without this anyone could promote
+-- themselves. Only owners can grant or change roles; the very first owner can
+-- be created while the shop has none. Calls without a session (SQL editor,
+-- service role) are not restricted.
+
+CREATE OR REPLACE FUNCTION protect_user_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.role IS NOT DISTINCT FROM OLD.role THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.role = 'staff' THEN
+    RETURN NEW;
+  END IF;
+
+  IF is_owner() OR NOT EXISTS (SELECT 1 FROM "user" WHERE role = 'owner') THEN
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'Only owners can change user roles';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER protect_user_role_trigger
+BEFORE INSERT OR UPDATE ON "user"
+FOR EACH ROW
+EXECUTE FUNCTION protect_user_role();
+
+-- ----------------------------------------------------------------------------
+-- Post Inventory Transaction Function
+-- ----------------------------------------------------------------------------
+-- Adds p_override_stock / p_override_note. For Sales, every product in the
+-- cart is locked (in SKU order, so concurrent carts cannot deadlock) before
+-- on-hand is read; the lock is held until the sale commits. All shortages are
+-- reported together. The error carries HINT 'insufficient_stock' so the app
+-- can offer owners the override.
+
+DROP FUNCTION IF EXISTS post_inventory_transaction(VARCHAR, JSONB, VARCHAR, TEXT, VARCHAR, VARCHAR);
+
+CREATE OR REPLACE FUNCTION post_inventory_transaction(
+  p_transaction_type VARCHAR(20),
+  p_items JSONB,
+  p_reference VARCHAR(100) DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_customer_name VARCHAR(255) DEFAULT NULL,
+  p_adjustment_reason VARCHAR(30) DEFAULT NULL,
+  p_override_stock BOOLEAN DEFAULT FALSE,
+  p_override_note TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id VARCHAR(255);
+  v_transaction_id INTEGER;
+  v_item JSONB;
+  v_sku VARCHAR(50);
+  v_quantity INTEGER;
+  v_price DECIMAL(10,2);
+  v_shortage RECORD;
+  v_shortages TEXT := '';
+  v_result JSONB;
+BEGIN
+  v_user_id := auth.uid()::text;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to post transactions';
+  END IF;
+
+  IF p_transaction_type NOT IN ('Delivery', 'Sale', 'Adjustment') THEN
+    RAISE EXCEPTION 'Invalid transaction type. Must be "Delivery", "Sale" or "Adjustment"';
+  END IF;
+
+  IF p_transaction_type = 'Adjustment' AND p_adjustment_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required for stock adjustments';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one transaction item is required';
+  END IF;
+
+  IF p_override_stock THEN
+    IF NOT is_owner() THEN
+      RAISE EXCEPTION 'Only owners can override the stock check';
+    END IF;
+
+    IF p_override_note IS NULL OR LENGTH(TRIM(p_override_note)) = 0 THEN
+      RAISE EXCEPTION 'A note is required to override the stock check';
+    END IF;
+  END IF;
+
+  IF p_transaction_type = 'Sale' THEN
+    PERFORM 1
+    FROM product p
+    WHERE p.sku IN (SELECT UPPER(TRIM(i->>'sku')) FROM jsonb_array_elements(p_items) i)
+    ORDER BY p.sku
+    FOR UPDATE;
+
+    FOR v_shortage IN
+      SELECT
+        req.sku,
+        req.requested,
+        COALESCE((
+          SELECT SUM(ti.quantity)
+          FROM transaction_item ti
+          JOIN inventory_transaction t ON ti.transaction_id = t.id
+          WHERE ti.sku = req.sku
+            AND t.status = 'completed'
+        ), 0) AS available
+      FROM (
+        SELECT UPPER(TRIM(i->>'sku')) AS sku, SUM(ABS((i->>'quantity')::NUMERIC))::INTEGER AS requested
+        FROM jsonb_array_elements(p_items) i
+        WHERE jsonb_typeof(i->'quantity') = 'number'
+        GROUP BY UPPER(TRIM(i->>'sku'))
+      ) req
+      ORDER BY req.sku
+    LOOP
+      IF v_shortage.requested > v_shortage.available THEN
+        v_shortages := v_shortages || CASE WHEN v_shortages = '' THEN '' ELSE '; ' END ||
+          format('%s (requested %s, available %s)', v_shortage.sku, v_shortage.requested, GREATEST(v_shortage.available, 0));
+      END IF;
+    END LOOP;
+
+    IF v_shortages <> '' AND NOT p_override_stock THEN
+      RAISE EXCEPTION 'Insufficient stock: %', v_shortages
+        USING HINT = 'insufficient_stock';
+    END IF;
+  END IF;
+
+  INSERT INTO inventory_transaction (transaction_type, reference, performed_by, notes, customer_name, adjustment_reason, stock_override_note)
+  VALUES (
+    p_transaction_type,
+    NULLIF(TRIM(p_reference), ''),
+    v_user_id,
+    NULLIF(TRIM(p_notes), ''),
+    NULLIF(TRIM(p_customer_name), ''),
+    CASE WHEN p_transaction_type = 'Adjustment' THEN p_adjustment_reason ELSE NULL END,
+    -- Only kept when the override was actually needed
+    CASE WHEN v_shortages <> '' THEN TRIM(p_override_note) ELSE NULL END
+  )
+  RETURNING id INTO v_transaction_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_sku := UPPER(TRIM(v_item->>'sku'));
+
+    IF v_sku IS NULL OR v_sku = '' THEN
+      RAISE EXCEPTION 'Valid SKU is required for all items';
+    END IF;
+
+    IF jsonb_typeof(v_item->'quantity') <> 'number' OR (v_item->>'quantity')::NUMERIC <> TRUNC((v_item->>'quantity')::NUMERIC) THEN
+      RAISE EXCEPTION 'Valid quantity is required for all items (SKU %)', v_sku;
+    END IF;
+
+    v_quantity := (v_item->>'quantity')::INTEGER;
+
+    IF v_quantity = 0 THEN
+      RAISE EXCEPTION 'Valid quantity is required for all items (SKU %)', v_sku;
+    END IF;
+
+    -- Snapshot the current price for historical accuracy
+    SELECT price INTO v_price FROM product WHERE sku = v_sku;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found: %', v_sku;
+    END IF;
+
+    IF p_transaction_type = 'Sale' THEN
+      v_quantity := -ABS(v_quantity);
+    ELSIF p_transaction_type = 'Delivery' THEN
+      v_quantity := ABS(v_quantity);
+    END IF;
+
+    INSERT INTO transaction_item (transaction_id, sku, quantity, unit_price_at_transaction, note)
+    VALUES (v_transaction_id, v_sku, v_quantity, v_price, NULLIF(TRIM(v_item->>'note'), ''));
+  END LOOP;
+
+  SELECT to_jsonb(t) || jsonb_build_object(
+    'transaction_item',
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(ti) ORDER BY ti.id)
+       FROM transaction_item ti
+       WHERE ti.transaction_id = t.id),
+      '[]'::jsonb
+    )
+  )
+  INTO v_result
+  FROM inventory_transaction t
+  WHERE t.id = v_transaction_id;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION post_inventory_transaction(VARCHAR, JSONB, VARCHAR, TEXT, VARCHAR, VARCHAR, BOOLEAN, TEXT) TO authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Cancel Inventory Transaction Function
+-- ----------------------------------------------------------------------------
+-- Adds p_override_stock / p_override_note. Cancelling a transaction that added
+-- stock (a Delivery, Return or positive Adjustment) takes those units back off
+-- hand, so it is checked like a Sale: the products are locked and no SKU may
+-- go below zero unless an owner overrides it with a note. Every later point
+-- of the SKU's history loses those units too, so the check is against the
+-- lowest running balance from the cancelled transaction onward, not just
+-- today's stock.
+
+DROP FUNCTION IF EXISTS cancel_inventory_transaction(INTEGER, TEXT);
+
+CREATE OR REPLACE FUNCTION cancel_inventory_transaction(
+  p_transaction_id INTEGER,
+  p_reason TEXT,
+  p_override_stock BOOLEAN DEFAULT FALSE,
+  p_override_note TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id VARCHAR(255);
+  v_transaction inventory_transaction%ROWTYPE;
+  v_shortage RECORD;
+  v_shortages TEXT := '';
+  v_result JSONB;
+BEGIN
+  v_user_id := auth.uid()::text;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to cancel transactions';
+  END IF;
+
+  IF p_reason IS NULL OR LENGTH(TRIM(p_reason)) = 0 THEN
+    RAISE EXCEPTION 'A reason is required to cancel a transaction';
+  END IF;
+
+  IF p_override_stock THEN
+    IF NOT is_owner() THEN
+      RAISE EXCEPTION 'Only owners can override the stock check';
+    END IF;
+
+    IF p_override_note IS NULL OR LENGTH(TRIM(p_override_note)) = 0 THEN
+      RAISE EXCEPTION 'A note is required to override the stock check';
+    END IF;
+  END IF;
+
+  SELECT * INTO v_transaction
+  FROM inventory_transaction
+  WHERE id = p_transaction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found: %', p_transaction_id;
+  END IF;
+
+  IF v_transaction.status <> 'completed' THEN
+    RAISE EXCEPTION 'Only completed transactions can be cancelled (transaction % is %)',
+      p_transaction_id, v_transaction.status;
+  END IF;
+
+  IF v_transaction.transaction_type = 'Sale' AND EXISTS (
+    SELECT 1
+    FROM inventory_transaction r
+    WHERE r.original_transaction_id = v_transaction.id
+      AND r.transaction_type = 'Return'
+      AND r.status = 'completed'
+  ) THEN
+    RAISE EXCEPTION 'Sale % has returns recorded against it; cancel those returns first', p_transaction_id;
+  END IF;
+
+  PERFORM 1
+  FROM product p
+  WHERE p.sku IN (SELECT ti.sku FROM transaction_item ti WHERE ti.transaction_id = p_transaction_id AND ti.quantity > 0)
+  ORDER BY p.sku
+  FOR UPDATE;
+
+  FOR v_shortage IN
+    SELECT
+      req.sku,
+      req.removed,
+      COALESCE((
+        SELECT MIN(b.balance)
+        FROM (
+          SELECT t.timestamp, ti.id,
+            SUM(ti.quantity) OVER (ORDER BY t.timestamp, ti.id) AS balance
+          FROM transaction_item ti
+          JOIN inventory_transaction t ON ti.transaction_id = t.id
+          WHERE ti.sku = req.sku
+            AND t.status = 'completed'
+        ) b
+        WHERE (b.timestamp, b.id) >= (v_transaction.timestamp, req.first_item_id)
+      ), 0) AS available
+    FROM (
+      SELECT ti.sku, SUM(ti.quantity)::INTEGER AS removed, MIN(ti.id) AS first_item_id
+      FROM transaction_item ti
+      WHERE ti.transaction_id = p_transaction_id
+      GROUP BY ti.sku
+      HAVING SUM(ti.quantity) > 0
+    ) req
+    ORDER BY req.sku
+  LOOP
+    IF v_shortage.removed > v_shortage.available THEN
+      v_shortages := v_shortages || CASE WHEN v_shortages = '' THEN '' ELSE '; ' END ||
+        format('%s (cancelling %s, available %s)', v_shortage.sku, v_shortage.removed, GREATEST(v_shortage.available, 0));
+    END IF;
+  END LOOP;
+
+  IF v_shortages <> '' AND NOT p_override_stock THEN
+    RAISE EXCEPTION 'Insufficient stock: %', v_shortages
+      USING HINT = 'insufficient_stock';
+  END IF;
+
+  UPDATE inventory_transaction
+  SET status = 'cancelled',
+      cancelled_by = v_user_id,
+      cancelled_at = NOW(),
+      cancel_reason = TRIM(p_reason),
+      -- Only kept when the override was actually needed
+      stock_override_note = CASE WHEN v_shortages <> '' THEN TRIM(p_override_note) ELSE stock_override_note END
+  WHERE id = p_transaction_id;
+
+  SELECT to_jsonb(t) || jsonb_build_object(
+    'transaction_item',
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(ti) ORDER BY ti.id)
+       FROM transaction_item ti
+       WHERE ti.transaction_id = t.id),
+      '[]'::jsonb
+    )
+  )
+  INTO v_result
+  FROM inventory_transaction t
+  WHERE t.id = p_transaction_id;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION cancel_inventory_transaction(INTEGER, TEXT, BOOLEAN, TEXT) TO authenticated;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN "user".role IS 'owner: may override stock checks and manage roles; staff: everyone else';
+COMMENT ON COLUMN inventory_transaction.stock_override_note IS 'Owner''s note when a Sale was posted, or a stock-adding transaction cancelled, beyond available stock';
+
+COMMIT;
@@ -0,0 +1,309 @@
+-- ============================================================================
+-- Purchase orders and receiving
+-- ============================================================================
+-- Description: A purchase order is a Delivery header in 'pending' status whose
+--              lines are the expected SKUs and quantities. Pending rows never
+--              count toward stock. Receiving posts a separate completed
+--              Delivery linked back to the PO (and each line to the ordered
+--              line), so a shipment can arrive in several parts. The PO stays
+--              pending until everything is received or it is closed short.
+-- Version: 1.0
+-- Date: 2025-01-16
+-- ============================================================================
+
+BEGIN;
+
+-- ----------------------------------------------------------------------------
+-- Schema Changes
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE inventory_transaction
+ADD COLUMN purchase_order_id INTEGER REFERENCES inventory_transaction(id) ON DELETE RESTRICT,
+ADD COLUMN supplier_name VARCHAR(255),
+ADD COLUMN expected_date DATE,
+ADD COLUMN closed_at TIMESTAMP;
+
+-- Only Deliveries are ordered from or received against a purchase order
+ALTER TABLE inventory_transaction
+ADD CONSTRAINT inventory_transaction_purchase_order_check
+CHECK (
+  transaction_type = 'Delivery'
+  OR (purchase_order_id IS NULL AND supplier_name IS NULL AND expected_date IS NULL AND closed_at IS NULL)
+);
+
+ALTER TABLE transaction_item
+ADD COLUMN ordered_item_id INTEGER REFERENCES transaction_item(id) ON DELETE RESTRICT;
+
+CREATE INDEX idx_transaction_purchase_order_id ON inventory_transaction(purchase_order_id);
+CREATE INDEX idx_transaction_item_ordered_item_id ON transaction_item(ordered_item_id);
+
+-- ----------------------------------------------------------------------------
+-- Purchase Order Line View
+-- ----------------------------------------------------------------------------
+-- Ordered vs received per PO line. Only completed receipts count.
+
+CREATE OR REPLACE VIEW purchase_order_line AS
+SELECT
+  po.id AS purchase_order_id,
+  poi.id AS ordered_item_id,
+  poi.sku,
+  poi.quantity AS ordered_quantity,
+  COALESCE(SUM(ri.quantity) FILTER (WHERE r.status = 'completed'), 0) AS received_quantity
+FROM inventory_transaction po
+JOIN transaction_item poi ON poi.transaction_id = po.id
+LEFT JOIN transaction_item ri ON ri.ordered_item_id = poi.id
+LEFT JOIN inventory_transaction r ON ri.transaction_id = r.id
+WHERE po.transaction_type = 'Delivery'
+  AND po.status = 'pending'
+GROUP BY po.id, poi.id, poi.sku, poi.quantity;
+
+-- ----------------------------------------------------------------------------
+-- Create Purchase Order Function
+-- ----------------------------------------------------------------------------
+-- Input items: JSON array of { "sku": string, "quantity": integer }
+
+CREATE OR REPLACE FUNCTION create_purchase_order(
+  p_supplier_name VARCHAR(255),
+  p_items JSONB,
+  p_expected_date DATE DEFAULT NULL,
+  p_reference VARCHAR(100) DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id VARCHAR(255);
+  v_purchase_order_id INTEGER;
+  v_item JSONB;
+  v_sku VARCHAR(50);
+  v_quantity INTEGER;
+  v_price DECIMAL(10,2);
+  v_result JSONB;
+BEGIN
+  v_user_id := auth.uid()::text;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to create purchase orders';
+  END IF;
+
+  IF p_supplier_name IS NULL OR LENGTH(TRIM(p_supplier_name)) = 0 THEN
+    RAISE EXCEPTION 'Supplier is required';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one item is required';
+  END IF;
+
+  INSERT INTO inventory_transaction (transaction_type, status, reference, performed_by, notes, supplier_name, expected_date)
+  VALUES (
+    'Delivery',
+    'pending',
+    NULLIF(TRIM(p_reference), ''),
+    v_user_id,
+    NULLIF(TRIM(p_notes), ''),
+    TRIM(p_supplier_name),
+    p_expected_date
+  )
+  RETURNING id INTO v_purchase_order_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_sku := UPPER(TRIM(v_item->>'sku'));
+
+    IF v_sku IS NULL OR v_sku = '' THEN
+      RAISE EXCEPTION 'Valid SKU is required for all items';
+    END IF;
+
+    IF jsonb_typeof(v_item->'quantity') <> 'number' OR (v_item->>'quantity')::NUMERIC <> TRUNC((v_item->>'quantity')::NUMERIC) THEN
+      RAISE EXCEPTION 'Valid quantity is required for all items (SKU %)', v_sku;
+    END IF;
+
+    v_quantity := (v_item->>'quantity')::INTEGER;
+
+    IF v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Ordered quantity must be positive (SKU %)', v_sku;
+    END IF;
+
+    SELECT price INTO v_price FROM product WHERE sku = v_sku;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found: %', v_sku;
+    END IF;
+
+    INSERT INTO transaction_item (transaction_id, sku, quantity, unit_price_at_transaction)
+    VALUES (v_purchase_order_id, v_sku, v_quantity, v_price);
+  END LOOP;
+
+  SELECT to_jsonb(t) || jsonb_build_object(
+    'transaction_item',
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(ti) ORDER BY ti.id)
+       FROM transaction_item ti
+       WHERE ti.transaction_id = t.id),
+      '[]'::jsonb
+    )
+  )
+  INTO v_result
+  FROM inventory_transaction t
+  WHERE t.id = v_purchase_order_id;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION create_purchase_order(VARCHAR, JSONB, DATE, VARCHAR, TEXT) TO authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Receive Purchase Order Function
+-- ----------------------------------------------------------------------------
+-- Input items: JSON array of { "ordered_item_id": integer, "quantity": integer }
+-- Receiving more than ordered is allowed (suppliers do send extras) and shows
+-- up as a discrepancy. The PO row is locked so two receipts cannot interleave.
+-- The PO closes itself once every line is fully received, or when p_close is set.
+
+CREATE OR REPLACE FUNCTION receive_purchase_order(
+  p_purchase_order_id INTEGER,
+  p_items JSONB,
+  p_reference VARCHAR(100) DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_close BOOLEAN DEFAULT FALSE
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id VARCHAR(255);
+  v_purchase_order inventory_transaction%ROWTYPE;
+  v_transaction_id INTEGER;
+  v_item JSONB;
+  v_ordered_item transaction_item%ROWTYPE;
+  v_quantity INTEGER;
+  v_result JSONB;
+BEGIN
+  v_user_id := auth.uid()::text;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to post transactions';
+  END IF;
+
+  SELECT * INTO v_purchase_order
+  FROM inventory_transaction
+  WHERE id = p_purchase_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_purchase_order.transaction_type <> 'Delivery' OR v_purchase_order.status <> 'pending' THEN
+    RAISE EXCEPTION 'Purchase order not found: %', p_purchase_order_id;
+  END IF;
+
+  IF v_purchase_order.closed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Purchase order % is already closed', p_purchase_order_id;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one received item is required';
+  END IF;
+
+  INSERT INTO inventory_transaction (transaction_type, reference, performed_by, notes, purchase_order_id, supplier_name)
+  VALUES (
+    'Delivery',
+    NULLIF(TRIM(p_reference), ''),
+    v_user_id,
+    NULLIF(TRIM(p_notes), ''),
+    v_purchase_order.id,
+    v_purchase_order.supplier_name
+  )
+  RETURNING id INTO v_transaction_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    SELECT * INTO v_ordered_item
+    FROM transaction_item
+    WHERE id = (v_item->>'ordered_item_id')::INTEGER
+      AND transaction_id = v_purchase_order.id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item % is not part of purchase order %', v_item->>'ordered_item_id', v_purchase_order.id;
+    END IF;
+
+    IF jsonb_typeof(v_item->'quantity') <> 'number' OR (v_item->>'quantity')::NUMERIC <> TRUNC((v_item->>'quantity')::NUMERIC) THEN
+      RAISE EXCEPTION 'Valid quantity is required for all items (SKU %)', v_ordered_item.sku;
+    END IF;
+
+    v_quantity := (v_item->>'quantity')::INTEGER;
+
+    IF v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Received quantity must be positive (SKU %)', v_ordered_item.sku;
+    END IF;
+
+    INSERT INTO transaction_item (transaction_id, sku, quantity, unit_price_at_transaction, ordered_item_id)
+    VALUES (v_transaction_id, v_ordered_item.sku, v_quantity, v_ordered_item.unit_price_at_transaction, v_ordered_item.id);
+  END LOOP;
+
+  IF p_close OR NOT EXISTS (
+    SELECT 1
+    FROM purchase_order_line l
+    WHERE l.purchase_order_id = v_purchase_order.id
+      AND l.received_quantity < l.ordered_quantity
+  ) THEN
+    UPDATE inventory_transaction
+    SET closed_at = NOW()
+    WHERE id = v_purchase_order.id;
+  END IF;
+
+  SELECT to_jsonb(t) || jsonb_build_object(
+    'transaction_item',
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(ti) ORDER BY ti.id)
+       FROM transaction_item ti
+       WHERE ti.transaction_id = t.id),
+      '[]'::jsonb
+    )
+  )
+  INTO v_result
+  FROM inventory_transaction t
+  WHERE t.id = v_transaction_id;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION receive_purchase_order(INTEGER, JSONB, VARCHAR, TEXT, BOOLEAN) TO authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Close Purchase Order Function
+-- ----------------------------------------------------------------------------
+-- Closes a PO short when the rest is never coming
+
+CREATE OR REPLACE FUNCTION close_purchase_order(
+  p_purchase_order_id INTEGER
+)
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to close purchase orders';
+  END IF;
+
+  UPDATE inventory_transaction
+  SET closed_at = NOW()
+  WHERE id = p_purchase_order_id
+    AND transaction_type = 'Delivery'
+    AND status = 'pending'
+    AND closed_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Open purchase order not found: %', p_purchase_order_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION close_purchase_order(INTEGER) TO authenticated;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON VIEW purchase_order_line IS 'Ordered vs received quantity for every purchase order line';
+COMMENT ON COLUMN inventory_transaction.purchase_order_id IS 'For Deliveries received against a purchase order: the PO';
+COMMENT ON COLUMN inventory_transaction.supplier_name IS 'Supplier the PO was placed with (copied onto its receipts)';
+COMMENT ON COLUMN inventory_transaction.expected_date IS 'For purchase orders: when the shipment is expected';
+COMMENT ON COLUMN inventory_transaction.closed_at IS 'For purchase orders: when it was fully received or closed short';
+COMMENT ON COLUMN transaction_item.ordered_item_id IS 'For received lines: the purchase order line being received';
+
+COMMIT;
@@ -0,0 +1,685 @@
+-- ============================================================================
+-- Suppliers
+-- ============================================================================
+-- Description: Adds supplier master data (name, contact, terms, notes),
+--              per-product supplier SKU / cost mappings and a preferred
+--              supplier on each product. Deliveries and purchase orders now
+--              point at a supplier row instead of free text; existing
+--              purchase order supplier names are migrated into suppliers.
+--              The ledger gains the preferred supplier and a supplier filter.
+-- Version: 1.0
+-- Date: 2025-01-17
+-- ============================================================================
+
+BEGIN;
+
+-- ----------------------------------------------------------------------------
+-- Supplier Table
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE supplier (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(255) UNIQUE NOT NULL,
+  contact_person VARCHAR(255),
+  phone VARCHAR(50),
+  email VARCHAR(255),
+  payment_terms VARCHAR(100),  -- e.g. 'COD', 'Net 30'
+  notes TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TRIGGER update_supplier_updated_at
+  BEFORE UPDATE ON supplier
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ----------------------------------------------------------------------------
+-- Product Supplier Table
+-- ----------------------------------------------------------------------------
+-- Which suppliers carry a product, under what code and at what cost
+
+CREATE TABLE product_supplier (
+  product_sku VARCHAR(50) NOT NULL REFERENCES product(sku) ON DELETE CASCADE,
+  supplier_id INTEGER NOT NULL REFERENCES supplier(id) ON DELETE CASCADE,
+  supplier_sku VARCHAR(100),
+  unit_cost DECIMAL(10,2) CHECK (unit_cost >= 0),
+  created_at TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY (product_sku, supplier_id)
+);
+
+CREATE INDEX idx_product_supplier_supplier_id ON product_supplier(supplier_id);
+
+-- ----------------------------------------------------------------------------
+-- Schema Changes
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE product
+ADD COLUMN preferred_supplier_id INTEGER REFERENCES supplier(id) ON DELETE SET NULL;
+
+ALTER TABLE inventory_transaction
+ADD COLUMN supplier_id INTEGER REFERENCES supplier(id) ON DELETE RESTRICT;
+
+CREATE INDEX idx_transaction_supplier_id ON inventory_transaction(supplier_id);
+
+-- Move purchase order supplier names into supplier rows
+INSERT INTO supplier (name)
+SELECT DISTINCT TRIM(supplier_name)
+FROM inventory_transaction
+WHERE supplier_name IS NOT NULL AND TRIM(supplier_name) <> ''
+ON CONFLICT (name) DO NOTHING;
+
+UPDATE inventory_transaction t
+SET supplier_id = s.id
+FROM supplier s
+WHERE s.name = TRIM(t.supplier_name);
+
+ALTER TABLE inventory_transaction
+DROP CONSTRAINT IF EXISTS inventory_transaction_purchase_order_check;
+
+ALTER TABLE inventory_transaction
+DROP COLUMN supplier_name;
+
+-- Only Deliveries (and purchase orders, which are pending Deliveries) carry a supplier
+ALTER TABLE inventory_transaction
+ADD CONSTRAINT inventory_transaction_purchase_order_check
+CHECK (
+  transaction_type = 'Delivery'
+  OR (purchase_order_id IS NULL AND supplier_id IS NULL AND expected_date IS NULL AND closed_at IS NULL)
+);
+
+-- ----------------------------------------------------------------------------
+-- Current Stock View
+-- ----------------------------------------------------------------------------
+-- Exposes preferred_supplier_id (new columns can only be appended)
+
+CREATE OR REPLACE VIEW current_stock AS
+SELECT
+  p.sku,
+  p.name,
+  p.volume_ml,
+  p.price,
+  p.min_stock_threshold,
+  p.description,
+  COALESCE(SUM(ti.quantity) FILTER (WHERE t.status = 'completed'), 0) AS quantity_on_hand,
+  COALESCE(SUM(ti.quantity) FILTER (WHERE t.status = 'completed'), 0) * p.price AS total_value,
+  p.created_at,
+  p.updated_at,
+  p.preferred_supplier_id
+FROM product p
+LEFT JOIN transaction_item ti ON p.sku = ti.sku
+LEFT JOIN inventory_transaction t ON ti.transaction_id = t.id
+GROUP BY p.sku, p.name, p.volume_ml, p.price, p.min_stock_threshold, p.description, p.created_at, p.updated_at, p.preferred_supplier_id;
+
+-- ----------------------------------------------------------------------------
+-- Row Level Security
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE supplier ENABLE ROW LEVEL SECURITY;
+ALTER TABLE product_supplier ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view suppliers"
+ON supplier FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Users can insert suppliers"
+ON supplier FOR INSERT
+TO authenticated
+WITH CHECK (true);
+
+CREATE POLICY "Users can update suppliers"
+ON supplier FOR UPDATE
+TO authenticated
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Users can delete suppliers"
+ON supplier FOR DELETE
+TO authenticated
+USING (true);
+
+CREATE POLICY "Users can view product suppliers"
+ON product_supplier FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Users can insert product suppliers"
+ON product_supplier FOR INSERT
+TO authenticated
+WITH CHECK (true);
+
+CREATE POLICY "Users can update product suppliers"
+ON product_supplier FOR UPDATE
+TO authenticated
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Users can delete product suppliers"
+ON product_supplier FOR DELETE
+TO authenticated
+USING (true);
+
+-- ----------------------------------------------------------------------------
+-- Post Inventory Transaction Function
+-- ----------------------------------------------------------------------------
+-- Adds p_supplier_id for Deliveries
+
+DROP FUNCTION IF EXISTS post_inventory_transaction(VARCHAR, JSONB, VARCHAR, TEXT, VARCHAR, VARCHAR, BOOLEAN, TEXT);
+
+CREATE OR REPLACE FUNCTION post_inventory_transaction(
+  p_transaction_type VARCHAR(20),
+  p_items JSONB,
+  p_reference VARCHAR(100) DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_customer_name VARCHAR(255) DEFAULT NULL,
+  p_adjustment_reason VARCHAR(30) DEFAULT NULL,
+  p_override_stock BOOLEAN DEFAULT FALSE,
+  p_override_note TEXT DEFAULT NULL,
+  p_supplier_id INTEGER DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id VARCHAR(255);
+  v_transaction_id INTEGER;
+  v_item JSONB;
+  v_sku VARCHAR(50);
+  v_quantity INTEGER;
+  v_price DECIMAL(10,2);
+  v_shortage RECORD;
+  v_shortages TEXT := '';
+  v_result JSONB;
+BEGIN
+  v_user_id := auth.uid()::text;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to post transactions';
+  END IF;
+
+  IF p_transaction_type NOT IN ('Delivery', 'Sale', 'Adjustment') THEN
+    RAISE EXCEPTION 'Invalid transaction type. Must be "Delivery", "Sale" or "Adjustment"';
+  END IF;
+
+  IF p_transaction_type = 'Adjustment' AND p_adjustment_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required for stock adjustments';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one transaction item is required';
+  END IF;
+
+  IF p_supplier_id IS NOT NULL AND p_transaction_type <> 'Delivery' THEN
+    RAISE EXCEPTION 'Only deliveries can have a supplier';
+  END IF;
+
+  IF p_override_stock THEN
+    IF NOT is_owner() THEN
+      RAISE EXCEPTION 'Only owners can override the stock check';
+    END IF;
+
+    IF p_override_note IS NULL OR LENGTH(TRIM(p_override_note)) = 0 THEN
+      RAISE EXCEPTION 'A note is required to override the stock check';
+    END IF;
+  END IF;
+
+  IF p_transaction_type = 'Sale' THEN
+    PERFORM 1
+    FROM product p
+    WHERE p.sku IN (SELECT UPPER(TRIM(i->>'sku')) FROM jsonb_array_elements(p_items) i)
+    ORDER BY p.sku
+    FOR UPDATE;
+
+    FOR v_shortage IN
+      SELECT
+        req.sku,
+        req.requested,
+        COALESCE((
+          SELECT SUM(ti.quantity)
+          FROM transaction_item ti
+          JOIN inventory_transaction t ON ti.transaction_id = t.id
+          WHERE ti.sku = req.sku
+            AND t.status = 'completed'
+        ), 0) AS available
+      FROM (
+        SELECT UPPER(TRIM(i->>'sku')) AS sku, SUM(ABS((i->>'quantity')::NUMERIC))::INTEGER AS requested
+        FROM jsonb_array_elements(p_items) i
+        WHERE jsonb_typeof(i->'quantity') = 'number'
+        GROUP BY UPPER(TRIM(i->>'sku'))
+      ) req
+      ORDER BY req.sku
+    LOOP
+      IF v_shortage.requested > v_shortage.available THEN
+        v_shortages := v_shortages || CASE WHEN v_shortages = '' THEN '' ELSE '; ' END ||
+          format('%s (requested %s, available %s)', v_shortage.sku, v_shortage.requested, GREATEST(v_shortage.available, 0));
+      END IF;
+    END LOOP;
+
+    IF v_shortages <> '' AND NOT p_override_stock THEN
+      RAISE EXCEPTION 'Insufficient stock: %', v_shortages
+        USING HINT = 'insufficient_stock';
+    END IF;
+  END IF;
+
+  INSERT INTO inventory_transaction (transaction_type, reference, performed_by, notes, customer_name, adjustment_reason, stock_override_note, supplier_id)
+  VALUES (
+    p_transaction_type,
+    NULLIF(TRIM(p_reference), ''),
+    v_user_id,
+    NULLIF(TRIM(p_notes), ''),
+    NULLIF(TRIM(p_customer_name), ''),
+    CASE WHEN p_transaction_type = 'Adjustment' THEN p_adjustment_reason ELSE NULL END,
+    -- Only kept when the override was actually needed
+    CASE WHEN v_shortages <> '' THEN TRIM(p_override_note) ELSE NULL END,
+    p_supplier_id
+  )
+  RETURNING id INTO v_transaction_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_sku := UPPER(TRIM(v_item->>'sku'));
+
+    IF v_sku IS NULL OR v_sku = '' THEN
+      RAISE EXCEPTION 'Valid SKU is required for all items';
+    END IF;
+
+    IF jsonb_typeof(v_item->'quantity') <> 'number' OR (v_item->>'quantity')::NUMERIC <> TRUNC((v_item->>'quantity')::NUMERIC) THEN
+      RAISE EXCEPTION 'Valid quantity is required for all items (SKU %)', v_sku;
+    END IF;
+
+    v_quantity := (v_item->>'quantity')::INTEGER;
+
+    IF v_quantity = 0 THEN
+      RAISE EXCEPTION 'Valid quantity is required for all items (SKU %)', v_sku;
+    END IF;
+
+    -- Snapshot the current price for historical accuracy
+    SELECT price INTO v_price FROM product WHERE sku = v_sku;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found: %', v_sku;
+    END IF;
+
+    IF p_transaction_type = 'Sale' THEN
+      v_quantity := -ABS(v_quantity);
+    ELSIF p_transaction_type = 'Delivery' THEN
+      v_quantity := ABS(v_quantity);
+    END IF;
+
+    INSERT INTO transaction_item (transaction_id, sku, quantity, unit_price_at_transaction, note)
+    VALUES (v_transaction_id, v_sku, v_quantity, v_price, NULLIF(TRIM(v_item->>'note'), ''));
+  END LOOP;
+
+  SELECT to_jsonb(t) || jsonb_build_object(
+    'transaction_item',
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(ti) ORDER BY ti.id)
+       FROM transaction_item ti
+       WHERE ti.transaction_id = t.id),
+      '[]'::jsonb
+    )
+  )
+  INTO v_result
+  FROM inventory_transaction t
+  WHERE t.id = v_transaction_id;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION post_inventory_transaction(VARCHAR, JSONB, VARCHAR, TEXT, VARCHAR, VARCHAR, BOOLEAN, TEXT, INTEGER) TO authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Create Purchase Order Function
+-- ----------------------------------------------------------------------------
+-- Takes a supplier id instead of a free-text name
+
+DROP FUNCTION IF EXISTS create_purchase_order(VARCHAR, JSONB, DATE, VARCHAR, TEXT);
+
+CREATE OR REPLACE FUNCTION create_purchase_order(
+  p_supplier_id INTEGER,
+  p_items JSONB,
+  p_expected_date DATE DEFAULT NULL,
+  p_reference VARCHAR(100) DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id VARCHAR(255);
+  v_purchase_order_id INTEGER;
+  v_item JSONB;
+  v_sku VARCHAR(50);
+  v_quantity INTEGER;
+  v_price DECIMAL(10,2);
+  v_result JSONB;
+BEGIN
+  v_user_id := auth.uid()::text;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to create purchase orders';
+  END IF;
+
+  IF p_supplier_id IS NULL THEN
+    RAISE EXCEPTION 'Supplier is required';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one item is required';
+  END IF;
+
+  INSERT INTO inventory_transaction (transaction_type, status, reference, performed_by, notes, supplier_id, expected_date)
+  VALUES (
+    'Delivery',
+    'pending',
+    NULLIF(TRIM(p_reference), ''),
+    v_user_id,
+    NULLIF(TRIM(p_notes), ''),
+    p_supplier_id,
+    p_expected_date
+  )
+  RETURNING id INTO v_purchase_order_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_sku := UPPER(TRIM(v_item->>'sku'));
+
+    IF v_sku IS NULL OR v_sku = '' THEN
+      RAISE EXCEPTION 'Valid SKU is required for all items';
+    END IF;
+
+    IF jsonb_typeof(v_item->'quantity') <> 'number' OR (v_item->>'quantity')::NUMERIC <> TRUNC((v_item->>'quantity')::NUMERIC) THEN
+      RAISE EXCEPTION 'Valid quantity is required for all items (SKU %)', v_sku;
+    END IF;
+
+    v_quantity := (v_item->>'quantity')::INTEGER;
+
+    IF v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Ordered quantity must be positive (SKU %)', v_sku;
+    END IF;
+
+    SELECT price INTO v_price FROM product WHERE sku = v_sku;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found: %', v_sku;
+    END IF;
+
+    INSERT INTO transaction_item (transaction_id, sku, quantity, unit_price_at_transaction)
+    VALUES (v_purchase_order_id, v_sku, v_quantity, v_price);
+  END LOOP;
+
+  SELECT to_jsonb(t) || jsonb_build_object(
+    'transaction_item',
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(ti) ORDER BY ti.id)
+       FROM transaction_item ti
+       WHERE ti.transaction_id = t.id),
+      '[]'::jsonb
+    )
+  )
+  INTO v_result
+  FROM inventory_transaction t
+  WHERE t.id = v_purchase_order_id;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION create_purchase_order(INTEGER, JSONB, DATE, VARCHAR, TEXT) TO authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Receive Purchase Order Function
+-- ----------------------------------------------------------------------------
+-- Receipts copy the PO's supplier_id
+
+CREATE OR REPLACE FUNCTION receive_purchase_order(
+  p_purchase_order_id INTEGER,
+  p_items JSONB,
+  p_reference VARCHAR(100) DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_close BOOLEAN DEFAULT FALSE
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id VARCHAR(255);
+  v_purchase_order inventory_transaction%ROWTYPE;
+  v_transaction_id INTEGER;
+  v_item JSONB;
+  v_ordered_item transaction_item%ROWTYPE;
+  v_quantity INTEGER;
+  v_result JSONB;
+BEGIN
+  v_user_id := auth.uid()::text;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to post transactions';
+  END IF;
+
+  SELECT * INTO v_purchase_order
+  FROM inventory_transaction
+  WHERE id = p_purchase_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_purchase_order.transaction_type <> 'Delivery' OR v_purchase_order.status <> 'pending' THEN
+    RAISE EXCEPTION 'Purchase order not found: %', p_purchase_order_id;
+  END IF;
+
+  IF v_purchase_order.closed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Purchase order % is already closed', p_purchase_order_id;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one received item is required';
+  END IF;
+
+  INSERT INTO inventory_transaction (transaction_type, reference, performed_by, notes, purchase_order_id, supplier_id)
+  VALUES (
+    'Delivery',
+    NULLIF(TRIM(p_reference), ''),
+    v_user_id,
+    NULLIF(TRIM(p_notes), ''),
+    v_purchase_order.id,
+    v_purchase_order.supplier_id
+  )
+  RETURNING id INTO v_transaction_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    SELECT * INTO v_ordered_item
+    FROM transaction_item
+    WHERE id = (v_item->>'ordered_item_id')::INTEGER
+      AND transaction_id = v_purchase_order.id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item % is not part of purchase order %', v_item->>'ordered_item_id', v_purchase_order.id;
+    END IF;
+
+    IF jsonb_typeof(v_item->'quantity') <> 'number' OR (v_item->>'quantity')::NUMERIC <> TRUNC((v_item->>'quantity')::NUMERIC) THEN
+      RAISE EXCEPTION 'Valid quantity is required for all items (SKU %)', v_ordered_item.sku;
+    END IF;
+
+    v_quantity := (v_item->>'quantity')::INTEGER;
+
+    IF v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Received quantity must be positive (SKU %)', v_ordered_item.sku;
+    END IF;
+
+    INSERT INTO transaction_item (transaction_id, sku, quantity, unit_price_at_transaction, ordered_item_id)
+    VALUES (v_transaction_id, v_ordered_item.sku, v_quantity, v_ordered_item.unit_price_at_transaction, v_ordered_item.id);
+  END LOOP;
+
+  IF p_close OR NOT EXISTS (
+    SELECT 1
+    FROM purchase_order_line l
+    WHERE l.purchase_order_id = v_purchase_order.id
+      AND l.received_quantity < l.ordered_quantity
+  ) THEN
+    UPDATE inventory_transaction
+    SET closed_at = NOW()
+    WHERE id = v_purchase_order.id;
+  END IF;
+
+  SELECT to_jsonb(t) || jsonb_build_object(
+    'transaction_item',
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(ti) ORDER BY ti.id)
+       FROM transaction_item ti
+       WHERE ti.transaction_id = t.id),
+      '[]'::jsonb
+    )
+  )
+  INTO v_result
+  FROM inventory_transaction t
+  WHERE t.id = v_transaction_id;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ----------------------------------------------------------------------------
+-- Get Inventory Ledger Function
+-- ----------------------------------------------------------------------------
+-- Adds supplier_name (preferred supplier) and an optional supplier filter:
+-- products the supplier is preferred for, carries, or delivered in the range.
+-- Totals are never narrowed, so each row still reconciles.
+
+DROP FUNCTION IF EXISTS get_inventory_ledger(TIMESTAMP, TIMESTAMP);
+
+CREATE OR REPLACE FUNCTION get_inventory_ledger(
+  start_date TIMESTAMP,
+  end_date TIMESTAMP,
+  p_supplier_id INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+  sku VARCHAR(50),
+  name VARCHAR(255),
+  volume_ml INTEGER,
+  price DECIMAL(10,2),
+  supplier_name VARCHAR(255),
+  beginning_inventory BIGINT,
+  total_deliveries BIGINT,
+  total_sales BIGINT,
+  total_returns BIGINT,
+  total_adjustments BIGINT,
+  ending_inventory BIGINT,
+  inventory_value DECIMAL(10,2)
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.sku,
+    p.name,
+    p.volume_ml,
+    p.price,
+    s.name AS supplier_name,
+    -- Beginning inventory: sum of all transactions before start_date
+    COALESCE(
+      (SELECT SUM(ti_before.quantity)
+       FROM transaction_item ti_before
+       JOIN inventory_transaction t_before ON ti_before.transaction_id = t_before.id
+       WHERE ti_before.sku = p.sku
+         AND t_before.timestamp < start_date
+         AND t_before.status = 'completed'
+      ), 0
+    ) AS beginning_inventory,
+    -- Total deliveries in date range
+    COALESCE(
+      (SELECT SUM(ti_del.quantity)
+       FROM transaction_item ti_del
+       JOIN inventory_transaction t_del ON ti_del.transaction_id = t_del.id
+       WHERE ti_del.sku = p.sku
+         AND t_del.transaction_type = 'Delivery'
+         AND t_del.timestamp >= start_date
+         AND t_del.timestamp <= end_date
+         AND t_del.status = 'completed'
+      ), 0
+    ) AS total_deliveries,
+    -- Total sales in date range (absolute value of negative quantities)
+    COALESCE(
+      ABS(
+        (SELECT SUM(ti_sale.quantity)
+         FROM transaction_item ti_sale
+         JOIN inventory_transaction t_sale ON ti_sale.transaction_id = t_sale.id
+         WHERE ti_sale.sku = p.sku
+           AND t_sale.transaction_type = 'Sale'
+           AND t_sale.timestamp >= start_date
+           AND t_sale.timestamp <= end_date
+           AND t_sale.status = 'completed'
+        )
+      ), 0
+    ) AS total_sales,
+    -- Customer returns in date range
+    COALESCE(
+      (SELECT SUM(ti_ret.quantity)
+       FROM transaction_item ti_ret
+       JOIN inventory_transaction t_ret ON ti_ret.transaction_id = t_ret.id
+       WHERE ti_ret.sku = p.sku
+         AND t_ret.transaction_type = 'Return'
+         AND t_ret.timestamp >= start_date
+         AND t_ret.timestamp <= end_date
+         AND t_ret.status = 'completed'
+      ), 0
+    ) AS total_returns,
+    -- Net adjustments in date range (signed: negative for shrinkage)
+    COALESCE(
+      (SELECT SUM(ti_adj.quantity)
+       FROM transaction_item ti_adj
+       JOIN inventory_transaction t_adj ON ti_adj.transaction_id = t_adj.id
+       WHERE ti_adj.sku = p.sku
+         AND t_adj.transaction_type = 'Adjustment'
+         AND t_adj.timestamp >= start_date
+         AND t_adj.timestamp <= end_date
+         AND t_adj.status = 'completed'
+      ), 0
+    ) AS total_adjustments,
+    -- Ending inventory: sum of all transactions up to end_date
+    COALESCE(
+      (SELECT SUM(ti_end.quantity)
+       FROM transaction_item ti_end
+       JOIN inventory_transaction t_end ON ti_end.transaction_id = t_end.id
+       WHERE ti_end.sku = p.sku
+         AND t_end.timestamp <= end_date
+         AND t_end.status = 'completed'
+      ), 0
+    ) AS ending_inventory,
+    -- Inventory value
+    COALESCE(
+      (SELECT SUM(ti_end.quantity)
+       FROM transaction_item ti_end
+       JOIN inventory_transaction t_end ON ti_end.transaction_id = t_end.id
+       WHERE ti_end.sku = p.sku
+         AND t_end.timestamp <= end_date
+         AND t_end.status = 'completed'
+      ), 0
+    ) * p.price AS inventory_value
+  FROM product p
+  LEFT JOIN supplier s ON s.id = p.preferred_supplier_id
+  WHERE p_supplier_id IS NULL
+     OR p.preferred_supplier_id = p_supplier_id
+     OR EXISTS (
+       SELECT 1 FROM product_supplier ps
+       WHERE ps.product_sku = p.sku AND ps.supplier_id = p_supplier_id
+     )
+     OR EXISTS (
+       SELECT 1
+       FROM transaction_item ti_sup
+       JOIN inventory_transaction t_sup ON ti_sup.transaction_id = t_sup.id
+       WHERE ti_sup.sku = p.sku
+         AND t_sup.supplier_id = p_supplier_id
+         AND t_sup.transaction_type = 'Delivery'
+         AND t_sup.timestamp >= start_date
+         AND t_sup.timestamp <= end_date
+         AND t_sup.status = 'completed'
+     )
+  ORDER BY p.name, p.volume_ml;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE supplier IS 'Suppliers that deliveries and purchase orders are placed with';
+COMMENT ON TABLE product_supplier IS 'Supplier-specific SKU and unit cost for each product';
+COMMENT ON COLUMN product.preferred_supplier_id IS 'Supplier normally ordered from';
+COMMENT ON COLUMN inventory_transaction.supplier_id IS 'For Deliveries and purchase orders: the supplier';
+
+COMMIT;
@@ -0,0 +1,490 @@
+-- ============================================================================
+-- Customers
+-- ============================================================================
+-- Description: Replaces the free-text customer_name on sales with customer
+--              records (name, phone, email, notes). Sales and their returns
+--              point at a customer row; customer_name is kept for legacy
+--              rows and migrate_customer_names() folds those into customers,
+--              matching names case- and whitespace-insensitively. Adds
+--              per-customer lifetime purchase and favorite product views.
+-- Version: 1.0
+-- Date: 2025-01-18
+-- ============================================================================
+
+BEGIN;
+
+-- ----------------------------------------------------------------------------
+-- Customer Table
+-- ----------------------------------------------------------------------------
+-- Names are not unique: two customers may share a name and differ by phone
+
+CREATE TABLE customer (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(255) NOT NULL CHECK (LENGTH(TRIM(name)) > 0),
+  phone VARCHAR(50),
+  email VARCHAR(255),
+  notes TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_customer_name ON customer(LOWER(name));
+
+CREATE TRIGGER update_customer_updated_at
+  BEFORE UPDATE ON customer
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ----------------------------------------------------------------------------
+-- Schema Changes
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE inventory_transaction
+ADD COLUMN customer_id INTEGER REFERENCES customer(id) ON DELETE RESTRICT;
+
+CREATE INDEX idx_transaction_customer_id ON inventory_transaction(customer_id);
+
+ALTER TABLE inventory_transaction
+ADD CONSTRAINT inventory_transaction_customer_check
+CHECK (customer_id IS NULL OR transaction_type IN ('Sale', 'Return'));
+
+-- ----------------------------------------------------------------------------
+-- Customer Summary View
+-- ----------------------------------------------------------------------------
+-- Lifetime purchases are completed sales less refunds on their returns
+
+CREATE OR REPLACE VIEW customer_summary AS
+SELECT
+  c.id,
+  c.name,
+  c.phone,
+  c.email,
+  c.notes,
+  c.created_at,
+  c.updated_at,
+  COUNT(t.id) FILTER (WHERE t.transaction_type = 'Sale') AS visit_count,
+  COALESCE(SUM(lines.amount) FILTER (WHERE t.transaction_type = 'Sale'), 0)
+    - COALESCE(SUM(t.refund_amount) FILTER (WHERE t.transaction_type = 'Return'), 0) AS lifetime_purchases,
+  MAX(t.timestamp) FILTER (WHERE t.transaction_type = 'Sale') AS last_visit
+FROM customer c
+LEFT JOIN inventory_transaction t ON t.customer_id = c.id AND t.status = 'completed'
+LEFT JOIN LATERAL (
+  SELECT SUM(ti.total_amount) AS amount
+  FROM transaction_item ti
+  WHERE ti.transaction_id = t.id
+) lines ON true
+GROUP BY c.id;
+
+-- ----------------------------------------------------------------------------
+-- Customer Product Totals View
+-- ----------------------------------------------------------------------------
+-- Units each customer has kept (bought less returned), for favorite scents
+
+CREATE OR REPLACE VIEW customer_product_totals AS
+SELECT
+  t.customer_id,
+  ti.sku,
+  p.name,
+  p.volume_ml,
+  -SUM(ti.quantity) AS units,
+  MAX(t.timestamp) AS last_purchased
+FROM inventory_transaction t
+JOIN transaction_item ti ON ti.transaction_id = t.id
+JOIN product p ON p.sku = ti.sku
+WHERE t.customer_id IS NOT NULL
+  AND t.transaction_type IN ('Sale', 'Return')
+  AND t.status = 'completed'
+GROUP BY t.customer_id, ti.sku, p.name, p.volume_ml
+HAVING -SUM(ti.quantity) > 0;
+
+-- ----------------------------------------------------------------------------
+-- Row Level Security
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE customer ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view customers"
+ON customer FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Users can insert customers"
+ON customer FOR INSERT
+TO authenticated
+WITH CHECK (true);
+
+CREATE POLICY "Users can update customers"
+ON customer FOR UPDATE
+TO authenticated
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Users can delete customers"
+ON customer FOR DELETE
+TO authenticated
+USING (true);
+
+-- ----------------------------------------------------------------------------
+-- Migrate Customer Names Function
+-- ----------------------------------------------------------------------------
+-- Links every sale/return that only has a free-text customer_name to a
+-- customer, creating one per distinct name ("Ana Reyes" and " ana  reyes"
+-- become the same customer, spelled as on their earliest sale). Safe to run
+-- again after importing old data. Returns the number of transactions linked.
+
+CREATE OR REPLACE FUNCTION migrate_customer_names()
+RETURNS INTEGER AS $$
+DECLARE
+  v_linked INTEGER;
+BEGIN
+  -- Migrations run without a session; from the app only owners may merge names
+  IF auth.uid() IS NOT NULL AND NOT is_owner() THEN
+    RAISE EXCEPTION 'Only owners can migrate customer names';
+  END IF;
+
+  INSERT INTO customer (name)
+  SELECT DISTINCT ON (LOWER(REGEXP_REPLACE(TRIM(t.customer_name), '\s+', ' ', 'g')))
+    REGEXP_REPLACE(TRIM(t.customer_name), '\s+', ' ', 'g')
+  FROM inventory_transaction t
+  WHERE t.customer_id IS NULL
+    AND NULLIF(TRIM(t.customer_name), '') IS NOT NULL
+    AND t.transaction_type IN ('Sale', 'Return')
+    AND NOT EXISTS (
+      SELECT 1 FROM customer c
+      WHERE LOWER(c.name) = LOWER(REGEXP_REPLACE(TRIM(t.customer_name), '\s+', ' ', 'g'))
+    )
+  ORDER BY LOWER(REGEXP_REPLACE(TRIM(t.customer_name), '\s+', ' ', 'g')), t.timestamp;
+
+  UPDATE inventory_transaction t
+  SET customer_id = (
+    SELECT c.id FROM customer c
+    WHERE LOWER(c.name) = LOWER(REGEXP_REPLACE(TRIM(t.customer_name), '\s+', ' ', 'g'))
+    ORDER BY c.id
+    LIMIT 1
+  )
+  WHERE t.customer_id IS NULL
+    AND NULLIF(TRIM(t.customer_name), '') IS NOT NULL
+    AND t.transaction_type IN ('Sale', 'Return');
+
+  GET DIAGNOSTICS v_linked = ROW_COUNT;
+  RETURN v_linked;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION migrate_customer_names() TO authenticated;
+
+SELECT migrate_customer_names();
+
+-- ----------------------------------------------------------------------------
+-- Post Inventory Transaction Function
+-- ----------------------------------------------------------------------------
+-- Takes p_customer_id in place of the free-text p_customer_name
+
+DROP FUNCTION IF EXISTS post_inventory_transaction(VARCHAR, JSONB, VARCHAR, TEXT, VARCHAR, VARCHAR, BOOLEAN, TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION post_inventory_transaction(
+  p_transaction_type VARCHAR(20),
+  p_items JSONB,
+  p_reference VARCHAR(100) DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_customer_id INTEGER DEFAULT NULL,
+  p_adjustment_reason VARCHAR(30) DEFAULT NULL,
+  p_override_stock BOOLEAN DEFAULT FALSE,
+  p_override_note TEXT DEFAULT NULL,
+  p_supplier_id INTEGER DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id VARCHAR(255);
+  v_transaction_id INTEGER;
+  v_item JSONB;
+  v_sku VARCHAR(50);
+  v_quantity INTEGER;
+  v_price DECIMAL(10,2);
+  v_shortage RECORD;
+  v_shortages TEXT := '';
+  v_result JSONB;
+BEGIN
+  v_user_id := auth.uid()::text;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to post transactions';
+  END IF;
+
+  IF p_transaction_type NOT IN ('Delivery', 'Sale', 'Adjustment') THEN
+    RAISE EXCEPTION 'Invalid transaction type. Must be "Delivery", "Sale" or "Adjustment"';
+  END IF;
+
+  IF p_transaction_type = 'Adjustment' AND p_adjustment_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required for stock adjustments';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one transaction item is required';
+  END IF;
+
+  IF p_supplier_id IS NOT NULL AND p_transaction_type <> 'Delivery' THEN
+    RAISE EXCEPTION 'Only deliveries can have a supplier';
+  END IF;
+
+  IF p_customer_id IS NOT NULL AND p_transaction_type <> 'Sale' THEN
+    RAISE EXCEPTION 'Only sales can have a customer';
+  END IF;
+
+  IF p_override_stock THEN
+    IF NOT is_owner() THEN
+      RAISE EXCEPTION 'Only owners can override the stock check';
+    END IF;
+
+    IF p_override_note IS NULL OR LENGTH(TRIM(p_override_note)) = 0 THEN
+      RAISE EXCEPTION 'A note is required to override the stock check';
+    END IF;
+  END IF;
+
+  IF p_transaction_type = 'Sale' THEN
+    PERFORM 1
+    FROM product p
+    WHERE p.sku IN (SELECT UPPER(TRIM(i->>'sku')) FROM jsonb_array_elements(p_items) i)
+    ORDER BY p.sku
+    FOR UPDATE;
+
+    FOR v_shortage IN
+      SELECT
+        req.sku,
+        req.requested,
+        COALESCE((
+          SELECT SUM(ti.quantity)
+          FROM transaction_item ti
+          JOIN inventory_transaction t ON ti.transaction_id = t.id
+          WHERE ti.sku = req.sku
+            AND t.status = 'completed'
+        ), 0) AS available
+      FROM (
+        SELECT UPPER(TRIM(i->>'sku')) AS sku, SUM(ABS((i->>'quantity')::NUMERIC))::INTEGER AS requested
+        FROM jsonb_array_elements(p_items) i
+        WHERE jsonb_typeof(i->'quantity') = 'number'
+        GROUP BY UPPER(TRIM(i->>'sku'))
+      ) req
+      ORDER BY req.sku
+    LOOP
+      IF v_shortage.requested > v_shortage.available THEN
+        v_shortages := v_shortages || CASE WHEN v_shortages = '' THEN '' ELSE '; ' END ||
+          format('%s (requested %s, available %s)', v_shortage.sku, v_shortage.requested, GREATEST(v_shortage.available, 0));
+      END IF;
+    END LOOP;
+
+    IF v_shortages <> '' AND NOT p_override_stock THEN
+      RAISE EXCEPTION 'Insufficient stock: %', v_shortages
+        USING HINT = 'insufficient_stock';
+    END IF;
+  END IF;
+
+  INSERT INTO inventory_transaction (transaction_type, reference, performed_by, notes, customer_id, adjustment_reason, stock_override_note, supplier_id)
+  VALUES (
+    p_transaction_type,
+    NULLIF(TRIM(p_reference), ''),
+    v_user_id,
+    NULLIF(TRIM(p_notes), ''),
+    p_customer_id,
+    CASE WHEN p_transaction_type = 'Adjustment' THEN p_adjustment_reason ELSE NULL END,
+    -- Only kept when the override was actually needed
+    CASE WHEN v_shortages <> '' THEN TRIM(p_override_note) ELSE NULL END,
+    p_supplier_id
+  )
+  RETURNING id INTO v_transaction_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_sku := UPPER(TRIM(v_item->>'sku'));
+
+    IF v_sku IS NULL OR v_sku = '' THEN
+      RAISE EXCEPTION 'Valid SKU is required for all items';
+    END IF;
+
+    IF jsonb_typeof(v_item->'quantity') <> 'number' OR (v_item->>'quantity')::NUMERIC <> TRUNC((v_item->>'quantity')::NUMERIC) THEN
+      RAISE EXCEPTION 'Valid quantity is required for all items (SKU %)', v_sku;
+    END IF;
+
+    v_quantity := (v_item->>'quantity')::INTEGER;
+
+    IF v_quantity = 0 THEN
+      RAISE EXCEPTION 'Valid quantity is required for all items (SKU %)', v_sku;
+    END IF;
+
+    -- Snapshot the current price for historical accuracy
+    SELECT price INTO v_price FROM product WHERE sku = v_sku;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found: %', v_sku;
+    END IF;
+
+    IF p_transaction_type = 'Sale' THEN
+      v_quantity := -ABS(v_quantity);
+    ELSIF p_transaction_type = 'Delivery' THEN
+      v_quantity := ABS(v_quantity);
+    END IF;
+
+    INSERT INTO transaction_item (transaction_id, sku, quantity, unit_price_at_transaction, note)
+    VALUES (v_transaction_id, v_sku, v_quantity, v_price, NULLIF(TRIM(v_item->>'note'), ''));
+  END LOOP;
+
+  SELECT to_jsonb(t) || jsonb_build_object(
+    'transaction_item',
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(ti) ORDER BY ti.id)
+       FROM transaction_item ti
+       WHERE ti.transaction_id = t.id),
+      '[]'::jsonb
+    )
+  )
+  INTO v_result
+  FROM inventory_transaction t
+  WHERE t.id = v_transaction_id;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION post_inventory_transaction(VARCHAR, JSONB, VARCHAR, TEXT, INTEGER, VARCHAR, BOOLEAN, TEXT, INTEGER) TO authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Post Return Transaction Function
+-- ----------------------------------------------------------------------------
+-- Returns are linked to the same customer as the original sale
+
+CREATE OR REPLACE FUNCTION post_return_transaction(
+  p_original_transaction_id INTEGER,
+  p_items JSONB,
+  p_refund_amount DECIMAL(10,2) DEFAULT NULL,
+  p_reference VARCHAR(100) DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id VARCHAR(255);
+  v_original inventory_transaction%ROWTYPE;
+  v_transaction_id INTEGER;
+  v_item JSONB;
+  v_original_item transaction_item%ROWTYPE;
+  v_quantity INTEGER;
+  v_already_returned INTEGER;
+  v_returned_value DECIMAL(10,2) := 0;
+  v_result JSONB;
+BEGIN
+  v_user_id := auth.uid()::text;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to post transactions';
+  END IF;
+
+  SELECT * INTO v_original
+  FROM inventory_transaction
+  WHERE id = p_original_transaction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Original transaction not found: %', p_original_transaction_id;
+  END IF;
+
+  IF v_original.transaction_type <> 'Sale' OR v_original.status <> 'completed' THEN
+    RAISE EXCEPTION 'Only completed sales can be returned';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one returned item is required';
+  END IF;
+
+  -- Refund is filled in after the lines are known
+  INSERT INTO inventory_transaction (
+    transaction_type, reference, performed_by, notes, customer_name, customer_id,
+    original_transaction_id, refund_amount
+  )
+  VALUES (
+    'Return',
+    NULLIF(TRIM(p_reference), ''),
+    v_user_id,
+    NULLIF(TRIM(p_notes), ''),
+    v_original.customer_name,
+    v_original.customer_id,
+    v_original.id,
+    0
+  )
+  RETURNING id INTO v_transaction_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    SELECT * INTO v_original_item
+    FROM transaction_item
+    WHERE id = (v_item->>'original_item_id')::INTEGER
+      AND transaction_id = v_original.id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item % is not part of sale %', v_item->>'original_item_id', v_original.id;
+    END IF;
+
+    IF jsonb_typeof(v_item->'quantity') <> 'number' OR (v_item->>'quantity')::NUMERIC <> TRUNC((v_item->>'quantity')::NUMERIC) THEN
+      RAISE EXCEPTION 'Valid quantity is required for all items (SKU %)', v_original_item.sku;
+    END IF;
+
+    v_quantity := (v_item->>'quantity')::INTEGER;
+
+    IF v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Returned quantity must be positive (SKU %)', v_original_item.sku;
+    END IF;
+
+    SELECT COALESCE(SUM(ti.quantity), 0) INTO v_already_returned
+    FROM transaction_item ti
+    JOIN inventory_transaction t ON ti.transaction_id = t.id
+    WHERE ti.original_item_id = v_original_item.id
+      AND t.status = 'completed';
+
+    IF v_already_returned + v_quantity > ABS(v_original_item.quantity) THEN
+      RAISE EXCEPTION 'Cannot return % of % (sold %, already returned %)',
+        v_quantity, v_original_item.sku, ABS(v_original_item.quantity), v_already_returned;
+    END IF;
+
+    -- Restock at the price the customer originally paid
+    INSERT INTO transaction_item (transaction_id, sku, quantity, unit_price_at_transaction, original_item_id)
+    VALUES (v_transaction_id, v_original_item.sku, v_quantity, v_original_item.unit_price_at_transaction, v_original_item.id);
+
+    v_returned_value := v_returned_value + v_quantity * v_original_item.unit_price_at_transaction;
+  END LOOP;
+
+  IF p_refund_amount IS NOT NULL AND (p_refund_amount < 0 OR p_refund_amount > v_returned_value) THEN
+    RAISE EXCEPTION 'Refund amount must be between 0 and %', v_returned_value;
+  END IF;
+
+  UPDATE inventory_transaction
+  SET refund_amount = COALESCE(p_refund_amount, v_returned_value)
+  WHERE id = v_transaction_id;
+
+  SELECT to_jsonb(t) || jsonb_build_object(
+    'transaction_item',
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(ti) ORDER BY ti.id)
+       FROM transaction_item ti
+       WHERE ti.transaction_id = t.id),
+      '[]'::jsonb
+    )
+  )
+  INTO v_result
+  FROM inventory_transaction t
+  WHERE t.id = v_transaction_id;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION post_return_transaction(INTEGER, JSONB, DECIMAL, VARCHAR, TEXT) TO authenticated;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE customer IS 'Customers that sales are recorded against';
+COMMENT ON COLUMN inventory_transaction.customer_id IS 'For Sales and their Returns: the customer';
+COMMENT ON COLUMN inventory_transaction.customer_name IS 'Legacy free-text customer name; see migrate_customer_names()';
+COMMENT ON VIEW customer_summary IS 'Customers with visit count, lifetime purchases and last visit';
+COMMENT ON VIEW customer_product_totals IS 'Units each customer has bought (net of returns) per product';
+
+COMMIT;
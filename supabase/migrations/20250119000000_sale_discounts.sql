@@ -0,0 +1,486 @@
+-- ============================================================================
+-- Sale Discounts
+-- ============================================================================
+-- Description: Adds per-line discounts (pesos off, percent off or a manually
+--              set unit price) and a whole-sale discount. unit_price_at_transaction
+--              and total_amount keep the list price so gross and discounted
+--              revenue can be reported separately. Any discount needs an
+--              owner and a reason. Returns refund the discounted price.
+-- Version: 1.0
+-- Date: 2025-01-19
+-- ============================================================================
+
+BEGIN;
+
+-- ----------------------------------------------------------------------------
+-- Schema Changes
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE transaction_item
+ADD COLUMN discount_type VARCHAR(10) CHECK (discount_type IN ('amount', 'percent', 'price')),
+ADD COLUMN discount_value DECIMAL(10,2),
+ADD COLUMN discount_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (discount_amount >= 0);
+
+ALTER TABLE inventory_transaction
+ADD COLUMN discount_type VARCHAR(10) CHECK (discount_type IN ('amount', 'percent')),
+ADD COLUMN discount_value DECIMAL(10,2),
+ADD COLUMN discount_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (discount_amount >= 0),
+ADD COLUMN discount_reason TEXT;
+
+-- ----------------------------------------------------------------------------
+-- Customer Summary View
+-- ----------------------------------------------------------------------------
+-- Lifetime purchases count what was actually paid
+
+CREATE OR REPLACE VIEW customer_summary AS
+SELECT
+  c.id,
+  c.name,
+  c.phone,
+  c.email,
+  c.notes,
+  c.created_at,
+  c.updated_at,
+  COUNT(t.id) FILTER (WHERE t.transaction_type = 'Sale') AS visit_count,
+  COALESCE(SUM(lines.amount - t.discount_amount) FILTER (WHERE t.transaction_type = 'Sale'), 0)
+    - COALESCE(SUM(t.refund_amount) FILTER (WHERE t.transaction_type = 'Return'), 0) AS lifetime_purchases,
+  MAX(t.timestamp) FILTER (WHERE t.transaction_type = 'Sale') AS last_visit
+FROM customer c
+LEFT JOIN inventory_transaction t ON t.customer_id = c.id AND t.status = 'completed'
+LEFT JOIN LATERAL (
+  SELECT SUM(ti.total_amount - ti.discount_amount) AS amount
+  FROM transaction_item ti
+  WHERE ti.transaction_id = t.id
+) lines ON true
+GROUP BY c.id;
+
+-- ----------------------------------------------------------------------------
+-- Post Inventory Transaction Function
+-- ----------------------------------------------------------------------------
+-- Items may carry "discount": { "type": "amount" | "percent" | "price", "value": n }
+-- and the sale may take p_discount_type / p_discount_value on top
+
+DROP FUNCTION IF EXISTS post_inventory_transaction(VARCHAR, JSONB, VARCHAR, TEXT, INTEGER, VARCHAR, BOOLEAN, TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION post_inventory_transaction(
+  p_transaction_type VARCHAR(20),
+  p_items JSONB,
+  p_reference VARCHAR(100) DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_customer_id INTEGER DEFAULT NULL,
+  p_adjustment_reason VARCHAR(30) DEFAULT NULL,
+  p_override_stock BOOLEAN DEFAULT FALSE,
+  p_override_note TEXT DEFAULT NULL,
+  p_supplier_id INTEGER DEFAULT NULL,
+  p_discount_type VARCHAR(10) DEFAULT NULL,
+  p_discount_value DECIMAL(10,2) DEFAULT NULL,
+  p_discount_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id VARCHAR(255);
+  v_transaction_id INTEGER;
+  v_item JSONB;
+  v_sku VARCHAR(50);
+  v_quantity INTEGER;
+  v_price DECIMAL(10,2);
+  v_line_discount_type VARCHAR(10);
+  v_line_discount_value DECIMAL(10,2);
+  v_line_discount DECIMAL(10,2);
+  v_gross DECIMAL(10,2);
+  v_subtotal DECIMAL(10,2) := 0;
+  v_discount DECIMAL(10,2) := 0;
+  v_any_discount BOOLEAN := FALSE;
+  v_shortage RECORD;
+  v_shortages TEXT := '';
+  v_result JSONB;
+BEGIN
+  v_user_id := auth.uid()::text;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to post transactions';
+  END IF;
+
+  IF p_transaction_type NOT IN ('Delivery', 'Sale', 'Adjustment') THEN
+    RAISE EXCEPTION 'Invalid transaction type. Must be "Delivery", "Sale" or "Adjustment"';
+  END IF;
+
+  IF p_transaction_type = 'Adjustment' AND p_adjustment_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required for stock adjustments';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one transaction item is required';
+  END IF;
+
+  IF p_supplier_id IS NOT NULL AND p_transaction_type <> 'Delivery' THEN
+    RAISE EXCEPTION 'Only deliveries can have a supplier';
+  END IF;
+
+  IF p_customer_id IS NOT NULL AND p_transaction_type <> 'Sale' THEN
+    RAISE EXCEPTION 'Only sales can have a customer';
+  END IF;
+
+  IF p_discount_type IS NOT NULL AND p_discount_type NOT IN ('amount', 'percent') THEN
+    RAISE EXCEPTION 'Invalid discount type. Must be "amount" or "percent"';
+  END IF;
+
+  IF p_override_stock THEN
+    IF NOT is_owner() THEN
+      RAISE EXCEPTION 'Only owners can override the stock check';
+    END IF;
+
+    IF p_override_note IS NULL OR LENGTH(TRIM(p_override_note)) = 0 THEN
+      RAISE EXCEPTION 'A note is required to override the stock check';
+    END IF;
+  END IF;
+
+  IF p_transaction_type = 'Sale' THEN
+    PERFORM 1
+    FROM product p
+    WHERE p.sku IN (SELECT UPPER(TRIM(i->>'sku')) FROM jsonb_array_elements(p_items) i)
+    ORDER BY p.sku
+    FOR UPDATE;
+
+    FOR v_shortage IN
+      SELECT
+        req.sku,
+        req.requested,
+        COALESCE((
+          SELECT SUM(ti.quantity)
+          FROM transaction_item ti
+          JOIN inventory_transaction t ON ti.transaction_id = t.id
+          WHERE ti.sku = req.sku
+            AND t.status = 'completed'
+        ), 0) AS available
+      FROM (
+        SELECT UPPER(TRIM(i->>'sku')) AS sku, SUM(ABS((i->>'quantity')::NUMERIC))::INTEGER AS requested
+        FROM jsonb_array_elements(p_items) i
+        WHERE jsonb_typeof(i->'quantity') = 'number'
+        GROUP BY UPPER(TRIM(i->>'sku'))
+      ) req
+      ORDER BY req.sku
+    LOOP
+      IF v_shortage.requested > v_shortage.available THEN
+        v_shortages := v_shortages || CASE WHEN v_shortages = '' THEN '' ELSE '; ' END ||
+          format('%s (requested %s, available %s)', v_shortage.sku, v_shortage.requested, GREATEST(v_shortage.available, 0));
+      END IF;
+    END LOOP;
+
+    IF v_shortages <> '' AND NOT p_override_stock THEN
+      RAISE EXCEPTION 'Insufficient stock: %', v_shortages
+        USING HINT = 'insufficient_stock';
+    END IF;
+  END IF;
+
+  INSERT INTO inventory_transaction (transaction_type, reference, performed_by, notes, customer_id, adjustment_reason, stock_override_note, supplier_id)
+  VALUES (
+    p_transaction_type,
+    NULLIF(TRIM(p_reference), ''),
+    v_user_id,
+    NULLIF(TRIM(p_notes), ''),
+    p_customer_id,
+    CASE WHEN p_transaction_type = 'Adjustment' THEN p_adjustment_reason ELSE NULL END,
+    -- Only kept when the override was actually needed
+    CASE WHEN v_shortages <> '' THEN TRIM(p_override_note) ELSE NULL END,
+    p_supplier_id
+  )
+  RETURNING id INTO v_transaction_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_sku := UPPER(TRIM(v_item->>'sku'));
+
+    IF v_sku IS NULL OR v_sku = '' THEN
+      RAISE EXCEPTION 'Valid SKU is required for all items';
+    END IF;
+
+    IF jsonb_typeof(v_item->'quantity') <> 'number' OR (v_item->>'quantity')::NUMERIC <> TRUNC((v_item->>'quantity')::NUMERIC) THEN
+      RAISE EXCEPTION 'Valid quantity is required for all items (SKU %)', v_sku;
+    END IF;
+
+    v_quantity := (v_item->>'quantity')::INTEGER;
+
+    IF v_quantity = 0 THEN
+      RAISE EXCEPTION 'Valid quantity is required for all items (SKU %)', v_sku;
+    END IF;
+
+    -- Snapshot the current price for historical accuracy
+    SELECT price INTO v_price FROM product WHERE sku = v_sku;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found: %', v_sku;
+    END IF;
+
+    IF p_transaction_type = 'Sale' THEN
+      v_quantity := -ABS(v_quantity);
+    ELSIF p_transaction_type = 'Delivery' THEN
+      v_quantity := ABS(v_quantity);
+    END IF;
+
+    -- Line discount: pesos off the line, percent off, or a manually set unit price
+    v_line_discount_type := NULLIF(v_item->'discount'->>'type', '');
+    v_line_discount_value := (v_item->'discount'->>'value')::DECIMAL(10,2);
+    v_gross := ABS(v_quantity) * v_price;
+    v_line_discount := 0;
+
+    IF v_line_discount_type IS NOT NULL THEN
+      IF p_transaction_type <> 'Sale' THEN
+        RAISE EXCEPTION 'Discounts can only be given on sales';
+      END IF;
+
+      IF v_line_discount_value IS NULL OR v_line_discount_value < 0 THEN
+        RAISE EXCEPTION 'Discount for % must be a positive number', v_sku;
+      END IF;
+
+      IF v_line_discount_type = 'percent' THEN
+        IF v_line_discount_value > 100 THEN
+          RAISE EXCEPTION 'Discount for % cannot exceed 100%%', v_sku;
+        END IF;
+        v_line_discount := ROUND(v_gross * v_line_discount_value / 100, 2);
+      ELSIF v_line_discount_type = 'amount' THEN
+        IF v_line_discount_value > v_gross THEN
+          RAISE EXCEPTION 'Discount for % cannot exceed the line total of %', v_sku, v_gross;
+        END IF;
+        v_line_discount := v_line_discount_value;
+      ELSIF v_line_discount_type = 'price' THEN
+        IF v_line_discount_value > v_price THEN
+          RAISE EXCEPTION 'Override price for % cannot exceed the list price of %', v_sku, v_price;
+        END IF;
+        v_line_discount := (v_price - v_line_discount_value) * ABS(v_quantity);
+      ELSE
+        RAISE EXCEPTION 'Invalid discount type for %', v_sku;
+      END IF;
+
+      v_any_discount := TRUE;
+    END IF;
+
+    v_subtotal := v_subtotal + v_gross - v_line_discount;
+
+    INSERT INTO transaction_item (
+      transaction_id, sku, quantity, unit_price_at_transaction, note,
+      discount_type, discount_value, discount_amount
+    )
+    VALUES (
+      v_transaction_id, v_sku, v_quantity, v_price, NULLIF(TRIM(v_item->>'note'), ''),
+      v_line_discount_type, v_line_discount_value, v_line_discount
+    );
+  END LOOP;
+
+  -- Whole-sale discount comes off what is left after line discounts
+  IF p_discount_type IS NOT NULL THEN
+    IF p_transaction_type <> 'Sale' THEN
+      RAISE EXCEPTION 'Discounts can only be given on sales';
+    END IF;
+
+    IF p_discount_value IS NULL OR p_discount_value < 0 THEN
+      RAISE EXCEPTION 'Discount must be a positive number';
+    END IF;
+
+    IF p_discount_type = 'percent' THEN
+      IF p_discount_value > 100 THEN
+        RAISE EXCEPTION 'Discount cannot exceed 100%%';
+      END IF;
+      v_discount := ROUND(v_subtotal * p_discount_value / 100, 2);
+    ELSE
+      IF p_discount_value > v_subtotal THEN
+        RAISE EXCEPTION 'Discount cannot exceed the sale total of %', v_subtotal;
+      END IF;
+      v_discount := p_discount_value;
+    END IF;
+
+    v_any_discount := TRUE;
+  END IF;
+
+  IF v_any_discount THEN
+    IF NOT is_owner() THEN
+      RAISE EXCEPTION 'Only owners can give discounts or override prices';
+    END IF;
+
+    IF p_discount_reason IS NULL OR LENGTH(TRIM(p_discount_reason)) = 0 THEN
+      RAISE EXCEPTION 'A reason is required for discounts and price overrides';
+    END IF;
+
+    UPDATE inventory_transaction
+    SET discount_type = p_discount_type,
+        discount_value = p_discount_value,
+        discount_amount = v_discount,
+        discount_reason = TRIM(p_discount_reason)
+    WHERE id = v_transaction_id;
+  END IF;
+
+  SELECT to_jsonb(t) || jsonb_build_object(
+    'transaction_item',
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(ti) ORDER BY ti.id)
+       FROM transaction_item ti
+       WHERE ti.transaction_id = t.id),
+      '[]'::jsonb
+    )
+  )
+  INTO v_result
+  FROM inventory_transaction t
+  WHERE t.id = v_transaction_id;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION post_inventory_transaction(VARCHAR, JSONB, VARCHAR, TEXT, INTEGER, VARCHAR, BOOLEAN, TEXT, INTEGER, VARCHAR, DECIMAL, TEXT) TO authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Post Return Transaction Function
+-- ----------------------------------------------------------------------------
+-- Return lines are priced at what the customer paid per unit after line
+-- discounts and their share of the whole-sale discount
+
+CREATE OR REPLACE FUNCTION post_return_transaction(
+  p_original_transaction_id INTEGER,
+  p_items JSONB,
+  p_refund_amount DECIMAL(10,2) DEFAULT NULL,
+  p_reference VARCHAR(100) DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id VARCHAR(255);
+  v_original inventory_transaction%ROWTYPE;
+  v_transaction_id INTEGER;
+  v_item JSONB;
+  v_original_item transaction_item%ROWTYPE;
+  v_quantity INTEGER;
+  v_already_returned INTEGER;
+  v_returned_value DECIMAL(10,2) := 0;
+  v_sale_subtotal DECIMAL(10,2);
+  v_net_price DECIMAL(10,2);
+  v_result JSONB;
+BEGIN
+  v_user_id := auth.uid()::text;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to post transactions';
+  END IF;
+
+  SELECT * INTO v_original
+  FROM inventory_transaction
+  WHERE id = p_original_transaction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Original transaction not found: %', p_original_transaction_id;
+  END IF;
+
+  IF v_original.transaction_type <> 'Sale' OR v_original.status <> 'completed' THEN
+    RAISE EXCEPTION 'Only completed sales can be returned';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one returned item is required';
+  END IF;
+
+  -- Whole-sale discount is shared across lines in proportion to what each line cost
+  SELECT COALESCE(SUM(total_amount - discount_amount), 0) INTO v_sale_subtotal
+  FROM transaction_item
+  WHERE transaction_id = v_original.id;
+
+  -- Refund is filled in after the lines are known
+  INSERT INTO inventory_transaction (
+    transaction_type, reference, performed_by, notes, customer_name, customer_id,
+    original_transaction_id, refund_amount
+  )
+  VALUES (
+    'Return',
+    NULLIF(TRIM(p_reference), ''),
+    v_user_id,
+    NULLIF(TRIM(p_notes), ''),
+    v_original.customer_name,
+    v_original.customer_id,
+    v_original.id,
+    0
+  )
+  RETURNING id INTO v_transaction_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    SELECT * INTO v_original_item
+    FROM transaction_item
+    WHERE id = (v_item->>'original_item_id')::INTEGER
+      AND transaction_id = v_original.id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item % is not part of sale %', v_item->>'original_item_id', v_original.id;
+    END IF;
+
+    IF jsonb_typeof(v_item->'quantity') <> 'number' OR (v_item->>'quantity')::NUMERIC <> TRUNC((v_item->>'quantity')::NUMERIC) THEN
+      RAISE EXCEPTION 'Valid quantity is required for all items (SKU %)', v_original_item.sku;
+    END IF;
+
+    v_quantity := (v_item->>'quantity')::INTEGER;
+
+    IF v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Returned quantity must be positive (SKU %)', v_original_item.sku;
+    END IF;
+
+    SELECT COALESCE(SUM(ti.quantity), 0) INTO v_already_returned
+    FROM transaction_item ti
+    JOIN inventory_transaction t ON ti.transaction_id = t.id
+    WHERE ti.original_item_id = v_original_item.id
+      AND t.status = 'completed';
+
+    IF v_already_returned + v_quantity > ABS(v_original_item.quantity) THEN
+      RAISE EXCEPTION 'Cannot return % of % (sold %, already returned %)',
+        v_quantity, v_original_item.sku, ABS(v_original_item.quantity), v_already_returned;
+    END IF;
+
+    -- Restock at the price the customer actually paid, after discounts
+    v_net_price := v_original_item.total_amount - v_original_item.discount_amount;
+    IF v_sale_subtotal > 0 THEN
+      v_net_price := v_net_price - v_original.discount_amount * v_net_price / v_sale_subtotal;
+    END IF;
+    v_net_price := ROUND(v_net_price / ABS(v_original_item.quantity), 2);
+
+    INSERT INTO transaction_item (transaction_id, sku, quantity, unit_price_at_transaction, original_item_id)
+    VALUES (v_transaction_id, v_original_item.sku, v_quantity, v_net_price, v_original_item.id);
+
+    v_returned_value := v_returned_value + v_quantity * v_net_price;
+  END LOOP;
+
+  IF p_refund_amount IS NOT NULL AND (p_refund_amount < 0 OR p_refund_amount > v_returned_value) THEN
+    RAISE EXCEPTION 'Refund amount must be between 0 and %', v_returned_value;
+  END IF;
+
+  UPDATE inventory_transaction
+  SET refund_amount = COALESCE(p_refund_amount, v_returned_value)
+  WHERE id = v_transaction_id;
+
+  SELECT to_jsonb(t) || jsonb_build_object(
+    'transaction_item',
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(ti) ORDER BY ti.id)
+       FROM transaction_item ti
+       WHERE ti.transaction_id = t.id),
+      '[]'::jsonb
+    )
+  )
+  INTO v_result
+  FROM inventory_transaction t
+  WHERE t.id = v_transaction_id;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION post_return_transaction(INTEGER, JSONB, DECIMAL, VARCHAR, TEXT) TO authenticated;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN transaction_item.discount_type IS 'amount (pesos off the line), percent, or price (manually set unit price)';
+COMMENT ON COLUMN transaction_item.discount_value IS 'Discount as entered: pesos, percent or unit price';
+COMMENT ON COLUMN transaction_item.discount_amount IS 'Pesos taken off total_amount for this line';
+COMMENT ON COLUMN inventory_transaction.discount_type IS 'Whole-sale discount: amount or percent';
+COMMENT ON COLUMN inventory_transaction.discount_amount IS 'Pesos taken off the sale after line discounts';
+COMMENT ON COLUMN inventory_transaction.discount_reason IS 'Why a discount or price override was given (required)';
+
+COMMIT;
@@ -0,0 +1,617 @@
+-- ============================================================================
+-- VAT
+-- ============================================================================
+-- Description: Adds shop_settings (a single-row table) holding the VAT rate
+--              and whether catalog prices already include VAT, a VAT-exempt
+--              flag on products, and net / tax / gross amounts on each sale
+--              and return line. Amounts are computed from what the customer
+--              paid after discounts. Sales posted before this migration keep
+--              NULL VAT columns. Staff may now give discounts up to
+--              shop_settings.staff_discount_limit percent; price overrides and
+--              larger discounts still need an owner.
+-- Version: 1.0
+-- Date: 2025-01-20
+-- ============================================================================
+
+BEGIN;
+
+-- ----------------------------------------------------------------------------
+-- Shop Settings Table
+-- ----------------------------------------------------------------------------
+-- Exactly one row (id = 1); everyone can read it, only owners can change it
+
+CREATE TABLE shop_settings (
+  id INTEGER PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  vat_rate DECIMAL(5,2) NOT NULL DEFAULT 12 CHECK (vat_rate >= 0 AND vat_rate <= 100),
+  prices_include_vat BOOLEAN NOT NULL DEFAULT TRUE,
+  staff_discount_limit INTEGER NOT NULL DEFAULT 20 CHECK (staff_discount_limit BETWEEN 0 AND 100),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  updated_by VARCHAR(255) REFERENCES "user"(id) ON DELETE SET NULL
+);
+
+CREATE TRIGGER update_shop_settings_updated_at
+  BEFORE UPDATE ON shop_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO shop_settings (id) VALUES (1);
+
+-- ----------------------------------------------------------------------------
+-- Schema Changes
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE product
+ADD COLUMN vat_exempt BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE transaction_item
+ADD COLUMN vat_rate DECIMAL(5,2),
+ADD COLUMN net_amount DECIMAL(10,2),
+ADD COLUMN tax_amount DECIMAL(10,2),
+ADD COLUMN gross_amount DECIMAL(10,2);
+
+-- ----------------------------------------------------------------------------
+-- Current Stock View
+-- ----------------------------------------------------------------------------
+-- Exposes vat_exempt (new columns can only be appended)
+
+CREATE OR REPLACE VIEW current_stock AS
+SELECT
+  p.sku,
+  p.name,
+  p.volume_ml,
+  p.price,
+  p.min_stock_threshold,
+  p.description,
+  COALESCE(SUM(ti.quantity) FILTER (WHERE t.status = 'completed'), 0) AS quantity_on_hand,
+  COALESCE(SUM(ti.quantity) FILTER (WHERE t.status = 'completed'), 0) * p.price AS total_value,
+  p.created_at,
+  p.updated_at,
+  p.preferred_supplier_id,
+  p.vat_exempt
+FROM product p
+LEFT JOIN transaction_item ti ON p.sku = ti.sku
+LEFT JOIN inventory_transaction t ON ti.transaction_id = t.id
+GROUP BY p.sku, p.name, p.volume_ml, p.price, p.min_stock_threshold, p.description, p.created_at, p.updated_at, p.preferred_supplier_id, p.vat_exempt;
+
+-- ----------------------------------------------------------------------------
+-- Row Level Security
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE shop_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view shop settings"
+ON shop_settings FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Owners can update shop settings"
+ON shop_settings FOR UPDATE
+TO authenticated
+USING (is_owner())
+WITH CHECK (is_owner());
+
+-- ----------------------------------------------------------------------------
+-- Apply Sale VAT Function
+-- ----------------------------------------------------------------------------
+-- Splits what was paid on each line (after line discounts and the line's share
+-- of the sale discount) into net, tax and gross at the current VAT rate.
+-- Exempt products are stored with a 0% rate.
+
+CREATE OR REPLACE FUNCTION apply_sale_vat(p_transaction_id INTEGER)
+RETURNS VOID AS $$
+DECLARE
+  v_settings shop_settings%ROWTYPE;
+  v_discount DECIMAL(10,2);
+  v_subtotal DECIMAL(10,2);
+BEGIN
+  SELECT * INTO v_settings FROM shop_settings WHERE id = 1;
+
+  SELECT discount_amount INTO v_discount
+  FROM inventory_transaction
+  WHERE id = p_transaction_id;
+
+  SELECT COALESCE(SUM(total_amount - discount_amount), 0) INTO v_subtotal
+  FROM transaction_item
+  WHERE transaction_id = p_transaction_id;
+
+  WITH lines AS (
+    SELECT
+      ti.id,
+      CASE WHEN p.vat_exempt THEN 0 ELSE v_settings.vat_rate END AS rate,
+      ROUND(
+        (ti.total_amount - ti.discount_amount)
+          - CASE WHEN v_subtotal > 0 THEN v_discount * (ti.total_amount - ti.discount_amount) / v_subtotal ELSE 0 END,
+        2
+      ) AS paid
+    FROM transaction_item ti
+    JOIN product p ON p.sku = ti.sku
+    WHERE ti.transaction_id = p_transaction_id
+  ),
+  amounts AS (
+    SELECT
+      id,
+      rate,
+      CASE WHEN v_settings.prices_include_vat THEN ROUND(paid / (1 + rate / 100), 2) ELSE paid END AS net,
+      CASE WHEN v_settings.prices_include_vat THEN paid ELSE paid + ROUND(paid * rate / 100, 2) END AS gross
+    FROM lines
+  )
+  UPDATE transaction_item ti
+  SET vat_rate = a.rate,
+      net_amount = a.net,
+      tax_amount = a.gross - a.net,
+      gross_amount = a.gross
+  FROM amounts a
+  WHERE ti.id = a.id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ----------------------------------------------------------------------------
+-- Post Inventory Transaction Function
+-- ----------------------------------------------------------------------------
+-- Sales now get their VAT split once discounts are known
+
+CREATE OR REPLACE FUNCTION post_inventory_transaction(
+  p_transaction_type VARCHAR(20),
+  p_items JSONB,
+  p_reference VARCHAR(100) DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_customer_id INTEGER DEFAULT NULL,
+  p_adjustment_reason VARCHAR(30) DEFAULT NULL,
+  p_override_stock BOOLEAN DEFAULT FALSE,
+  p_override_note TEXT DEFAULT NULL,
+  p_supplier_id INTEGER DEFAULT NULL,
+  p_discount_type VARCHAR(10) DEFAULT NULL,
+  p_discount_value DECIMAL(10,2) DEFAULT NULL,
+  p_discount_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id VARCHAR(255);
+  v_transaction_id INTEGER;
+  v_item JSONB;
+  v_sku VARCHAR(50);
+  v_quantity INTEGER;
+  v_price DECIMAL(10,2);
+  v_line_discount_type VARCHAR(10);
+  v_line_discount_value DECIMAL(10,2);
+  v_line_discount DECIMAL(10,2);
+  v_gross DECIMAL(10,2);
+  v_subtotal DECIMAL(10,2) := 0;
+  v_discount DECIMAL(10,2) := 0;
+  v_any_discount BOOLEAN := FALSE;
+  v_price_override BOOLEAN := FALSE;
+  v_staff_limit INTEGER;
+  v_gross_total DECIMAL(10,2) := 0;
+  v_over_limit BOOLEAN := FALSE;
+  v_shortage RECORD;
+  v_shortages TEXT := '';
+  v_result JSONB;
+BEGIN
+  v_user_id := auth.uid()::text;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to post transactions';
+  END IF;
+
+  IF p_transaction_type NOT IN ('Delivery', 'Sale', 'Adjustment') THEN
+    RAISE EXCEPTION 'Invalid transaction type. Must be "Delivery", "Sale" or "Adjustment"';
+  END IF;
+
+  IF p_transaction_type = 'Adjustment' AND p_adjustment_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required for stock adjustments';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one transaction item is required';
+  END IF;
+
+  IF p_supplier_id IS NOT NULL AND p_transaction_type <> 'Delivery' THEN
+    RAISE EXCEPTION 'Only deliveries can have a supplier';
+  END IF;
+
+  IF p_customer_id IS NOT NULL AND p_transaction_type <> 'Sale' THEN
+    RAISE EXCEPTION 'Only sales can have a customer';
+  END IF;
+
+  IF p_discount_type IS NOT NULL AND p_discount_type NOT IN ('amount', 'percent') THEN
+    RAISE EXCEPTION 'Invalid discount type. Must be "amount" or "percent"';
+  END IF;
+
+  SELECT staff_discount_limit INTO v_staff_limit FROM shop_settings WHERE id = 1;
+  v_staff_limit := COALESCE(v_staff_limit, 0);
+
+  IF p_override_stock THEN
+    IF NOT is_owner() THEN
+      RAISE EXCEPTION 'Only owners can override the stock check';
+    END IF;
+
+    IF p_override_note IS NULL OR LENGTH(TRIM(p_override_note)) = 0 THEN
+      RAISE EXCEPTION 'A note is required to override the stock check';
+    END IF;
+  END IF;
+
+  IF p_transaction_type = 'Sale' THEN
+    PERFORM 1
+    FROM product p
+    WHERE p.sku IN (SELECT UPPER(TRIM(i->>'sku')) FROM jsonb_array_elements(p_items) i)
+    ORDER BY p.sku
+    FOR UPDATE;
+
+    FOR v_shortage IN
+      SELECT
+        req.sku,
+        req.requested,
+        COALESCE((
+          SELECT SUM(ti.quantity)
+          FROM transaction_item ti
+          JOIN inventory_transaction t ON ti.transaction_id = t.id
+          WHERE ti.sku = req.sku
+            AND t.status = 'completed'
+        ), 0) AS available
+      FROM (
+        SELECT UPPER(TRIM(i->>'sku')) AS sku, SUM(ABS((i->>'quantity')::NUMERIC))::INTEGER AS requested
+        FROM jsonb_array_elements(p_items) i
+        WHERE jsonb_typeof(i->'quantity') = 'number'
+        GROUP BY UPPER(TRIM(i->>'sku'))
+      ) req
+      ORDER BY req.sku
+    LOOP
+      IF v_shortage.requested > v_shortage.available THEN
+        v_shortages := v_shortages || CASE WHEN v_shortages = '' THEN '' ELSE '; ' END ||
+          format('%s (requested %s, available %s)', v_shortage.sku, v_shortage.requested, GREATEST(v_shortage.available, 0));
+      END IF;
+    END LOOP;
+
+    IF v_shortages <> '' AND NOT p_override_stock THEN
+      RAISE EXCEPTION 'Insufficient stock: %', v_shortages
+        USING HINT = 'insufficient_stock';
+    END IF;
+  END IF;
+
+  INSERT INTO inventory_transaction (transaction_type, reference, performed_by, notes, customer_id, adjustment_reason, stock_override_note, supplier_id)
+  VALUES (
+    p_transaction_type,
+    NULLIF(TRIM(p_reference), ''),
+    v_user_id,
+    NULLIF(TRIM(p_notes), ''),
+    p_customer_id,
+    CASE WHEN p_transaction_type = 'Adjustment' THEN p_adjustment_reason ELSE NULL END,
+    -- Only kept when the override was actually needed
+    CASE WHEN v_shortages <> '' THEN TRIM(p_override_note) ELSE NULL END,
+    p_supplier_id
+  )
+  RETURNING id INTO v_transaction_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_sku := UPPER(TRIM(v_item->>'sku'));
+
+    IF v_sku IS NULL OR v_sku = '' THEN
+      RAISE EXCEPTION 'Valid SKU is required for all items';
+    END IF;
+
+    IF jsonb_typeof(v_item->'quantity') <> 'number' OR (v_item->>'quantity')::NUMERIC <> TRUNC((v_item->>'quantity')::NUMERIC) THEN
+      RAISE EXCEPTION 'Valid quantity is required for all items (SKU %)', v_sku;
+    END IF;
+
+    v_quantity := (v_item->>'quantity')::INTEGER;
+
+    IF v_quantity = 0 THEN
+      RAISE EXCEPTION 'Valid quantity is required for all items (SKU %)', v_sku;
+    END IF;
+
+    -- Snapshot the current price for historical accuracy
+    SELECT price INTO v_price FROM product WHERE sku = v_sku;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found: %', v_sku;
+    END IF;
+
+    IF p_transaction_type = 'Sale' THEN
+      v_quantity := -ABS(v_quantity);
+    ELSIF p_transaction_type = 'Delivery' THEN
+      v_quantity := ABS(v_quantity);
+    END IF;
+
+    -- Line discount: pesos off the line, percent off, or a manually set unit price
+    v_line_discount_type := NULLIF(v_item->'discount'->>'type', '');
+    v_line_discount_value := (v_item->'discount'->>'value')::DECIMAL(10,2);
+    v_gross := ABS(v_quantity) * v_price;
+    v_line_discount := 0;
+
+    IF v_line_discount_type IS NOT NULL THEN
+      IF p_transaction_type <> 'Sale' THEN
+        RAISE EXCEPTION 'Discounts can only be given on sales';
+      END IF;
+
+      IF v_line_discount_value IS NULL OR v_line_discount_value < 0 THEN
+        RAISE EXCEPTION 'Discount for % must be a positive number', v_sku;
+      END IF;
+
+      IF v_line_discount_type = 'percent' THEN
+        IF v_line_discount_value > 100 THEN
+          RAISE EXCEPTION 'Discount for % cannot exceed 100%%', v_sku;
+        END IF;
+        v_line_discount := ROUND(v_gross * v_line_discount_value / 100, 2);
+      ELSIF v_line_discount_type = 'amount' THEN
+        IF v_line_discount_value > v_gross THEN
+          RAISE EXCEPTION 'Discount for % cannot exceed the line total of %', v_sku, v_gross;
+        END IF;
+        v_line_discount := v_line_discount_value;
+      ELSIF v_line_discount_type = 'price' THEN
+        IF v_line_discount_value > v_price THEN
+          RAISE EXCEPTION 'Override price for % cannot exceed the list price of %', v_sku, v_price;
+        END IF;
+        v_line_discount := (v_price - v_line_discount_value) * ABS(v_quantity);
+        v_price_override := TRUE;
+      ELSE
+        RAISE EXCEPTION 'Invalid discount type for %', v_sku;
+      END IF;
+
+      v_any_discount := TRUE;
+
+      IF v_line_discount > ROUND(v_gross * v_staff_limit / 100, 2) THEN
+        v_over_limit := TRUE;
+      END IF;
+    END IF;
+
+    v_gross_total := v_gross_total + v_gross;
+    v_subtotal := v_subtotal + v_gross - v_line_discount;
+
+    INSERT INTO transaction_item (
+      transaction_id, sku, quantity, unit_price_at_transaction, note,
+      discount_type, discount_value, discount_amount
+    )
+    VALUES (
+      v_transaction_id, v_sku, v_quantity, v_price, NULLIF(TRIM(v_item->>'note'), ''),
+      v_line_discount_type, v_line_discount_value, v_line_discount
+    );
+  END LOOP;
+
+  -- Whole-sale discount comes off what is left after line discounts
+  IF p_discount_type IS NOT NULL THEN
+    IF p_transaction_type <> 'Sale' THEN
+      RAISE EXCEPTION 'Discounts can only be given on sales';
+    END IF;
+
+    IF p_discount_value IS NULL OR p_discount_value < 0 THEN
+      RAISE EXCEPTION 'Discount must be a positive number';
+    END IF;
+
+    IF p_discount_type = 'percent' THEN
+      IF p_discount_value > 100 THEN
+        RAISE EXCEPTION 'Discount cannot exceed 100%%';
+      END IF;
+      v_discount := ROUND(v_subtotal * p_discount_value / 100, 2);
+    ELSE
+      IF p_discount_value > v_subtotal THEN
+        RAISE EXCEPTION 'Discount cannot exceed the sale total of %', v_subtotal;
+      END IF;
+      v_discount := p_discount_value;
+    END IF;
+
+    v_any_discount := TRUE;
+  END IF;
+
+  IF v_any_discount THEN
+    -- Staff may take up to shop_settings.staff_discount_limit percent off each
+    -- line and off the sale as a whole; setting a price or going further needs
+    -- an owner
+    IF NOT is_owner() THEN
+      IF v_price_override THEN
+        RAISE EXCEPTION 'Only owners can override prices';
+      END IF;
+
+      IF v_over_limit OR v_gross_total - v_subtotal + v_discount > ROUND(v_gross_total * v_staff_limit / 100, 2) THEN
+        RAISE EXCEPTION 'Discounts over % percent need an owner', v_staff_limit;
+      END IF;
+    END IF;
+
+    IF p_discount_reason IS NULL OR LENGTH(TRIM(p_discount_reason)) = 0 THEN
+      RAISE EXCEPTION 'A reason is required for discounts and price overrides';
+    END IF;
+
+    UPDATE inventory_transaction
+    SET discount_type = p_discount_type,
+        discount_value = p_discount_value,
+        discount_amount = v_discount,
+        discount_reason = TRIM(p_discount_reason)
+    WHERE id = v_transaction_id;
+  END IF;
+
+  IF p_transaction_type = 'Sale' THEN
+    PERFORM apply_sale_vat(v_transaction_id);
+  END IF;
+
+  SELECT to_jsonb(t) || jsonb_build_object(
+    'transaction_item',
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(ti) ORDER BY ti.id)
+       FROM transaction_item ti
+       WHERE ti.transaction_id = t.id),
+      '[]'::jsonb
+    )
+  )
+  INTO v_result
+  FROM inventory_transaction t
+  WHERE t.id = v_transaction_id;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION post_inventory_transaction(VARCHAR, JSONB, VARCHAR, TEXT, INTEGER, VARCHAR, BOOLEAN, TEXT, INTEGER, VARCHAR, DECIMAL, TEXT) TO authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Post Return Transaction Function
+-- ----------------------------------------------------------------------------
+-- Return lines carry their share of the original line's VAT, and the refund
+-- cap is what the customer paid including VAT
+
+CREATE OR REPLACE FUNCTION post_return_transaction(
+  p_original_transaction_id INTEGER,
+  p_items JSONB,
+  p_refund_amount DECIMAL(10,2) DEFAULT NULL,
+  p_reference VARCHAR(100) DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id VARCHAR(255);
+  v_original inventory_transaction%ROWTYPE;
+  v_transaction_id INTEGER;
+  v_item JSONB;
+  v_original_item transaction_item%ROWTYPE;
+  v_quantity INTEGER;
+  v_already_returned INTEGER;
+  v_returned_value DECIMAL(10,2) := 0;
+  v_sale_subtotal DECIMAL(10,2);
+  v_net_price DECIMAL(10,2);
+  v_share DECIMAL;
+  v_result JSONB;
+BEGIN
+  v_user_id := auth.uid()::text;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to post transactions';
+  END IF;
+
+  SELECT * INTO v_original
+  FROM inventory_transaction
+  WHERE id = p_original_transaction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Original transaction not found: %', p_original_transaction_id;
+  END IF;
+
+  IF v_original.transaction_type <> 'Sale' OR v_original.status <> 'completed' THEN
+    RAISE EXCEPTION 'Only completed sales can be returned';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one returned item is required';
+  END IF;
+
+  -- Whole-sale discount is shared across lines in proportion to what each line cost
+  SELECT COALESCE(SUM(total_amount - discount_amount), 0) INTO v_sale_subtotal
+  FROM transaction_item
+  WHERE transaction_id = v_original.id;
+
+  -- Refund is filled in after the lines are known
+  INSERT INTO inventory_transaction (
+    transaction_type, reference, performed_by, notes, customer_name, customer_id,
+    original_transaction_id, refund_amount
+  )
+  VALUES (
+    'Return',
+    NULLIF(TRIM(p_reference), ''),
+    v_user_id,
+    NULLIF(TRIM(p_notes), ''),
+    v_original.customer_name,
+    v_original.customer_id,
+    v_original.id,
+    0
+  )
+  RETURNING id INTO v_transaction_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    SELECT * INTO v_original_item
+    FROM transaction_item
+    WHERE id = (v_item->>'original_item_id')::INTEGER
+      AND transaction_id = v_original.id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item % is not part of sale %', v_item->>'original_item_id', v_original.id;
+    END IF;
+
+    IF jsonb_typeof(v_item->'quantity') <> 'number' OR (v_item->>'quantity')::NUMERIC <> TRUNC((v_item->>'quantity')::NUMERIC) THEN
+      RAISE EXCEPTION 'Valid quantity is required for all items (SKU %)', v_original_item.sku;
+    END IF;
+
+    v_quantity := (v_item->>'quantity')::INTEGER;
+
+    IF v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Returned quantity must be positive (SKU %)', v_original_item.sku;
+    END IF;
+
+    SELECT COALESCE(SUM(ti.quantity), 0) INTO v_already_returned
+    FROM transaction_item ti
+    JOIN inventory_transaction t ON ti.transaction_id = t.id
+    WHERE ti.original_item_id = v_original_item.id
+      AND t.status = 'completed';
+
+    IF v_already_returned + v_quantity > ABS(v_original_item.quantity) THEN
+      RAISE EXCEPTION 'Cannot return % of % (sold %, already returned %)',
+        v_quantity, v_original_item.sku, ABS(v_original_item.quantity), v_already_returned;
+    END IF;
+
+    -- Restock at the price the customer actually paid, after discounts
+    v_net_price := v_original_item.total_amount - v_original_item.discount_amount;
+    IF v_sale_subtotal > 0 THEN
+      v_net_price := v_net_price - v_original.discount_amount * v_net_price / v_sale_subtotal;
+    END IF;
+    v_net_price := ROUND(v_net_price / ABS(v_original_item.quantity), 2);
+
+    -- VAT is reversed in proportion to the units coming back
+    v_share := v_quantity::DECIMAL / ABS(v_original_item.quantity);
+
+    INSERT INTO transaction_item (
+      transaction_id, sku, quantity, unit_price_at_transaction, original_item_id,
+      vat_rate, net_amount, tax_amount, gross_amount
+    )
+    VALUES (
+      v_transaction_id, v_original_item.sku, v_quantity, v_net_price, v_original_item.id,
+      v_original_item.vat_rate,
+      ROUND(v_original_item.net_amount * v_share, 2),
+      ROUND(v_original_item.gross_amount * v_share, 2) - ROUND(v_original_item.net_amount * v_share, 2),
+      ROUND(v_original_item.gross_amount * v_share, 2)
+    );
+
+    -- Sales posted before VAT was tracked have no gross_amount
+    v_returned_value := v_returned_value + COALESCE(ROUND(v_original_item.gross_amount * v_share, 2), v_quantity * v_net_price);
+  END LOOP;
+
+  IF p_refund_amount IS NOT NULL AND (p_refund_amount < 0 OR p_refund_amount > v_returned_value) THEN
+    RAISE EXCEPTION 'Refund amount must be between 0 and %', v_returned_value;
+  END IF;
+
+  UPDATE inventory_transaction
+  SET refund_amount = COALESCE(p_refund_amount, v_returned_value)
+  WHERE id = v_transaction_id;
+
+  SELECT to_jsonb(t) || jsonb_build_object(
+    'transaction_item',
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(ti) ORDER BY ti.id)
+       FROM transaction_item ti
+       WHERE ti.transaction_id = t.id),
+      '[]'::jsonb
+    )
+  )
+  INTO v_result
+  FROM inventory_transaction t
+  WHERE t.id = v_transaction_id;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION post_return_transaction(INTEGER, JSONB, DECIMAL, VARCHAR, TEXT) TO authenticated;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE shop_settings IS 'Shop-wide settings; always exactly one row';
+COMMENT ON COLUMN shop_settings.vat_rate IS 'VAT rate in percent, e.g. 12.00';
+COMMENT ON COLUMN shop_settings.prices_include_vat IS 'TRUE when product prices already include VAT';
+COMMENT ON COLUMN shop_settings.staff_discount_limit IS 'Largest discount staff may give, in percent of each line and of the sale; owners are not limited';
+COMMENT ON COLUMN product.vat_exempt IS 'Sold without VAT';
+COMMENT ON COLUMN transaction_item.vat_rate IS 'VAT rate applied to the line (0 for exempt products)';
+COMMENT ON COLUMN transaction_item.net_amount IS 'Amount paid before VAT, after discounts';
+COMMENT ON COLUMN transaction_item.tax_amount IS 'VAT on the line';
+COMMENT ON COLUMN transaction_item.gross_amount IS 'Amount paid including VAT';
+
+COMMIT;
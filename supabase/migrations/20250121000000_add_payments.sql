@@ -0,0 +1,426 @@
+-- ============================================================================
+-- Sale Payments
+-- ============================================================================
+-- Description: Records how each Sale was paid: one or more payments by cash,
+--              GCash / e-wallet, card, bank transfer or store credit. Cash
+--              payments keep the amount tendered so change can be shown.
+--              Payments must add up to the sale total including VAT.
+-- Version: 1.0
+-- Date: 2025-01-21
+-- ============================================================================
+
+BEGIN;
+
+-- ----------------------------------------------------------------------------
+-- Transaction Payment Table
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE transaction_payment (
+  id SERIAL PRIMARY KEY,
+  transaction_id INTEGER NOT NULL REFERENCES inventory_transaction(id) ON DELETE CASCADE,
+  method VARCHAR(20) NOT NULL CHECK (method IN ('cash', 'ewallet', 'card', 'bank_transfer', 'store_credit')),
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  tendered DECIMAL(10,2),  -- Cash only: what the customer handed over
+  change_amount DECIMAL(10,2) GENERATED ALWAYS AS (COALESCE(tendered - amount, 0)) STORED,
+  reference VARCHAR(100),  -- e.g. GCash or card approval number
+  created_at TIMESTAMP DEFAULT NOW(),
+  CHECK (tendered IS NULL OR (method = 'cash' AND tendered >= amount))
+);
+
+CREATE INDEX idx_transaction_payment_transaction_id ON transaction_payment(transaction_id);
+CREATE INDEX idx_transaction_payment_method ON transaction_payment(method);
+
+-- ----------------------------------------------------------------------------
+-- Row Level Security
+-- ----------------------------------------------------------------------------
+-- Payments are written by post_inventory_transaction and never edited
+
+ALTER TABLE transaction_payment ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view transaction payments"
+ON transaction_payment FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Users can insert transaction payments"
+ON transaction_payment FOR INSERT
+TO authenticated
+WITH CHECK (true);
+
+-- ----------------------------------------------------------------------------
+-- Post Inventory Transaction Function
+-- ----------------------------------------------------------------------------
+-- Adds p_payments: [{ "method": "cash", "amount": n, "tendered": n, "reference": "..." }]
+
+DROP FUNCTION IF EXISTS post_inventory_transaction(VARCHAR, JSONB, VARCHAR, TEXT, INTEGER, VARCHAR, BOOLEAN, TEXT, INTEGER, VARCHAR, DECIMAL, TEXT);
+
+CREATE OR REPLACE FUNCTION post_inventory_transaction(
+  p_transaction_type VARCHAR(20),
+  p_items JSONB,
+  p_reference VARCHAR(100) DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_customer_id INTEGER DEFAULT NULL,
+  p_adjustment_reason VARCHAR(30) DEFAULT NULL,
+  p_override_stock BOOLEAN DEFAULT FALSE,
+  p_override_note TEXT DEFAULT NULL,
+  p_supplier_id INTEGER DEFAULT NULL,
+  p_discount_type VARCHAR(10) DEFAULT NULL,
+  p_discount_value DECIMAL(10,2) DEFAULT NULL,
+  p_discount_reason TEXT DEFAULT NULL,
+  p_payments JSONB DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id VARCHAR(255);
+  v_transaction_id INTEGER;
+  v_item JSONB;
+  v_sku VARCHAR(50);
+  v_quantity INTEGER;
+  v_price DECIMAL(10,2);
+  v_line_discount_type VARCHAR(10);
+  v_line_discount_value DECIMAL(10,2);
+  v_line_discount DECIMAL(10,2);
+  v_gross DECIMAL(10,2);
+  v_subtotal DECIMAL(10,2) := 0;
+  v_discount DECIMAL(10,2) := 0;
+  v_any_discount BOOLEAN := FALSE;
+  v_price_override BOOLEAN := FALSE;
+  v_staff_limit INTEGER;
+  v_gross_total DECIMAL(10,2) := 0;
+  v_over_limit BOOLEAN := FALSE;
+  v_payment JSONB;
+  v_method VARCHAR(20);
+  v_amount DECIMAL(10,2);
+  v_tendered DECIMAL(10,2);
+  v_paid DECIMAL(10,2) := 0;
+  v_total DECIMAL(10,2);
+  v_shortage RECORD;
+  v_shortages TEXT := '';
+  v_result JSONB;
+BEGIN
+  v_user_id := auth.uid()::text;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to post transactions';
+  END IF;
+
+  IF p_transaction_type NOT IN ('Delivery', 'Sale', 'Adjustment') THEN
+    RAISE EXCEPTION 'Invalid transaction type. Must be "Delivery", "Sale" or "Adjustment"';
+  END IF;
+
+  IF p_transaction_type = 'Adjustment' AND p_adjustment_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required for stock adjustments';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one transaction item is required';
+  END IF;
+
+  IF p_supplier_id IS NOT NULL AND p_transaction_type <> 'Delivery' THEN
+    RAISE EXCEPTION 'Only deliveries can have a supplier';
+  END IF;
+
+  IF p_customer_id IS NOT NULL AND p_transaction_type <> 'Sale' THEN
+    RAISE EXCEPTION 'Only sales can have a customer';
+  END IF;
+
+  IF p_discount_type IS NOT NULL AND p_discount_type NOT IN ('amount', 'percent') THEN
+    RAISE EXCEPTION 'Invalid discount type. Must be "amount" or "percent"';
+  END IF;
+
+  SELECT staff_discount_limit INTO v_staff_limit FROM shop_settings WHERE id = 1;
+  v_staff_limit := COALESCE(v_staff_limit, 0);
+
+  IF p_override_stock THEN
+    IF NOT is_owner() THEN
+      RAISE EXCEPTION 'Only owners can override the stock check';
+    END IF;
+
+    IF p_override_note IS NULL OR LENGTH(TRIM(p_override_note)) = 0 THEN
+      RAISE EXCEPTION 'A note is required to override the stock check';
+    END IF;
+  END IF;
+
+  IF p_transaction_type = 'Sale' THEN
+    PERFORM 1
+    FROM product p
+    WHERE p.sku IN (SELECT UPPER(TRIM(i->>'sku')) FROM jsonb_array_elements(p_items) i)
+    ORDER BY p.sku
+    FOR UPDATE;
+
+    FOR v_shortage IN
+      SELECT
+        req.sku,
+        req.requested,
+        COALESCE((
+          SELECT SUM(ti.quantity)
+          FROM transaction_item ti
+          JOIN inventory_transaction t ON ti.transaction_id = t.id
+          WHERE ti.sku = req.sku
+            AND t.status = 'completed'
+        ), 0) AS available
+      FROM (
+        SELECT UPPER(TRIM(i->>'sku')) AS sku, SUM(ABS((i->>'quantity')::NUMERIC))::INTEGER AS requested
+        FROM jsonb_array_elements(p_items) i
+        WHERE jsonb_typeof(i->'quantity') = 'number'
+        GROUP BY UPPER(TRIM(i->>'sku'))
+      ) req
+      ORDER BY req.sku
+    LOOP
+      IF v_shortage.requested > v_shortage.available THEN
+        v_shortages := v_shortages || CASE WHEN v_shortages = '' THEN '' ELSE '; ' END ||
+          format('%s (requested %s, available %s)', v_shortage.sku, v_shortage.requested, GREATEST(v_shortage.available, 0));
+      END IF;
+    END LOOP;
+
+    IF v_shortages <> '' AND NOT p_override_stock THEN
+      RAISE EXCEPTION 'Insufficient stock: %', v_shortages
+        USING HINT = 'insufficient_stock';
+    END IF;
+  END IF;
+
+  INSERT INTO inventory_transaction (transaction_type, reference, performed_by, notes, customer_id, adjustment_reason, stock_override_note, supplier_id)
+  VALUES (
+    p_transaction_type,
+    NULLIF(TRIM(p_reference), ''),
+    v_user_id,
+    NULLIF(TRIM(p_notes), ''),
+    p_customer_id,
+    CASE WHEN p_transaction_type = 'Adjustment' THEN p_adjustment_reason ELSE NULL END,
+    -- Only kept when the override was actually needed
+    CASE WHEN v_shortages <> '' THEN TRIM(p_override_note) ELSE NULL END,
+    p_supplier_id
+  )
+  RETURNING id INTO v_transaction_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_sku := UPPER(TRIM(v_item->>'sku'));
+
+    IF v_sku IS NULL OR v_sku = '' THEN
+      RAISE EXCEPTION 'Valid SKU is required for all items';
+    END IF;
+
+    IF jsonb_typeof(v_item->'quantity') <> 'number' OR (v_item->>'quantity')::NUMERIC <> TRUNC((v_item->>'quantity')::NUMERIC) THEN
+      RAISE EXCEPTION 'Valid quantity is required for all items (SKU %)', v_sku;
+    END IF;
+
+    v_quantity := (v_item->>'quantity')::INTEGER;
+
+    IF v_quantity = 0 THEN
+      RAISE EXCEPTION 'Valid quantity is required for all items (SKU %)', v_sku;
+    END IF;
+
+    -- Snapshot the current price for historical accuracy
+    SELECT price INTO v_price FROM product WHERE sku = v_sku;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found: %', v_sku;
+    END IF;
+
+    IF p_transaction_type = 'Sale' THEN
+      v_quantity := -ABS(v_quantity);
+    ELSIF p_transaction_type = 'Delivery' THEN
+      v_quantity := ABS(v_quantity);
+    END IF;
+
+    -- Line discount: pesos off the line, percent off, or a manually set unit price
+    v_line_discount_type := NULLIF(v_item->'discount'->>'type', '');
+    v_line_discount_value := (v_item->'discount'->>'value')::DECIMAL(10,2);
+    v_gross := ABS(v_quantity) * v_price;
+    v_line_discount := 0;
+
+    IF v_line_discount_type IS NOT NULL THEN
+      IF p_transaction_type <> 'Sale' THEN
+        RAISE EXCEPTION 'Discounts can only be given on sales';
+      END IF;
+
+      IF v_line_discount_value IS NULL OR v_line_discount_value < 0 THEN
+        RAISE EXCEPTION 'Discount for % must be a positive number', v_sku;
+      END IF;
+
+      IF v_line_discount_type = 'percent' THEN
+        IF v_line_discount_value > 100 THEN
+          RAISE EXCEPTION 'Discount for % cannot exceed 100%%', v_sku;
+        END IF;
+        v_line_discount := ROUND(v_gross * v_line_discount_value / 100, 2);
+      ELSIF v_line_discount_type = 'amount' THEN
+        IF v_line_discount_value > v_gross THEN
+          RAISE EXCEPTION 'Discount for % cannot exceed the line total of %', v_sku, v_gross;
+        END IF;
+        v_line_discount := v_line_discount_value;
+      ELSIF v_line_discount_type = 'price' THEN
+        IF v_line_discount_value > v_price THEN
+          RAISE EXCEPTION 'Override price for % cannot exceed the list price of %', v_sku, v_price;
+        END IF;
+        v_line_discount := (v_price - v_line_discount_value) * ABS(v_quantity);
+        v_price_override := TRUE;
+      ELSE
+        RAISE EXCEPTION 'Invalid discount type for %', v_sku;
+      END IF;
+
+      v_any_discount := TRUE;
+
+      IF v_line_discount > ROUND(v_gross * v_staff_limit / 100, 2) THEN
+        v_over_limit := TRUE;
+      END IF;
+    END IF;
+
+    v_gross_total := v_gross_total + v_gross;
+    v_subtotal := v_subtotal + v_gross - v_line_discount;
+
+    INSERT INTO transaction_item (
+      transaction_id, sku, quantity, unit_price_at_transaction, note,
+      discount_type, discount_value, discount_amount
+    )
+    VALUES (
+      v_transaction_id, v_sku, v_quantity, v_price, NULLIF(TRIM(v_item->>'note'), ''),
+      v_line_discount_type, v_line_discount_value, v_line_discount
+    );
+  END LOOP;
+
+  -- Whole-sale discount comes off what is left after line discounts
+  IF p_discount_type IS NOT NULL THEN
+    IF p_transaction_type <> 'Sale' THEN
+      RAISE EXCEPTION 'Discounts can only be given on sales';
+    END IF;
+
+    IF p_discount_value IS NULL OR p_discount_value < 0 THEN
+      RAISE EXCEPTION 'Discount must be a positive number';
+    END IF;
+
+    IF p_discount_type = 'percent' THEN
+      IF p_discount_value > 100 THEN
+        RAISE EXCEPTION 'Discount cannot exceed 100%%';
+      END IF;
+      v_discount := ROUND(v_subtotal * p_discount_value / 100, 2);
+    ELSE
+      IF p_discount_value > v_subtotal THEN
+        RAISE EXCEPTION 'Discount cannot exceed the sale total of %', v_subtotal;
+      END IF;
+      v_discount := p_discount_value;
+    END IF;
+
+    v_any_discount := TRUE;
+  END IF;
+
+  IF v_any_discount THEN
+    -- Staff may take up to shop_settings.staff_discount_limit percent off each
+    -- line and off the sale as a whole; setting a price or going further needs
+    -- an owner
+    IF NOT is_owner() THEN
+      IF v_price_override THEN
+        RAISE EXCEPTION 'Only owners can override prices';
+      END IF;
+
+      IF v_over_limit OR v_gross_total - v_subtotal + v_discount > ROUND(v_gross_total * v_staff_limit / 100, 2) THEN
+        RAISE EXCEPTION 'Discounts over % percent need an owner', v_staff_limit;
+      END IF;
+    END IF;
+
+    IF p_discount_reason IS NULL OR LENGTH(TRIM(p_discount_reason)) = 0 THEN
+      RAISE EXCEPTION 'A reason is required for discounts and price overrides';
+    END IF;
+
+    UPDATE inventory_transaction
+    SET discount_type = p_discount_type,
+        discount_value = p_discount_value,
+        discount_amount = v_discount,
+        discount_reason = TRIM(p_discount_reason)
+    WHERE id = v_transaction_id;
+  END IF;
+
+  IF p_transaction_type = 'Sale' THEN
+    PERFORM apply_sale_vat(v_transaction_id);
+  END IF;
+
+  -- Payments: Sales need at least one, and together they must cover the total due
+  IF p_transaction_type <> 'Sale' THEN
+    IF p_payments IS NOT NULL AND jsonb_typeof(p_payments) = 'array' AND jsonb_array_length(p_payments) > 0 THEN
+      RAISE EXCEPTION 'Only sales can have payments';
+    END IF;
+  ELSE
+    IF p_payments IS NULL OR jsonb_typeof(p_payments) <> 'array' OR jsonb_array_length(p_payments) = 0 THEN
+      RAISE EXCEPTION 'At least one payment is required for sales';
+    END IF;
+
+    FOR v_payment IN SELECT * FROM jsonb_array_elements(p_payments)
+    LOOP
+      v_method := v_payment->>'method';
+      v_amount := (v_payment->>'amount')::DECIMAL(10,2);
+      v_tendered := (v_payment->>'tendered')::DECIMAL(10,2);
+
+      IF v_method IS NULL OR v_method NOT IN ('cash', 'ewallet', 'card', 'bank_transfer', 'store_credit') THEN
+        RAISE EXCEPTION 'Invalid payment method: %', COALESCE(v_method, 'none');
+      END IF;
+
+      IF v_amount IS NULL OR v_amount <= 0 THEN
+        RAISE EXCEPTION 'Payment amounts must be greater than zero';
+      END IF;
+
+      IF v_method = 'store_credit' AND p_customer_id IS NULL THEN
+        RAISE EXCEPTION 'Store credit can only be used on a sale with a customer';
+      END IF;
+
+      -- Only cash is tendered and gets change back
+      IF v_tendered IS NOT NULL THEN
+        IF v_method <> 'cash' THEN
+          RAISE EXCEPTION 'Only cash payments can have an amount tendered';
+        END IF;
+        IF v_tendered < v_amount THEN
+          RAISE EXCEPTION 'Cash tendered (%) is less than the amount paid (%)', v_tendered, v_amount;
+        END IF;
+      END IF;
+
+      INSERT INTO transaction_payment (transaction_id, method, amount, tendered, reference)
+      VALUES (v_transaction_id, v_method, v_amount, v_tendered, NULLIF(TRIM(v_payment->>'reference'), ''));
+
+      v_paid := v_paid + v_amount;
+    END LOOP;
+
+    SELECT COALESCE(SUM(gross_amount), 0) INTO v_total
+    FROM transaction_item
+    WHERE transaction_id = v_transaction_id;
+
+    IF v_paid <> v_total THEN
+      RAISE EXCEPTION 'Payments (%) must add up to the sale total (%)', v_paid, v_total
+        USING HINT = 'payment_mismatch';
+    END IF;
+  END IF;
+
+  SELECT to_jsonb(t) || jsonb_build_object(
+    'transaction_item',
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(ti) ORDER BY ti.id)
+       FROM transaction_item ti
+       WHERE ti.transaction_id = t.id),
+      '[]'::jsonb
+    ),
+    'transaction_payment',
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(tp) ORDER BY tp.id)
+       FROM transaction_payment tp
+       WHERE tp.transaction_id = t.id),
+      '[]'::jsonb
+    )
+  )
+  INTO v_result
+  FROM inventory_transaction t
+  WHERE t.id = v_transaction_id;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION post_inventory_transaction(VARCHAR, JSONB, VARCHAR, TEXT, INTEGER, VARCHAR, BOOLEAN, TEXT, INTEGER, VARCHAR, DECIMAL, TEXT, JSONB) TO authenticated;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE transaction_payment IS 'How a Sale was paid; split tender is one row per method';
+COMMENT ON COLUMN transaction_payment.amount IS 'Amount applied to the sale';
+COMMENT ON COLUMN transaction_payment.tendered IS 'Cash handed over by the customer';
+COMMENT ON COLUMN transaction_payment.change_amount IS 'Change given back (tendered - amount)';
+
+COMMIT;
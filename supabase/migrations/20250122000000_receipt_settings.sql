@@ -0,0 +1,35 @@
+-- ============================================================================
+-- Receipt Settings
+-- ============================================================================
+-- Description: Adds the shop details printed at the top of sales receipts
+--              (name, address, contact number, TIN) and a footer message to
+--              shop_settings. All are optional; receipts leave out whatever
+--              is blank.
+-- Version: 1.0
+-- Date: 2025-01-22
+-- ============================================================================
+
+BEGIN;
+
+-- ----------------------------------------------------------------------------
+-- Schema Changes
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE shop_settings
+ADD COLUMN shop_name VARCHAR(255),
+ADD COLUMN shop_address TEXT,
+ADD COLUMN shop_phone VARCHAR(50),
+ADD COLUMN shop_tin VARCHAR(50),
+ADD COLUMN receipt_footer TEXT;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN shop_settings.shop_name IS 'Shop name printed at the top of receipts';
+COMMENT ON COLUMN shop_settings.shop_address IS 'Shop address printed on receipts';
+COMMENT ON COLUMN shop_settings.shop_phone IS 'Contact number printed on receipts';
+COMMENT ON COLUMN shop_settings.shop_tin IS 'Taxpayer identification number printed on receipts';
+COMMENT ON COLUMN shop_settings.receipt_footer IS 'Message printed at the bottom of receipts, e.g. return policy';
+
+COMMIT;
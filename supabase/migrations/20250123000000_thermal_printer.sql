@@ -0,0 +1,31 @@
+-- ============================================================================
+-- Thermal Printer Settings
+-- ============================================================================
+-- Description: Adds the network thermal printer used for ESC/POS receipts to
+--              shop_settings: its host, raw TCP port (9100 on most printers)
+--              and paper roll width. With no host set, receipts are shared as
+--              .bin files instead of being sent to the printer.
+-- Version: 1.0
+-- Date: 2025-01-23
+-- ============================================================================
+
+BEGIN;
+
+-- ----------------------------------------------------------------------------
+-- Schema Changes
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE shop_settings
+ADD COLUMN printer_host VARCHAR(255),
+ADD COLUMN printer_port INTEGER NOT NULL DEFAULT 9100 CHECK (printer_port BETWEEN 1 AND 65535),
+ADD COLUMN paper_width INTEGER NOT NULL DEFAULT 58 CHECK (paper_width IN (58, 80));
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN shop_settings.printer_host IS 'IP address or hostname of the network thermal printer';
+COMMENT ON COLUMN shop_settings.printer_port IS 'Raw TCP port the printer listens on';
+COMMENT ON COLUMN shop_settings.paper_width IS 'Thermal paper width in mm: 58 or 80';
+
+COMMIT;
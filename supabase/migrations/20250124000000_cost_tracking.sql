@@ -0,0 +1,1034 @@
+-- ============================================================================
+-- Cost Tracking
+-- ============================================================================
+-- Description: Adds a current cost per product and a unit cost on every
+--              transaction line. Deliveries record what was paid per unit and
+--              update the product's cost; sales and adjustments snapshot the
+--              current cost, so each sale carries its cost of goods sold.
+--              Returns copy the cost of the line they reverse. The inventory
+--              ledger gains sales revenue, COGS and gross profit columns.
+-- Version: 1.0
+-- Date: 2025-01-24
+-- ============================================================================
+
+BEGIN;
+
+-- ----------------------------------------------------------------------------
+-- Schema Changes
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE product
+ADD COLUMN cost DECIMAL(10,2) CHECK (cost >= 0);
+
+ALTER TABLE transaction_item
+ADD COLUMN unit_cost DECIMAL(10,2) CHECK (unit_cost >= 0);
+
+-- Start each product at its preferred supplier's listed cost, if any
+UPDATE product p
+SET cost = ps.unit_cost
+FROM product_supplier ps
+WHERE ps.product_sku = p.sku
+  AND ps.supplier_id = p.preferred_supplier_id
+  AND ps.unit_cost IS NOT NULL;
+
+-- ----------------------------------------------------------------------------
+-- Current Stock View
+-- ----------------------------------------------------------------------------
+-- Exposes cost (new columns can only be appended)
+
+CREATE OR REPLACE VIEW current_stock AS
+SELECT
+  p.sku,
+  p.name,
+  p.volume_ml,
+  p.price,
+  p.min_stock_threshold,
+  p.description,
+  COALESCE(SUM(ti.quantity) FILTER (WHERE t.status = 'completed'), 0) AS quantity_on_hand,
+  COALESCE(SUM(ti.quantity) FILTER (WHERE t.status = 'completed'), 0) * p.price AS total_value,
+  p.created_at,
+  p.updated_at,
+  p.preferred_supplier_id,
+  p.vat_exempt,
+  p.cost
+FROM product p
+LEFT JOIN transaction_item ti ON p.sku = ti.sku
+LEFT JOIN inventory_transaction t ON ti.transaction_id = t.id
+GROUP BY p.sku, p.name, p.volume_ml, p.price, p.min_stock_threshold, p.description, p.created_at, p.updated_at, p.preferred_supplier_id, p.vat_exempt, p.cost;
+
+-- ----------------------------------------------------------------------------
+-- Post Inventory Transaction Function
+-- ----------------------------------------------------------------------------
+-- Delivery items may carry "unit_cost"; every line stores a unit_cost snapshot
+
+CREATE OR REPLACE FUNCTION post_inventory_transaction(
+  p_transaction_type VARCHAR(20),
+  p_items JSONB,
+  p_reference VARCHAR(100) DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_customer_id INTEGER DEFAULT NULL,
+  p_adjustment_reason VARCHAR(30) DEFAULT NULL,
+  p_override_stock BOOLEAN DEFAULT FALSE,
+  p_override_note TEXT DEFAULT NULL,
+  p_supplier_id INTEGER DEFAULT NULL,
+  p_discount_type VARCHAR(10) DEFAULT NULL,
+  p_discount_value DECIMAL(10,2) DEFAULT NULL,
+  p_discount_reason TEXT DEFAULT NULL,
+  p_payments JSONB DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id VARCHAR(255);
+  v_transaction_id INTEGER;
+  v_item JSONB;
+  v_sku VARCHAR(50);
+  v_quantity INTEGER;
+  v_price DECIMAL(10,2);
+  v_cost DECIMAL(10,2);
+  v_line_discount_type VARCHAR(10);
+  v_line_discount_value DECIMAL(10,2);
+  v_line_discount DECIMAL(10,2);
+  v_gross DECIMAL(10,2);
+  v_subtotal DECIMAL(10,2) := 0;
+  v_discount DECIMAL(10,2) := 0;
+  v_any_discount BOOLEAN := FALSE;
+  v_price_override BOOLEAN := FALSE;
+  v_staff_limit INTEGER;
+  v_gross_total DECIMAL(10,2) := 0;
+  v_over_limit BOOLEAN := FALSE;
+  v_payment JSONB;
+  v_method VARCHAR(20);
+  v_amount DECIMAL(10,2);
+  v_tendered DECIMAL(10,2);
+  v_paid DECIMAL(10,2) := 0;
+  v_total DECIMAL(10,2);
+  v_shortage RECORD;
+  v_shortages TEXT := '';
+  v_result JSONB;
+BEGIN
+  v_user_id := auth.uid()::text;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to post transactions';
+  END IF;
+
+  IF p_transaction_type NOT IN ('Delivery', 'Sale', 'Adjustment') THEN
+    RAISE EXCEPTION 'Invalid transaction type. Must be "Delivery", "Sale" or "Adjustment"';
+  END IF;
+
+  IF p_transaction_type = 'Adjustment' AND p_adjustment_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required for stock adjustments';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one transaction item is required';
+  END IF;
+
+  IF p_supplier_id IS NOT NULL AND p_transaction_type <> 'Delivery' THEN
+    RAISE EXCEPTION 'Only deliveries can have a supplier';
+  END IF;
+
+  IF p_customer_id IS NOT NULL AND p_transaction_type <> 'Sale' THEN
+    RAISE EXCEPTION 'Only sales can have a customer';
+  END IF;
+
+  IF p_discount_type IS NOT NULL AND p_discount_type NOT IN ('amount', 'percent') THEN
+    RAISE EXCEPTION 'Invalid discount type. Must be "amount" or "percent"';
+  END IF;
+
+  SELECT staff_discount_limit INTO v_staff_limit FROM shop_settings WHERE id = 1;
+  v_staff_limit := COALESCE(v_staff_limit, 0);
+
+  IF p_override_stock THEN
+    IF NOT is_owner() THEN
+      RAISE EXCEPTION 'Only owners can override the stock check';
+    END IF;
+
+    IF p_override_note IS NULL OR LENGTH(TRIM(p_override_note)) = 0 THEN
+      RAISE EXCEPTION 'A note is required to override the stock check';
+    END IF;
+  END IF;
+
+  IF p_transaction_type = 'Sale' THEN
+    PERFORM 1
+    FROM product p
+    WHERE p.sku IN (SELECT UPPER(TRIM(i->>'sku')) FROM jsonb_array_elements(p_items) i)
+    ORDER BY p.sku
+    FOR UPDATE;
+
+    FOR v_shortage IN
+      SELECT
+        req.sku,
+        req.requested,
+        COALESCE((
+          SELECT SUM(ti.quantity)
+          FROM transaction_item ti
+          JOIN inventory_transaction t ON ti.transaction_id = t.id
+          WHERE ti.sku = req.sku
+            AND t.status = 'completed'
+        ), 0) AS available
+      FROM (
+        SELECT UPPER(TRIM(i->>'sku')) AS sku, SUM(ABS((i->>'quantity')::NUMERIC))::INTEGER AS requested
+        FROM jsonb_array_elements(p_items) i
+        WHERE jsonb_typeof(i->'quantity') = 'number'
+        GROUP BY UPPER(TRIM(i->>'sku'))
+      ) req
+      ORDER BY req.sku
+    LOOP
+      IF v_shortage.requested > v_shortage.available THEN
+        v_shortages := v_shortages || CASE WHEN v_shortages = '' THEN '' ELSE '; ' END ||
+          format('%s (requested %s, available %s)', v_shortage.sku, v_shortage.requested, GREATEST(v_shortage.available, 0));
+      END IF;
+    END LOOP;
+
+    IF v_shortages <> '' AND NOT p_override_stock THEN
+      RAISE EXCEPTION 'Insufficient stock: %', v_shortages
+        USING HINT = 'insufficient_stock';
+    END IF;
+  END IF;
+
+  INSERT INTO inventory_transaction (transaction_type, reference, performed_by, notes, customer_id, adjustment_reason, stock_override_note, supplier_id)
+  VALUES (
+    p_transaction_type,
+    NULLIF(TRIM(p_reference), ''),
+    v_user_id,
+    NULLIF(TRIM(p_notes), ''),
+    p_customer_id,
+    CASE WHEN p_transaction_type = 'Adjustment' THEN p_adjustment_reason ELSE NULL END,
+    -- Only kept when the override was actually needed
+    CASE WHEN v_shortages <> '' THEN TRIM(p_override_note) ELSE NULL END,
+    p_supplier_id
+  )
+  RETURNING id INTO v_transaction_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_sku := UPPER(TRIM(v_item->>'sku'));
+
+    IF v_sku IS NULL OR v_sku = '' THEN
+      RAISE EXCEPTION 'Valid SKU is required for all items';
+    END IF;
+
+    IF jsonb_typeof(v_item->'quantity') <> 'number' OR (v_item->>'quantity')::NUMERIC <> TRUNC((v_item->>'quantity')::NUMERIC) THEN
+      RAISE EXCEPTION 'Valid quantity is required for all items (SKU %)', v_sku;
+    END IF;
+
+    v_quantity := (v_item->>'quantity')::INTEGER;
+
+    IF v_quantity = 0 THEN
+      RAISE EXCEPTION 'Valid quantity is required for all items (SKU %)', v_sku;
+    END IF;
+
+    -- Snapshot the current price and cost for historical accuracy
+    SELECT price, cost INTO v_price, v_cost FROM product WHERE sku = v_sku;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found: %', v_sku;
+    END IF;
+
+    IF p_transaction_type = 'Sale' THEN
+      v_quantity := -ABS(v_quantity);
+    ELSIF p_transaction_type = 'Delivery' THEN
+      v_quantity := ABS(v_quantity);
+    END IF;
+
+    -- Deliveries record what was paid per unit, which becomes the product's
+    -- current cost; without one, the supplier's listed cost is assumed
+    IF v_item->'unit_cost' IS NOT NULL AND jsonb_typeof(v_item->'unit_cost') <> 'null' THEN
+      IF p_transaction_type <> 'Delivery' THEN
+        RAISE EXCEPTION 'Unit cost can only be entered on deliveries';
+      END IF;
+
+      IF jsonb_typeof(v_item->'unit_cost') <> 'number' OR (v_item->>'unit_cost')::DECIMAL < 0 THEN
+        RAISE EXCEPTION 'Unit cost for % must be zero or more', v_sku;
+      END IF;
+
+      v_cost := (v_item->>'unit_cost')::DECIMAL(10,2);
+
+      UPDATE product
+      SET cost = v_cost
+      WHERE sku = v_sku;
+    ELSIF p_transaction_type = 'Delivery' AND p_supplier_id IS NOT NULL THEN
+      v_cost := COALESCE(
+        (SELECT ps.unit_cost FROM product_supplier ps WHERE ps.product_sku = v_sku AND ps.supplier_id = p_supplier_id),
+        v_cost
+      );
+    END IF;
+
+    -- Line discount: pesos off the line, percent off, or a manually set unit price
+    v_line_discount_type := NULLIF(v_item->'discount'->>'type', '');
+    v_line_discount_value := (v_item->'discount'->>'value')::DECIMAL(10,2);
+    v_gross := ABS(v_quantity) * v_price;
+    v_line_discount := 0;
+
+    IF v_line_discount_type IS NOT NULL THEN
+      IF p_transaction_type <> 'Sale' THEN
+        RAISE EXCEPTION 'Discounts can only be given on sales';
+      END IF;
+
+      IF v_line_discount_value IS NULL OR v_line_discount_value < 0 THEN
+        RAISE EXCEPTION 'Discount for % must be a positive number', v_sku;
+      END IF;
+
+      IF v_line_discount_type = 'percent' THEN
+        IF v_line_discount_value > 100 THEN
+          RAISE EXCEPTION 'Discount for % cannot exceed 100%%', v_sku;
+        END IF;
+        v_line_discount := ROUND(v_gross * v_line_discount_value / 100, 2);
+      ELSIF v_line_discount_type = 'amount' THEN
+        IF v_line_discount_value > v_gross THEN
+          RAISE EXCEPTION 'Discount for % cannot exceed the line total of %', v_sku, v_gross;
+        END IF;
+        v_line_discount := v_line_discount_value;
+      ELSIF v_line_discount_type = 'price' THEN
+        IF v_line_discount_value > v_price THEN
+          RAISE EXCEPTION 'Override price for % cannot exceed the list price of %', v_sku, v_price;
+        END IF;
+        v_line_discount := (v_price - v_line_discount_value) * ABS(v_quantity);
+        v_price_override := TRUE;
+      ELSE
+        RAISE EXCEPTION 'Invalid discount type for %', v_sku;
+      END IF;
+
+      v_any_discount := TRUE;
+
+      IF v_line_discount > ROUND(v_gross * v_staff_limit / 100, 2) THEN
+        v_over_limit := TRUE;
+      END IF;
+    END IF;
+
+    v_gross_total := v_gross_total + v_gross;
+    v_subtotal := v_subtotal + v_gross - v_line_discount;
+
+    INSERT INTO transaction_item (
+      transaction_id, sku, quantity, unit_price_at_transaction, note,
+      discount_type, discount_value, discount_amount, unit_cost
+    )
+    VALUES (
+      v_transaction_id, v_sku, v_quantity, v_price, NULLIF(TRIM(v_item->>'note'), ''),
+      v_line_discount_type, v_line_discount_value, v_line_discount, v_cost
+    );
+  END LOOP;
+
+  -- Whole-sale discount comes off what is left after line discounts
+  IF p_discount_type IS NOT NULL THEN
+    IF p_transaction_type <> 'Sale' THEN
+      RAISE EXCEPTION 'Discounts can only be given on sales';
+    END IF;
+
+    IF p_discount_value IS NULL OR p_discount_value < 0 THEN
+      RAISE EXCEPTION 'Discount must be a positive number';
+    END IF;
+
+    IF p_discount_type = 'percent' THEN
+      IF p_discount_value > 100 THEN
+        RAISE EXCEPTION 'Discount cannot exceed 100%%';
+      END IF;
+      v_discount := ROUND(v_subtotal * p_discount_value / 100, 2);
+    ELSE
+      IF p_discount_value > v_subtotal THEN
+        RAISE EXCEPTION 'Discount cannot exceed the sale total of %', v_subtotal;
+      END IF;
+      v_discount := p_discount_value;
+    END IF;
+
+    v_any_discount := TRUE;
+  END IF;
+
+  IF v_any_discount THEN
+    -- Staff may take up to shop_settings.staff_discount_limit percent off each
+    -- line and off the sale as a whole; setting a price or going further needs
+    -- an owner
+    IF NOT is_owner() THEN
+      IF v_price_override THEN
+        RAISE EXCEPTION 'Only owners can override prices';
+      END IF;
+
+      IF v_over_limit OR v_gross_total - v_subtotal + v_discount > ROUND(v_gross_total * v_staff_limit / 100, 2) THEN
+        RAISE EXCEPTION 'Discounts over % percent need an owner', v_staff_limit;
+      END IF;
+    END IF;
+
+    IF p_discount_reason IS NULL OR LENGTH(TRIM(p_discount_reason)) = 0 THEN
+      RAISE EXCEPTION 'A reason is required for discounts and price overrides';
+    END IF;
+
+    UPDATE inventory_transaction
+    SET discount_type = p_discount_type,
+        discount_value = p_discount_value,
+        discount_amount = v_discount,
+        discount_reason = TRIM(p_discount_reason)
+    WHERE id = v_transaction_id;
+  END IF;
+
+  IF p_transaction_type = 'Sale' THEN
+    PERFORM apply_sale_vat(v_transaction_id);
+  END IF;
+
+  -- Payments: Sales need at least one, and together they must cover the total due
+  IF p_transaction_type <> 'Sale' THEN
+    IF p_payments IS NOT NULL AND jsonb_typeof(p_payments) = 'array' AND jsonb_array_length(p_payments) > 0 THEN
+      RAISE EXCEPTION 'Only sales can have payments';
+    END IF;
+  ELSE
+    IF p_payments IS NULL OR jsonb_typeof(p_payments) <> 'array' OR jsonb_array_length(p_payments) = 0 THEN
+      RAISE EXCEPTION 'At least one payment is required for sales';
+    END IF;
+
+    FOR v_payment IN SELECT * FROM jsonb_array_elements(p_payments)
+    LOOP
+      v_method := v_payment->>'method';
+      v_amount := (v_payment->>'amount')::DECIMAL(10,2);
+      v_tendered := (v_payment->>'tendered')::DECIMAL(10,2);
+
+      IF v_method IS NULL OR v_method NOT IN ('cash', 'ewallet', 'card', 'bank_transfer', 'store_credit') THEN
+        RAISE EXCEPTION 'Invalid payment method: %', COALESCE(v_method, 'none');
+      END IF;
+
+      IF v_amount IS NULL OR v_amount <= 0 THEN
+        RAISE EXCEPTION 'Payment amounts must be greater than zero';
+      END IF;
+
+      IF v_method = 'store_credit' AND p_customer_id IS NULL THEN
+        RAISE EXCEPTION 'Store credit can only be used on a sale with a customer';
+      END IF;
+
+      -- Only cash is tendered and gets change back
+      IF v_tendered IS NOT NULL THEN
+        IF v_method <> 'cash' THEN
+          RAISE EXCEPTION 'Only cash payments can have an amount tendered';
+        END IF;
+        IF v_tendered < v_amount THEN
+          RAISE EXCEPTION 'Cash tendered (%) is less than the amount paid (%)', v_tendered, v_amount;
+        END IF;
+      END IF;
+
+      INSERT INTO transaction_payment (transaction_id, method, amount, tendered, reference)
+      VALUES (v_transaction_id, v_method, v_amount, v_tendered, NULLIF(TRIM(v_payment->>'reference'), ''));
+
+      v_paid := v_paid + v_amount;
+    END LOOP;
+
+    SELECT COALESCE(SUM(gross_amount), 0) INTO v_total
+    FROM transaction_item
+    WHERE transaction_id = v_transaction_id;
+
+    IF v_paid <> v_total THEN
+      RAISE EXCEPTION 'Payments (%) must add up to the sale total (%)', v_paid, v_total
+        USING HINT = 'payment_mismatch';
+    END IF;
+  END IF;
+
+  SELECT to_jsonb(t) || jsonb_build_object(
+    'transaction_item',
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(ti) ORDER BY ti.id)
+       FROM transaction_item ti
+       WHERE ti.transaction_id = t.id),
+      '[]'::jsonb
+    ),
+    'transaction_payment',
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(tp) ORDER BY tp.id)
+       FROM transaction_payment tp
+       WHERE tp.transaction_id = t.id),
+      '[]'::jsonb
+    )
+  )
+  INTO v_result
+  FROM inventory_transaction t
+  WHERE t.id = v_transaction_id;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION post_inventory_transaction(VARCHAR, JSONB, VARCHAR, TEXT, INTEGER, VARCHAR, BOOLEAN, TEXT, INTEGER, VARCHAR, DECIMAL, TEXT, JSONB) TO authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Post Return Transaction Function
+-- ----------------------------------------------------------------------------
+-- Return lines copy the unit_cost of the sale line they reverse
+
+CREATE OR REPLACE FUNCTION post_return_transaction(
+  p_original_transaction_id INTEGER,
+  p_items JSONB,
+  p_refund_amount DECIMAL(10,2) DEFAULT NULL,
+  p_reference VARCHAR(100) DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id VARCHAR(255);
+  v_original inventory_transaction%ROWTYPE;
+  v_transaction_id INTEGER;
+  v_item JSONB;
+  v_original_item transaction_item%ROWTYPE;
+  v_quantity INTEGER;
+  v_already_returned INTEGER;
+  v_returned_value DECIMAL(10,2) := 0;
+  v_sale_subtotal DECIMAL(10,2);
+  v_net_price DECIMAL(10,2);
+  v_share DECIMAL;
+  v_result JSONB;
+BEGIN
+  v_user_id := auth.uid()::text;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to post transactions';
+  END IF;
+
+  SELECT * INTO v_original
+  FROM inventory_transaction
+  WHERE id = p_original_transaction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Original transaction not found: %', p_original_transaction_id;
+  END IF;
+
+  IF v_original.transaction_type <> 'Sale' OR v_original.status <> 'completed' THEN
+    RAISE EXCEPTION 'Only completed sales can be returned';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one returned item is required';
+  END IF;
+
+  -- Whole-sale discount is shared across lines in proportion to what each line cost
+  SELECT COALESCE(SUM(total_amount - discount_amount), 0) INTO v_sale_subtotal
+  FROM transaction_item
+  WHERE transaction_id = v_original.id;
+
+  -- Refund is filled in after the lines are known
+  INSERT INTO inventory_transaction (
+    transaction_type, reference, performed_by, notes, customer_name, customer_id,
+    original_transaction_id, refund_amount
+  )
+  VALUES (
+    'Return',
+    NULLIF(TRIM(p_reference), ''),
+    v_user_id,
+    NULLIF(TRIM(p_notes), ''),
+    v_original.customer_name,
+    v_original.customer_id,
+    v_original.id,
+    0
+  )
+  RETURNING id INTO v_transaction_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    SELECT * INTO v_original_item
+    FROM transaction_item
+    WHERE id = (v_item->>'original_item_id')::INTEGER
+      AND transaction_id = v_original.id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item % is not part of sale %', v_item->>'original_item_id', v_original.id;
+    END IF;
+
+    IF jsonb_typeof(v_item->'quantity') <> 'number' OR (v_item->>'quantity')::NUMERIC <> TRUNC((v_item->>'quantity')::NUMERIC) THEN
+      RAISE EXCEPTION 'Valid quantity is required for all items (SKU %)', v_original_item.sku;
+    END IF;
+
+    v_quantity := (v_item->>'quantity')::INTEGER;
+
+    IF v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Returned quantity must be positive (SKU %)', v_original_item.sku;
+    END IF;
+
+    SELECT COALESCE(SUM(ti.quantity), 0) INTO v_already_returned
+    FROM transaction_item ti
+    JOIN inventory_transaction t ON ti.transaction_id = t.id
+    WHERE ti.original_item_id = v_original_item.id
+      AND t.status = 'completed';
+
+    IF v_already_returned + v_quantity > ABS(v_original_item.quantity) THEN
+      RAISE EXCEPTION 'Cannot return % of % (sold %, already returned %)',
+        v_quantity, v_original_item.sku, ABS(v_original_item.quantity), v_already_returned;
+    END IF;
+
+    -- Restock at the price the customer actually paid, after discounts
+    v_net_price := v_original_item.total_amount - v_original_item.discount_amount;
+    IF v_sale_subtotal > 0 THEN
+      v_net_price := v_net_price - v_original.discount_amount * v_net_price / v_sale_subtotal;
+    END IF;
+    v_net_price := ROUND(v_net_price / ABS(v_original_item.quantity), 2);
+
+    -- VAT is reversed in proportion to the units coming back
+    v_share := v_quantity::DECIMAL / ABS(v_original_item.quantity);
+
+    -- Returned units go back into stock at the cost they were sold at
+    INSERT INTO transaction_item (
+      transaction_id, sku, quantity, unit_price_at_transaction, original_item_id,
+      vat_rate, net_amount, tax_amount, gross_amount, unit_cost
+    )
+    VALUES (
+      v_transaction_id, v_original_item.sku, v_quantity, v_net_price, v_original_item.id,
+      v_original_item.vat_rate,
+      ROUND(v_original_item.net_amount * v_share, 2),
+      ROUND(v_original_item.gross_amount * v_share, 2) - ROUND(v_original_item.net_amount * v_share, 2),
+      ROUND(v_original_item.gross_amount * v_share, 2),
+      v_original_item.unit_cost
+    );
+
+    -- Sales posted before VAT was tracked have no gross_amount
+    v_returned_value := v_returned_value + COALESCE(ROUND(v_original_item.gross_amount * v_share, 2), v_quantity * v_net_price);
+  END LOOP;
+
+  IF p_refund_amount IS NOT NULL AND (p_refund_amount < 0 OR p_refund_amount > v_returned_value) THEN
+    RAISE EXCEPTION 'Refund amount must be between 0 and %', v_returned_value;
+  END IF;
+
+  UPDATE inventory_transaction
+  SET refund_amount = COALESCE(p_refund_amount, v_returned_value)
+  WHERE id = v_transaction_id;
+
+  SELECT to_jsonb(t) || jsonb_build_object(
+    'transaction_item',
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(ti) ORDER BY ti.id)
+       FROM transaction_item ti
+       WHERE ti.transaction_id = t.id),
+      '[]'::jsonb
+    )
+  )
+  INTO v_result
+  FROM inventory_transaction t
+  WHERE t.id = v_transaction_id;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION post_return_transaction(INTEGER, JSONB, DECIMAL, VARCHAR, TEXT) TO authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Create Purchase Order Function
+-- ----------------------------------------------------------------------------
+-- Purchase order lines carry the expected unit cost
+
+CREATE OR REPLACE FUNCTION create_purchase_order(
+  p_supplier_id INTEGER,
+  p_items JSONB,
+  p_expected_date DATE DEFAULT NULL,
+  p_reference VARCHAR(100) DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id VARCHAR(255);
+  v_purchase_order_id INTEGER;
+  v_item JSONB;
+  v_sku VARCHAR(50);
+  v_quantity INTEGER;
+  v_price DECIMAL(10,2);
+  v_cost DECIMAL(10,2);
+  v_result JSONB;
+BEGIN
+  v_user_id := auth.uid()::text;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to create purchase orders';
+  END IF;
+
+  IF p_supplier_id IS NULL THEN
+    RAISE EXCEPTION 'Supplier is required';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one item is required';
+  END IF;
+
+  INSERT INTO inventory_transaction (transaction_type, status, reference, performed_by, notes, supplier_id, expected_date)
+  VALUES (
+    'Delivery',
+    'pending',
+    NULLIF(TRIM(p_reference), ''),
+    v_user_id,
+    NULLIF(TRIM(p_notes), ''),
+    p_supplier_id,
+    p_expected_date
+  )
+  RETURNING id INTO v_purchase_order_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_sku := UPPER(TRIM(v_item->>'sku'));
+
+    IF v_sku IS NULL OR v_sku = '' THEN
+      RAISE EXCEPTION 'Valid SKU is required for all items';
+    END IF;
+
+    IF jsonb_typeof(v_item->'quantity') <> 'number' OR (v_item->>'quantity')::NUMERIC <> TRUNC((v_item->>'quantity')::NUMERIC) THEN
+      RAISE EXCEPTION 'Valid quantity is required for all items (SKU %)', v_sku;
+    END IF;
+
+    v_quantity := (v_item->>'quantity')::INTEGER;
+
+    IF v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Ordered quantity must be positive (SKU %)', v_sku;
+    END IF;
+
+    SELECT price, cost INTO v_price, v_cost FROM product WHERE sku = v_sku;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found: %', v_sku;
+    END IF;
+
+    -- Expected cost: the supplier's listed cost, else the product's current cost
+    v_cost := COALESCE(
+      (SELECT ps.unit_cost FROM product_supplier ps WHERE ps.product_sku = v_sku AND ps.supplier_id = p_supplier_id),
+      v_cost
+    );
+
+    INSERT INTO transaction_item (transaction_id, sku, quantity, unit_price_at_transaction, unit_cost)
+    VALUES (v_purchase_order_id, v_sku, v_quantity, v_price, v_cost);
+  END LOOP;
+
+  SELECT to_jsonb(t) || jsonb_build_object(
+    'transaction_item',
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(ti) ORDER BY ti.id)
+       FROM transaction_item ti
+       WHERE ti.transaction_id = t.id),
+      '[]'::jsonb
+    )
+  )
+  INTO v_result
+  FROM inventory_transaction t
+  WHERE t.id = v_purchase_order_id;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION create_purchase_order(INTEGER, JSONB, DATE, VARCHAR, TEXT) TO authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Receive Purchase Order Function
+-- ----------------------------------------------------------------------------
+-- Received lines copy the ordered line's unit cost, which becomes the
+-- product's current cost
+
+CREATE OR REPLACE FUNCTION receive_purchase_order(
+  p_purchase_order_id INTEGER,
+  p_items JSONB,
+  p_reference VARCHAR(100) DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_close BOOLEAN DEFAULT FALSE
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id VARCHAR(255);
+  v_purchase_order inventory_transaction%ROWTYPE;
+  v_transaction_id INTEGER;
+  v_item JSONB;
+  v_ordered_item transaction_item%ROWTYPE;
+  v_quantity INTEGER;
+  v_result JSONB;
+BEGIN
+  v_user_id := auth.uid()::text;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to post transactions';
+  END IF;
+
+  SELECT * INTO v_purchase_order
+  FROM inventory_transaction
+  WHERE id = p_purchase_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_purchase_order.transaction_type <> 'Delivery' OR v_purchase_order.status <> 'pending' THEN
+    RAISE EXCEPTION 'Purchase order not found: %', p_purchase_order_id;
+  END IF;
+
+  IF v_purchase_order.closed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Purchase order % is already closed', p_purchase_order_id;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one received item is required';
+  END IF;
+
+  INSERT INTO inventory_transaction (transaction_type, reference, performed_by, notes, purchase_order_id, supplier_id)
+  VALUES (
+    'Delivery',
+    NULLIF(TRIM(p_reference), ''),
+    v_user_id,
+    NULLIF(TRIM(p_notes), ''),
+    v_purchase_order.id,
+    v_purchase_order.supplier_id
+  )
+  RETURNING id INTO v_transaction_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    SELECT * INTO v_ordered_item
+    FROM transaction_item
+    WHERE id = (v_item->>'ordered_item_id')::INTEGER
+      AND transaction_id = v_purchase_order.id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item % is not part of purchase order %', v_item->>'ordered_item_id', v_purchase_order.id;
+    END IF;
+
+    IF jsonb_typeof(v_item->'quantity') <> 'number' OR (v_item->>'quantity')::NUMERIC <> TRUNC((v_item->>'quantity')::NUMERIC) THEN
+      RAISE EXCEPTION 'Valid quantity is required for all items (SKU %)', v_ordered_item.sku;
+    END IF;
+
+    v_quantity := (v_item->>'quantity')::INTEGER;
+
+    IF v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Received quantity must be positive (SKU %)', v_ordered_item.sku;
+    END IF;
+
+    INSERT INTO transaction_item (transaction_id, sku, quantity, unit_price_at_transaction, ordered_item_id, unit_cost)
+    VALUES (v_transaction_id, v_ordered_item.sku, v_quantity, v_ordered_item.unit_price_at_transaction, v_ordered_item.id, v_ordered_item.unit_cost);
+
+    IF v_ordered_item.unit_cost IS NOT NULL THEN
+      UPDATE product
+      SET cost = v_ordered_item.unit_cost
+      WHERE sku = v_ordered_item.sku;
+    END IF;
+  END LOOP;
+
+  IF p_close OR NOT EXISTS (
+    SELECT 1
+    FROM purchase_order_line l
+    WHERE l.purchase_order_id = v_purchase_order.id
+      AND l.received_quantity < l.ordered_quantity
+  ) THEN
+    UPDATE inventory_transaction
+    SET closed_at = NOW()
+    WHERE id = v_purchase_order.id;
+  END IF;
+
+  SELECT to_jsonb(t) || jsonb_build_object(
+    'transaction_item',
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(ti) ORDER BY ti.id)
+       FROM transaction_item ti
+       WHERE ti.transaction_id = t.id),
+      '[]'::jsonb
+    )
+  )
+  INTO v_result
+  FROM inventory_transaction t
+  WHERE t.id = v_transaction_id;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ----------------------------------------------------------------------------
+-- Get Inventory Ledger Function
+-- ----------------------------------------------------------------------------
+-- Adds the current cost plus sales revenue, cost of goods sold and gross
+-- profit for the date range. Revenue is net of discounts, returns and VAT.
+
+DROP FUNCTION IF EXISTS get_inventory_ledger(TIMESTAMP, TIMESTAMP, INTEGER);
+
+CREATE OR REPLACE FUNCTION get_inventory_ledger(
+  start_date TIMESTAMP,
+  end_date TIMESTAMP,
+  p_supplier_id INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+  sku VARCHAR(50),
+  name VARCHAR(255),
+  volume_ml INTEGER,
+  price DECIMAL(10,2),
+  supplier_name VARCHAR(255),
+  beginning_inventory BIGINT,
+  total_deliveries BIGINT,
+  total_sales BIGINT,
+  total_returns BIGINT,
+  total_adjustments BIGINT,
+  ending_inventory BIGINT,
+  inventory_value DECIMAL(10,2),
+  cost DECIMAL(10,2),
+  sales_revenue DECIMAL(12,2),
+  cost_of_goods_sold DECIMAL(12,2),
+  gross_profit DECIMAL(12,2)
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.sku,
+    p.name,
+    p.volume_ml,
+    p.price,
+    s.name AS supplier_name,
+    -- Beginning inventory: sum of all transactions before start_date
+    COALESCE(
+      (SELECT SUM(ti_before.quantity)
+       FROM transaction_item ti_before
+       JOIN inventory_transaction t_before ON ti_before.transaction_id = t_before.id
+       WHERE ti_before.sku = p.sku
+         AND t_before.timestamp < start_date
+         AND t_before.status = 'completed'
+      ), 0
+    ) AS beginning_inventory,
+    -- Total deliveries in date range
+    COALESCE(
+      (SELECT SUM(ti_del.quantity)
+       FROM transaction_item ti_del
+       JOIN inventory_transaction t_del ON ti_del.transaction_id = t_del.id
+       WHERE ti_del.sku = p.sku
+         AND t_del.transaction_type = 'Delivery'
+         AND t_del.timestamp >= start_date
+         AND t_del.timestamp <= end_date
+         AND t_del.status = 'completed'
+      ), 0
+    ) AS total_deliveries,
+    -- Total sales in date range (absolute value of negative quantities)
+    COALESCE(
+      ABS(
+        (SELECT SUM(ti_sale.quantity)
+         FROM transaction_item ti_sale
+         JOIN inventory_transaction t_sale ON ti_sale.transaction_id = t_sale.id
+         WHERE ti_sale.sku = p.sku
+           AND t_sale.transaction_type = 'Sale'
+           AND t_sale.timestamp >= start_date
+           AND t_sale.timestamp <= end_date
+           AND t_sale.status = 'completed'
+        )
+      ), 0
+    ) AS total_sales,
+    -- Customer returns in date range
+    COALESCE(
+      (SELECT SUM(ti_ret.quantity)
+       FROM transaction_item ti_ret
+       JOIN inventory_transaction t_ret ON ti_ret.transaction_id = t_ret.id
+       WHERE ti_ret.sku = p.sku
+         AND t_ret.transaction_type = 'Return'
+         AND t_ret.timestamp >= start_date
+         AND t_ret.timestamp <= end_date
+         AND t_ret.status = 'completed'
+      ), 0
+    ) AS total_returns,
+    -- Net adjustments in date range (signed: negative for shrinkage)
+    COALESCE(
+      (SELECT SUM(ti_adj.quantity)
+       FROM transaction_item ti_adj
+       JOIN inventory_transaction t_adj ON ti_adj.transaction_id = t_adj.id
+       WHERE ti_adj.sku = p.sku
+         AND t_adj.transaction_type = 'Adjustment'
+         AND t_adj.timestamp >= start_date
+         AND t_adj.timestamp <= end_date
+         AND t_adj.status = 'completed'
+      ), 0
+    ) AS total_adjustments,
+    -- Ending inventory: sum of all transactions up to end_date
+    COALESCE(
+      (SELECT SUM(ti_end.quantity)
+       FROM transaction_item ti_end
+       JOIN inventory_transaction t_end ON ti_end.transaction_id = t_end.id
+       WHERE ti_end.sku = p.sku
+         AND t_end.timestamp <= end_date
+         AND t_end.status = 'completed'
+      ), 0
+    ) AS ending_inventory,
+    -- Inventory value
+    COALESCE(
+      (SELECT SUM(ti_end.quantity)
+       FROM transaction_item ti_end
+       JOIN inventory_transaction t_end ON ti_end.transaction_id = t_end.id
+       WHERE ti_end.sku = p.sku
+         AND t_end.timestamp <= end_date
+         AND t_end.status = 'completed'
+      ), 0
+    ) * p.price AS inventory_value,
+    p.cost,
+    -- Sales less returns in date range, after discounts and before VAT
+    COALESCE(
+      (SELECT SUM(
+         CASE
+           WHEN t_rev.transaction_type = 'Sale' THEN COALESCE(ti_rev.net_amount, ti_rev.total_amount - ti_rev.discount_amount)
+           ELSE -COALESCE(ti_rev.net_amount, ti_rev.total_amount)
+         END)
+       FROM transaction_item ti_rev
+       JOIN inventory_transaction t_rev ON ti_rev.transaction_id = t_rev.id
+       WHERE ti_rev.sku = p.sku
+         AND t_rev.transaction_type IN ('Sale', 'Return')
+         AND t_rev.timestamp >= start_date
+         AND t_rev.timestamp <= end_date
+         AND t_rev.status = 'completed'
+      ), 0
+    )::DECIMAL(12,2) AS sales_revenue,
+    -- Cost of units sold less units returned, at the cost snapshot on each line
+    COALESCE(
+      (SELECT SUM(-ti_cogs.quantity * ti_cogs.unit_cost)
+       FROM transaction_item ti_cogs
+       JOIN inventory_transaction t_cogs ON ti_cogs.transaction_id = t_cogs.id
+       WHERE ti_cogs.sku = p.sku
+         AND t_cogs.transaction_type IN ('Sale', 'Return')
+         AND t_cogs.timestamp >= start_date
+         AND t_cogs.timestamp <= end_date
+         AND t_cogs.status = 'completed'
+      ), 0
+    )::DECIMAL(12,2) AS cost_of_goods_sold,
+    -- Unknown when any line in range was sold without a cost
+    CASE
+      WHEN EXISTS (
+        SELECT 1
+        FROM transaction_item ti_nc
+        JOIN inventory_transaction t_nc ON ti_nc.transaction_id = t_nc.id
+        WHERE ti_nc.sku = p.sku
+          AND ti_nc.unit_cost IS NULL
+          AND t_nc.transaction_type IN ('Sale', 'Return')
+          AND t_nc.timestamp >= start_date
+          AND t_nc.timestamp <= end_date
+          AND t_nc.status = 'completed'
+      ) THEN NULL
+      ELSE (
+        COALESCE(
+          (SELECT SUM(
+             CASE
+               WHEN t_gp.transaction_type = 'Sale' THEN COALESCE(ti_gp.net_amount, ti_gp.total_amount - ti_gp.discount_amount)
+               ELSE -COALESCE(ti_gp.net_amount, ti_gp.total_amount)
+             END + ti_gp.quantity * ti_gp.unit_cost)
+           FROM transaction_item ti_gp
+           JOIN inventory_transaction t_gp ON ti_gp.transaction_id = t_gp.id
+           WHERE ti_gp.sku = p.sku
+             AND t_gp.transaction_type IN ('Sale', 'Return')
+             AND t_gp.timestamp >= start_date
+             AND t_gp.timestamp <= end_date
+             AND t_gp.status = 'completed'
+          ), 0
+        )
+      )::DECIMAL(12,2)
+    END AS gross_profit
+  FROM product p
+  LEFT JOIN supplier s ON s.id = p.preferred_supplier_id
+  WHERE p_supplier_id IS NULL
+     OR p.preferred_supplier_id = p_supplier_id
+     OR EXISTS (
+       SELECT 1 FROM product_supplier ps
+       WHERE ps.product_sku = p.sku AND ps.supplier_id = p_supplier_id
+     )
+     OR EXISTS (
+       SELECT 1
+       FROM transaction_item ti_sup
+       JOIN inventory_transaction t_sup ON ti_sup.transaction_id = t_sup.id
+       WHERE ti_sup.sku = p.sku
+         AND t_sup.supplier_id = p_supplier_id
+         AND t_sup.transaction_type = 'Delivery'
+         AND t_sup.timestamp >= start_date
+         AND t_sup.timestamp <= end_date
+         AND t_sup.status = 'completed'
+     )
+  ORDER BY p.name, p.volume_ml;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN product.cost IS 'Current cost per unit: the latest delivery cost';
+COMMENT ON COLUMN transaction_item.unit_cost IS 'Cost per unit: paid on Deliveries, snapshotted on Sales and Adjustments (COGS), copied on Returns';
+
+COMMIT;
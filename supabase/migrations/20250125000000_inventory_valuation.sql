@@ -0,0 +1,372 @@
+-- ============================================================================
+-- Inventory Valuation
+-- ============================================================================
+-- Description: Values stock at cost instead of retail price. Each product's
+--              completed lines are replayed in timestamp order as cost layers,
+--              using either FIFO or a moving weighted average. Deliveries,
+--              returns and found stock add units at their line's unit_cost;
+--              sales and shrinkage consume them. The inventory ledger takes
+--              the method as a parameter and reports beginning and ending
+--              stock value and COGS under it.
+-- Version: 1.0
+-- Date: 2025-01-25
+-- ============================================================================
+
+BEGIN;
+
+-- ----------------------------------------------------------------------------
+-- Calculate Inventory Valuation Function
+-- ----------------------------------------------------------------------------
+-- Lines without a unit_cost fall back to the product's current cost. Units
+-- whose cost is still unknown make the stock value NULL while they are on
+-- hand, and mark COGS incomplete when sold in range. Selling past zero costs
+-- the shortfall at the last known cost; the next units in fill it first.
+
+CREATE OR REPLACE FUNCTION calculate_inventory_valuation(
+  p_sku VARCHAR(50),
+  start_date TIMESTAMP,
+  end_date TIMESTAMP,
+  p_method VARCHAR(10) DEFAULT 'fifo'
+)
+RETURNS TABLE (
+  beginning_value DECIMAL(12,2),
+  ending_value DECIMAL(12,2),
+  cost_of_goods_sold DECIMAL(12,2),
+  cogs_complete BOOLEAN
+) AS $$
+DECLARE
+  v_line RECORD;
+  v_fallback_cost DECIMAL(10,2);
+  v_last_cost NUMERIC;
+  v_in_cost NUMERIC;
+  v_out_cost NUMERIC;
+  v_out_known BOOLEAN;
+  v_qty INTEGER;
+  v_take INTEGER;
+  v_began BOOLEAN := FALSE;
+  v_beginning_value NUMERIC;
+  v_cogs NUMERIC := 0;
+  v_cogs_complete BOOLEAN := TRUE;
+  -- FIFO layers, oldest first; a NULL cost is a layer with no known cost
+  v_layer_qty INTEGER[] := '{}';
+  v_layer_cost NUMERIC[] := '{}';
+  -- Moving weighted average
+  v_on_hand INTEGER := 0;
+  v_avg_cost NUMERIC;
+BEGIN
+  IF p_method NOT IN ('fifo', 'average') THEN
+    RAISE EXCEPTION 'Invalid valuation method: %', p_method;
+  END IF;
+
+  SELECT p.cost INTO v_fallback_cost
+  FROM product p
+  WHERE p.sku = p_sku;
+
+  v_last_cost := v_fallback_cost;
+
+  FOR v_line IN
+    SELECT t.timestamp, t.transaction_type, ti.quantity, COALESCE(ti.unit_cost, v_fallback_cost) AS unit_cost
+    FROM transaction_item ti
+    JOIN inventory_transaction t ON ti.transaction_id = t.id
+    WHERE ti.sku = p_sku
+      AND t.timestamp <= end_date
+      AND t.status = 'completed'
+    ORDER BY t.timestamp, t.id, ti.id
+  LOOP
+    -- Stock value as it stood when the range opened
+    IF NOT v_began AND v_line.timestamp >= start_date THEN
+      v_began := TRUE;
+      IF p_method = 'fifo' THEN
+        SELECT CASE WHEN bool_or(l.cost IS NULL AND l.qty <> 0) THEN NULL ELSE COALESCE(SUM(l.qty * l.cost), 0) END
+        INTO v_beginning_value
+        FROM unnest(v_layer_qty, v_layer_cost) AS l(qty, cost);
+      ELSE
+        v_beginning_value := CASE WHEN v_on_hand = 0 THEN 0 ELSE v_on_hand * v_avg_cost END;
+      END IF;
+    END IF;
+
+    IF v_line.quantity > 0 THEN
+      -- Units in: deliveries, returns and positive adjustments
+      v_qty := v_line.quantity;
+
+      IF p_method = 'fifo' THEN
+        v_in_cost := v_line.unit_cost;
+
+        -- Fill any oversold shortfall first
+        IF array_length(v_layer_qty, 1) > 0 AND v_layer_qty[1] < 0 THEN
+          v_take := LEAST(v_qty, -v_layer_qty[1]);
+          v_layer_qty[1] := v_layer_qty[1] + v_take;
+          v_qty := v_qty - v_take;
+          IF v_layer_qty[1] = 0 THEN
+            v_layer_qty := '{}';
+            v_layer_cost := '{}';
+          END IF;
+        END IF;
+
+        IF v_qty > 0 THEN
+          v_layer_qty := array_append(v_layer_qty, v_qty);
+          v_layer_cost := array_append(v_layer_cost, v_in_cost);
+        END IF;
+      ELSE
+        -- Uncosted units blend in at the current average
+        v_in_cost := COALESCE(v_line.unit_cost, v_avg_cost);
+        v_avg_cost := CASE
+          WHEN v_on_hand <= 0 OR v_avg_cost IS NULL THEN v_in_cost
+          WHEN v_in_cost IS NULL THEN v_avg_cost
+          ELSE (v_on_hand * v_avg_cost + v_qty * v_in_cost) / (v_on_hand + v_qty)
+        END;
+        v_on_hand := v_on_hand + v_qty;
+      END IF;
+
+      IF v_in_cost IS NOT NULL THEN
+        v_last_cost := v_in_cost;
+      END IF;
+
+      -- Returned units come off COGS at the cost they re-enter stock at
+      IF v_line.transaction_type = 'Return' AND v_line.timestamp >= start_date THEN
+        IF v_in_cost IS NULL THEN
+          v_cogs_complete := FALSE;
+        ELSE
+          v_cogs := v_cogs - v_line.quantity * v_in_cost;
+        END IF;
+      END IF;
+    ELSIF v_line.quantity < 0 THEN
+      -- Units out: sales and negative adjustments
+      v_qty := -v_line.quantity;
+      v_out_cost := 0;
+      v_out_known := TRUE;
+
+      IF p_method = 'fifo' THEN
+        WHILE v_qty > 0 LOOP
+          IF array_length(v_layer_qty, 1) IS NULL THEN
+            -- Nothing on hand: record the shortfall at the last known cost
+            v_layer_qty := ARRAY[-v_qty];
+            v_layer_cost := ARRAY[v_last_cost];
+            v_take := v_qty;
+            v_in_cost := v_last_cost;
+          ELSIF v_layer_qty[1] < 0 THEN
+            v_layer_qty[1] := v_layer_qty[1] - v_qty;
+            v_take := v_qty;
+            v_in_cost := v_layer_cost[1];
+          ELSE
+            v_take := LEAST(v_qty, v_layer_qty[1]);
+            v_in_cost := v_layer_cost[1];
+            v_layer_qty[1] := v_layer_qty[1] - v_take;
+            IF v_layer_qty[1] = 0 THEN
+              v_layer_qty := v_layer_qty[2:array_length(v_layer_qty, 1)];
+              v_layer_cost := v_layer_cost[2:array_length(v_layer_cost, 1)];
+            END IF;
+          END IF;
+
+          IF v_in_cost IS NULL THEN
+            v_out_known := FALSE;
+          ELSE
+            v_out_cost := v_out_cost + v_take * v_in_cost;
+          END IF;
+          v_qty := v_qty - v_take;
+        END LOOP;
+      ELSE
+        IF v_avg_cost IS NULL THEN
+          v_out_known := FALSE;
+        ELSE
+          v_out_cost := v_qty * v_avg_cost;
+        END IF;
+        v_on_hand := v_on_hand - v_qty;
+      END IF;
+
+      -- Shrinkage leaves stock value but is not cost of goods sold
+      IF v_line.transaction_type = 'Sale' AND v_line.timestamp >= start_date THEN
+        v_cogs := v_cogs + v_out_cost;
+        IF NOT v_out_known THEN
+          v_cogs_complete := FALSE;
+        END IF;
+      END IF;
+    END IF;
+  END LOOP;
+
+  IF p_method = 'fifo' THEN
+    SELECT CASE WHEN bool_or(l.cost IS NULL AND l.qty <> 0) THEN NULL ELSE COALESCE(SUM(l.qty * l.cost), 0) END
+    INTO ending_value
+    FROM unnest(v_layer_qty, v_layer_cost) AS l(qty, cost);
+  ELSE
+    ending_value := CASE WHEN v_on_hand = 0 THEN 0 ELSE v_on_hand * v_avg_cost END;
+  END IF;
+
+  -- No activity since the range opened
+  IF NOT v_began THEN
+    v_beginning_value := ending_value;
+  END IF;
+
+  beginning_value := v_beginning_value;
+  cost_of_goods_sold := v_cogs;
+  cogs_complete := v_cogs_complete;
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ----------------------------------------------------------------------------
+-- Get Inventory Ledger Function
+-- ----------------------------------------------------------------------------
+-- Adds p_method ('fifo' or 'average') and beginning_value. inventory_value is
+-- now the ending stock at cost, and COGS follows the method rather than the
+-- cost snapshot on each sale line.
+
+DROP FUNCTION IF EXISTS get_inventory_ledger(TIMESTAMP, TIMESTAMP, INTEGER);
+
+CREATE OR REPLACE FUNCTION get_inventory_ledger(
+  start_date TIMESTAMP,
+  end_date TIMESTAMP,
+  p_supplier_id INTEGER DEFAULT NULL,
+  p_method VARCHAR(10) DEFAULT 'fifo'
+)
+RETURNS TABLE (
+  sku VARCHAR(50),
+  name VARCHAR(255),
+  volume_ml INTEGER,
+  price DECIMAL(10,2),
+  supplier_name VARCHAR(255),
+  beginning_inventory BIGINT,
+  total_deliveries BIGINT,
+  total_sales BIGINT,
+  total_returns BIGINT,
+  total_adjustments BIGINT,
+  ending_inventory BIGINT,
+  beginning_value DECIMAL(12,2),
+  inventory_value DECIMAL(12,2),
+  cost DECIMAL(10,2),
+  sales_revenue DECIMAL(12,2),
+  cost_of_goods_sold DECIMAL(12,2),
+  gross_profit DECIMAL(12,2)
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.sku,
+    p.name,
+    p.volume_ml,
+    p.price,
+    s.name AS supplier_name,
+    -- Beginning inventory: sum of all transactions before start_date
+    COALESCE(
+      (SELECT SUM(ti_before.quantity)
+       FROM transaction_item ti_before
+       JOIN inventory_transaction t_before ON ti_before.transaction_id = t_before.id
+       WHERE ti_before.sku = p.sku
+         AND t_before.timestamp < start_date
+         AND t_before.status = 'completed'
+      ), 0
+    ) AS beginning_inventory,
+    -- Total deliveries in date range
+    COALESCE(
+      (SELECT SUM(ti_del.quantity)
+       FROM transaction_item ti_del
+       JOIN inventory_transaction t_del ON ti_del.transaction_id = t_del.id
+       WHERE ti_del.sku = p.sku
+         AND t_del.transaction_type = 'Delivery'
+         AND t_del.timestamp >= start_date
+         AND t_del.timestamp <= end_date
+         AND t_del.status = 'completed'
+      ), 0
+    ) AS total_deliveries,
+    -- Total sales in date range (absolute value of negative quantities)
+    COALESCE(
+      ABS(
+        (SELECT SUM(ti_sale.quantity)
+         FROM transaction_item ti_sale
+         JOIN inventory_transaction t_sale ON ti_sale.transaction_id = t_sale.id
+         WHERE ti_sale.sku = p.sku
+           AND t_sale.transaction_type = 'Sale'
+           AND t_sale.timestamp >= start_date
+           AND t_sale.timestamp <= end_date
+           AND t_sale.status = 'completed'
+        )
+      ), 0
+    ) AS total_sales,
+    -- Customer returns in date range
+    COALESCE(
+      (SELECT SUM(ti_ret.quantity)
+       FROM transaction_item ti_ret
+       JOIN inventory_transaction t_ret ON ti_ret.transaction_id = t_ret.id
+       WHERE ti_ret.sku = p.sku
+         AND t_ret.transaction_type = 'Return'
+         AND t_ret.timestamp >= start_date
+         AND t_ret.timestamp <= end_date
+         AND t_ret.status = 'completed'
+      ), 0
+    ) AS total_returns,
+    -- Net adjustments in date range (signed: negative for shrinkage)
+    COALESCE(
+      (SELECT SUM(ti_adj.quantity)
+       FROM transaction_item ti_adj
+       JOIN inventory_transaction t_adj ON ti_adj.transaction_id = t_adj.id
+       WHERE ti_adj.sku = p.sku
+         AND t_adj.transaction_type = 'Adjustment'
+         AND t_adj.timestamp >= start_date
+         AND t_adj.timestamp <= end_date
+         AND t_adj.status = 'completed'
+      ), 0
+    ) AS total_adjustments,
+    -- Ending inventory: sum of all transactions up to end_date
+    COALESCE(
+      (SELECT SUM(ti_end.quantity)
+       FROM transaction_item ti_end
+       JOIN inventory_transaction t_end ON ti_end.transaction_id = t_end.id
+       WHERE ti_end.sku = p.sku
+         AND t_end.timestamp <= end_date
+         AND t_end.status = 'completed'
+      ), 0
+    ) AS ending_inventory,
+    v.beginning_value,
+    v.ending_value AS inventory_value,
+    p.cost,
+    rev.amount AS sales_revenue,
+    v.cost_of_goods_sold,
+    -- Unknown when any unit sold in range has no cost
+    CASE WHEN v.cogs_complete THEN (rev.amount - v.cost_of_goods_sold)::DECIMAL(12,2) END AS gross_profit
+  FROM product p
+  LEFT JOIN supplier s ON s.id = p.preferred_supplier_id
+  CROSS JOIN LATERAL calculate_inventory_valuation(p.sku, start_date, end_date, p_method) v
+  -- Sales less returns in date range, after discounts and before VAT
+  CROSS JOIN LATERAL (
+    SELECT COALESCE(SUM(
+      CASE
+        WHEN t_rev.transaction_type = 'Sale' THEN COALESCE(ti_rev.net_amount, ti_rev.total_amount - ti_rev.discount_amount)
+        ELSE -COALESCE(ti_rev.net_amount, ti_rev.total_amount)
+      END), 0)::DECIMAL(12,2) AS amount
+    FROM transaction_item ti_rev
+    JOIN inventory_transaction t_rev ON ti_rev.transaction_id = t_rev.id
+    WHERE ti_rev.sku = p.sku
+      AND t_rev.transaction_type IN ('Sale', 'Return')
+      AND t_rev.timestamp >= start_date
+      AND t_rev.timestamp <= end_date
+      AND t_rev.status = 'completed'
+  ) rev
+  WHERE p_supplier_id IS NULL
+     OR p.preferred_supplier_id = p_supplier_id
+     OR EXISTS (
+       SELECT 1 FROM product_supplier ps
+       WHERE ps.product_sku = p.sku AND ps.supplier_id = p_supplier_id
+     )
+     OR EXISTS (
+       SELECT 1
+       FROM transaction_item ti_sup
+       JOIN inventory_transaction t_sup ON ti_sup.transaction_id = t_sup.id
+       WHERE ti_sup.sku = p.sku
+         AND t_sup.supplier_id = p_supplier_id
+         AND t_sup.transaction_type = 'Delivery'
+         AND t_sup.timestamp >= start_date
+         AND t_sup.timestamp <= end_date
+         AND t_sup.status = 'completed'
+     )
+  ORDER BY p.name, p.volume_ml;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON FUNCTION calculate_inventory_valuation(VARCHAR, TIMESTAMP, TIMESTAMP, VARCHAR) IS 'Stock value at the start and end of a range and COGS within it, by FIFO or moving weighted average';
+COMMENT ON FUNCTION get_inventory_ledger(TIMESTAMP, TIMESTAMP, INTEGER, VARCHAR) IS 'Per-product stock movement, stock value at cost and gross profit for a date range';
+
+COMMIT;
@@ -0,0 +1,258 @@
+-- ============================================================================
+-- Price History
+-- ============================================================================
+-- Description: Records every change to a product's price (old and new price,
+--              who and when) in product_price_history, written by a trigger so
+--              edits from any client are captured. Adds scheduled price
+--              changes that take effect at a set time: pg_cron applies due
+--              changes every minute when the extension is enabled, and
+--              post_inventory_transaction applies them before it snapshots
+--              prices. Until then the app shows due prices when it reads
+--              products.
+-- Version: 1.0
+-- Date: 2025-01-26
+-- ============================================================================
+
+BEGIN;
+
+-- ----------------------------------------------------------------------------
+-- Scheduled Price Change Table
+-- ----------------------------------------------------------------------------
+-- Pending until applied_at or cancelled_at is set; never both
+
+CREATE TABLE scheduled_price_change (
+  id SERIAL PRIMARY KEY,
+  sku VARCHAR(50) NOT NULL REFERENCES product(sku) ON DELETE CASCADE,
+  new_price DECIMAL(10,2) NOT NULL CHECK (new_price >= 0),
+  effective_at TIMESTAMP NOT NULL,
+  created_by VARCHAR(255) REFERENCES "user"(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  applied_at TIMESTAMP,
+  cancelled_at TIMESTAMP,
+  CHECK (applied_at IS NULL OR cancelled_at IS NULL)
+);
+
+CREATE INDEX idx_scheduled_price_change_pending
+ON scheduled_price_change(effective_at)
+WHERE applied_at IS NULL AND cancelled_at IS NULL;
+
+-- One pending change per product per moment
+CREATE UNIQUE INDEX idx_scheduled_price_change_unique
+ON scheduled_price_change(sku, effective_at)
+WHERE applied_at IS NULL AND cancelled_at IS NULL;
+
+-- ----------------------------------------------------------------------------
+-- Product Price History Table
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE product_price_history (
+  id SERIAL PRIMARY KEY,
+  sku VARCHAR(50) NOT NULL REFERENCES product(sku) ON DELETE CASCADE,
+  old_price DECIMAL(10,2) NOT NULL,
+  new_price DECIMAL(10,2) NOT NULL,
+  changed_at TIMESTAMP DEFAULT NOW(),
+  changed_by VARCHAR(255) REFERENCES "user"(id) ON DELETE SET NULL,
+  scheduled_price_change_id INTEGER REFERENCES scheduled_price_change(id) ON DELETE SET NULL
+);
+
+CREATE INDEX idx_product_price_history_sku ON product_price_history(sku, changed_at DESC);
+
+-- ----------------------------------------------------------------------------
+-- Record Price Change Trigger
+-- ----------------------------------------------------------------------------
+-- apply_scheduled_price_changes() passes the change being applied through the
+-- app.scheduled_price_change_id setting; it is credited to whoever scheduled it
+
+CREATE OR REPLACE FUNCTION record_product_price_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_scheduled_id INTEGER;
+  v_changed_by VARCHAR(255);
+BEGIN
+  v_scheduled_id := NULLIF(current_setting('app.scheduled_price_change_id', true), '')::INTEGER;
+
+  IF v_scheduled_id IS NOT NULL THEN
+    SELECT created_by INTO v_changed_by
+    FROM scheduled_price_change
+    WHERE id = v_scheduled_id;
+  ELSE
+    SELECT id INTO v_changed_by
+    FROM "user"
+    WHERE id = auth.uid()::text;
+  END IF;
+
+  INSERT INTO product_price_history (sku, old_price, new_price, changed_by, scheduled_price_change_id)
+  VALUES (NEW.sku, OLD.price, NEW.price, v_changed_by, v_scheduled_id);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER record_product_price_change_trigger
+  AFTER UPDATE OF price ON product
+  FOR EACH ROW
+  WHEN (OLD.price IS DISTINCT FROM NEW.price)
+  EXECUTE FUNCTION record_product_price_change();
+
+-- ----------------------------------------------------------------------------
+-- Schedule Price Change Function
+-- ----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION schedule_price_change(
+  p_sku VARCHAR(50),
+  p_new_price DECIMAL(10,2),
+  p_effective_at TIMESTAMP
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id VARCHAR(255);
+  v_change scheduled_price_change%ROWTYPE;
+BEGIN
+  v_user_id := auth.uid()::text;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM product WHERE sku = p_sku) THEN
+    RAISE EXCEPTION 'Product not found: %', p_sku;
+  END IF;
+
+  IF p_new_price IS NULL OR p_new_price < 0 THEN
+    RAISE EXCEPTION 'Price must be zero or more';
+  END IF;
+
+  IF p_effective_at IS NULL OR p_effective_at <= NOW() THEN
+    RAISE EXCEPTION 'Scheduled price changes must take effect in the future';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM scheduled_price_change
+    WHERE sku = p_sku
+      AND effective_at = p_effective_at
+      AND applied_at IS NULL
+      AND cancelled_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'A price change for % is already scheduled at that time', p_sku;
+  END IF;
+
+  INSERT INTO scheduled_price_change (sku, new_price, effective_at, created_by)
+  VALUES (
+    p_sku,
+    p_new_price,
+    p_effective_at,
+    (SELECT id FROM "user" WHERE id = v_user_id)
+  )
+  RETURNING * INTO v_change;
+
+  RETURN to_jsonb(v_change);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION schedule_price_change(VARCHAR, DECIMAL, TIMESTAMP) TO authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Cancel Price Change Function
+-- ----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION cancel_price_change(p_change_id INTEGER)
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  UPDATE scheduled_price_change
+  SET cancelled_at = NOW()
+  WHERE id = p_change_id
+    AND applied_at IS NULL
+    AND cancelled_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Scheduled price change % is not pending', p_change_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION cancel_price_change(INTEGER) TO authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Apply Scheduled Price Changes Function
+-- ----------------------------------------------------------------------------
+-- Applies every due change oldest first, so a product with several overdue
+-- changes ends at the latest one and each step is in its history. Safe to run
+-- at any time and from several sessions at once. Returns the number applied.
+
+CREATE OR REPLACE FUNCTION apply_scheduled_price_changes()
+RETURNS INTEGER AS $$
+DECLARE
+  v_change scheduled_price_change%ROWTYPE;
+  v_applied INTEGER := 0;
+BEGIN
+  FOR v_change IN
+    SELECT *
+    FROM scheduled_price_change
+    WHERE effective_at <= NOW()
+      AND applied_at IS NULL
+      AND cancelled_at IS NULL
+    ORDER BY effective_at, id
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    PERFORM set_config('app.scheduled_price_change_id', v_change.id::text, true);
+
+    UPDATE product
+    SET price = v_change.new_price
+    WHERE sku = v_change.sku;
+
+    UPDATE scheduled_price_change
+    SET applied_at = NOW()
+    WHERE id = v_change.id;
+
+    v_applied := v_applied + 1;
+  END LOOP;
+
+  PERFORM set_config('app.scheduled_price_change_id', '', true);
+
+  RETURN v_applied;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION apply_scheduled_price_changes() TO authenticated;
+
+-- Apply due changes every minute where pg_cron is enabled
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('apply-scheduled-price-changes', '* * * * *', 'SELECT apply_scheduled_price_changes()');
+  END IF;
+END;
+$$;
+
+-- ----------------------------------------------------------------------------
+-- Row Level Security
+-- ----------------------------------------------------------------------------
+-- Both tables are written only by the functions above
+
+ALTER TABLE product_price_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scheduled_price_change ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view price history"
+ON product_price_history FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Users can view scheduled price changes"
+ON scheduled_price_change FOR SELECT
+TO authenticated
+USING (true);
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE product_price_history IS 'Every change to product.price, recorded by trigger';
+COMMENT ON COLUMN product_price_history.scheduled_price_change_id IS 'Set when the change came from a scheduled price change';
+COMMENT ON TABLE scheduled_price_change IS 'Future price changes, applied by apply_scheduled_price_changes() once effective_at passes';
+COMMENT ON FUNCTION apply_scheduled_price_changes() IS 'Applies all due scheduled price changes; run by pg_cron and before each transaction is posted';
+
+COMMIT;
@@ -0,0 +1,297 @@
+-- ============================================================================
+-- Fragrance Families
+-- ============================================================================
+-- Description: Adds fragrance, the scent shared by every bottle size of a
+--              product line (brand, concentration, gender, notes). Each sized
+--              product row is a variant pointing at its fragrance and inherits
+--              these attributes from it. Existing products are grouped into
+--              fragrances by name. current_stock and the inventory ledger
+--              expose the fragrance and brand for grouping and subtotals.
+-- Version: 1.0
+-- Date: 2025-01-27
+-- ============================================================================
+
+BEGIN;
+
+-- ----------------------------------------------------------------------------
+-- Fragrance Table
+-- ----------------------------------------------------------------------------
+-- The same name may exist per brand and concentration (Sauvage EDT vs Elixir)
+
+CREATE TABLE fragrance (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(255) NOT NULL CHECK (LENGTH(TRIM(name)) > 0),
+  brand VARCHAR(255),
+  concentration VARCHAR(10) CHECK (concentration IN ('EDT', 'EDP', 'Parfum', 'Elixir')),
+  gender VARCHAR(10) CHECK (gender IN ('men', 'women', 'unisex')),
+  notes TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_fragrance_unique
+ON fragrance(LOWER(COALESCE(brand, '')), LOWER(name), COALESCE(concentration, ''));
+
+CREATE INDEX idx_fragrance_brand ON fragrance(LOWER(brand));
+
+CREATE TRIGGER update_fragrance_updated_at
+  BEFORE UPDATE ON fragrance
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ----------------------------------------------------------------------------
+-- Schema Changes
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE product
+ADD COLUMN fragrance_id INTEGER REFERENCES fragrance(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_product_fragrance_id ON product(fragrance_id);
+
+-- One fragrance per distinct product name, matched case- and
+-- whitespace-insensitively; brand and the rest are filled in from the app
+INSERT INTO fragrance (name)
+SELECT DISTINCT ON (LOWER(REGEXP_REPLACE(TRIM(p.name), '\s+', ' ', 'g')))
+  REGEXP_REPLACE(TRIM(p.name), '\s+', ' ', 'g')
+FROM product p
+ORDER BY LOWER(REGEXP_REPLACE(TRIM(p.name), '\s+', ' ', 'g')), p.created_at;
+
+UPDATE product p
+SET fragrance_id = f.id
+FROM fragrance f
+WHERE f.brand IS NULL
+  AND f.concentration IS NULL
+  AND LOWER(f.name) = LOWER(REGEXP_REPLACE(TRIM(p.name), '\s+', ' ', 'g'));
+
+-- ----------------------------------------------------------------------------
+-- Current Stock View
+-- ----------------------------------------------------------------------------
+-- Exposes the fragrance and its attributes (new columns can only be appended)
+
+CREATE OR REPLACE VIEW current_stock AS
+SELECT
+  p.sku,
+  p.name,
+  p.volume_ml,
+  p.price,
+  p.min_stock_threshold,
+  p.description,
+  COALESCE(SUM(ti.quantity) FILTER (WHERE t.status = 'completed'), 0) AS quantity_on_hand,
+  COALESCE(SUM(ti.quantity) FILTER (WHERE t.status = 'completed'), 0) * p.price AS total_value,
+  p.created_at,
+  p.updated_at,
+  p.preferred_supplier_id,
+  p.vat_exempt,
+  p.cost,
+  p.fragrance_id,
+  f.name AS fragrance_name,
+  f.brand,
+  f.concentration,
+  f.gender
+FROM product p
+LEFT JOIN fragrance f ON f.id = p.fragrance_id
+LEFT JOIN transaction_item ti ON p.sku = ti.sku
+LEFT JOIN inventory_transaction t ON ti.transaction_id = t.id
+GROUP BY p.sku, p.name, p.volume_ml, p.price, p.min_stock_threshold, p.description, p.created_at, p.updated_at, p.preferred_supplier_id, p.vat_exempt, p.cost, p.fragrance_id, f.name, f.brand, f.concentration, f.gender;
+
+-- ----------------------------------------------------------------------------
+-- Get Inventory Ledger Function
+-- ----------------------------------------------------------------------------
+-- Adds fragrance_id, fragrance_name and brand so exports can subtotal by them
+
+DROP FUNCTION IF EXISTS get_inventory_ledger(TIMESTAMP, TIMESTAMP, INTEGER, VARCHAR);
+
+CREATE OR REPLACE FUNCTION get_inventory_ledger(
+  start_date TIMESTAMP,
+  end_date TIMESTAMP,
+  p_supplier_id INTEGER DEFAULT NULL,
+  p_method VARCHAR(10) DEFAULT 'fifo'
+)
+RETURNS TABLE (
+  sku VARCHAR(50),
+  name VARCHAR(255),
+  volume_ml INTEGER,
+  price DECIMAL(10,2),
+  supplier_name VARCHAR(255),
+  beginning_inventory BIGINT,
+  total_deliveries BIGINT,
+  total_sales BIGINT,
+  total_returns BIGINT,
+  total_adjustments BIGINT,
+  ending_inventory BIGINT,
+  beginning_value DECIMAL(12,2),
+  inventory_value DECIMAL(12,2),
+  cost DECIMAL(10,2),
+  sales_revenue DECIMAL(12,2),
+  cost_of_goods_sold DECIMAL(12,2),
+  gross_profit DECIMAL(12,2),
+  fragrance_id INTEGER,
+  fragrance_name VARCHAR(255),
+  brand VARCHAR(255)
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.sku,
+    p.name,
+    p.volume_ml,
+    p.price,
+    s.name AS supplier_name,
+    -- Beginning inventory: sum of all transactions before start_date
+    COALESCE(
+      (SELECT SUM(ti_before.quantity)
+       FROM transaction_item ti_before
+       JOIN inventory_transaction t_before ON ti_before.transaction_id = t_before.id
+       WHERE ti_before.sku = p.sku
+         AND t_before.timestamp < start_date
+         AND t_before.status = 'completed'
+      ), 0
+    ) AS beginning_inventory,
+    -- Total deliveries in date range
+    COALESCE(
+      (SELECT SUM(ti_del.quantity)
+       FROM transaction_item ti_del
+       JOIN inventory_transaction t_del ON ti_del.transaction_id = t_del.id
+       WHERE ti_del.sku = p.sku
+         AND t_del.transaction_type = 'Delivery'
+         AND t_del.timestamp >= start_date
+         AND t_del.timestamp <= end_date
+         AND t_del.status = 'completed'
+      ), 0
+    ) AS total_deliveries,
+    -- Total sales in date range (absolute value of negative quantities)
+    COALESCE(
+      ABS(
+        (SELECT SUM(ti_sale.quantity)
+         FROM transaction_item ti_sale
+         JOIN inventory_transaction t_sale ON ti_sale.transaction_id = t_sale.id
+         WHERE ti_sale.sku = p.sku
+           AND t_sale.transaction_type = 'Sale'
+           AND t_sale.timestamp >= start_date
+           AND t_sale.timestamp <= end_date
+           AND t_sale.status = 'completed'
+        )
+      ), 0
+    ) AS total_sales,
+    -- Customer returns in date range
+    COALESCE(
+      (SELECT SUM(ti_ret.quantity)
+       FROM transaction_item ti_ret
+       JOIN inventory_transaction t_ret ON ti_ret.transaction_id = t_ret.id
+       WHERE ti_ret.sku = p.sku
+         AND t_ret.transaction_type = 'Return'
+         AND t_ret.timestamp >= start_date
+         AND t_ret.timestamp <= end_date
+         AND t_ret.status = 'completed'
+      ), 0
+    ) AS total_returns,
+    -- Net adjustments in date range (signed: negative for shrinkage)
+    COALESCE(
+      (SELECT SUM(ti_adj.quantity)
+       FROM transaction_item ti_adj
+       JOIN inventory_transaction t_adj ON ti_adj.transaction_id = t_adj.id
+       WHERE ti_adj.sku = p.sku
+         AND t_adj.transaction_type = 'Adjustment'
+         AND t_adj.timestamp >= start_date
+         AND t_adj.timestamp <= end_date
+         AND t_adj.status = 'completed'
+      ), 0
+    ) AS total_adjustments,
+    -- Ending inventory: sum of all transactions up to end_date
+    COALESCE(
+      (SELECT SUM(ti_end.quantity)
+       FROM transaction_item ti_end
+       JOIN inventory_transaction t_end ON ti_end.transaction_id = t_end.id
+       WHERE ti_end.sku = p.sku
+         AND t_end.timestamp <= end_date
+         AND t_end.status = 'completed'
+      ), 0
+    ) AS ending_inventory,
+    v.beginning_value,
+    v.ending_value AS inventory_value,
+    p.cost,
+    rev.amount AS sales_revenue,
+    v.cost_of_goods_sold,
+    -- Unknown when any unit sold in range has no cost
+    CASE WHEN v.cogs_complete THEN (rev.amount - v.cost_of_goods_sold)::DECIMAL(12,2) END AS gross_profit,
+    f.id AS fragrance_id,
+    f.name AS fragrance_name,
+    f.brand
+  FROM product p
+  LEFT JOIN supplier s ON s.id = p.preferred_supplier_id
+  LEFT JOIN fragrance f ON f.id = p.fragrance_id
+  CROSS JOIN LATERAL calculate_inventory_valuation(p.sku, start_date, end_date, p_method) v
+  -- Sales less returns in date range, after discounts and before VAT
+  CROSS JOIN LATERAL (
+    SELECT COALESCE(SUM(
+      CASE
+        WHEN t_rev.transaction_type = 'Sale' THEN COALESCE(ti_rev.net_amount, ti_rev.total_amount - ti_rev.discount_amount)
+        ELSE -COALESCE(ti_rev.net_amount, ti_rev.total_amount)
+      END), 0)::DECIMAL(12,2) AS amount
+    FROM transaction_item ti_rev
+    JOIN inventory_transaction t_rev ON ti_rev.transaction_id = t_rev.id
+    WHERE ti_rev.sku = p.sku
+      AND t_rev.transaction_type IN ('Sale', 'Return')
+      AND t_rev.timestamp >= start_date
+      AND t_rev.timestamp <= end_date
+      AND t_rev.status = 'completed'
+  ) rev
+  WHERE p_supplier_id IS NULL
+     OR p.preferred_supplier_id = p_supplier_id
+     OR EXISTS (
+       SELECT 1 FROM product_supplier ps
+       WHERE ps.product_sku = p.sku AND ps.supplier_id = p_supplier_id
+     )
+     OR EXISTS (
+       SELECT 1
+       FROM transaction_item ti_sup
+       JOIN inventory_transaction t_sup ON ti_sup.transaction_id = t_sup.id
+       WHERE ti_sup.sku = p.sku
+         AND t_sup.supplier_id = p_supplier_id
+         AND t_sup.transaction_type = 'Delivery'
+         AND t_sup.timestamp >= start_date
+         AND t_sup.timestamp <= end_date
+         AND t_sup.status = 'completed'
+     )
+  ORDER BY p.name, p.volume_ml;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ----------------------------------------------------------------------------
+-- Row Level Security
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE fragrance ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view fragrances"
+ON fragrance FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Users can insert fragrances"
+ON fragrance FOR INSERT
+TO authenticated
+WITH CHECK (true);
+
+CREATE POLICY "Users can update fragrances"
+ON fragrance FOR UPDATE
+TO authenticated
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Users can delete fragrances"
+ON fragrance FOR DELETE
+TO authenticated
+USING (true);
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE fragrance IS 'A scent sold in one or more bottle sizes; each size is a product row';
+COMMENT ON COLUMN fragrance.concentration IS 'EDT, EDP, Parfum or Elixir';
+COMMENT ON COLUMN fragrance.gender IS 'men, women or unisex';
+COMMENT ON COLUMN product.fragrance_id IS 'The fragrance this bottle size belongs to';
+COMMENT ON FUNCTION get_inventory_ledger(TIMESTAMP, TIMESTAMP, INTEGER, VARCHAR) IS 'Per-product stock movement, stock value at cost and gross profit for a date range';
+
+COMMIT;
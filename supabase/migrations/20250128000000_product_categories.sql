@@ -0,0 +1,244 @@
+-- ============================================================================
+-- Product Categories and Tags
+-- ============================================================================
+-- Description: Adds a category (e.g. Men, Women, Unisex, Niche) and free-form
+--              tags to products. Categories are backfilled from the gender of
+--              each product's fragrance. Both are exposed on current_stock, and
+--              get_inventory_ledger gains an optional category filter.
+-- Version: 1.0
+-- Date: 2025-01-28
+-- ============================================================================
+
+BEGIN;
+
+-- ----------------------------------------------------------------------------
+-- Product Columns
+-- ----------------------------------------------------------------------------
+-- Tags are stored trimmed and lowercase so 'Summer' and 'summer' are one tag
+
+ALTER TABLE product
+ADD COLUMN category VARCHAR(50) CHECK (category IS NULL OR (category = BTRIM(category) AND category <> '')),
+ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX idx_product_category ON product(LOWER(category));
+CREATE INDEX idx_product_tags ON product USING GIN (tags);
+
+UPDATE product p
+SET category = INITCAP(f.gender)
+FROM fragrance f
+WHERE f.id = p.fragrance_id
+  AND f.gender IS NOT NULL;
+
+-- ----------------------------------------------------------------------------
+-- Current Stock View
+-- ----------------------------------------------------------------------------
+-- Exposes category and tags (new columns can only be appended)
+
+CREATE OR REPLACE VIEW current_stock AS
+SELECT
+  p.sku,
+  p.name,
+  p.volume_ml,
+  p.price,
+  p.min_stock_threshold,
+  p.description,
+  COALESCE(SUM(ti.quantity) FILTER (WHERE t.status = 'completed'), 0) AS quantity_on_hand,
+  COALESCE(SUM(ti.quantity) FILTER (WHERE t.status = 'completed'), 0) * p.price AS total_value,
+  p.created_at,
+  p.updated_at,
+  p.preferred_supplier_id,
+  p.vat_exempt,
+  p.cost,
+  p.fragrance_id,
+  f.name AS fragrance_name,
+  f.brand,
+  f.concentration,
+  f.gender,
+  p.category,
+  p.tags
+FROM product p
+LEFT JOIN fragrance f ON f.id = p.fragrance_id
+LEFT JOIN transaction_item ti ON p.sku = ti.sku
+LEFT JOIN inventory_transaction t ON ti.transaction_id = t.id
+GROUP BY p.sku, p.name, p.volume_ml, p.price, p.min_stock_threshold, p.description, p.created_at, p.updated_at, p.preferred_supplier_id, p.vat_exempt, p.cost, p.fragrance_id, f.name, f.brand, f.concentration, f.gender, p.category, p.tags;
+
+-- ----------------------------------------------------------------------------
+-- Get Inventory Ledger Function
+-- ----------------------------------------------------------------------------
+-- Adds the p_category filter (case-insensitive) and category and tags columns
+
+DROP FUNCTION IF EXISTS get_inventory_ledger(TIMESTAMP, TIMESTAMP, INTEGER, VARCHAR);
+
+CREATE OR REPLACE FUNCTION get_inventory_ledger(
+  start_date TIMESTAMP,
+  end_date TIMESTAMP,
+  p_supplier_id INTEGER DEFAULT NULL,
+  p_method VARCHAR(10) DEFAULT 'fifo',
+  p_category VARCHAR(50) DEFAULT NULL
+)
+RETURNS TABLE (
+  sku VARCHAR(50),
+  name VARCHAR(255),
+  volume_ml INTEGER,
+  price DECIMAL(10,2),
+  supplier_name VARCHAR(255),
+  beginning_inventory BIGINT,
+  total_deliveries BIGINT,
+  total_sales BIGINT,
+  total_returns BIGINT,
+  total_adjustments BIGINT,
+  ending_inventory BIGINT,
+  beginning_value DECIMAL(12,2),
+  inventory_value DECIMAL(12,2),
+  cost DECIMAL(10,2),
+  sales_revenue DECIMAL(12,2),
+  cost_of_goods_sold DECIMAL(12,2),
+  gross_profit DECIMAL(12,2),
+  fragrance_id INTEGER,
+  fragrance_name VARCHAR(255),
+  brand VARCHAR(255),
+  category VARCHAR(50),
+  tags TEXT[]
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.sku,
+    p.name,
+    p.volume_ml,
+    p.price,
+    s.name AS supplier_name,
+    -- Beginning inventory: sum of all transactions before start_date
+    COALESCE(
+      (SELECT SUM(ti_before.quantity)
+       FROM transaction_item ti_before
+       JOIN inventory_transaction t_before ON ti_before.transaction_id = t_before.id
+       WHERE ti_before.sku = p.sku
+         AND t_before.timestamp < start_date
+         AND t_before.status = 'completed'
+      ), 0
+    ) AS beginning_inventory,
+    -- Total deliveries in date range
+    COALESCE(
+      (SELECT SUM(ti_del.quantity)
+       FROM transaction_item ti_del
+       JOIN inventory_transaction t_del ON ti_del.transaction_id = t_del.id
+       WHERE ti_del.sku = p.sku
+         AND t_del.transaction_type = 'Delivery'
+         AND t_del.timestamp >= start_date
+         AND t_del.timestamp <= end_date
+         AND t_del.status = 'completed'
+      ), 0
+    ) AS total_deliveries,
+    -- Total sales in date range (absolute value of negative quantities)
+    COALESCE(
+      ABS(
+        (SELECT SUM(ti_sale.quantity)
+         FROM transaction_item ti_sale
+         JOIN inventory_transaction t_sale ON ti_sale.transaction_id = t_sale.id
+         WHERE ti_sale.sku = p.sku
+           AND t_sale.transaction_type = 'Sale'
+           AND t_sale.timestamp >= start_date
+           AND t_sale.timestamp <= end_date
+           AND t_sale.status = 'completed'
+        )
+      ), 0
+    ) AS total_sales,
+    -- Customer returns in date range
+    COALESCE(
+      (SELECT SUM(ti_ret.quantity)
+       FROM transaction_item ti_ret
+       JOIN inventory_transaction t_ret ON ti_ret.transaction_id = t_ret.id
+       WHERE ti_ret.sku = p.sku
+         AND t_ret.transaction_type = 'Return'
+         AND t_ret.timestamp >= start_date
+         AND t_ret.timestamp <= end_date
+         AND t_ret.status = 'completed'
+      ), 0
+    ) AS total_returns,
+    -- Net adjustments in date range (signed: negative for shrinkage)
+    COALESCE(
+      (SELECT SUM(ti_adj.quantity)
+       FROM transaction_item ti_adj
+       JOIN inventory_transaction t_adj ON ti_adj.transaction_id = t_adj.id
+       WHERE ti_adj.sku = p.sku
+         AND t_adj.transaction_type = 'Adjustment'
+         AND t_adj.timestamp >= start_date
+         AND t_adj.timestamp <= end_date
+         AND t_adj.status = 'completed'
+      ), 0
+    ) AS total_adjustments,
+    -- Ending inventory: sum of all transactions up to end_date
+    COALESCE(
+      (SELECT SUM(ti_end.quantity)
+       FROM transaction_item ti_end
+       JOIN inventory_transaction t_end ON ti_end.transaction_id = t_end.id
+       WHERE ti_end.sku = p.sku
+         AND t_end.timestamp <= end_date
+         AND t_end.status = 'completed'
+      ), 0
+    ) AS ending_inventory,
+    v.beginning_value,
+    v.ending_value AS inventory_value,
+    p.cost,
+    rev.amount AS sales_revenue,
+    v.cost_of_goods_sold,
+    -- Unknown when any unit sold in range has no cost
+    CASE WHEN v.cogs_complete THEN (rev.amount - v.cost_of_goods_sold)::DECIMAL(12,2) END AS gross_profit,
+    f.id AS fragrance_id,
+    f.name AS fragrance_name,
+    f.brand,
+    p.category,
+    p.tags
+  FROM product p
+  LEFT JOIN supplier s ON s.id = p.preferred_supplier_id
+  LEFT JOIN fragrance f ON f.id = p.fragrance_id
+  CROSS JOIN LATERAL calculate_inventory_valuation(p.sku, start_date, end_date, p_method) v
+  -- Sales less returns in date range, after discounts and before VAT
+  CROSS JOIN LATERAL (
+    SELECT COALESCE(SUM(
+      CASE
+        WHEN t_rev.transaction_type = 'Sale' THEN COALESCE(ti_rev.net_amount, ti_rev.total_amount - ti_rev.discount_amount)
+        ELSE -COALESCE(ti_rev.net_amount, ti_rev.total_amount)
+      END), 0)::DECIMAL(12,2) AS amount
+    FROM transaction_item ti_rev
+    JOIN inventory_transaction t_rev ON ti_rev.transaction_id = t_rev.id
+    WHERE ti_rev.sku = p.sku
+      AND t_rev.transaction_type IN ('Sale', 'Return')
+      AND t_rev.timestamp >= start_date
+      AND t_rev.timestamp <= end_date
+      AND t_rev.status = 'completed'
+  ) rev
+  WHERE (p_category IS NULL OR LOWER(p.category) = LOWER(BTRIM(p_category)))
+    AND (
+      p_supplier_id IS NULL
+      OR p.preferred_supplier_id = p_supplier_id
+      OR EXISTS (
+        SELECT 1 FROM product_supplier ps
+        WHERE ps.product_sku = p.sku AND ps.supplier_id = p_supplier_id
+      )
+      OR EXISTS (
+        SELECT 1
+        FROM transaction_item ti_sup
+        JOIN inventory_transaction t_sup ON ti_sup.transaction_id = t_sup.id
+        WHERE ti_sup.sku = p.sku
+          AND t_sup.supplier_id = p_supplier_id
+          AND t_sup.transaction_type = 'Delivery'
+          AND t_sup.timestamp >= start_date
+          AND t_sup.timestamp <= end_date
+          AND t_sup.status = 'completed'
+      )
+    )
+  ORDER BY p.name, p.volume_ml;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN product.category IS 'Product category, e.g. Men, Women, Unisex';
+COMMENT ON COLUMN product.tags IS 'Free-form lowercase tags, e.g. summer, tester';
+COMMENT ON FUNCTION get_inventory_ledger(TIMESTAMP, TIMESTAMP, INTEGER, VARCHAR, VARCHAR) IS 'Per-product stock movement, stock value at cost and gross profit for a date range';
+
+COMMIT;
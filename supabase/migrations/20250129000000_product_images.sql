@@ -0,0 +1,125 @@
+-- ============================================================================
+-- Product Images
+-- ============================================================================
+-- Description: Photos of each product, stored in the private product-images
+--              Storage bucket under <sku>/ and listed in product_image in
+--              display order. current_stock exposes the first photo as
+--              image_path for thumbnails. The app removes a product's files
+--              from Storage when the product is deleted.
+-- Version: 1.0
+-- Date: 2025-01-29
+-- ============================================================================
+
+BEGIN;
+
+-- ----------------------------------------------------------------------------
+-- Product Image Table
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE product_image (
+  id SERIAL PRIMARY KEY,
+  sku VARCHAR(50) NOT NULL REFERENCES product(sku) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL UNIQUE,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_product_image_sku ON product_image(sku, sort_order);
+
+-- ----------------------------------------------------------------------------
+-- Storage Bucket
+-- ----------------------------------------------------------------------------
+-- Private: images are read through signed URLs; JPEG, PNG or WebP up to 5 MB
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('product-images', 'product-images', false, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can view product images"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (bucket_id = 'product-images');
+
+CREATE POLICY "Users can upload product images"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'product-images');
+
+CREATE POLICY "Users can delete product images"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (bucket_id = 'product-images');
+
+-- ----------------------------------------------------------------------------
+-- Current Stock View
+-- ----------------------------------------------------------------------------
+-- Exposes the first image (new columns can only be appended)
+
+CREATE OR REPLACE VIEW current_stock AS
+SELECT
+  p.sku,
+  p.name,
+  p.volume_ml,
+  p.price,
+  p.min_stock_threshold,
+  p.description,
+  COALESCE(SUM(ti.quantity) FILTER (WHERE t.status = 'completed'), 0) AS quantity_on_hand,
+  COALESCE(SUM(ti.quantity) FILTER (WHERE t.status = 'completed'), 0) * p.price AS total_value,
+  p.created_at,
+  p.updated_at,
+  p.preferred_supplier_id,
+  p.vat_exempt,
+  p.cost,
+  p.fragrance_id,
+  f.name AS fragrance_name,
+  f.brand,
+  f.concentration,
+  f.gender,
+  p.category,
+  p.tags,
+  (SELECT pi.storage_path
+   FROM product_image pi
+   WHERE pi.sku = p.sku
+   ORDER BY pi.sort_order, pi.id
+   LIMIT 1) AS image_path
+FROM product p
+LEFT JOIN fragrance f ON f.id = p.fragrance_id
+LEFT JOIN transaction_item ti ON p.sku = ti.sku
+LEFT JOIN inventory_transaction t ON ti.transaction_id = t.id
+GROUP BY p.sku, p.name, p.volume_ml, p.price, p.min_stock_threshold, p.description, p.created_at, p.updated_at, p.preferred_supplier_id, p.vat_exempt, p.cost, p.fragrance_id, f.name, f.brand, f.concentration, f.gender, p.category, p.tags;
+
+-- ----------------------------------------------------------------------------
+-- Row Level Security
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE product_image ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view product image records"
+ON product_image FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Users can insert product image records"
+ON product_image FOR INSERT
+TO authenticated
+WITH CHECK (true);
+
+CREATE POLICY "Users can update product image records"
+ON product_image FOR UPDATE
+TO authenticated
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Users can delete product image records"
+ON product_image FOR DELETE
+TO authenticated
+USING (true);
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE product_image IS 'Photos of a product, in display order; files live in the product-images bucket';
+COMMENT ON COLUMN product_image.storage_path IS 'Object path in the product-images bucket, e.g. DIOR-SAUVAGE-65/1737000000000-ab12cd.jpg';
+
+COMMIT;
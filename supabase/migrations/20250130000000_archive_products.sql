@@ -0,0 +1,115 @@
+-- ============================================================================
+-- Archive Products
+-- ============================================================================
+-- Description: Replaces destructive product deletion with archiving. An
+--              archived product keeps all of its history but can no longer be
+--              sold, delivered or ordered; it can be restored at any time.
+--              transaction_item.sku goes back to ON DELETE RESTRICT (it was
+--              changed to CASCADE in 20250110000001), so only products with
+--              no transactions can be deleted outright.
+-- Version: 1.0
+-- Date: 2025-01-30
+-- ============================================================================
+
+BEGIN;
+
+-- ----------------------------------------------------------------------------
+-- Schema Changes
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE product
+ADD COLUMN archived_at TIMESTAMP;
+
+CREATE INDEX idx_product_active ON product(name) WHERE archived_at IS NULL;
+
+-- Deleting a product must never take its sales and deliveries with it
+ALTER TABLE transaction_item
+DROP CONSTRAINT IF EXISTS transaction_item_sku_fkey;
+
+ALTER TABLE transaction_item
+ADD CONSTRAINT transaction_item_sku_fkey
+FOREIGN KEY (sku)
+REFERENCES product(sku)
+ON DELETE RESTRICT;
+
+-- ----------------------------------------------------------------------------
+-- Prevent Archived Product Activity Function
+-- ----------------------------------------------------------------------------
+-- Blocks new sales, deliveries and purchase orders for archived products.
+-- Returns, adjustments and receipts against existing purchase orders are
+-- still allowed so old stock can be taken back, corrected or received.
+
+CREATE OR REPLACE FUNCTION prevent_archived_product_activity()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_transaction inventory_transaction%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM product WHERE sku = NEW.sku AND archived_at IS NOT NULL) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_transaction
+  FROM inventory_transaction
+  WHERE id = NEW.transaction_id;
+
+  IF v_transaction.transaction_type = 'Sale'
+     OR (v_transaction.transaction_type = 'Delivery' AND v_transaction.purchase_order_id IS NULL) THEN
+    RAISE EXCEPTION 'Product % is archived; restore it first', NEW.sku;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_archived_product_activity_trigger
+  BEFORE INSERT ON transaction_item
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_archived_product_activity();
+
+-- ----------------------------------------------------------------------------
+-- Current Stock View
+-- ----------------------------------------------------------------------------
+-- Exposes archived_at (new columns can only be appended)
+
+CREATE OR REPLACE VIEW current_stock AS
+SELECT
+  p.sku,
+  p.name,
+  p.volume_ml,
+  p.price,
+  p.min_stock_threshold,
+  p.description,
+  COALESCE(SUM(ti.quantity) FILTER (WHERE t.status = 'completed'), 0) AS quantity_on_hand,
+  COALESCE(SUM(ti.quantity) FILTER (WHERE t.status = 'completed'), 0) * p.price AS total_value,
+  p.created_at,
+  p.updated_at,
+  p.preferred_supplier_id,
+  p.vat_exempt,
+  p.cost,
+  p.fragrance_id,
+  f.name AS fragrance_name,
+  f.brand,
+  f.concentration,
+  f.gender,
+  p.category,
+  p.tags,
+  (SELECT pi.storage_path
+   FROM product_image pi
+   WHERE pi.sku = p.sku
+   ORDER BY pi.sort_order, pi.id
+   LIMIT 1) AS image_path,
+  p.archived_at
+FROM product p
+LEFT JOIN fragrance f ON f.id = p.fragrance_id
+LEFT JOIN transaction_item ti ON p.sku = ti.sku
+LEFT JOIN inventory_transaction t ON ti.transaction_id = t.id
+GROUP BY p.sku, p.name, p.volume_ml, p.price, p.min_stock_threshold, p.description, p.created_at, p.updated_at, p.preferred_supplier_id, p.vat_exempt, p.cost, p.fragrance_id, f.name, f.brand, f.concentration, f.gender, p.category, p.tags, p.archived_at;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN product.archived_at IS 'When the product was archived (discontinued); NULL while active';
+COMMENT ON FUNCTION prevent_archived_product_activity() IS 'Rejects sales, deliveries and purchase orders for archived products';
+
+COMMIT;
@@ -0,0 +1,437 @@
+-- ============================================================================
+-- SKU Rename and Product Merge
+-- ============================================================================
+-- Description: Renaming a product's SKU re-points all of its history and keeps
+--              the old SKU as an alias, so unit barcodes printed before the
+--              rename still scan. Merging folds a duplicate product into
+--              another: its transactions (and so its stock), suppliers, price
+--              history and photos move over and it becomes an alias of the
+--              product it was merged into. Both are recorded in
+--              product_sku_change.
+-- Version: 1.0
+-- Date: 2025-01-31
+-- ============================================================================
+
+BEGIN;
+
+-- ----------------------------------------------------------------------------
+-- Follow SKU Changes
+-- ----------------------------------------------------------------------------
+-- Every reference to product(sku) now follows a rename
+
+ALTER TABLE transaction_item
+DROP CONSTRAINT IF EXISTS transaction_item_sku_fkey;
+
+ALTER TABLE transaction_item
+ADD CONSTRAINT transaction_item_sku_fkey
+FOREIGN KEY (sku)
+REFERENCES product(sku)
+ON UPDATE CASCADE
+ON DELETE RESTRICT;
+
+ALTER TABLE product_supplier
+DROP CONSTRAINT IF EXISTS product_supplier_product_sku_fkey;
+
+ALTER TABLE product_supplier
+ADD CONSTRAINT product_supplier_product_sku_fkey
+FOREIGN KEY (product_sku)
+REFERENCES product(sku)
+ON UPDATE CASCADE
+ON DELETE CASCADE;
+
+ALTER TABLE scheduled_price_change
+DROP CONSTRAINT IF EXISTS scheduled_price_change_sku_fkey;
+
+ALTER TABLE scheduled_price_change
+ADD CONSTRAINT scheduled_price_change_sku_fkey
+FOREIGN KEY (sku)
+REFERENCES product(sku)
+ON UPDATE CASCADE
+ON DELETE CASCADE;
+
+ALTER TABLE product_price_history
+DROP CONSTRAINT IF EXISTS product_price_history_sku_fkey;
+
+ALTER TABLE product_price_history
+ADD CONSTRAINT product_price_history_sku_fkey
+FOREIGN KEY (sku)
+REFERENCES product(sku)
+ON UPDATE CASCADE
+ON DELETE CASCADE;
+
+-- Files stay under the old <sku>/ folder; only the row is re-pointed
+ALTER TABLE product_image
+DROP CONSTRAINT IF EXISTS product_image_sku_fkey;
+
+ALTER TABLE product_image
+ADD CONSTRAINT product_image_sku_fkey
+FOREIGN KEY (sku)
+REFERENCES product(sku)
+ON UPDATE CASCADE
+ON DELETE CASCADE;
+
+-- ----------------------------------------------------------------------------
+-- Product SKU Alias Table
+-- ----------------------------------------------------------------------------
+-- A former SKU that still resolves to a product
+
+CREATE TABLE product_sku_alias (
+  alias VARCHAR(50) PRIMARY KEY,
+  sku VARCHAR(50) NOT NULL REFERENCES product(sku) ON UPDATE CASCADE ON DELETE CASCADE,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_product_sku_alias_sku ON product_sku_alias(sku);
+
+-- ----------------------------------------------------------------------------
+-- Product SKU Change Table
+-- ----------------------------------------------------------------------------
+-- Audit trail of renames and merges. SKUs are kept as plain text so entries
+-- outlive the products they mention.
+
+CREATE TABLE product_sku_change (
+  id SERIAL PRIMARY KEY,
+  change_type VARCHAR(10) NOT NULL CHECK (change_type IN ('rename', 'merge')),
+  from_sku VARCHAR(50) NOT NULL,
+  to_sku VARCHAR(50) NOT NULL,
+  from_name VARCHAR(255) NOT NULL,
+  moved_items INTEGER NOT NULL DEFAULT 0,
+  moved_quantity INTEGER NOT NULL DEFAULT 0,
+  changed_by VARCHAR(255) REFERENCES "user"(id) ON DELETE SET NULL,
+  changed_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_product_sku_change_to_sku ON product_sku_change(to_sku, changed_at DESC);
+
+-- ----------------------------------------------------------------------------
+-- Prevent Alias Reuse Function
+-- ----------------------------------------------------------------------------
+-- A new product (or rename) may not take a SKU that old barcodes still scan as
+
+CREATE OR REPLACE FUNCTION prevent_product_sku_alias_reuse()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_alias_of VARCHAR(50);
+BEGIN
+  SELECT sku INTO v_alias_of
+  FROM product_sku_alias
+  WHERE alias = NEW.sku;
+
+  IF v_alias_of IS NOT NULL THEN
+    RAISE EXCEPTION 'SKU % is still in use as an alias of %', NEW.sku, v_alias_of;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_product_sku_alias_reuse_trigger
+  BEFORE INSERT OR UPDATE OF sku ON product
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_product_sku_alias_reuse();
+
+-- ----------------------------------------------------------------------------
+-- Rename Product SKU Function
+-- ----------------------------------------------------------------------------
+-- Owners only, since it rewrites the product's whole history. Renaming back to
+-- one of the product's own aliases is allowed and drops that alias. Returns
+-- the renamed product.
+
+CREATE OR REPLACE FUNCTION rename_product_sku(
+  p_old_sku VARCHAR(50),
+  p_new_sku VARCHAR(50)
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id VARCHAR(255);
+  v_product product%ROWTYPE;
+  v_new_sku VARCHAR(50);
+  v_moved_items INTEGER;
+BEGIN
+  v_user_id := auth.uid()::text;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  IF NOT is_owner() THEN
+    RAISE EXCEPTION 'Only owners can rename SKUs';
+  END IF;
+
+  v_new_sku := UPPER(BTRIM(p_new_sku));
+
+  IF v_new_sku IS NULL OR v_new_sku = '' THEN
+    RAISE EXCEPTION 'New SKU is required';
+  END IF;
+
+  SELECT * INTO v_product
+  FROM product
+  WHERE sku = p_old_sku
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found: %', p_old_sku;
+  END IF;
+
+  IF v_new_sku = v_product.sku THEN
+    RAISE EXCEPTION 'The new SKU is the same as the current one';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM product WHERE sku = v_new_sku) THEN
+    RAISE EXCEPTION 'SKU % is already in use', v_new_sku;
+  END IF;
+
+  DELETE FROM product_sku_alias
+  WHERE alias = v_new_sku
+    AND sku = v_product.sku;
+
+  SELECT COUNT(*) INTO v_moved_items
+  FROM transaction_item
+  WHERE sku = v_product.sku;
+
+  -- Cascades to transactions, suppliers, prices, photos and aliases
+  UPDATE product
+  SET sku = v_new_sku
+  WHERE sku = v_product.sku;
+
+  INSERT INTO product_sku_alias (alias, sku)
+  VALUES (v_product.sku, v_new_sku);
+
+  INSERT INTO product_sku_change (change_type, from_sku, to_sku, from_name, moved_items, changed_by)
+  VALUES (
+    'rename',
+    v_product.sku,
+    v_new_sku,
+    v_product.name,
+    v_moved_items,
+    (SELECT id FROM "user" WHERE id = v_user_id)
+  );
+
+  SELECT * INTO v_product FROM product WHERE sku = v_new_sku;
+
+  RETURN to_jsonb(v_product);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION rename_product_sku(VARCHAR, VARCHAR) TO authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Merge Products Function
+-- ----------------------------------------------------------------------------
+-- Owners only. Both products must be the same bottle size. The target keeps
+-- its own details; blanks are filled from the source, tags are combined and
+-- cost becomes the average of both weighted by stock on hand. The source's
+-- pending scheduled prices are cancelled. Returns the merged product.
+
+CREATE OR REPLACE FUNCTION merge_products(
+  p_source_sku VARCHAR(50),
+  p_target_sku VARCHAR(50)
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id VARCHAR(255);
+  v_source product%ROWTYPE;
+  v_target product%ROWTYPE;
+  v_source_qty INTEGER;
+  v_target_qty INTEGER;
+  v_image_offset INTEGER;
+  v_moved_items INTEGER;
+BEGIN
+  v_user_id := auth.uid()::text;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  IF NOT is_owner() THEN
+    RAISE EXCEPTION 'Only owners can merge products';
+  END IF;
+
+  IF p_source_sku = p_target_sku THEN
+    RAISE EXCEPTION 'A product cannot be merged into itself';
+  END IF;
+
+  SELECT * INTO v_source FROM product WHERE sku = p_source_sku FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found: %', p_source_sku;
+  END IF;
+
+  SELECT * INTO v_target FROM product WHERE sku = p_target_sku FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found: %', p_target_sku;
+  END IF;
+
+  IF v_source.volume_ml <> v_target.volume_ml THEN
+    RAISE EXCEPTION 'Cannot merge a %ml product into a %ml product', v_source.volume_ml, v_target.volume_ml;
+  END IF;
+
+  IF v_target.archived_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Product % is archived; restore it first', v_target.sku;
+  END IF;
+
+  SELECT
+    COALESCE(SUM(ti.quantity) FILTER (WHERE ti.sku = v_source.sku), 0),
+    COALESCE(SUM(ti.quantity) FILTER (WHERE ti.sku = v_target.sku), 0)
+  INTO v_source_qty, v_target_qty
+  FROM transaction_item ti
+  JOIN inventory_transaction t ON t.id = ti.transaction_id
+  WHERE ti.sku IN (v_source.sku, v_target.sku)
+    AND t.status = 'completed';
+
+  UPDATE product
+  SET
+    cost = CASE
+      WHEN v_target.cost IS NULL THEN v_source.cost
+      WHEN v_source.cost IS NULL OR v_source_qty <= 0 OR v_target_qty <= 0 THEN v_target.cost
+      ELSE ROUND((v_target.cost * v_target_qty + v_source.cost * v_source_qty) / (v_target_qty + v_source_qty), 2)
+    END,
+    description = COALESCE(v_target.description, v_source.description),
+    preferred_supplier_id = COALESCE(v_target.preferred_supplier_id, v_source.preferred_supplier_id),
+    fragrance_id = COALESCE(v_target.fragrance_id, v_source.fragrance_id),
+    category = COALESCE(v_target.category, v_source.category),
+    tags = ARRAY(SELECT DISTINCT unnest(v_target.tags || v_source.tags) ORDER BY 1)
+  WHERE sku = v_target.sku;
+
+  -- Transactions carry the stock, so on-hand quantities combine
+  UPDATE transaction_item
+  SET sku = v_target.sku
+  WHERE sku = v_source.sku;
+
+  GET DIAGNOSTICS v_moved_items = ROW_COUNT;
+
+  -- Suppliers the target already has keep the target's terms
+  INSERT INTO product_supplier (product_sku, supplier_id, supplier_sku, unit_cost, created_at)
+  SELECT v_target.sku, supplier_id, supplier_sku, unit_cost, created_at
+  FROM product_supplier
+  WHERE product_sku = v_source.sku
+  ON CONFLICT (product_sku, supplier_id) DO NOTHING;
+
+  UPDATE scheduled_price_change
+  SET cancelled_at = NOW()
+  WHERE sku = v_source.sku
+    AND applied_at IS NULL
+    AND cancelled_at IS NULL;
+
+  UPDATE scheduled_price_change
+  SET sku = v_target.sku
+  WHERE sku = v_source.sku;
+
+  UPDATE product_price_history
+  SET sku = v_target.sku
+  WHERE sku = v_source.sku;
+
+  -- Source photos go after the target's own
+  SELECT COALESCE(MAX(sort_order) + 1, 0) INTO v_image_offset
+  FROM product_image
+  WHERE sku = v_target.sku;
+
+  UPDATE product_image
+  SET sku = v_target.sku,
+      sort_order = sort_order + v_image_offset
+  WHERE sku = v_source.sku;
+
+  UPDATE product_sku_alias
+  SET sku = v_target.sku
+  WHERE sku = v_source.sku;
+
+  DELETE FROM product WHERE sku = v_source.sku;
+
+  INSERT INTO product_sku_alias (alias, sku)
+  VALUES (v_source.sku, v_target.sku);
+
+  INSERT INTO product_sku_change (change_type, from_sku, to_sku, from_name, moved_items, moved_quantity, changed_by)
+  VALUES (
+    'merge',
+    v_source.sku,
+    v_target.sku,
+    v_source.name,
+    v_moved_items,
+    v_source_qty,
+    (SELECT id FROM "user" WHERE id = v_user_id)
+  );
+
+  SELECT * INTO v_target FROM product WHERE sku = v_target.sku;
+
+  RETURN to_jsonb(v_target);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION merge_products(VARCHAR, VARCHAR) TO authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Current Stock View
+-- ----------------------------------------------------------------------------
+-- Exposes each product's aliases (new columns can only be appended)
+
+CREATE OR REPLACE VIEW current_stock AS
+SELECT
+  p.sku,
+  p.name,
+  p.volume_ml,
+  p.price,
+  p.min_stock_threshold,
+  p.description,
+  COALESCE(SUM(ti.quantity) FILTER (WHERE t.status = 'completed'), 0) AS quantity_on_hand,
+  COALESCE(SUM(ti.quantity) FILTER (WHERE t.status = 'completed'), 0) * p.price AS total_value,
+  p.created_at,
+  p.updated_at,
+  p.preferred_supplier_id,
+  p.vat_exempt,
+  p.cost,
+  p.fragrance_id,
+  f.name AS fragrance_name,
+  f.brand,
+  f.concentration,
+  f.gender,
+  p.category,
+  p.tags,
+  (SELECT pi.storage_path
+   FROM product_image pi
+   WHERE pi.sku = p.sku
+   ORDER BY pi.sort_order, pi.id
+   LIMIT 1) AS image_path,
+  p.archived_at,
+  ARRAY(
+    SELECT a.alias
+    FROM product_sku_alias a
+    WHERE a.sku = p.sku
+    ORDER BY a.alias
+  ) AS sku_aliases
+FROM product p
+LEFT JOIN fragrance f ON f.id = p.fragrance_id
+LEFT JOIN transaction_item ti ON p.sku = ti.sku
+LEFT JOIN inventory_transaction t ON ti.transaction_id = t.id
+GROUP BY p.sku, p.name, p.volume_ml, p.price, p.min_stock_threshold, p.description, p.created_at, p.updated_at, p.preferred_supplier_id, p.vat_exempt, p.cost, p.fragrance_id, f.name, f.brand, f.concentration, f.gender, p.category, p.tags, p.archived_at;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+-- Aliases and the audit trail are written only by the functions above
+
+ALTER TABLE product_sku_alias ENABLE ROW LEVEL SECURITY;
+ALTER TABLE product_sku_change ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view product SKU aliases"
+ON product_sku_alias FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Users can view product SKU changes"
+ON product_sku_change FOR SELECT
+TO authenticated
+USING (true);
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE product_sku_alias IS 'Former SKUs that still resolve (e.g. when scanned) to a product';
+COMMENT ON TABLE product_sku_change IS 'Audit trail of SKU renames and product merges';
+COMMENT ON COLUMN product_sku_change.moved_items IS 'Transaction lines re-pointed to to_sku';
+COMMENT ON COLUMN product_sku_change.moved_quantity IS 'Units on hand moved by a merge';
+COMMENT ON FUNCTION rename_product_sku(VARCHAR, VARCHAR) IS 'Changes a product SKU, re-pointing all history and keeping the old SKU as an alias (owners only)';
+COMMENT ON FUNCTION merge_products(VARCHAR, VARCHAR) IS 'Folds a duplicate product into another, combining stock and history (owners only)';
+
+COMMIT;
@@ -0,0 +1,402 @@
+-- ============================================================================
+-- Ledger History Import
+-- ============================================================================
+-- Description: Lets a shop bring its paper ledger into the app. For each past
+--              period (one sheet of an inventory ledger export) the import
+--              posts the opening balance, the period's deliveries and sales,
+--              and a closing count correction, dated so that
+--              get_inventory_ledger reproduces the paper Beg Inv, Deliveries,
+--              Sales and End Inv for that period. Movements already in the app
+--              count toward the paper totals; only the difference is posted.
+-- Version: 1.0
+-- Date: 2025-02-01
+-- ============================================================================
+
+BEGIN;
+
+-- ----------------------------------------------------------------------------
+-- Opening Balance Reason Code
+-- ----------------------------------------------------------------------------
+-- The value list was declared inline when the column was added, so its
+-- constraint carries a generated name; look it up rather than guess it.
+
+DO $$
+DECLARE
+  v_constraint NAME;
+BEGIN
+  FOR v_constraint IN
+    SELECT conname
+    FROM pg_constraint
+    WHERE conrelid = 'inventory_transaction'::regclass
+      AND contype = 'c'
+      AND pg_get_constraintdef(oid) LIKE '%tester_opened%'
+  LOOP
+    EXECUTE format('ALTER TABLE inventory_transaction DROP CONSTRAINT %I', v_constraint);
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE inventory_transaction
+ADD CONSTRAINT inventory_transaction_adjustment_reason_value_check
+CHECK (adjustment_reason IN ('damaged', 'lost', 'tester_opened', 'count_correction', 'opening_balance'));
+
+-- ----------------------------------------------------------------------------
+-- Import Ledger History Function
+-- ----------------------------------------------------------------------------
+-- Owners only. Input: JSON array of periods
+--   { "start_date": timestamp, "end_date": timestamp,
+--     "lines": [{ "sku", "beginning_inventory", "deliveries", "sales", "ending_inventory" }] }
+-- Periods may come in any order but must not overlap or end in the future.
+-- Per line, in the period's own transactions (reference LEDGER-IMPORT):
+--   * an 'opening_balance' Adjustment just before start_date for whatever
+--     separates the stock on record from Beg Inv;
+--   * a Delivery at start_date and a Sale at end_date for the units the
+--     paper has beyond those already in the app;
+--   * a 'count_correction' Adjustment at end_date so the period closes on
+--     End Inv. This also absorbs returns and adjustments written on paper.
+-- When a SKU already has movements after its last imported period, the
+-- import's net units may already be on hand in the app. An 'opening_balance'
+-- Adjustment just after that period can take them back out; these come back
+-- as "offsets". It is posted by itself when a later count correction or
+-- opening balance already sets the stock ("recounted"). Without one, e.g. a
+-- shop that started selling in the app without counting first, the paper End
+-- Inv is likely the only record of that stock, so the offset is only posted
+-- for SKUs the owner lists in p_confirmed_offsets.
+-- Lines are costed at the product's current price and cost.
+-- With p_dry_run nothing is written; either way the plan comes back per line
+-- with an error for any line that cannot be imported. Applying a plan that
+-- has errors posts nothing.
+
+CREATE OR REPLACE FUNCTION import_ledger_history(
+  p_periods JSONB,
+  p_dry_run BOOLEAN DEFAULT FALSE,
+  p_confirmed_offsets TEXT[] DEFAULT '{}'
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id VARCHAR(255);
+  v_period JSONB;
+  v_line JSONB;
+  v_entry JSONB;
+  v_start TIMESTAMP;
+  v_end TIMESTAMP;
+  v_previous_end TIMESTAMP;
+  v_period_skus TEXT[];
+  v_sku VARCHAR(50);
+  v_product product%ROWTYPE;
+  v_beginning INTEGER;
+  v_deliveries INTEGER;
+  v_sales INTEGER;
+  v_ending INTEGER;
+  v_balance INTEGER;
+  v_existing_deliveries INTEGER;
+  v_existing_sales INTEGER;
+  v_existing_other INTEGER;
+  v_opening INTEGER;
+  v_added_deliveries INTEGER;
+  v_added_sales INTEGER;
+  v_correction INTEGER;
+  v_error TEXT;
+  v_planned JSONB := '{}';  -- Units each SKU gains from earlier periods in this import
+  v_plan JSONB := '[]';
+  v_errors INTEGER := 0;
+  v_notes TEXT;
+  v_opening_id INTEGER;
+  v_delivery_id INTEGER;
+  v_sale_id INTEGER;
+  v_correction_id INTEGER;
+  v_offset RECORD;
+  v_offsets JSONB := '[]';
+  v_offset_at TIMESTAMP;
+  v_offset_id INTEGER;
+  v_net INTEGER;
+  v_recounted BOOLEAN;
+  v_transactions INTEGER := 0;
+BEGIN
+  v_user_id := auth.uid()::text;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  IF NOT is_owner() THEN
+    RAISE EXCEPTION 'Only owners can import ledger history';
+  END IF;
+
+  IF p_periods IS NULL OR jsonb_typeof(p_periods) <> 'array' OR jsonb_array_length(p_periods) = 0 THEN
+    RAISE EXCEPTION 'At least one period is required';
+  END IF;
+
+  -- Work out what each line needs, oldest period first
+  FOR v_period IN
+    SELECT value
+    FROM jsonb_array_elements(p_periods)
+    ORDER BY (value->>'start_date')::TIMESTAMP
+  LOOP
+    v_start := (v_period->>'start_date')::TIMESTAMP;
+    v_end := (v_period->>'end_date')::TIMESTAMP;
+
+    IF v_start IS NULL OR v_end IS NULL OR v_start > v_end THEN
+      RAISE EXCEPTION 'Each period needs a start date on or before its end date';
+    END IF;
+
+    IF v_end > NOW() THEN
+      RAISE EXCEPTION 'Period ending % has not finished yet', to_char(v_end, 'Mon DD, YYYY');
+    END IF;
+
+    IF v_start <= v_previous_end THEN
+      RAISE EXCEPTION 'Period starting % overlaps the one before it', to_char(v_start, 'Mon DD, YYYY');
+    END IF;
+
+    v_previous_end := v_end;
+    v_period_skus := '{}';
+
+    FOR v_line IN SELECT value FROM jsonb_array_elements(COALESCE(v_period->'lines', '[]')) LOOP
+      v_sku := UPPER(TRIM(v_line->>'sku'));
+      v_error := NULL;
+      v_opening := 0;
+      v_added_deliveries := 0;
+      v_added_sales := 0;
+      v_correction := 0;
+
+      SELECT * INTO v_product FROM product WHERE sku = v_sku;
+
+      IF NOT FOUND THEN
+        v_error := format('Product not found: %s', v_sku);
+      ELSIF v_sku = ANY(v_period_skus) THEN
+        v_error := format('%s appears more than once in this period', v_sku);
+      ELSIF EXISTS (
+        SELECT 1
+        FROM jsonb_each(v_line) field
+        WHERE field.key IN ('beginning_inventory', 'deliveries', 'sales', 'ending_inventory')
+          AND CASE
+            WHEN jsonb_typeof(field.value) <> 'number' THEN TRUE
+            ELSE (field.value #>> '{}')::NUMERIC < 0
+              OR (field.value #>> '{}')::NUMERIC <> TRUNC((field.value #>> '{}')::NUMERIC)
+          END
+      ) OR NOT (v_line ?& ARRAY['beginning_inventory', 'deliveries', 'sales', 'ending_inventory']) THEN
+        v_error := 'Beg Inv, Deliveries, Sales and End Inv must be whole numbers of zero or more';
+      END IF;
+
+      IF v_error IS NULL THEN
+        v_period_skus := v_period_skus || v_sku::TEXT;
+        v_beginning := (v_line->>'beginning_inventory')::INTEGER;
+        v_deliveries := (v_line->>'deliveries')::INTEGER;
+        v_sales := (v_line->>'sales')::INTEGER;
+        v_ending := (v_line->>'ending_inventory')::INTEGER;
+
+        -- Same figures get_inventory_ledger reports for this period today
+        SELECT
+          COALESCE(SUM(ti.quantity) FILTER (WHERE t.timestamp < v_start), 0),
+          COALESCE(SUM(ti.quantity) FILTER (
+            WHERE t.transaction_type = 'Delivery' AND t.timestamp BETWEEN v_start AND v_end
+          ), 0),
+          COALESCE(ABS(SUM(ti.quantity) FILTER (
+            WHERE t.transaction_type = 'Sale' AND t.timestamp BETWEEN v_start AND v_end
+          )), 0),
+          COALESCE(SUM(ti.quantity) FILTER (
+            WHERE t.transaction_type IN ('Return', 'Adjustment') AND t.timestamp BETWEEN v_start AND v_end
+          ), 0)
+        INTO v_balance, v_existing_deliveries, v_existing_sales, v_existing_other
+        FROM transaction_item ti
+        JOIN inventory_transaction t ON ti.transaction_id = t.id
+        WHERE ti.sku = v_sku
+          AND t.status = 'completed';
+
+        v_balance := v_balance + COALESCE((v_planned->>v_sku)::INTEGER, 0);
+        v_opening := v_beginning - v_balance;
+        v_added_deliveries := v_deliveries - v_existing_deliveries;
+        v_added_sales := v_sales - v_existing_sales;
+        v_correction := v_ending - (v_beginning + v_deliveries - v_sales + v_existing_other);
+
+        IF v_added_deliveries < 0 THEN
+          v_error := format('The app already has %s units delivered in this period, more than the %s on paper', v_existing_deliveries, v_deliveries);
+        ELSIF v_added_sales < 0 THEN
+          v_error := format('The app already has %s units sold in this period, more than the %s on paper', v_existing_sales, v_sales);
+        ELSIF v_product.archived_at IS NOT NULL AND (v_added_deliveries > 0 OR v_added_sales > 0) THEN
+          v_error := format('Product %s is archived; restore it first', v_sku);
+        ELSE
+          v_planned := jsonb_set(
+            v_planned,
+            ARRAY[v_sku::TEXT],
+            to_jsonb(COALESCE((v_planned->>v_sku)::INTEGER, 0) + v_opening + v_added_deliveries - v_added_sales + v_correction)
+          );
+        END IF;
+      END IF;
+
+      IF v_error IS NOT NULL THEN
+        v_errors := v_errors + 1;
+      END IF;
+
+      v_plan := v_plan || jsonb_build_object(
+        'start_date', v_start,
+        'end_date', v_end,
+        'sku', v_sku,
+        'name', v_product.name,
+        'opening_adjustment', CASE WHEN v_error IS NULL THEN v_opening ELSE 0 END,
+        'deliveries_added', CASE WHEN v_error IS NULL THEN v_added_deliveries ELSE 0 END,
+        'sales_added', CASE WHEN v_error IS NULL THEN v_added_sales ELSE 0 END,
+        'closing_adjustment', CASE WHEN v_error IS NULL THEN v_correction ELSE 0 END,
+        'error', v_error
+      );
+    END LOOP;
+  END LOOP;
+
+  -- Offer to take the import back out where later movements may already count the stock
+  FOR v_offset IN
+    SELECT value->>'sku' AS sku, value->>'name' AS name, MAX((value->>'end_date')::TIMESTAMP) AS last_end
+    FROM jsonb_array_elements(v_plan)
+    WHERE value->>'error' IS NULL
+    GROUP BY value->>'sku', value->>'name'
+    ORDER BY MAX((value->>'end_date')::TIMESTAMP), value->>'sku'
+  LOOP
+    v_net := COALESCE((v_planned->>v_offset.sku)::INTEGER, 0);
+
+    IF v_net <> 0 AND EXISTS (
+      SELECT 1
+      FROM transaction_item ti
+      JOIN inventory_transaction t ON ti.transaction_id = t.id
+      WHERE ti.sku = v_offset.sku
+        AND t.status = 'completed'
+        AND t.timestamp > v_offset.last_end
+    ) THEN
+      v_recounted := EXISTS (
+        SELECT 1
+        FROM transaction_item ti
+        JOIN inventory_transaction t ON ti.transaction_id = t.id
+        WHERE ti.sku = v_offset.sku
+          AND t.status = 'completed'
+          AND t.transaction_type = 'Adjustment'
+          AND t.adjustment_reason IN ('count_correction', 'opening_balance')
+          AND t.timestamp > v_offset.last_end
+      );
+
+      v_offsets := v_offsets || jsonb_build_object(
+        'sku', v_offset.sku,
+        'name', v_offset.name,
+        'after', v_offset.last_end,
+        'quantity', -v_net,
+        'recounted', v_recounted,
+        'applied', v_recounted OR v_offset.sku = ANY(COALESCE(p_confirmed_offsets, '{}'))
+      );
+    END IF;
+  END LOOP;
+
+  IF NOT p_dry_run THEN
+    IF v_errors > 0 THEN
+      RAISE EXCEPTION 'Fix % ledger line(s) before importing', v_errors;
+    END IF;
+
+    v_start := NULL;
+
+    FOR v_entry IN SELECT value FROM jsonb_array_elements(v_plan) LOOP
+      -- Each period gets its own transactions, created on first use
+      IF v_start IS DISTINCT FROM (v_entry->>'start_date')::TIMESTAMP THEN
+        v_start := (v_entry->>'start_date')::TIMESTAMP;
+        v_end := (v_entry->>'end_date')::TIMESTAMP;
+        v_notes := format('Imported from paper ledger, %s - %s', to_char(v_start, 'Mon DD, YYYY'), to_char(v_end, 'Mon DD, YYYY'));
+        v_opening_id := NULL;
+        v_delivery_id := NULL;
+        v_sale_id := NULL;
+        v_correction_id := NULL;
+      END IF;
+
+      SELECT * INTO v_product FROM product WHERE sku = v_entry->>'sku';
+
+      -- One microsecond early lands in this period's Beg Inv without
+      -- counting toward the previous period's movements
+      IF (v_entry->>'opening_adjustment')::INTEGER <> 0 THEN
+        IF v_opening_id IS NULL THEN
+          INSERT INTO inventory_transaction (timestamp, transaction_type, reference, performed_by, notes, adjustment_reason)
+          VALUES (v_start - INTERVAL '1 microsecond', 'Adjustment', 'LEDGER-IMPORT', v_user_id, v_notes, 'opening_balance')
+          RETURNING id INTO v_opening_id;
+          v_transactions := v_transactions + 1;
+        END IF;
+
+        INSERT INTO transaction_item (transaction_id, sku, quantity, unit_price_at_transaction, unit_cost)
+        VALUES (v_opening_id, v_product.sku, (v_entry->>'opening_adjustment')::INTEGER, v_product.price, v_product.cost);
+      END IF;
+
+      IF (v_entry->>'deliveries_added')::INTEGER > 0 THEN
+        IF v_delivery_id IS NULL THEN
+          INSERT INTO inventory_transaction (timestamp, transaction_type, reference, performed_by, notes)
+          VALUES (v_start, 'Delivery', 'LEDGER-IMPORT', v_user_id, v_notes)
+          RETURNING id INTO v_delivery_id;
+          v_transactions := v_transactions + 1;
+        END IF;
+
+        INSERT INTO transaction_item (transaction_id, sku, quantity, unit_price_at_transaction, unit_cost)
+        VALUES (v_delivery_id, v_product.sku, (v_entry->>'deliveries_added')::INTEGER, v_product.price, v_product.cost);
+      END IF;
+
+      IF (v_entry->>'sales_added')::INTEGER > 0 THEN
+        IF v_sale_id IS NULL THEN
+          INSERT INTO inventory_transaction (timestamp, transaction_type, reference, performed_by, notes)
+          VALUES (v_end, 'Sale', 'LEDGER-IMPORT', v_user_id, v_notes)
+          RETURNING id INTO v_sale_id;
+          v_transactions := v_transactions + 1;
+        END IF;
+
+        INSERT INTO transaction_item (transaction_id, sku, quantity, unit_price_at_transaction, unit_cost)
+        VALUES (v_sale_id, v_product.sku, -(v_entry->>'sales_added')::INTEGER, v_product.price, v_product.cost);
+      END IF;
+
+      IF (v_entry->>'closing_adjustment')::INTEGER <> 0 THEN
+        IF v_correction_id IS NULL THEN
+          INSERT INTO inventory_transaction (timestamp, transaction_type, reference, performed_by, notes, adjustment_reason)
+          VALUES (v_end, 'Adjustment', 'LEDGER-IMPORT', v_user_id, v_notes, 'count_correction')
+          RETURNING id INTO v_correction_id;
+          v_transactions := v_transactions + 1;
+        END IF;
+
+        INSERT INTO transaction_item (transaction_id, sku, quantity, unit_price_at_transaction, unit_cost)
+        VALUES (v_correction_id, v_product.sku, (v_entry->>'closing_adjustment')::INTEGER, v_product.price, v_product.cost);
+      END IF;
+    END LOOP;
+
+    -- One microsecond after the period lands before the next period's
+    -- movements, so it shows only in later Beg Inv figures
+    FOR v_entry IN SELECT value FROM jsonb_array_elements(v_offsets) WHERE (value->>'applied')::BOOLEAN LOOP
+      IF v_offset_at IS DISTINCT FROM (v_entry->>'after')::TIMESTAMP THEN
+        v_offset_at := (v_entry->>'after')::TIMESTAMP;
+
+        INSERT INTO inventory_transaction (timestamp, transaction_type, reference, performed_by, notes, adjustment_reason)
+        VALUES (
+          v_offset_at + INTERVAL '1 microsecond',
+          'Adjustment',
+          'LEDGER-IMPORT',
+          v_user_id,
+          'Offsets the paper ledger import; later transactions already count this stock',
+          'opening_balance'
+        )
+        RETURNING id INTO v_offset_id;
+        v_transactions := v_transactions + 1;
+      END IF;
+
+      SELECT * INTO v_product FROM product WHERE sku = v_entry->>'sku';
+
+      INSERT INTO transaction_item (transaction_id, sku, quantity, unit_price_at_transaction, unit_cost)
+      VALUES (v_offset_id, v_product.sku, (v_entry->>'quantity')::INTEGER, v_product.price, v_product.cost);
+    END LOOP;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'dry_run', p_dry_run,
+    'lines', v_plan,
+    'offsets', v_offsets,
+    'errors', v_errors,
+    'transactions', v_transactions
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION import_ledger_history(JSONB, BOOLEAN, TEXT[]) TO authenticated;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN inventory_transaction.adjustment_reason IS 'Required for Adjustments: damaged, lost, tester_opened, count_correction or opening_balance (ledger import)';
+COMMENT ON FUNCTION import_ledger_history(JSONB, BOOLEAN, TEXT[]) IS 'Posts dated opening balances and movements so past ledger periods match paper records (owners only)';
+
+COMMIT;
@@ -0,0 +1,568 @@
+-- ============================================================================
+-- Backdated Transactions
+-- ============================================================================
+-- Description: Transactions can be dated in the past, e.g. a delivery entered
+--              the next morning, so they land on the right day of the ledger.
+--              timestamp is the effective time and created_at the time the
+--              transaction was actually entered. Owners may backdate freely;
+--              staff only within shop_settings.staff_backdate_days. Nothing
+--              can be dated in the future. Backdated lines are priced and,
+--              for sales, costed as of their timestamp.
+-- Version: 1.0
+-- Date: 2025-02-02
+-- ============================================================================
+
+BEGIN;
+
+-- ----------------------------------------------------------------------------
+-- Schema Changes
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE shop_settings
+ADD COLUMN staff_backdate_days INTEGER NOT NULL DEFAULT 2 CHECK (staff_backdate_days BETWEEN 0 AND 365);
+
+-- ----------------------------------------------------------------------------
+-- Check Transaction Timestamp Function
+-- ----------------------------------------------------------------------------
+-- Runs for every way a transaction is written. created_at is always the real
+-- entry time for signed-in users. Writes without a session (migrations, seed
+-- data, the service role) are trusted as-is. A few minutes of slack absorb
+-- phone clocks running ahead of the server.
+
+CREATE OR REPLACE FUNCTION check_transaction_timestamp()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_window INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.created_at := NOW();
+    NEW.timestamp := COALESCE(NEW.timestamp, NOW());
+  ELSIF NEW.timestamp IS NOT DISTINCT FROM OLD.timestamp THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.timestamp > NOW() + INTERVAL '5 minutes' THEN
+    RAISE EXCEPTION 'Transactions cannot be dated in the future';
+  END IF;
+
+  IF NOT is_owner() THEN
+    SELECT staff_backdate_days INTO v_window FROM shop_settings WHERE id = 1;
+    v_window := COALESCE(v_window, 0);
+
+    IF NEW.timestamp < NOW() - make_interval(days => v_window) - INTERVAL '5 minutes' THEN
+      IF v_window = 0 THEN
+        RAISE EXCEPTION 'Only owners can backdate transactions';
+      END IF;
+      RAISE EXCEPTION 'Staff can only backdate transactions up to % day(s); ask an owner', v_window;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER check_transaction_timestamp_trigger
+  BEFORE INSERT OR UPDATE OF timestamp ON inventory_transaction
+  FOR EACH ROW
+  EXECUTE FUNCTION check_transaction_timestamp();
+
+-- ----------------------------------------------------------------------------
+-- Product Prices At Function
+-- ----------------------------------------------------------------------------
+-- The list price each product had at a point in time: the last change on or
+-- before it, else what the first later change replaced, else today's price.
+-- Scheduled changes count from when they were due, not when they were
+-- applied. Backdated transactions are priced with it, and the app prices a
+-- backdated cart the same way.
+
+CREATE OR REPLACE FUNCTION product_prices_at(p_skus TEXT[], p_timestamp TIMESTAMP)
+RETURNS TABLE (sku VARCHAR(50), price DECIMAL(10,2)) AS $$
+  WITH changes AS (
+    SELECT h.sku, h.id, h.old_price, h.new_price,
+      COALESCE(s.effective_at, h.changed_at) AS effective_at
+    FROM product_price_history h
+    LEFT JOIN scheduled_price_change s ON s.id = h.scheduled_price_change_id
+    WHERE h.sku = ANY(p_skus)
+  )
+  SELECT p.sku,
+    COALESCE(
+      (SELECT c.new_price FROM changes c
+       WHERE c.sku = p.sku AND c.effective_at <= p_timestamp
+       ORDER BY c.effective_at DESC, c.id DESC
+       LIMIT 1),
+      (SELECT c.old_price FROM changes c
+       WHERE c.sku = p.sku AND c.effective_at > p_timestamp
+       ORDER BY c.effective_at, c.id
+       LIMIT 1),
+      p.price
+    )
+  FROM product p
+  WHERE p.sku = ANY(p_skus);
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION product_prices_at(TEXT[], TIMESTAMP) TO authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Post Inventory Transaction Function
+-- ----------------------------------------------------------------------------
+-- Adds p_timestamp, the effective time; null means now. A backdated Sale is
+-- checked against stock as it stood then, and may not take any later point
+-- of the SKU's history below zero either. Backdated lines are priced with
+-- product_prices_at. A backdated Sale's cost is what the last delivery up to
+-- then was bought at, and a backdated delivery only becomes the product's
+-- cost when no later delivery has set one.
+
+DROP FUNCTION IF EXISTS post_inventory_transaction(VARCHAR, JSONB, VARCHAR, TEXT, INTEGER, VARCHAR, BOOLEAN, TEXT, INTEGER, VARCHAR, DECIMAL, TEXT, JSONB);
+
+CREATE OR REPLACE FUNCTION post_inventory_transaction(
+  p_transaction_type VARCHAR(20),
+  p_items JSONB,
+  p_reference VARCHAR(100) DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_customer_id INTEGER DEFAULT NULL,
+  p_adjustment_reason VARCHAR(30) DEFAULT NULL,
+  p_override_stock BOOLEAN DEFAULT FALSE,
+  p_override_note TEXT DEFAULT NULL,
+  p_supplier_id INTEGER DEFAULT NULL,
+  p_discount_type VARCHAR(10) DEFAULT NULL,
+  p_discount_value DECIMAL(10,2) DEFAULT NULL,
+  p_discount_reason TEXT DEFAULT NULL,
+  p_payments JSONB DEFAULT NULL,
+  p_timestamp TIMESTAMP DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id VARCHAR(255);
+  v_transaction_id INTEGER;
+  v_item JSONB;
+  v_sku VARCHAR(50);
+  v_quantity INTEGER;
+  v_price DECIMAL(10,2);
+  v_cost DECIMAL(10,2);
+  v_effective_at TIMESTAMP;
+  v_line_discount_type VARCHAR(10);
+  v_line_discount_value DECIMAL(10,2);
+  v_line_discount DECIMAL(10,2);
+  v_gross DECIMAL(10,2);
+  v_subtotal DECIMAL(10,2) := 0;
+  v_discount DECIMAL(10,2) := 0;
+  v_any_discount BOOLEAN := FALSE;
+  v_price_override BOOLEAN := FALSE;
+  v_staff_limit INTEGER;
+  v_gross_total DECIMAL(10,2) := 0;
+  v_over_limit BOOLEAN := FALSE;
+  v_payment JSONB;
+  v_method VARCHAR(20);
+  v_amount DECIMAL(10,2);
+  v_tendered DECIMAL(10,2);
+  v_paid DECIMAL(10,2) := 0;
+  v_total DECIMAL(10,2);
+  v_shortage RECORD;
+  v_shortages TEXT := '';
+  v_result JSONB;
+BEGIN
+  v_user_id := auth.uid()::text;
+  v_effective_at := COALESCE(p_timestamp, NOW());
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to post transactions';
+  END IF;
+
+  IF p_transaction_type NOT IN ('Delivery', 'Sale', 'Adjustment') THEN
+    RAISE EXCEPTION 'Invalid transaction type. Must be "Delivery", "Sale" or "Adjustment"';
+  END IF;
+
+  IF p_transaction_type = 'Adjustment' AND p_adjustment_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required for stock adjustments';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one transaction item is required';
+  END IF;
+
+  IF p_supplier_id IS NOT NULL AND p_transaction_type <> 'Delivery' THEN
+    RAISE EXCEPTION 'Only deliveries can have a supplier';
+  END IF;
+
+  IF p_customer_id IS NOT NULL AND p_transaction_type <> 'Sale' THEN
+    RAISE EXCEPTION 'Only sales can have a customer';
+  END IF;
+
+  IF p_discount_type IS NOT NULL AND p_discount_type NOT IN ('amount', 'percent') THEN
+    RAISE EXCEPTION 'Invalid discount type. Must be "amount" or "percent"';
+  END IF;
+
+  SELECT staff_discount_limit INTO v_staff_limit FROM shop_settings WHERE id = 1;
+  v_staff_limit := COALESCE(v_staff_limit, 0);
+
+  IF p_override_stock THEN
+    IF NOT is_owner() THEN
+      RAISE EXCEPTION 'Only owners can override the stock check';
+    END IF;
+
+    IF p_override_note IS NULL OR LENGTH(TRIM(p_override_note)) = 0 THEN
+      RAISE EXCEPTION 'A note is required to override the stock check';
+    END IF;
+  END IF;
+
+  -- Due scheduled price changes take effect before prices are snapshotted,
+  -- whether or not pg_cron has got to them yet
+  PERFORM apply_scheduled_price_changes();
+
+  IF p_transaction_type = 'Sale' THEN
+    PERFORM 1
+    FROM product p
+    WHERE p.sku IN (SELECT UPPER(TRIM(i->>'sku')) FROM jsonb_array_elements(p_items) i)
+    ORDER BY p.sku
+    FOR UPDATE;
+
+    FOR v_shortage IN
+      SELECT
+        req.sku,
+        req.requested,
+        -- LEAST skips the null when nothing was recorded after the effective time
+        LEAST(
+          COALESCE((
+            SELECT SUM(ti.quantity)
+            FROM transaction_item ti
+            JOIN inventory_transaction t ON ti.transaction_id = t.id
+            WHERE ti.sku = req.sku
+              AND t.status = 'completed'
+              AND t.timestamp <= v_effective_at
+          ), 0),
+          (
+            SELECT MIN(b.balance)
+            FROM (
+              SELECT t.timestamp, SUM(ti.quantity) OVER (ORDER BY t.timestamp, ti.id) AS balance
+              FROM transaction_item ti
+              JOIN inventory_transaction t ON ti.transaction_id = t.id
+              WHERE ti.sku = req.sku
+                AND t.status = 'completed'
+            ) b
+            WHERE b.timestamp > v_effective_at
+          )
+        ) AS available
+      FROM (
+        SELECT UPPER(TRIM(i->>'sku')) AS sku, SUM(ABS((i->>'quantity')::NUMERIC))::INTEGER AS requested
+        FROM jsonb_array_elements(p_items) i
+        WHERE jsonb_typeof(i->'quantity') = 'number'
+        GROUP BY UPPER(TRIM(i->>'sku'))
+      ) req
+      ORDER BY req.sku
+    LOOP
+      IF v_shortage.requested > v_shortage.available THEN
+        v_shortages := v_shortages || CASE WHEN v_shortages = '' THEN '' ELSE '; ' END ||
+          format('%s (requested %s, available %s)', v_shortage.sku, v_shortage.requested, GREATEST(v_shortage.available, 0));
+      END IF;
+    END LOOP;
+
+    IF v_shortages <> '' AND NOT p_override_stock THEN
+      RAISE EXCEPTION 'Insufficient stock: %', v_shortages
+        USING HINT = 'insufficient_stock';
+    END IF;
+  END IF;
+
+  -- The timestamp trigger rejects future dates and staff backdating beyond the window
+  INSERT INTO inventory_transaction (timestamp, transaction_type, reference, performed_by, notes, customer_id, adjustment_reason, stock_override_note, supplier_id)
+  VALUES (
+    v_effective_at,
+    p_transaction_type,
+    NULLIF(TRIM(p_reference), ''),
+    v_user_id,
+    NULLIF(TRIM(p_notes), ''),
+    p_customer_id,
+    CASE WHEN p_transaction_type = 'Adjustment' THEN p_adjustment_reason ELSE NULL END,
+    -- Only kept when the override was actually needed
+    CASE WHEN v_shortages <> '' THEN TRIM(p_override_note) ELSE NULL END,
+    p_supplier_id
+  )
+  RETURNING id INTO v_transaction_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_sku := UPPER(TRIM(v_item->>'sku'));
+
+    IF v_sku IS NULL OR v_sku = '' THEN
+      RAISE EXCEPTION 'Valid SKU is required for all items';
+    END IF;
+
+    IF jsonb_typeof(v_item->'quantity') <> 'number' OR (v_item->>'quantity')::NUMERIC <> TRUNC((v_item->>'quantity')::NUMERIC) THEN
+      RAISE EXCEPTION 'Valid quantity is required for all items (SKU %)', v_sku;
+    END IF;
+
+    v_quantity := (v_item->>'quantity')::INTEGER;
+
+    IF v_quantity = 0 THEN
+      RAISE EXCEPTION 'Valid quantity is required for all items (SKU %)', v_sku;
+    END IF;
+
+    -- Snapshot the current price and cost for historical accuracy
+    SELECT price, cost INTO v_price, v_cost FROM product WHERE sku = v_sku;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found: %', v_sku;
+    END IF;
+
+    IF p_timestamp IS NOT NULL THEN
+      SELECT price INTO v_price FROM product_prices_at(ARRAY[v_sku], v_effective_at);
+    END IF;
+
+    IF p_transaction_type = 'Sale' AND p_timestamp IS NOT NULL THEN
+      v_cost := COALESCE(
+        (SELECT ti.unit_cost
+         FROM transaction_item ti
+         JOIN inventory_transaction t ON ti.transaction_id = t.id
+         WHERE ti.sku = v_sku
+           AND t.transaction_type = 'Delivery'
+           AND t.status = 'completed'
+           AND t.timestamp <= v_effective_at
+           AND ti.unit_cost IS NOT NULL
+         ORDER BY t.timestamp DESC, ti.id DESC
+         LIMIT 1),
+        v_cost
+      );
+    END IF;
+
+    IF p_transaction_type = 'Sale' THEN
+      v_quantity := -ABS(v_quantity);
+    ELSIF p_transaction_type = 'Delivery' THEN
+      v_quantity := ABS(v_quantity);
+    END IF;
+
+    -- Deliveries record what was paid per unit, which becomes the product's
+    -- current cost; without one, the supplier's listed cost is assumed
+    IF v_item->'unit_cost' IS NOT NULL AND jsonb_typeof(v_item->'unit_cost') <> 'null' THEN
+      IF p_transaction_type <> 'Delivery' THEN
+        RAISE EXCEPTION 'Unit cost can only be entered on deliveries';
+      END IF;
+
+      IF jsonb_typeof(v_item->'unit_cost') <> 'number' OR (v_item->>'unit_cost')::DECIMAL < 0 THEN
+        RAISE EXCEPTION 'Unit cost for % must be zero or more', v_sku;
+      END IF;
+
+      v_cost := (v_item->>'unit_cost')::DECIMAL(10,2);
+
+      UPDATE product
+      SET cost = v_cost
+      WHERE sku = v_sku
+        AND NOT EXISTS (
+          SELECT 1
+          FROM transaction_item ti
+          JOIN inventory_transaction t ON ti.transaction_id = t.id
+          WHERE ti.sku = v_sku
+            AND t.transaction_type = 'Delivery'
+            AND t.status = 'completed'
+            AND t.timestamp > v_effective_at
+            AND ti.unit_cost IS NOT NULL
+        );
+    ELSIF p_transaction_type = 'Delivery' AND p_supplier_id IS NOT NULL THEN
+      v_cost := COALESCE(
+        (SELECT ps.unit_cost FROM product_supplier ps WHERE ps.product_sku = v_sku AND ps.supplier_id = p_supplier_id),
+        v_cost
+      );
+    END IF;
+
+    -- Line discount: pesos off the line, percent off, or a manually set unit price
+    v_line_discount_type := NULLIF(v_item->'discount'->>'type', '');
+    v_line_discount_value := (v_item->'discount'->>'value')::DECIMAL(10,2);
+    v_gross := ABS(v_quantity) * v_price;
+    v_line_discount := 0;
+
+    IF v_line_discount_type IS NOT NULL THEN
+      IF p_transaction_type <> 'Sale' THEN
+        RAISE EXCEPTION 'Discounts can only be given on sales';
+      END IF;
+
+      IF v_line_discount_value IS NULL OR v_line_discount_value < 0 THEN
+        RAISE EXCEPTION 'Discount for % must be a positive number', v_sku;
+      END IF;
+
+      IF v_line_discount_type = 'percent' THEN
+        IF v_line_discount_value > 100 THEN
+          RAISE EXCEPTION 'Discount for % cannot exceed 100%%', v_sku;
+        END IF;
+        v_line_discount := ROUND(v_gross * v_line_discount_value / 100, 2);
+      ELSIF v_line_discount_type = 'amount' THEN
+        IF v_line_discount_value > v_gross THEN
+          RAISE EXCEPTION 'Discount for % cannot exceed the line total of %', v_sku, v_gross;
+        END IF;
+        v_line_discount := v_line_discount_value;
+      ELSIF v_line_discount_type = 'price' THEN
+        IF v_line_discount_value > v_price THEN
+          RAISE EXCEPTION 'Override price for % cannot exceed the list price of %', v_sku, v_price;
+        END IF;
+        v_line_discount := (v_price - v_line_discount_value) * ABS(v_quantity);
+        v_price_override := TRUE;
+      ELSE
+        RAISE EXCEPTION 'Invalid discount type for %', v_sku;
+      END IF;
+
+      v_any_discount := TRUE;
+
+      IF v_line_discount > ROUND(v_gross * v_staff_limit / 100, 2) THEN
+        v_over_limit := TRUE;
+      END IF;
+    END IF;
+
+    v_gross_total := v_gross_total + v_gross;
+    v_subtotal := v_subtotal + v_gross - v_line_discount;
+
+    INSERT INTO transaction_item (
+      transaction_id, sku, quantity, unit_price_at_transaction, note,
+      discount_type, discount_value, discount_amount, unit_cost
+    )
+    VALUES (
+      v_transaction_id, v_sku, v_quantity, v_price, NULLIF(TRIM(v_item->>'note'), ''),
+      v_line_discount_type, v_line_discount_value, v_line_discount, v_cost
+    );
+  END LOOP;
+
+  -- Whole-sale discount comes off what is left after line discounts
+  IF p_discount_type IS NOT NULL THEN
+    IF p_transaction_type <> 'Sale' THEN
+      RAISE EXCEPTION 'Discounts can only be given on sales';
+    END IF;
+
+    IF p_discount_value IS NULL OR p_discount_value < 0 THEN
+      RAISE EXCEPTION 'Discount must be a positive number';
+    END IF;
+
+    IF p_discount_type = 'percent' THEN
+      IF p_discount_value > 100 THEN
+        RAISE EXCEPTION 'Discount cannot exceed 100%%';
+      END IF;
+      v_discount := ROUND(v_subtotal * p_discount_value / 100, 2);
+    ELSE
+      IF p_discount_value > v_subtotal THEN
+        RAISE EXCEPTION 'Discount cannot exceed the sale total of %', v_subtotal;
+      END IF;
+      v_discount := p_discount_value;
+    END IF;
+
+    v_any_discount := TRUE;
+  END IF;
+
+  IF v_any_discount THEN
+    -- Staff may take up to shop_settings.staff_discount_limit percent off each
+    -- line and off the sale as a whole; setting a price or going further needs
+    -- an owner
+    IF NOT is_owner() THEN
+      IF v_price_override THEN
+        RAISE EXCEPTION 'Only owners can override prices';
+      END IF;
+
+      IF v_over_limit OR v_gross_total - v_subtotal + v_discount > ROUND(v_gross_total * v_staff_limit / 100, 2) THEN
+        RAISE EXCEPTION 'Discounts over % percent need an owner', v_staff_limit;
+      END IF;
+    END IF;
+
+    IF p_discount_reason IS NULL OR LENGTH(TRIM(p_discount_reason)) = 0 THEN
+      RAISE EXCEPTION 'A reason is required for discounts and price overrides';
+    END IF;
+
+    UPDATE inventory_transaction
+    SET discount_type = p_discount_type,
+        discount_value = p_discount_value,
+        discount_amount = v_discount,
+        discount_reason = TRIM(p_discount_reason)
+    WHERE id = v_transaction_id;
+  END IF;
+
+  IF p_transaction_type = 'Sale' THEN
+    PERFORM apply_sale_vat(v_transaction_id);
+  END IF;
+
+  -- Payments: Sales need at least one, and together they must cover the total due
+  IF p_transaction_type <> 'Sale' THEN
+    IF p_payments IS NOT NULL AND jsonb_typeof(p_payments) = 'array' AND jsonb_array_length(p_payments) > 0 THEN
+      RAISE EXCEPTION 'Only sales can have payments';
+    END IF;
+  ELSE
+    IF p_payments IS NULL OR jsonb_typeof(p_payments) <> 'array' OR jsonb_array_length(p_payments) = 0 THEN
+      RAISE EXCEPTION 'At least one payment is required for sales';
+    END IF;
+
+    FOR v_payment IN SELECT * FROM jsonb_array_elements(p_payments)
+    LOOP
+      v_method := v_payment->>'method';
+      v_amount := (v_payment->>'amount')::DECIMAL(10,2);
+      v_tendered := (v_payment->>'tendered')::DECIMAL(10,2);
+
+      IF v_method IS NULL OR v_method NOT IN ('cash', 'ewallet', 'card', 'bank_transfer', 'store_credit') THEN
+        RAISE EXCEPTION 'Invalid payment method: %', COALESCE(v_method, 'none');
+      END IF;
+
+      IF v_amount IS NULL OR v_amount <= 0 THEN
+        RAISE EXCEPTION 'Payment amounts must be greater than zero';
+      END IF;
+
+      IF v_method = 'store_credit' AND p_customer_id IS NULL THEN
+        RAISE EXCEPTION 'Store credit can only be used on a sale with a customer';
+      END IF;
+
+      -- Only cash is tendered and gets change back
+      IF v_tendered IS NOT NULL THEN
+        IF v_method <> 'cash' THEN
+          RAISE EXCEPTION 'Only cash payments can have an amount tendered';
+        END IF;
+        IF v_tendered < v_amount THEN
+          RAISE EXCEPTION 'Cash tendered (%) is less than the amount paid (%)', v_tendered, v_amount;
+        END IF;
+      END IF;
+
+      INSERT INTO transaction_payment (transaction_id, method, amount, tendered, reference)
+      VALUES (v_transaction_id, v_method, v_amount, v_tendered, NULLIF(TRIM(v_payment->>'reference'), ''));
+
+      v_paid := v_paid + v_amount;
+    END LOOP;
+
+    SELECT COALESCE(SUM(gross_amount), 0) INTO v_total
+    FROM transaction_item
+    WHERE transaction_id = v_transaction_id;
+
+    IF v_paid <> v_total THEN
+      RAISE EXCEPTION 'Payments (%) must add up to the sale total (%)', v_paid, v_total
+        USING HINT = 'payment_mismatch';
+    END IF;
+  END IF;
+
+  SELECT to_jsonb(t) || jsonb_build_object(
+    'transaction_item',
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(ti) ORDER BY ti.id)
+       FROM transaction_item ti
+       WHERE ti.transaction_id = t.id),
+      '[]'::jsonb
+    ),
+    'transaction_payment',
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(tp) ORDER BY tp.id)
+       FROM transaction_payment tp
+       WHERE tp.transaction_id = t.id),
+      '[]'::jsonb
+    )
+  )
+  INTO v_result
+  FROM inventory_transaction t
+  WHERE t.id = v_transaction_id;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION post_inventory_transaction(VARCHAR, JSONB, VARCHAR, TEXT, INTEGER, VARCHAR, BOOLEAN, TEXT, INTEGER, VARCHAR, DECIMAL, TEXT, JSONB, TIMESTAMP) TO authenticated;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN inventory_transaction.timestamp IS 'Effective time the stock moved; may be backdated';
+COMMENT ON COLUMN inventory_transaction.created_at IS 'When the transaction was actually entered';
+COMMENT ON FUNCTION product_prices_at(TEXT[], TIMESTAMP) IS 'List price of each product in effect at a point in time';
+COMMENT ON COLUMN shop_settings.staff_backdate_days IS 'How many days back staff may date a transaction; owners are not limited';
+
+COMMIT;
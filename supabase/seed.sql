@@ -99,6 +99,38 @@ INSERT INTO product (sku, name, volume_ml, price, min_stock_threshold, descripti
 ('DIESEL-120', 'Diesel', 120, 62.00, 3, 'Diesel Only The Brave - Men''s fragrance', '00000000-0000-0000-0000-000000000001', NOW(), NOW()),
 ('ARMANI-CODE-120', 'Armani Code', 120, 75.00, 3, 'Giorgio Armani Code - Men''s fragrance', '00000000-0000-0000-0000-000000000001', NOW(), NOW());
 
+-- ============================================================================
+-- SEED FRAGRANCES
+-- ============================================================================
+-- Scents stocked in more than one bottle size; each size stays its own product
+
+INSERT INTO fragrance (name, brand, concentration, gender) VALUES
+('Sauvage', 'Dior', 'EDT', 'men'),
+('Sauvage', 'Dior', 'Elixir', 'men'),
+('J''adore', 'Dior', 'EDP', 'women'),
+('Good Girl', 'Carolina Herrera', 'EDP', 'women'),
+('Aventus', 'Creed', 'EDP', 'men');
+
+UPDATE product SET fragrance_id = (SELECT id FROM fragrance WHERE name = 'Sauvage' AND concentration = 'EDT')
+WHERE sku IN ('DIOR-SAUVAGE-65', 'DIOR-SAUVAGE-120');
+UPDATE product SET fragrance_id = (SELECT id FROM fragrance WHERE name = 'Sauvage' AND concentration = 'Elixir')
+WHERE sku IN ('ELIXIR-DIOR-65', 'ELIXIR-DIOR-100');
+UPDATE product SET fragrance_id = (SELECT id FROM fragrance WHERE name = 'J''adore')
+WHERE sku IN ('JADORE-100', 'JADORE-120');
+UPDATE product SET fragrance_id = (SELECT id FROM fragrance WHERE name = 'Good Girl')
+WHERE sku IN ('GOOD-GIRL-65', 'GOOD-GIRL-100');
+UPDATE product SET fragrance_id = (SELECT id FROM fragrance WHERE name = 'Aventus')
+WHERE sku IN ('CREED-65', 'CREED-100');
+
+-- ============================================================================
+-- SEED CATEGORIES AND TAGS
+-- ============================================================================
+
+UPDATE product SET category = 'Men' WHERE description ILIKE '%men''s%' AND description NOT ILIKE '%women''s%';
+UPDATE product SET category = 'Women' WHERE description ILIKE '%women''s%';
+UPDATE product SET category = 'Unisex' WHERE description ILIKE '%unisex%';
+UPDATE product SET tags = ARRAY['luxury'] WHERE description ILIKE '%luxury%';
+
 -- ============================================================================
 -- SEED BEGINNING INVENTORY (Initial Stock)
 -- ============================================================================